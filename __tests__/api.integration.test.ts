@@ -1,4 +1,5 @@
 import request from 'supertest';
+import sharp from 'sharp';
 import QRCodeGeneratorApp from '../src/app';
 
 describe('QR Code Generator API Integration Tests', () => {
@@ -128,6 +129,349 @@ describe('QR Code Generator API Integration Tests', () => {
         .expect(200);
 
       expect(jpegResponse.headers['content-type']).toContain('image/jpeg');
+
+      // Test GIF format
+      const gifResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'test', format: 'gif', color: '#1a237e', bgcolor: '#fff8e1' })
+        .expect(200);
+
+      expect(gifResponse.headers['content-type']).toContain('image/gif');
+      expect(gifResponse.body.subarray(0, 6).toString('ascii')).toBe('GIF89a');
+
+      // Test EPS format
+      const epsResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'test', format: 'eps' })
+        .expect(200);
+
+      expect(epsResponse.headers['content-type']).toContain('application/postscript');
+
+      // Test WebP and AVIF formats
+      const webpResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'test', format: 'webp' })
+        .expect(200);
+
+      expect(webpResponse.headers['content-type']).toContain('image/webp');
+
+      const avifResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'test', format: 'avif', quality: 60 })
+        .expect(200);
+
+      expect(avifResponse.headers['content-type']).toContain('image/avif');
+    });
+
+    it('should render module styles in raster and SVG output', async () => {
+      const pngResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'styled', module_style: 'dots', size: '250x250' })
+        .expect(200);
+
+      expect(pngResponse.headers['content-type']).toContain('image/png');
+      expect(pngResponse.body.readUInt32BE(16)).toBe(250);
+
+      const jpegResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'styled', module_style: 'rounded', format: 'jpeg' })
+        .expect(200);
+
+      expect(jpegResponse.headers['content-type']).toContain('image/jpeg');
+
+      const svgResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'styled', module_style: 'classy', format: 'svg' })
+        .expect(200);
+
+      expect(svgResponse.text || svgResponse.body.toString()).toContain('a0.5 0.5 0 0 1');
+
+      // Styles are part of the cache key
+      const squareResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'styled', size: '250x250' })
+        .expect(200);
+
+      expect(squareResponse.headers['x-qr-code-id']).not.toBe(pngResponse.headers['x-qr-code-id']);
+      expect(squareResponse.body.equals(pngResponse.body)).toBe(false);
+    });
+
+    it('should render styled eyes', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'eyes', format: 'svg', eye_frame: 'circle', eye_ball: 'circle', eye_color_tl: '#b71c1c' })
+        .expect(200);
+
+      expect(response.body.toString()).toContain('<path fill="#b71c1c" fill-rule="evenodd"');
+    });
+
+    it('should render gradient foregrounds', async () => {
+      const svgResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'gradient', format: 'svg', gradient_type: 'radial', gradient_colors: '#000000, #0d47a1' })
+        .expect(200);
+
+      expect(svgResponse.body.toString()).toContain('<radialGradient id="qr-foreground"');
+
+      const pngResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'gradient', gradient_colors: '#b71c1c, #0d47a1', gradient_angle: 0 })
+        .expect(200);
+
+      expect(pngResponse.headers['content-type']).toContain('image/png');
+    });
+
+    it('should keep transparency in PNG and flatten JPEG onto the matte', async () => {
+      const pngResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'transparent', bgcolor: 'transparent', margin: 2 })
+        .expect(200);
+
+      const png = await sharp(pngResponse.body).raw().toBuffer({ resolveWithObject: true });
+      expect(png.info.channels).toBe(4);
+      expect(png.data[3]).toBe(0);
+
+      const jpegResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'transparent', format: 'jpg', color: '#ffffff', bgcolor: 'transparent', matte: '#000000', margin: 2 })
+        .expect(200);
+
+      const jpeg = await sharp(jpegResponse.body).raw().toBuffer({ resolveWithObject: true });
+      expect(jpeg.info.channels).toBe(3);
+      expect(jpeg.data[0]).toBeLessThan(16);
+    });
+
+    it('should reject transparent colors for PDF and translucent mattes', async () => {
+      const pdfResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'transparent', format: 'pdf', bgcolor: 'transparent' })
+        .expect(400);
+
+      expect(pdfResponse.body.error.details[0].field).toBe('bgcolor');
+
+      const matteResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'transparent', format: 'jpg', matte: '#ffffff80' })
+        .expect(400);
+
+      expect(matteResponse.body.error.details[0].field).toBe('matte');
+    });
+
+    it('should enlarge the image to fit a call-to-action frame', async () => {
+      const pngResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'framed', frame: 'banner', frame_text_size: 20, size: '200x200' })
+        .expect(200);
+
+      const png = await sharp(pngResponse.body).metadata();
+      expect([png.width, png.height]).toEqual([212, 248]);
+
+      const jpegResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'framed', frame: 'bubble', format: 'jpg' })
+        .expect(200);
+
+      expect(jpegResponse.headers['content-type']).toContain('image/jpeg');
+
+      const svgResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'framed', frame: 'box', frame_text: 'Menu', format: 'svg' })
+        .expect(200);
+
+      const svg = svgResponse.body.toString();
+      expect(svg).toContain('>Menu</text>');
+      expect(svg).toContain('<svg x="6" y="6" width="200" height="200"');
+    });
+
+    it('should render non-square sizes exactly with the quiet zone inside the margin', async () => {
+      const pngResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'wide', size: '300x150', margin: 10, qzone: 2 })
+        .expect(200);
+
+      const png = await sharp(pngResponse.body).metadata();
+      expect([png.width, png.height]).toEqual([300, 150]);
+
+      const withoutQuietZone = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'wide', size: '300x150', margin: 10 })
+        .expect(200);
+
+      expect(Buffer.compare(pngResponse.body, withoutQuietZone.body)).not.toBe(0);
+
+      await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'wide', size: '40x40', margin: 20 })
+        .expect(400);
+    });
+
+    it('should accept margin and quiet zone as query parameters', async () => {
+      const fromQuery = await request(server)
+        .get('/v1/create-qr-code?data=hi&format=svg&qzone=4&margin=10')
+        .expect(200);
+      const fromBody = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'hi', format: 'svg', qzone: 4, margin: 10 })
+        .expect(200);
+
+      expect(fromQuery.body.toString()).toBe(fromBody.body.toString());
+
+      await request(server)
+        .get('/v1/create-qr-code?data=Terminal&format=txt&qzone=2')
+        .expect(200);
+      await request(server)
+        .get('/v1/create-qr-code?data=hi&qzone=wide')
+        .expect(400);
+    });
+
+    it('should honor a zero margin and quiet zone', async () => {
+      const defaults = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'edge to edge', format: 'svg', qzone: 2 })
+        .expect(200);
+      const zeroMargin = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'edge to edge', format: 'svg', qzone: 2, margin: 0 })
+        .expect(200);
+
+      expect(zeroMargin.headers['x-cache-status']).toBe('MISS');
+      expect(zeroMargin.body.toString()).not.toBe(defaults.body.toString());
+
+      const zeroQuietZone = await request(server)
+        .get('/v1/create-qr-code?data=edge+to+edge&format=svg&qzone=0&margin=0')
+        .expect(200);
+      const omitted = await request(server)
+        .get('/v1/create-qr-code?data=edge+to+edge&format=svg&margin=0')
+        .expect(200);
+
+      expect(zeroQuietZone.body.toString()).toBe(omitted.body.toString());
+    });
+
+    it('should decode query data from the source charset and encode it in the target charset', async () => {
+      const fromText = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'Việt café', format: 'svg' })
+        .expect(200);
+
+      // "Việt café" in Windows-1258, where ệ is ê followed by a combining dot below
+      const fromLegacyBytes = await request(server)
+        .get('/v1/create-qr-code?data=Vi%EA%F2t+caf%E9&charset-source=Windows-1258&format=svg')
+        .expect(200);
+
+      expect(fromLegacyBytes.body.toString()).toBe(fromText.body.toString());
+
+      const latin1 = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'café', format: 'svg', 'charset-target': 'ISO-8859-1' })
+        .expect(200);
+      const utf8 = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'café', format: 'svg' })
+        .expect(200);
+
+      expect(latin1.body.toString()).not.toBe(utf8.body.toString());
+    });
+
+    it('should reject data the target charset cannot hold', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'café', 'charset-target': 'Shift_JIS' })
+        .expect(400);
+
+      expect(response.body.error.message).toContain('cannot be encoded in Shift_JIS');
+
+      await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'Việt', 'charset-target': 'Windows-1258' })
+        .expect(400);
+    });
+
+    it('should honor an explicit version and mask pattern', async () => {
+      const automatic = await request(server)
+        .get('/v1/create-qr-code?data=LABEL-001&format=svg')
+        .expect(200);
+
+      const fixed = await request(server)
+        .get('/v1/create-qr-code?data=LABEL-001&format=svg&version=10&mask=0')
+        .expect(200);
+
+      expect(fixed.body.toString()).not.toBe(automatic.body.toString());
+
+      const tooLong = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'x'.repeat(100), version: 2, ecc: 'H' })
+        .expect(400);
+
+      expect(tooLong.body.error.details[0].message).toBe(
+        'Data does not fit in version 2 at error correction level H: at most 14 of its 100 characters fit. ' +
+        'The smallest version that fits is 10'
+      );
+
+      await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'LABEL-001', mask: 8 })
+        .expect(400);
+    });
+
+    it('should only answer with JSON when it is asked for', async () => {
+      const image = await request(server)
+        .get('/v1/create-qr-code')
+        .set('Accept', 'application/json, text/plain, */*')
+        .query({ data: 'Opt-in JSON' })
+        .expect(200);
+
+      expect(image.headers['content-type']).toContain('image/png');
+
+      const queried = await request(server)
+        .get('/v1/create-qr-code')
+        .query({ data: 'Opt-in JSON', response: 'json' })
+        .expect(200);
+
+      expect(queried.headers['content-type']).toContain('application/json');
+      expect(queried.body.data.mimeType).toBe('image/png');
+
+      const posted = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'Opt-in JSON', response: 'json' })
+        .expect(200);
+
+      expect(posted.body.data.image).toBe(queried.body.data.image);
+    });
+
+    it('should report the encoded segments when JSON is requested', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .set('Accept', 'application/json')
+        .send({ data: 'SN-00123456789012345678', ecc: 'M' })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/json');
+      expect(response.body.data.mimeType).toBe('image/png');
+      expect(Buffer.from(response.body.data.image, 'base64').subarray(1, 4).toString('ascii')).toBe('PNG');
+      expect(response.body.data.symbol).toMatchObject({
+        version: 1,
+        errorCorrectionLevel: 'M',
+        segments: [
+          { mode: 'alphanumeric', characterCount: 3 },
+          { mode: 'numeric', characterCount: 20 }
+        ]
+      });
+
+      const byteMode = await request(server)
+        .post('/v1/create-qr-code')
+        .set('Accept', 'application/json')
+        .send({ data: 'SN-00123456789012345678', ecc: 'M', mode: 'byte' })
+        .expect(200);
+
+      expect(byteMode.body.data.symbol.segments).toEqual([{ mode: 'byte', characterCount: 23 }]);
+      expect(byteMode.body.data.symbol.version).toBe(2);
+
+      const unsupported = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'SN-001', mode: 'numeric' })
+        .expect(400);
+
+      expect(unsupported.body.error.message).toContain('cannot be encoded in numeric mode');
     });
 
     it('should handle custom colors', async () => {
@@ -198,6 +542,22 @@ describe('QR Code Generator API Integration Tests', () => {
       expect(time2).toBeLessThan(time1); // Cached request should be faster
     });
 
+    it('should share cache entries between equivalent color notations', async () => {
+      const hexResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'css colors', color: '#663399', bgcolor: '#ffffff' })
+        .expect(200);
+
+      const cssResponse = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'css colors', color: 'rebeccapurple', bgcolor: 'hsl(0 0% 100%)' })
+        .expect(200);
+
+      expect(hexResponse.headers['x-cache-status']).toBe('MISS');
+      expect(cssResponse.headers['x-cache-status']).toBe('HIT');
+      expect(cssResponse.headers['x-qr-code-id']).toBe(hexResponse.headers['x-qr-code-id']);
+    });
+
     it('should work with user-friendly /create-qr-code endpoint', async () => {
       const response = await request(server)
         .post('/create-qr-code')
@@ -239,14 +599,494 @@ describe('QR Code Generator API Integration Tests', () => {
     });
 
     it('should handle large data payloads gracefully', async () => {
-      const largeData = 'x'.repeat(1000); // Exceeds 900 character limit
+      const largeData = 'x'.repeat(3000); // Exceeds the 2953 bytes of version 40 at level L
 
       const response = await request(server)
         .post('/v1/create-qr-code')
-        .send({ data: largeData })
+        .send({ data: largeData, ecc: 'L' })
         .expect(400);
 
       expect(response.body.success).toBe(false);
+      expect(response.body.error.details[0].message).toContain('at most 2953 of its 3000 characters fit in version 40');
+    });
+  });
+
+  describe('Matrix Output', () => {
+    it('should return the module grid as JSON through the cache', async () => {
+      const first = await request(server)
+        .get('/v1/create-qr-code')
+        .query({ data: 'Draw me', format: 'matrix', ecc: 'H' })
+        .expect(200);
+
+      expect(first.headers['content-type']).toContain('application/json');
+      expect(first.headers['x-cache-status']).toBe('MISS');
+      expect(first.body).toMatchObject({ version: 1, errorCorrectionLevel: 'H', size: 21 });
+      expect(first.body.modules).toHaveLength(21);
+      expect(first.body.functionPatterns.finder[0][0]).toBe(true);
+      expect(first.body.functionPatterns.timing[6][8]).toBe(true);
+
+      const second = await request(server)
+        .get('/v1/create-qr-code')
+        .query({ data: 'Draw me', format: 'matrix', ecc: 'H' })
+        .set('Accept', 'application/json')
+        .expect(200);
+
+      expect(second.headers['x-cache-status']).toBe('HIT');
+      expect(second.body).toEqual(first.body);
+    });
+
+    it('should reject styling that a module grid cannot carry', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'Draw me', format: 'matrix', logo: 'google' })
+        .expect(400);
+
+      expect(response.body.error.details[0].message).toBe('Logo overlay is not supported for MATRIX output');
+    });
+  });
+
+  describe('Text Output', () => {
+    it('should draw the code as plain text with the quiet zone', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'Terminal', format: 'utf8', qzone: 2 })
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('text/plain; charset=utf-8');
+      const lines = response.text.split('\n').slice(0, -1);
+      expect(lines).toHaveLength(13);
+      expect(lines[0]).toBe(' '.repeat(25));
+      expect(lines[1].substring(0, 9)).toBe('  █▀▀▀▀▀█');
+    });
+
+    it('should reject logos for text output', async () => {
+      await request(server)
+        .get('/v1/create-qr-code')
+        .query({ data: 'Terminal', format: 'txt', logo: 'google' })
+        .expect(400);
+    });
+  });
+
+  describe('Data Matrix and Aztec', () => {
+    it('should render Data Matrix symbols', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: '123456', symbology: 'datamatrix', format: 'txt', qzone: 1 })
+        .expect(200);
+
+      const lines = response.text.split('\n').slice(0, -1);
+      expect(lines).toHaveLength(12);
+      expect(lines[1]).toBe('  ' + '##  '.repeat(5) + '  ');
+      expect(lines[10]).toBe('  ' + '##'.repeat(10) + '  ');
+    });
+
+    it.each([
+      ['datamatrix', 'png', 'image/png'],
+      ['datamatrix', 'svg', 'image/svg+xml'],
+      ['aztec', 'png', 'image/png'],
+      ['aztec', 'jpeg', 'image/jpeg'],
+      ['aztec', 'svg', 'image/svg+xml']
+    ])('should render %s symbols as %s', async (symbology, format, mimeType) => {
+      const response = await request(server)
+        .get('/v1/create-qr-code')
+        .query({ data: 'PART-4711/LOT-0815', symbology, format, size: '240x240' })
+        .buffer(true)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain(mimeType);
+      if (format !== 'svg') {
+        const metadata = await sharp(response.body).metadata();
+        expect(metadata.width).toBe(240);
+        expect(metadata.height).toBe(240);
+      }
+    });
+
+    it('should reject QR-only options', async () => {
+      const response = await request(server)
+        .get('/v1/create-qr-code')
+        .query({ data: 'PART-4711', symbology: 'datamatrix', ecc: 'H', logo: 'google' })
+        .expect(400);
+
+      expect(response.body.error.details.map((detail: { field: string }) => detail.field)).toEqual(['logo', 'ecc']);
+    });
+
+    it('should reject data that exceeds the largest symbol', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'é'.repeat(800), symbology: 'datamatrix' })
+        .expect(400);
+
+      expect(response.body.error.details[0].message).toBe(
+        'Data does not fit in a Data Matrix symbol: at most 776 of its 800 characters fit in the largest Data Matrix symbol'
+      );
+    });
+
+    it('should only analyze QR codes', async () => {
+      const response = await request(server)
+        .post('/v1/analyze')
+        .send({ data: 'PART-4711', symbology: 'aztec' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(response.body.error.details).toEqual([expect.objectContaining({
+        field: 'symbology',
+        message: 'Analysis is only available for QR codes, not Aztec'
+      })]);
+    });
+  });
+
+  describe('Linear barcodes', () => {
+    it('should render EAN-13 barcodes with a computed check digit', async () => {
+      const response = await request(server)
+        .get('/v1/create-barcode')
+        .query({ data: '400638133393', type: 'ean13', size: '300x150' })
+        .buffer(true)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('image/png');
+      expect(response.headers['x-barcode-id']).toBeDefined();
+      const metadata = await sharp(response.body).metadata();
+      expect(metadata.width).toBe(300);
+      expect(metadata.height).toBe(150);
+    });
+
+    it('should describe the encoded symbol as JSON', async () => {
+      const response = await request(server)
+        .post('/v1/create-barcode')
+        .set('Accept', 'application/json')
+        .send({ data: 'LOT-12345678', format: 'svg', color: '#1565c0', show_text: false })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        format: 'svg',
+        dimensions: '300x150',
+        symbol: { type: 'code128', text: 'LOT-12345678', codeSets: ['B', 'C'], modules: 154 }
+      });
+      const svg = Buffer.from(response.body.data.image, 'base64').toString('utf-8');
+      expect(svg).toContain('fill="#1565c0"');
+      expect(svg).not.toContain('<text');
+    });
+
+    it('should only answer with JSON when it is asked for', async () => {
+      const query = { data: 'LOT-12345678', format: 'svg' };
+      const image = await request(server)
+        .get('/v1/create-barcode')
+        .set('Accept', 'application/json, text/plain, */*')
+        .query(query)
+        .expect(200);
+
+      expect(image.headers['content-type']).toContain('image/svg+xml');
+
+      const json = await request(server)
+        .get('/v1/create-barcode')
+        .query({ ...query, response: 'json' })
+        .expect(200);
+
+      expect(json.headers['content-type']).toContain('application/json');
+      expect(json.body.data.symbol.type).toBe('code128');
+    });
+
+    it('should serve repeated requests from the barcode cache', async () => {
+      const query = { data: '03600029145', type: 'upca', format: 'svg' };
+      await request(server).get('/create-barcode').query(query).expect(200);
+      const response = await request(server).get('/create-barcode').query(query).expect(200);
+
+      expect(response.headers['x-cache-status']).toBe('HIT');
+      expect(response.headers['content-type']).toContain('image/svg+xml');
+    });
+
+    it('should reject a wrong check digit', async () => {
+      const response = await request(server)
+        .get('/v1/create-barcode')
+        .query({ data: '4006381333932', type: 'ean13' })
+        .expect(400);
+
+      expect(response.body.error.details[0]).toMatchObject({
+        field: 'data',
+        message: 'Invalid EAN-13 check digit: expected 1, got 2'
+      });
+    });
+
+    it('should reject formats other than PNG and SVG', async () => {
+      const response = await request(server)
+        .get('/v1/create-barcode')
+        .query({ data: 'LOT-1', format: 'pdf' })
+        .expect(400);
+
+      expect(response.body.error.details[0].message).toBe('Unsupported output format for barcodes: pdf. Supported formats: png, svg');
+    });
+
+    it('should reject images too narrow for the symbol', async () => {
+      const response = await request(server)
+        .get('/v1/create-barcode')
+        .query({ data: 'LOT-1', size: '60x60' })
+        .expect(400);
+
+      expect(response.body.error.message).toContain('the image must be at least 110px wide');
+    });
+  });
+
+  describe('POST /v1/analyze', () => {
+    it('should describe the symbol without rendering it', async () => {
+      const response = await request(server)
+        .post('/v1/analyze')
+        .send({ data: 'SN-00123456789012345678', ecc: 'M', size: '300x300', margin: 5, qzone: 4 })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/json');
+      expect(response.body.data).toMatchObject({
+        symbol: {
+          version: 1,
+          errorCorrectionLevel: 'M',
+          segments: [
+            { mode: 'alphanumeric', characterCount: 3 },
+            { mode: 'numeric', characterCount: 20 }
+          ]
+        },
+        moduleCount: 21,
+        usedBits: 111,
+        pixelsPerModule: 10,
+        dimensions: '300x300'
+      });
+      expect(response.body.data.capacity).toEqual([
+        { errorCorrectionLevel: 'L', fits: true, dataBits: 152, remainingBits: 41 },
+        { errorCorrectionLevel: 'M', fits: true, dataBits: 128, remainingBits: 17 },
+        { errorCorrectionLevel: 'Q', fits: false, dataBits: 104, remainingBits: -7 },
+        { errorCorrectionLevel: 'H', fits: false, dataBits: 72, remainingBits: -39 }
+      ]);
+      expect(response.body.data.image).toBeUndefined();
+      expect(response.body.data.logo).toBeUndefined();
+    });
+
+    it('should tell whether the logo stays within the recoverable area', async () => {
+      const params = { data: 'SN-00123456789012345678', size: '300x300', margin: 5, qzone: 4, logo: 'google' };
+
+      const small = await request(server)
+        .post('/v1/analyze')
+        .send({ ...params, ecc: 'M', logo_size: 60 })
+        .expect(200);
+
+      expect(small.body.data.logo).toEqual({
+        coveredModules: 39,
+        coveredRatio: 0.088,
+        recoverableRatio: 0.192,
+        withinRecoverableArea: true
+      });
+
+      const large = await request(server)
+        .post('/v1/analyze')
+        .send({ ...params, ecc: 'L', logo_size: 90 })
+        .expect(200);
+
+      expect(large.body.data.logo.withinRecoverableArea).toBe(false);
+    });
+
+    it('should reject the same parameters as create-qr-code', async () => {
+      const response = await request(server)
+        .post('/v1/analyze')
+        .send({ data: 'x'.repeat(100), version: 2, ecc: 'H' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(response.body.error.details[0].message).toContain('The smallest version that fits is 10');
+
+      await request(server)
+        .post('/v1/analyze')
+        .send({})
+        .expect(400);
+    });
+  });
+
+  describe('POST /v1/read-qr-code', () => {
+    // Reading gets its own app, so its uploads do not use up the rate limit of the other tests
+    let readerApp: QRCodeGeneratorApp;
+    let reader: any;
+
+    beforeAll(() => {
+      readerApp = new QRCodeGeneratorApp();
+      reader = readerApp.getApp();
+    });
+
+    afterAll(async () => {
+      await readerApp.shutdown();
+    });
+
+    const generate = async (params: Record<string, string | number>) => {
+      const response = await request(reader)
+        .get('/v1/create-qr-code')
+        .query(params)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+      return response.body as Buffer;
+    };
+
+    it('should decode an uploaded image', async () => {
+      const png = await generate({ data: 'Table 12 menu', size: '200x200', ecc: 'Q' });
+
+      const response = await request(reader)
+        .post('/v1/read-qr-code')
+        .attach('image', png, 'code.png')
+        .expect(200);
+
+      expect(response.headers['x-qr-codes-found']).toBe('1');
+      expect(response.body.data).toMatchObject({
+        count: 1,
+        image: { format: 'png', width: 200, height: 200 },
+        truncated: false,
+        codes: [{
+          text: 'Table 12 menu',
+          symbol: { version: 2, errorCorrectionLevel: 'Q' },
+          correctedCodewords: 0
+        }]
+      });
+      expect(response.body.data.codes[0].bounds.width).toBeGreaterThan(150);
+    });
+
+    it('should decode the smallest raster a symbol may be rendered at', async () => {
+      const png = await generate({ data: 'hello', size: '29x29', qzone: 4, margin: 0 });
+
+      const response = await request(reader)
+        .post('/v1/read-qr-code')
+        .attach('image', png, 'code.png')
+        .expect(200);
+      expect(response.body.data.codes[0].text).toBe('hello');
+
+      const tooSmall = await request(reader)
+        .get('/v1/create-qr-code')
+        .query({ data: 'hello', size: '28x28', qzone: 4, margin: 0 })
+        .expect(400);
+      expect(tooSmall.body.error.details[0]).toMatchObject({ field: 'size', type: 'CONSTRAINT_VIOLATION' });
+    });
+
+    it('should accept base64 images on the compatibility route', async () => {
+      const jpeg = await generate({ data: 'https://example.com/ünïcode', format: 'jpg', size: '250x250' });
+
+      const response = await request(reader)
+        .post('/read-qr-code')
+        .send({ image: `data:image/jpeg;base64,${jpeg.toString('base64')}` })
+        .expect(200);
+
+      expect(response.body.data.codes.map((code: { text: string }) => code.text)).toEqual(['https://example.com/ünïcode']);
+    });
+
+    it('should report a structured error when no code is found', async () => {
+      const blank = await sharp({ create: { width: 160, height: 120, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+      const response = await request(reader)
+        .post('/v1/read-qr-code')
+        .attach('image', blank, 'blank.png')
+        .expect(422);
+
+      expect(response.headers['x-qr-codes-found']).toBe('0');
+      expect(response.body.error).toEqual({
+        code: 'QR_CODE_NOT_FOUND',
+        message: 'No QR code found in the image',
+        details: { image: { format: 'png', width: 160, height: 120 }, finderPatterns: 0 }
+      });
+    });
+
+    it('should reject missing and unsupported images', async () => {
+      const missing = await request(reader)
+        .post('/v1/read-qr-code')
+        .send({})
+        .expect(400);
+      expect(missing.body.error.code).toBe('MISSING_REQUIRED_PARAMETER');
+
+      const gif = await request(reader)
+        .post('/v1/read-qr-code')
+        .attach('image', Buffer.concat([Buffer.from('GIF89a'), Buffer.alloc(32)]), 'code.gif')
+        .expect(400);
+      expect(gif.body.error.code).toBe('VALIDATION_ERROR');
+      expect(gif.body.error.details[0].message).toBe('Unsupported image format. Supported formats: PNG, JPEG, WebP');
+    });
+
+    it('should take base64 images beyond the default body limit and reject bigger ones', async () => {
+      // Noise does not compress, so the PNG stays close to its 1.5MB of raw pixels
+      const pixels = Buffer.alloc(700 * 700 * 3);
+      for (let i = 0, seed = 7; i < pixels.length; i++) {
+        seed ^= seed << 13;
+        seed ^= seed >>> 17;
+        seed ^= seed << 5;
+        pixels[i] = seed >>> 24;
+      }
+      const noise = await sharp(pixels, { raw: { width: 700, height: 700, channels: 3 } }).png().toBuffer();
+      expect(noise.length).toBeGreaterThan(1024 * 1024);
+
+      const decoded = await request(reader)
+        .post('/read-qr-code')
+        .send({ image: noise.toString('base64') })
+        .expect(422);
+      expect(decoded.body.error.code).toBe('QR_CODE_NOT_FOUND');
+
+      const tooLarge = await request(reader)
+        .post('/v1/read-qr-code')
+        .send({ image: 'A'.repeat(8 * 1024 * 1024) })
+        .expect(413);
+      expect(tooLarge.body.error.code).toBe('REQUEST_TOO_LARGE');
+    });
+  });
+
+  describe('Scan verification', () => {
+    it('should report a passing scan in headers and JSON', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .set('Accept', 'application/json')
+        .send({ data: 'https://example.com/verified', size: '300x300', ecc: 'M', verify: true })
+        .expect(200);
+
+      expect(response.headers['x-verification-status']).toBe('PASSED');
+      expect(response.headers['x-verification-attempts']).toBe('1');
+      expect(response.headers['x-verified-ecc']).toBe('M');
+      expect(response.body.data.verification).toEqual({
+        verified: true,
+        errorCorrectionLevel: 'M',
+        attempts: 1,
+        correctedCodewords: 0
+      });
+    });
+
+    it('should raise the error correction level until a logo-covered code scans', async () => {
+      const response = await request(server)
+        .get('/v1/create-qr-code')
+        .set('Accept', 'application/json')
+        .query({ data: 'https://example.com/menu?table=12', size: '300x300', ecc: 'L', logo: 'google', logo_size: 90, verify: 'true' })
+        .expect(200);
+
+      const { verification, symbol } = response.body.data;
+      expect(verification.attempts).toBeGreaterThan(1);
+      expect(verification.errorCorrectionLevel).not.toBe('L');
+      expect(symbol.errorCorrectionLevel).toBe(verification.errorCorrectionLevel);
+      expect(response.headers['x-verified-ecc']).toBe(verification.errorCorrectionLevel);
+    });
+
+    it('should fail when no level the data fits in scans', async () => {
+      const response = await request(server)
+        .get('/v1/create-qr-code')
+        .query({ data: 'https://ex.co/a1b', size: '300x300', ecc: 'L', version: 1, logo: 'google', logo_size: 90, verify: '1' })
+        .expect(422);
+
+      expect(response.headers['x-verification-status']).toBe('FAILED');
+      expect(response.body.error).toEqual({
+        code: 'SCAN_VERIFICATION_FAILED',
+        message: 'The rendered QR code does not scan back to its data at error correction level L',
+        details: { attempts: [{ errorCorrectionLevel: 'L', result: 'unreadable' }] }
+      });
+    });
+
+    it('should leave unverified codes without verification metadata', async () => {
+      const response = await request(server)
+        .get('/v1/create-qr-code')
+        .set('Accept', 'application/json')
+        .query({ data: 'https://example.com/verified', verify: 'false' })
+        .expect(200);
+
+      expect(response.headers['x-verification-status']).toBeUndefined();
+      expect(response.body.data.verification).toBeUndefined();
     });
   });
 
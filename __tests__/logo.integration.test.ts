@@ -1,4 +1,5 @@
 import request from 'supertest';
+import sharp from 'sharp';
 import QRCodeGeneratorApp from '../src/app';
 
 describe('Logo Integration Tests', () => {
@@ -127,7 +128,7 @@ describe('Logo Integration Tests', () => {
       expect(response.headers['content-type']).toContain('image/jpeg');
     });
 
-    it('should warn about SVG with logo but still generate', async () => {
+    it('should embed the logo in SVG output', async () => {
       const response = await request(server)
         .get('/v1/create-qr-code')
         .query({
@@ -136,9 +137,15 @@ describe('Logo Integration Tests', () => {
           logo: 'linkedin'
         });
 
-      // SVG should still work but without logo overlay
       expect(response.status).toBe(200);
       expect(response.headers['content-type']).toContain('image/svg');
+
+      const svg = Buffer.isBuffer(response.body) ? response.body.toString('utf-8') : response.text;
+      expect(svg).toContain('<circle');
+      // SVG logos are referenced as images, so their markup stays out of the document
+      const logoUri = svg.match(/href="data:image\/svg\+xml;base64,([^"]+)"/);
+      expect(logoUri).not.toBeNull();
+      expect(Buffer.from(logoUri![1], 'base64').toString('utf-8')).toContain('fill="#0077b5"');
     });
   });
 
@@ -209,4 +216,90 @@ describe('Logo Integration Tests', () => {
       expect(response.status).toBe(200);
     });
   });
-});
\ No newline at end of file
+
+  describe('Uploaded logos', () => {
+    let redPng: Buffer;
+
+    beforeAll(async () => {
+      redPng = await sharp({
+        create: { width: 32, height: 32, channels: 3, background: { r: 255, g: 0, b: 0 } }
+      }).png().toBuffer();
+    });
+
+    const centerPixel = async (image: Buffer) => {
+      const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+      const offset = (Math.floor(info.height / 2) * info.width + Math.floor(info.width / 2)) * info.channels;
+      return [data[offset], data[offset + 1], data[offset + 2]];
+    };
+
+    it('should accept a base64 data URI logo', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .send({
+          data: 'data uri logo',
+          size: '300x300',
+          ecc: 'H',
+          logo: `data:image/png;base64,${redPng.toString('base64')}`,
+          logo_size: 60
+        });
+
+      expect(response.status).toBe(200);
+      expect(await centerPixel(response.body)).toEqual([255, 0, 0]);
+    });
+
+    it('should accept a multipart logo upload', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .field('data', 'multipart logo')
+        .field('size', '300x300')
+        .field('ecc', 'H')
+        .field('margin', '2')
+        .field('logo_size', '60')
+        .attach('logo', redPng, { filename: 'logo.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('image/png');
+      expect(await centerPixel(response.body)).toEqual([255, 0, 0]);
+    });
+
+    it('should reject uploads whose content does not match the declared type', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .field('data', 'bad upload')
+        .attach('logo', Buffer.from('not an image'), { filename: 'logo.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject corrupt images behind a valid signature', async () => {
+      const corrupt = Buffer.concat([redPng.subarray(0, 8), Buffer.from('definitely not the rest of a PNG')]);
+
+      const uploaded = await request(server)
+        .post('/v1/create-qr-code')
+        .field('data', 'corrupt upload')
+        .attach('logo', corrupt, { filename: 'logo.png', contentType: 'image/png' });
+
+      expect(uploaded.status).toBe(400);
+      expect(uploaded.body.error.code).toBe('VALIDATION_ERROR');
+      expect(uploaded.body.error.message).toContain('Logo image could not be decoded');
+
+      const embedded = await request(server)
+        .post('/v1/create-qr-code')
+        .send({ data: 'corrupt data uri', format: 'svg', logo: `data:image/png;base64,${corrupt.toString('base64')}` });
+
+      expect(embedded.status).toBe(400);
+      expect(embedded.body.error.message).toContain('Logo image could not be decoded');
+    });
+
+    it('should reject uploads over the size limit', async () => {
+      const response = await request(server)
+        .post('/v1/create-qr-code')
+        .field('data', 'large upload')
+        .attach('logo', Buffer.alloc(600 * 1024), { filename: 'logo.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(413);
+      expect(response.body.error.code).toBe('REQUEST_TOO_LARGE');
+    });
+  });
+});
@@ -44,10 +44,14 @@ describe('ColorValue Edge Cases', () => {
     });
 
     it('should throw error for unsupported format', () => {
-      expect(() => ColorValue.create('rgb(255,128,64)')).toThrow('Invalid color format');
-      expect(() => ColorValue.create('red')).toThrow('Invalid color format');
+      expect(() => ColorValue.create('cmyk(0, 0, 0, 100)')).toThrow('Invalid color format');
+      expect(() => ColorValue.create('reddish')).toThrow('Invalid color format');
       expect(() => ColorValue.create('')).toThrow('Invalid color format');
     });
+
+    it('should list the accepted syntaxes in format errors', () => {
+      expect(() => ColorValue.create('reddish')).toThrow(ColorValue.ACCEPTED_FORMATS);
+    });
   });
 
   describe('Color Contrast Edge Cases', () => {
@@ -121,4 +125,91 @@ describe('ColorValue Edge Cases', () => {
       expect(color.toString()).toBe('#ff0000');
     });
   });
-});
\ No newline at end of file
+
+  describe('Transparency', () => {
+    it('should parse 8-digit hex colors with alpha', () => {
+      const color = ColorValue.create('#FF000080');
+      expect(color.getRGB()).toEqual({ r: 255, g: 0, b: 0 });
+      expect(color.getAlpha()).toBeCloseTo(0.502, 3);
+      expect(color.isOpaque()).toBe(false);
+      expect(ColorValue.create('00ff00ff').isOpaque()).toBe(true);
+    });
+
+    it('should parse the transparent keyword', () => {
+      const color = ColorValue.create('transparent');
+      expect(color.isTransparent()).toBe(true);
+      expect(color.equals(ColorValue.transparent())).toBe(true);
+    });
+
+    it('should parse r-g-b-a colors with alpha between 0 and 1', () => {
+      const color = ColorValue.create('0-0-255-0.5');
+      expect(color.getRGB()).toEqual({ r: 0, g: 0, b: 255 });
+      expect(color.getAlpha()).toBe(0.5);
+      expect(color.toRGBString()).toBe('0-0-255-0.5');
+      expect(() => ColorValue.create('0-0-255-1.5')).toThrow('Alpha must be between 0 and 1');
+      expect(() => ColorValue.create('0-0-255-')).toThrow('Invalid RGB format');
+    });
+
+    it('should keep toHex opaque and include alpha in toString and equality', () => {
+      const color = ColorValue.create('#ff000080');
+      expect(color.toHex()).toBe('#ff0000');
+      expect(color.toHexWithAlpha()).toBe('#ff000080');
+      expect(color.toString()).toBe('#ff000080');
+      expect(color.equals(ColorValue.create('#ff0000'))).toBe(false);
+      expect(ColorValue.black().toHexWithAlpha()).toBe('#000000ff');
+    });
+
+    it('should composite translucent colors over a backdrop', () => {
+      const color = ColorValue.create('0-0-0-0.5').compositeOver(ColorValue.white());
+      expect(color.getRGB()).toEqual({ r: 128, g: 128, b: 128 });
+      expect(color.isOpaque()).toBe(true);
+      expect(ColorValue.transparent().compositeOver(ColorValue.black()).equals(ColorValue.black())).toBe(true);
+    });
+
+    it('should check contrast using the composited colors', () => {
+      const faded = ColorValue.create('#00000020');
+      expect(faded.hasAccessibleContrast(ColorValue.white())).toBe(false);
+
+      // A transparent background shows the backdrop behind it
+      const white = ColorValue.white();
+      expect(white.hasAccessibleContrast(ColorValue.transparent())).toBe(false);
+      expect(white.hasAccessibleContrast(ColorValue.transparent(), ColorValue.black())).toBe(true);
+    });
+  });
+
+  describe('CSS Color Syntax', () => {
+    it('should parse CSS named colors case-insensitively', () => {
+      expect(ColorValue.create('rebeccapurple').toHex()).toBe('#663399');
+      expect(ColorValue.create('Navy').toHex()).toBe('#000080');
+      expect(ColorValue.create('red').equals(ColorValue.create('#ff0000'))).toBe(true);
+    });
+
+    it('should parse rgb() and rgba() in comma and space syntax', () => {
+      expect(ColorValue.create('rgb(10 20 30)').toHex()).toBe('#0a141e');
+      expect(ColorValue.create('rgb(10, 20, 30)').toHex()).toBe('#0a141e');
+      expect(ColorValue.create('rgb(100% 50% 0%)').toHex()).toBe('#ff8000');
+      expect(ColorValue.create('rgba(10, 20, 30, 0.5)').getAlpha()).toBe(0.5);
+      expect(ColorValue.create('rgb(10 20 30 / 25%)').getAlpha()).toBe(0.25);
+    });
+
+    it('should parse hsl() and hsla()', () => {
+      expect(ColorValue.create('hsl(210 50% 40%)').toHex()).toBe('#336699');
+      expect(ColorValue.create('hsl(0, 100%, 50%)').toHex()).toBe('#ff0000');
+      expect(ColorValue.create('hsl(-120deg 100% 50%)').toHex()).toBe('#0000ff');
+      expect(ColorValue.create('hsla(120 100% 25% / 0.5)').toString()).toBe('#00800080');
+    });
+
+    it('should normalize equivalent inputs to the same canonical hex', () => {
+      const inputs = ['rebeccapurple', '#663399', '663399', '102-51-153', 'rgb(102 51 153)', 'hsl(270 50% 40%)'];
+      const canonical = inputs.map(input => ColorValue.create(input).toString());
+      expect(new Set(canonical)).toEqual(new Set(['#663399']));
+    });
+
+    it('should reject malformed color functions', () => {
+      expect(() => ColorValue.create('rgb(300, 0, 0)')).toThrow('RGB components must be 0-255');
+      expect(() => ColorValue.create('rgb(1 2)')).toThrow('Expected three components');
+      expect(() => ColorValue.create('hsl(10 20 30)')).toThrow('must be percentages');
+      expect(() => ColorValue.create('rgb(1 2 3 / 2)')).toThrow('Alpha must be between 0 and 1');
+    });
+  });
+});
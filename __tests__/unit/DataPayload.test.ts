@@ -18,15 +18,20 @@ describe('DataPayload Edge Cases', () => {
 
     it('should handle very long strings', () => {
       const longString = 'a'.repeat(1000);
-      expect(() => DataPayload.create(longString)).toThrow('Data content cannot exceed 900 characters');
+      expect(() => DataPayload.create(longString, 900)).toThrow('Data content cannot exceed 900 characters');
     });
 
     it('should handle exact length limits', () => {
       const maxLength = 'a'.repeat(900);
       const overLength = 'a'.repeat(901);
       
-      expect(() => DataPayload.create(maxLength)).not.toThrow();
-      expect(() => DataPayload.create(overLength)).toThrow('Data content cannot exceed 900 characters');
+      expect(() => DataPayload.create(maxLength, 900)).not.toThrow();
+      expect(() => DataPayload.create(overLength, 900)).toThrow('Data content cannot exceed 900 characters');
+    });
+
+    it('should default to the largest capacity of any QR code', () => {
+      expect(() => DataPayload.create('1'.repeat(DataPayload.MAX_LENGTH))).not.toThrow();
+      expect(() => DataPayload.create('1'.repeat(DataPayload.MAX_LENGTH + 1))).toThrow('Data content cannot exceed 7089 characters');
     });
 
     it('should handle special characters', () => {
@@ -146,9 +151,9 @@ describe('DataPayload Edge Cases', () => {
       for (let i = 895; i <= 905; i++) {
         const testString = 'a'.repeat(i);
         if (i <= 900) {
-          expect(() => DataPayload.create(testString)).not.toThrow();
+          expect(() => DataPayload.create(testString, 900)).not.toThrow();
         } else {
-          expect(() => DataPayload.create(testString)).toThrow('Data content cannot exceed 900 characters');
+          expect(() => DataPayload.create(testString, 900)).toThrow('Data content cannot exceed 900 characters');
         }
       }
     });
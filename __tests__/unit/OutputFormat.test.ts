@@ -9,6 +9,9 @@ describe('OutputFormat Edge Cases', () => {
       expect(() => OutputFormatValue.create('gif')).not.toThrow();
       expect(() => OutputFormatValue.create('svg')).not.toThrow();
       expect(() => OutputFormatValue.create('eps')).not.toThrow();
+      expect(() => OutputFormatValue.create('pdf')).not.toThrow();
+      expect(() => OutputFormatValue.create('webp')).not.toThrow();
+      expect(() => OutputFormatValue.create('avif')).not.toThrow();
     });
 
     it('should handle case insensitive formats', () => {
@@ -18,10 +21,8 @@ describe('OutputFormat Edge Cases', () => {
     });
 
     it('should reject invalid formats', () => {
-      expect(() => OutputFormatValue.create('webp')).toThrow('Invalid output format');
       expect(() => OutputFormatValue.create('bmp')).toThrow('Invalid output format');
       expect(() => OutputFormatValue.create('tiff')).toThrow('Invalid output format');
-      expect(() => OutputFormatValue.create('pdf')).toThrow('Invalid output format');
     });
 
     it('should reject empty or invalid input', () => {
@@ -54,18 +55,35 @@ describe('OutputFormat Edge Cases', () => {
       expect(OutputFormatValue.create('gif').getMimeType()).toBe('image/gif');
       expect(OutputFormatValue.create('svg').getMimeType()).toBe('image/svg+xml');
       expect(OutputFormatValue.create('eps').getMimeType()).toBe('application/postscript');
+      expect(OutputFormatValue.create('pdf').getMimeType()).toBe('application/pdf');
+      expect(OutputFormatValue.create('webp').getMimeType()).toBe('image/webp');
+      expect(OutputFormatValue.create('avif').getMimeType()).toBe('image/avif');
+      expect(OutputFormatValue.create('matrix').getMimeType()).toBe('application/json');
+      expect(OutputFormatValue.create('txt').getMimeType()).toBe('text/plain; charset=utf-8');
+      expect(OutputFormatValue.create('utf8').getMimeType()).toBe('text/plain; charset=utf-8');
+      expect(OutputFormatValue.create('ansi').getMimeType()).toBe('text/plain; charset=utf-8');
     });
 
     it('should identify bitmap vs vector formats', () => {
       expect(OutputFormatValue.create('png').isBitmapFormat()).toBe(true);
       expect(OutputFormatValue.create('jpeg').isBitmapFormat()).toBe(true);
       expect(OutputFormatValue.create('gif').isBitmapFormat()).toBe(true);
+      expect(OutputFormatValue.create('webp').isBitmapFormat()).toBe(true);
+      expect(OutputFormatValue.create('avif').isBitmapFormat()).toBe(true);
       expect(OutputFormatValue.create('svg').isBitmapFormat()).toBe(false);
       expect(OutputFormatValue.create('eps').isBitmapFormat()).toBe(false);
       
       expect(OutputFormatValue.create('svg').isVectorFormat()).toBe(true);
       expect(OutputFormatValue.create('eps').isVectorFormat()).toBe(true);
+      expect(OutputFormatValue.create('pdf').isVectorFormat()).toBe(true);
       expect(OutputFormatValue.create('png').isVectorFormat()).toBe(false);
+
+      expect(OutputFormatValue.create('matrix').isMatrixFormat()).toBe(true);
+      expect(OutputFormatValue.create('matrix').isBitmapFormat()).toBe(false);
+      expect(OutputFormatValue.create('matrix').isVectorFormat()).toBe(false);
+
+      expect(OutputFormatValue.create('utf8').isTextFormat()).toBe(true);
+      expect(OutputFormatValue.create('matrix').isTextFormat()).toBe(false);
     });
   });
 
@@ -8,13 +8,27 @@ import morgan from 'morgan';
 import { ValidateParametersUseCase } from './application/usecases/ValidateParametersUseCase';
 import { CacheManagementUseCase } from './application/usecases/CacheManagementUseCase';  
 import { GenerateQRCodeUseCase } from './application/usecases/GenerateQRCodeUseCase';
+import { AnalyzeQRCodeUseCase } from './application/usecases/AnalyzeQRCodeUseCase';
+import { ValidateBarcodeParametersUseCase } from './application/usecases/ValidateBarcodeParametersUseCase';
+import { GenerateBarcodeUseCase } from './application/usecases/GenerateBarcodeUseCase';
+import { ReadQRCodeUseCase } from './application/usecases/ReadQRCodeUseCase';
+import { Barcode } from './domain/entities/Barcode';
 
 // Infrastructure imports
 import { InMemoryCacheRepository } from './infrastructure/adapters/repositories/InMemoryCacheRepository';
 import { SimpleLogger } from './infrastructure/adapters/external/SimpleLogger';
 import { QRCodeJSAdapter } from './infrastructure/adapters/external/QRCodeJSAdapter';
+import { DataMatrixGenerator } from './infrastructure/adapters/external/DataMatrixGenerator';
+import { AztecGenerator } from './infrastructure/adapters/external/AztecGenerator';
+import { MultiSymbologyGenerator } from './infrastructure/adapters/external/MultiSymbologyGenerator';
+import { LinearBarcodeGenerator } from './infrastructure/adapters/external/LinearBarcodeGenerator';
+import { HttpLogoFetcher } from './infrastructure/adapters/external/HttpLogoFetcher';
+import { CachingLogoFetcher } from './infrastructure/adapters/external/CachingLogoFetcher';
+import { QRCodeReader } from './infrastructure/adapters/external/QRCodeReader';
 import { SimpleMetricsCollector } from './infrastructure/adapters/external/SimpleMetricsCollector';
 import { QRCodeController } from './infrastructure/adapters/controllers/QRCodeController';
+import { BarcodeController } from './infrastructure/adapters/controllers/BarcodeController';
+import { QRReaderController } from './infrastructure/adapters/controllers/QRReaderController';
 import { HealthController } from './infrastructure/adapters/controllers/HealthController';
 import { loadConfig, AppConfig } from './infrastructure/config/app.config';
 
@@ -32,7 +46,10 @@ class QRCodeGeneratorApp {
   private logger!: SimpleLogger;
   private metricsCollector!: SimpleMetricsCollector;
   private cacheRepository!: InMemoryCacheRepository;
-  private qrCodeGenerator!: QRCodeJSAdapter;
+  private qrCodeGenerator!: MultiSymbologyGenerator;
+  private barcodeCacheRepository!: InMemoryCacheRepository<Barcode>;
+  private barcodeGenerator!: LinearBarcodeGenerator;
+  private qrCodeReader!: QRCodeReader;
   
   // Middleware
   private validationMiddleware!: ValidationMiddleware;
@@ -42,9 +59,15 @@ class QRCodeGeneratorApp {
   private validateParametersUseCase!: ValidateParametersUseCase;
   private cacheManagementUseCase!: CacheManagementUseCase;
   private generateQRCodeUseCase!: GenerateQRCodeUseCase;
+  private analyzeQRCodeUseCase!: AnalyzeQRCodeUseCase;
+  private barcodeCacheManagementUseCase!: CacheManagementUseCase<Barcode>;
+  private generateBarcodeUseCase!: GenerateBarcodeUseCase;
+  private readQRCodeUseCase!: ReadQRCodeUseCase;
   
   // Controllers
   private qrCodeController!: QRCodeController;
+  private barcodeController!: BarcodeController;
+  private qrReaderController!: QRReaderController;
   private healthController!: HealthController;
 
   constructor() {
@@ -68,13 +91,33 @@ class QRCodeGeneratorApp {
       this.config.cache.maxKeys,
       this.config.cache.ttl
     );
-    this.qrCodeGenerator = new QRCodeJSAdapter();
+    // One bounded logo cache for every symbology
+    const logoFetcher = new CachingLogoFetcher(new HttpLogoFetcher(this.config.logoFetch), {
+      maxEntries: this.config.logoFetch.cacheMaxEntries,
+      ttlMs: this.config.logoFetch.cacheTtlMs
+    });
+    this.qrCodeGenerator = new MultiSymbologyGenerator({
+      qr: new QRCodeJSAdapter(logoFetcher),
+      datamatrix: new DataMatrixGenerator(logoFetcher),
+      aztec: new AztecGenerator(logoFetcher)
+    });
+
+    // Barcodes are cached apart from 2D symbols, under the same limits
+    this.barcodeCacheRepository = new InMemoryCacheRepository<Barcode>(
+      this.config.cache.maxKeys,
+      this.config.cache.ttl
+    );
+    this.barcodeGenerator = new LinearBarcodeGenerator();
+    this.qrCodeReader = new QRCodeReader();
 
     this.logger.info('Dependencies initialized');
   }
 
   private initializeUseCases(): void {
-    this.validateParametersUseCase = new ValidateParametersUseCase();
+    this.validateParametersUseCase = new ValidateParametersUseCase(
+      this.qrCodeGenerator,
+      this.config.qrGeneration.maxDataLength
+    );
     this.cacheManagementUseCase = new CacheManagementUseCase(
       this.cacheRepository,
       this.logger,
@@ -87,6 +130,29 @@ class QRCodeGeneratorApp {
       this.logger,
       this.metricsCollector
     );
+    this.analyzeQRCodeUseCase = new AnalyzeQRCodeUseCase(
+      this.qrCodeGenerator,
+      this.validateParametersUseCase,
+      this.logger,
+      this.metricsCollector
+    );
+    this.barcodeCacheManagementUseCase = new CacheManagementUseCase<Barcode>(
+      this.barcodeCacheRepository,
+      this.logger,
+      this.config.cache.ttl
+    );
+    this.generateBarcodeUseCase = new GenerateBarcodeUseCase(
+      this.barcodeGenerator,
+      new ValidateBarcodeParametersUseCase(this.barcodeGenerator),
+      this.barcodeCacheManagementUseCase,
+      this.logger,
+      this.metricsCollector
+    );
+    this.readQRCodeUseCase = new ReadQRCodeUseCase(
+      this.qrCodeReader,
+      this.logger,
+      this.metricsCollector
+    );
 
     this.logger.info('Use cases initialized');
   }
@@ -94,6 +160,19 @@ class QRCodeGeneratorApp {
   private initializeControllers(): void {
     this.qrCodeController = new QRCodeController(
       this.generateQRCodeUseCase,
+      this.analyzeQRCodeUseCase,
+      this.logger,
+      this.metricsCollector
+    );
+
+    this.barcodeController = new BarcodeController(
+      this.generateBarcodeUseCase,
+      this.logger,
+      this.metricsCollector
+    );
+
+    this.qrReaderController = new QRReaderController(
+      this.readQRCodeUseCase,
       this.logger,
       this.metricsCollector
     );
@@ -145,7 +224,12 @@ class QRCodeGeneratorApp {
       }));
     }
 
-    // Request parsing
+    // Request parsing; base64 text grows images by a third, so the reader takes bodies
+    // big enough for a 5MB image and parses them before the default 1MB parsers see them
+    this.app.use(['/v1/read-qr-code', '/read-qr-code'],
+      express.json({ limit: '7mb' }),
+      express.urlencoded({ extended: true, limit: '7mb' })
+    );
     this.app.use(express.json({ limit: '1mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
@@ -192,6 +276,8 @@ class QRCodeGeneratorApp {
 
     // QR Code generation routes with validation middleware
     const qrValidation = this.validationMiddleware.validateQRCodeRequest();
+    const logoUpload = this.validationMiddleware.parseLogoUpload();
+    const imageUpload = this.validationMiddleware.parseImageUpload();
     const rateLimit = this.validationMiddleware.rateLimit({
       windowMs: 60 * 1000, // 1 minute
       maxRequests: 100, // 100 requests per minute
@@ -207,6 +293,7 @@ class QRCodeGeneratorApp {
     );
     this.app.post('/v1/create-qr-code', 
       rateLimit,
+      logoUpload,
       qrValidation,
       parameterLogging,
       this.qrCodeController.handlePost.bind(this.qrCodeController)
@@ -215,6 +302,44 @@ class QRCodeGeneratorApp {
       this.qrCodeController.handleOptions.bind(this.qrCodeController)
     );
 
+    this.app.post('/v1/analyze',
+      rateLimit,
+      logoUpload,
+      qrValidation,
+      parameterLogging,
+      this.qrCodeController.handleAnalyze.bind(this.qrCodeController)
+    );
+    this.app.options('/v1/analyze',
+      this.qrCodeController.handleOptions.bind(this.qrCodeController)
+    );
+
+    // Linear barcodes share the request checks of the QR code routes
+    this.app.get('/v1/create-barcode',
+      rateLimit,
+      qrValidation,
+      parameterLogging,
+      this.barcodeController.handleGet.bind(this.barcodeController)
+    );
+    this.app.post('/v1/create-barcode',
+      rateLimit,
+      qrValidation,
+      parameterLogging,
+      this.barcodeController.handlePost.bind(this.barcodeController)
+    );
+    this.app.options('/v1/create-barcode',
+      this.barcodeController.handleOptions.bind(this.barcodeController)
+    );
+
+    // Reading takes an image instead of QR code parameters
+    this.app.post('/v1/read-qr-code',
+      rateLimit,
+      imageUpload,
+      this.qrReaderController.handlePost.bind(this.qrReaderController)
+    );
+    this.app.options('/v1/read-qr-code',
+      this.qrReaderController.handleOptions.bind(this.qrReaderController)
+    );
+
     // Compatibility routes (user-friendly endpoints)
     this.app.get('/create-qr-code', 
       rateLimit,
@@ -224,6 +349,7 @@ class QRCodeGeneratorApp {
     );
     this.app.post('/create-qr-code', 
       rateLimit,
+      logoUpload,
       qrValidation,
       parameterLogging,
       this.qrCodeController.handlePost.bind(this.qrCodeController)
@@ -231,6 +357,29 @@ class QRCodeGeneratorApp {
     this.app.options('/create-qr-code', 
       this.qrCodeController.handleOptions.bind(this.qrCodeController)
     );
+    this.app.get('/create-barcode',
+      rateLimit,
+      qrValidation,
+      parameterLogging,
+      this.barcodeController.handleGet.bind(this.barcodeController)
+    );
+    this.app.post('/create-barcode',
+      rateLimit,
+      qrValidation,
+      parameterLogging,
+      this.barcodeController.handlePost.bind(this.barcodeController)
+    );
+    this.app.options('/create-barcode',
+      this.barcodeController.handleOptions.bind(this.barcodeController)
+    );
+    this.app.post('/read-qr-code',
+      rateLimit,
+      imageUpload,
+      this.qrReaderController.handlePost.bind(this.qrReaderController)
+    );
+    this.app.options('/read-qr-code',
+      this.qrReaderController.handleOptions.bind(this.qrReaderController)
+    );
 
     // Root route
     this.app.get('/', (req: Request, res: Response) => {
@@ -243,6 +392,11 @@ class QRCodeGeneratorApp {
           'GET /v1/create-qr-code': 'Generate QR code with query params (v1 API)',
           'POST /create-qr-code': 'Generate QR code (user-friendly)',
           'GET /create-qr-code': 'Generate QR code with query params (user-friendly)',
+          'POST /v1/analyze': 'Describe the symbol a request would produce without rendering it',
+          'POST /v1/create-barcode': 'Generate a Code 128, EAN-13 or UPC-A barcode (v1 API)',
+          'GET /v1/create-barcode': 'Generate a barcode with query params (v1 API)',
+          'POST /v1/read-qr-code': 'Decode the QR codes in an uploaded image (v1 API)',
+          'POST /read-qr-code': 'Decode the QR codes in an uploaded image (user-friendly)',
           'GET /health': 'Health check',
           'GET /metrics': 'Prometheus metrics'
         }
@@ -271,7 +425,17 @@ class QRCodeGeneratorApp {
         ip: req.ip
       });
 
-      if (error instanceof AppError) {
+      if ((error as { type?: string }).type === 'entity.too.large') {
+        const { limit } = error as { limit?: number };
+        res.status(413).json({
+          success: false,
+          error: {
+            code: 'REQUEST_TOO_LARGE',
+            message: `Request body exceeds maximum allowed size (${limit} bytes)`,
+            details: { maxSize: limit }
+          }
+        });
+      } else if (error instanceof AppError) {
         res.status(error.statusCode).json({
           success: false,
           error: {
@@ -318,6 +482,7 @@ class QRCodeGeneratorApp {
     
     // Cleanup resources
     await this.cacheManagementUseCase.clear();
+    await this.barcodeCacheManagementUseCase.clear();
     
     this.logger.info('Application shutdown complete');
   }
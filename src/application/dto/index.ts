@@ -1,3 +1,7 @@
+import { QRSymbolInfo, QRVerificationInfo } from '../../domain/entities/QRCode';
+import { BarcodeSymbolInfo } from '../../domain/entities/Barcode';
+import { QRSymbolAnalysis, DecodedQRCode } from '../ports';
+
 export interface QRCodeRequestDTO {
   data: string;
   size?: string;
@@ -12,6 +16,30 @@ export interface QRCodeRequestDTO {
   logo?: string;
   logo_size?: number;
   logo_margin?: number;
+  page_size?: string;
+  code_size_mm?: number;
+  quality?: number;
+  module_style?: string;
+  eye_frame?: string;
+  eye_ball?: string;
+  eye_color?: string;
+  eye_color_tl?: string;
+  eye_color_tr?: string;
+  eye_color_bl?: string;
+  gradient_type?: string;
+  gradient_colors?: string;
+  gradient_angle?: number;
+  matte?: string;
+  frame?: string;
+  frame_text?: string;
+  frame_text_size?: number;
+  frame_color?: string;
+  frame_text_color?: string;
+  version?: number;
+  mask?: number;
+  mode?: string;
+  symbology?: string;
+  verify?: boolean;
 }
 
 export interface QRCodeResponseDTO {
@@ -25,6 +53,44 @@ export interface QRCodeResponseDTO {
     dimensions: string;
     cacheHit?: boolean;
     generatedAt: string;
+    symbol?: QRSymbolInfo;
+    verification?: QRVerificationInfo;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+  performance?: {
+    processingTimeMs: number;
+    cacheStatus: 'hit' | 'miss' | 'error';
+    dataSize: number;
+  };
+}
+
+export interface BarcodeRequestDTO {
+  data: string;
+  type?: string;
+  size?: string;
+  format?: string;
+  color?: string;
+  bgcolor?: string;
+  margin?: number;
+  show_text?: boolean;
+}
+
+export interface BarcodeResponseDTO {
+  success: boolean;
+  data?: {
+    id: string;
+    image: Buffer;
+    mimeType: string;
+    size: number;
+    format: string;
+    dimensions: string;
+    cacheHit?: boolean;
+    generatedAt: string;
+    symbol?: BarcodeSymbolInfo;
   };
   error?: {
     code: string;
@@ -38,6 +104,44 @@ export interface QRCodeResponseDTO {
   };
 }
 
+export interface QRAnalysisResponseDTO {
+  success: boolean;
+  data?: QRSymbolAnalysis & {
+    dimensions: string;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+  performance?: {
+    processingTimeMs: number;
+  };
+}
+
+export interface QRReadRequestDTO {
+  // Uploaded bytes, or base64 text with or without a data URI prefix
+  image: Buffer | string;
+}
+
+export interface QRReadResponseDTO {
+  success: boolean;
+  data?: {
+    count: number;
+    codes: DecodedQRCode[];
+    image: { format: string; width: number; height: number };
+    truncated: boolean;
+  };
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+  performance?: {
+    processingTimeMs: number;
+  };
+}
+
 export interface HealthCheckResponseDTO {
   status: 'healthy' | 'unhealthy';
   timestamp: string;
@@ -1,15 +1,107 @@
-import { QRCode } from '../../domain/entities/QRCode';
+import { QRCode, QRSymbolInfo } from '../../domain/entities/QRCode';
 import { QRCodeConfiguration } from '../../domain/entities/QRCodeConfiguration';
+import { Barcode } from '../../domain/entities/Barcode';
+import { BarcodeConfiguration } from '../../domain/entities/BarcodeConfiguration';
+import { ScanImage } from '../../domain/valueObjects/ScanImage';
+
+export interface QRCapacity {
+  fits: boolean;
+  // Version the data would be encoded in
+  version?: number;
+  // Smallest version that holds the data, ignoring a requested version
+  minimumVersion?: number;
+  // Leading characters of the data that fit in the requested version, or the largest one
+  maxCharacters: number;
+  // Modules per side of the symbol the data is encoded in, when it fits
+  moduleCount?: number;
+}
+
+// Room left in the analyzed symbol's version at one error correction level
+export interface QRLevelCapacity {
+  errorCorrectionLevel: string;
+  fits: boolean;
+  dataBits: number;
+  // Negative when the data needs more bits than the level leaves
+  remainingBits: number;
+}
+
+// Share of the modules the logo hides compared with what error correction can restore
+export interface QRLogoCoverage {
+  coveredModules: number;
+  coveredRatio: number;
+  recoverableRatio: number;
+  withinRecoverableArea: boolean;
+}
+
+export interface QRSymbolAnalysis {
+  symbol: QRSymbolInfo;
+  moduleCount: number;
+  usedBits: number;
+  capacity: QRLevelCapacity[];
+  pixelsPerModule: number;
+  logo?: QRLogoCoverage;
+}
 
 export interface IQRCodeGenerator {
   generate(configuration: QRCodeConfiguration): Promise<QRCode>;
+  getCapacity(configuration: QRCodeConfiguration): QRCapacity;
+  analyze(configuration: QRCodeConfiguration): QRSymbolAnalysis;
+  supports(format: string): boolean;
+  getSupportedFormats(): string[];
+  getCapabilities(): string[];
+}
+
+export interface IBarcodeGenerator {
+  generate(configuration: BarcodeConfiguration): Promise<Barcode>;
   supports(format: string): boolean;
+  getSupportedFormats(): string[];
   getCapabilities(): string[];
 }
 
-export interface ICacheRepository {
-  get(key: string): Promise<QRCode | null>;
-  set(key: string, qrCode: QRCode, ttlSeconds?: number): Promise<void>;
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+// A QR code found in an image; positions are in pixels of the submitted image
+export interface DecodedQRCode {
+  text: string;
+  symbol: QRSymbolInfo;
+  bounds: { x: number; y: number; width: number; height: number };
+  // Outer corners of the symbol, which follow its rotation and perspective
+  corners: { topLeft: ImagePoint; topRight: ImagePoint; bottomRight: ImagePoint; bottomLeft: ImagePoint };
+  // Codewords error correction had to restore
+  correctedCodewords: number;
+  structuredAppend?: { index: number; total: number; parity: number };
+}
+
+export interface QRReadResult {
+  codes: DecodedQRCode[];
+  image: { format: string; width: number; height: number };
+  // Finder patterns seen, which tells an image without codes from an unreadable one
+  finderPatterns: number;
+  // Whether the decoder stopped at its search limits, so the image may hold more codes
+  truncated: boolean;
+}
+
+export interface IQRCodeReader {
+  read(image: ScanImage): Promise<QRReadResult>;
+}
+
+export interface ILogoFetcher {
+  fetch(url: string): Promise<{ data: Buffer; mimeType: string }>;
+}
+
+// What the cache needs from a generated symbol to log and size its entries
+export interface Cacheable {
+  getId(): string;
+  getDataSize(): number;
+  toJSON(): unknown;
+}
+
+export interface ICacheRepository<T extends Cacheable = QRCode> {
+  get(key: string): Promise<T | null>;
+  set(key: string, item: T, ttlSeconds?: number): Promise<void>;
   delete(key: string): Promise<void>;
   clear(): Promise<void>;
   exists(key: string): Promise<boolean>;
@@ -0,0 +1,85 @@
+import { QRCodeRequestDTO, QRAnalysisResponseDTO } from '../dto';
+import { ValidateParametersUseCase } from './ValidateParametersUseCase';
+import { QRCodeConfigurationFactory } from './QRCodeConfigurationFactory';
+import { IQRCodeGenerator, ILogger, IMetricsCollector } from '../ports';
+import { AppError } from '../../shared/errors';
+
+/**
+ * Reports the symbol a request would produce (version, modes, capacity left
+ * and logo coverage) by encoding the data without rendering an image.
+ */
+export class AnalyzeQRCodeUseCase {
+  private readonly configurationFactory = new QRCodeConfigurationFactory();
+
+  constructor(
+    private readonly qrCodeGenerator: IQRCodeGenerator,
+    private readonly validateParametersUseCase: ValidateParametersUseCase,
+    private readonly logger: ILogger,
+    private readonly metricsCollector: IMetricsCollector
+  ) {}
+
+  async execute(request: QRCodeRequestDTO): Promise<QRAnalysisResponseDTO> {
+    const startTime = Date.now();
+
+    try {
+      const validation = await this.validateParametersUseCase.executeForAnalysis(request);
+      if (!validation.isValid()) {
+        this.metricsCollector.incrementCounter('qr_analysis_errors_total', { type: 'validation' });
+
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input parameters',
+            details: validation.getErrors()
+          },
+          performance: {
+            processingTimeMs: Date.now() - startTime
+          }
+        };
+      }
+
+      const configuration = this.configurationFactory.create(request);
+      const analysis = this.qrCodeGenerator.analyze(configuration);
+      const { width, height } = configuration.getImageSize();
+      const processingTime = Date.now() - startTime;
+
+      this.logger.info('QR Code analyzed', {
+        version: analysis.symbol.version,
+        errorCorrectionLevel: analysis.symbol.errorCorrectionLevel,
+        processingTimeMs: processingTime
+      });
+      this.metricsCollector.incrementCounter('qr_analyses_total');
+      this.metricsCollector.recordHistogram('qr_analysis_duration_ms', processingTime, { status: 'success' });
+
+      return {
+        success: true,
+        data: {
+          ...analysis,
+          dimensions: `${width}x${height}`
+        },
+        performance: {
+          processingTimeMs: processingTime
+        }
+      };
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+
+      this.logger.error('QR Code analysis failed', error as Error);
+      this.metricsCollector.incrementCounter('qr_analysis_errors_total', { type: 'generation' });
+      this.metricsCollector.recordHistogram('qr_analysis_duration_ms', processingTime, { status: 'error' });
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof AppError ? error.code : 'GENERATION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        },
+        performance: {
+          processingTimeMs: processingTime
+        }
+      };
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { ICacheRepository, ILogger } from '../ports';
+import { Cacheable, ICacheRepository, ILogger } from '../ports';
 import { QRCode } from '../../domain/entities/QRCode';
 
 export interface CacheStats {
@@ -9,22 +9,23 @@ export interface CacheStats {
   memory?: number;
 }
 
-export class CacheManagementUseCase {
+// Caches generated symbols of one kind; QR codes unless told otherwise
+export class CacheManagementUseCase<T extends Cacheable = QRCode> {
   constructor(
-    private readonly cacheRepository: ICacheRepository,
+    private readonly cacheRepository: ICacheRepository<T>,
     private readonly logger: ILogger,
     private readonly defaultTTL: number = 3600 // 1 hour default
   ) {}
 
-  async get(key: string): Promise<QRCode | null> {
+  async get(key: string): Promise<T | null> {
     try {
       this.logger.debug('Cache get operation', { key });
       
-      const cachedQRCode = await this.cacheRepository.get(key);
+      const cached = await this.cacheRepository.get(key);
       
-      if (cachedQRCode) {
-        this.logger.debug('Cache hit', { key, id: cachedQRCode.getId() });
-        return cachedQRCode;
+      if (cached) {
+        this.logger.debug('Cache hit', { key, id: cached.getId() });
+        return cached;
       } else {
         this.logger.debug('Cache miss', { key });
         return null;
@@ -35,25 +36,25 @@ export class CacheManagementUseCase {
     }
   }
 
-  async set(key: string, qrCode: QRCode, ttlSeconds?: number): Promise<boolean> {
+  async set(key: string, item: T, ttlSeconds?: number): Promise<boolean> {
     try {
       const ttl = ttlSeconds || this.defaultTTL;
       
       this.logger.debug('Cache set operation', { 
         key, 
-        id: qrCode.getId(), 
-        size: qrCode.getDataSize(),
+        id: item.getId(), 
+        size: item.getDataSize(),
         ttl 
       });
       
-      await this.cacheRepository.set(key, qrCode, ttl);
+      await this.cacheRepository.set(key, item, ttl);
       
-      this.logger.debug('Cache set successful', { key, id: qrCode.getId() });
+      this.logger.debug('Cache set successful', { key, id: item.getId() });
       return true;
     } catch (error) {
       this.logger.error('Cache set operation failed', error as Error, { 
         key, 
-        id: qrCode.getId() 
+        id: item.getId() 
       });
       return false; // Graceful degradation
     }
@@ -119,7 +120,7 @@ export class CacheManagementUseCase {
   }
 
   // Cache warming strategy
-  async warmCache(qrCodes: Array<{ key: string; qrCode: QRCode; ttl?: number }>): Promise<number> {
+  async warmCache(qrCodes: Array<{ key: string; qrCode: T; ttl?: number }>): Promise<number> {
     let successCount = 0;
     
     this.logger.info('Cache warming started', { count: qrCodes.length });
@@ -0,0 +1,169 @@
+import { BarcodeRequestDTO, BarcodeResponseDTO } from '../dto';
+import { Barcode } from '../../domain/entities/Barcode';
+import { BarcodeConfiguration } from '../../domain/entities/BarcodeConfiguration';
+import { BarcodePayload } from '../../domain/valueObjects/BarcodePayload';
+import { BarcodeTypeValue } from '../../domain/valueObjects/BarcodeType';
+import { Size } from '../../domain/valueObjects/Size';
+import { OutputFormatValue } from '../../domain/valueObjects/OutputFormat';
+import { ColorValue } from '../../domain/valueObjects/ColorValue';
+import { ValidateBarcodeParametersUseCase } from './ValidateBarcodeParametersUseCase';
+import { CacheManagementUseCase } from './CacheManagementUseCase';
+import { IBarcodeGenerator, ILogger, IMetricsCollector } from '../ports';
+import { AppError } from '../../shared/errors';
+
+export class GenerateBarcodeUseCase {
+  constructor(
+    private readonly barcodeGenerator: IBarcodeGenerator,
+    private readonly validateParametersUseCase: ValidateBarcodeParametersUseCase,
+    private readonly cacheManagementUseCase: CacheManagementUseCase<Barcode>,
+    private readonly logger: ILogger,
+    private readonly metricsCollector: IMetricsCollector
+  ) {}
+
+  async execute(request: BarcodeRequestDTO): Promise<BarcodeResponseDTO> {
+    const startTime = Date.now();
+
+    try {
+      this.logger.info('Barcode generation started', {
+        data: request.data?.substring(0, 100),
+        type: request.type,
+        format: request.format,
+        size: request.size
+      });
+
+      // Step 1: Validate input parameters
+      const validation = await this.validateParametersUseCase.execute(request);
+      if (!validation.isValid()) {
+        const processingTime = Date.now() - startTime;
+        this.metricsCollector.incrementCounter('barcode_generation_errors_total', { type: 'validation' });
+        this.metricsCollector.recordHistogram('barcode_generation_duration_ms', processingTime, { status: 'error' });
+
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input parameters',
+            details: validation.getErrors()
+          },
+          performance: {
+            processingTimeMs: processingTime,
+            cacheStatus: 'error',
+            dataSize: 0
+          }
+        };
+      }
+
+      // Step 2: Build configuration from validated parameters
+      const configuration = this.createConfiguration(request);
+      const cacheKey = configuration.getHashKey();
+
+      // Step 3: Check cache first
+      const cachedBarcode = await this.cacheManagementUseCase.get(cacheKey);
+      if (cachedBarcode) {
+        const processingTime = Date.now() - startTime;
+
+        this.logger.info('Barcode served from cache', { id: cachedBarcode.getId() });
+
+        this.metricsCollector.incrementCounter('barcode_cache_hits_total');
+        this.metricsCollector.recordHistogram('barcode_generation_duration_ms', processingTime, { status: 'success', cache: 'hit' });
+
+        return this.toResponse(cachedBarcode, true, processingTime);
+      }
+
+      // Step 4: Generate new barcode
+      this.metricsCollector.incrementCounter('barcode_cache_misses_total');
+
+      const barcode = await this.barcodeGenerator.generate(configuration);
+
+      // Step 5: Cache the result (async, don't wait)
+      this.cacheManagementUseCase.set(cacheKey, barcode)
+        .catch(error => {
+          this.logger.warn('Failed to cache barcode', { error: error.message });
+        });
+
+      const processingTime = Date.now() - startTime;
+
+      this.logger.info('Barcode generated successfully', {
+        id: barcode.getId(),
+        type: configuration.getType().toString(),
+        size: barcode.getDataSize(),
+        processingTimeMs: processingTime
+      });
+
+      this.metricsCollector.incrementCounter('barcodes_generated_total', {
+        type: configuration.getType().toString(),
+        format: configuration.getFormat().toString()
+      });
+      this.metricsCollector.recordHistogram('barcode_generation_duration_ms', processingTime, {
+        status: 'success',
+        cache: 'miss'
+      });
+
+      return this.toResponse(barcode, false, processingTime);
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+
+      this.logger.error('Barcode generation failed', error as Error, {
+        type: request.type,
+        data: request.data?.substring(0, 100)
+      });
+
+      this.metricsCollector.incrementCounter('barcode_generation_errors_total', { type: 'generation' });
+      this.metricsCollector.recordHistogram('barcode_generation_duration_ms', processingTime, { status: 'error' });
+
+      return {
+        success: false,
+        error: {
+          code: error instanceof AppError ? error.code : 'GENERATION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          details: error instanceof Error ? error.stack : undefined
+        },
+        performance: {
+          processingTimeMs: processingTime,
+          cacheStatus: 'error',
+          dataSize: 0
+        }
+      };
+    }
+  }
+
+  private createConfiguration(request: BarcodeRequestDTO): BarcodeConfiguration {
+    const type = request.type ? BarcodeTypeValue.create(request.type) : BarcodeTypeValue.default();
+
+    return new BarcodeConfiguration({
+      data: BarcodePayload.create(request.data, type),
+      type,
+      size: request.size ? Size.fromString(request.size) : undefined,
+      format: request.format ? OutputFormatValue.create(request.format) : undefined,
+      foregroundColor: request.color ? ColorValue.create(request.color) : undefined,
+      backgroundColor: request.bgcolor ? ColorValue.create(request.bgcolor) : undefined,
+      margin: request.margin,
+      showText: request.show_text
+    });
+  }
+
+  private toResponse(barcode: Barcode, cacheHit: boolean, processingTime: number): BarcodeResponseDTO {
+    const configuration = barcode.getConfiguration();
+
+    return {
+      success: true,
+      data: {
+        id: barcode.getId(),
+        image: barcode.getImageData(),
+        mimeType: barcode.getMimeType(),
+        size: barcode.getDataSize(),
+        format: configuration.getFormat().toString(),
+        dimensions: configuration.getSize().toString(),
+        cacheHit,
+        generatedAt: barcode.getCreatedAt().toISOString(),
+        symbol: barcode.getSymbol()
+      },
+      performance: {
+        processingTimeMs: processingTime,
+        cacheStatus: cacheHit ? 'hit' : 'miss',
+        dataSize: barcode.getDataSize()
+      }
+    };
+  }
+}
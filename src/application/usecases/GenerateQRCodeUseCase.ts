@@ -1,17 +1,15 @@
 import { QRCodeRequestDTO, QRCodeResponseDTO } from '../dto';
 import { QRCode } from '../../domain/entities/QRCode';
 import { QRCodeConfiguration } from '../../domain/entities/QRCodeConfiguration';
-import { Size } from '../../domain/valueObjects/Size';
-import { ColorValue } from '../../domain/valueObjects/ColorValue';
-import { ErrorCorrectionLevelValue } from '../../domain/valueObjects/ErrorCorrectionLevel';
-import { OutputFormatValue } from '../../domain/valueObjects/OutputFormat';
-import { DataPayload } from '../../domain/valueObjects/DataPayload';
-import { Logo } from '../../domain/valueObjects/Logo';
 import { ValidateParametersUseCase } from './ValidateParametersUseCase';
 import { CacheManagementUseCase } from './CacheManagementUseCase';
 import { IQRCodeGenerator, ILogger, IMetricsCollector } from '../ports';
+import { AppError, ScanVerificationError } from '../../shared/errors';
+import { QRCodeConfigurationFactory } from './QRCodeConfigurationFactory';
 
 export class GenerateQRCodeUseCase {
+  private readonly configurationFactory = new QRCodeConfigurationFactory();
+
   constructor(
     private readonly qrCodeGenerator: IQRCodeGenerator,
     private readonly validateParametersUseCase: ValidateParametersUseCase,
@@ -54,7 +52,7 @@ export class GenerateQRCodeUseCase {
       }
 
       // Step 2: Build configuration from validated parameters
-      const configuration = this.buildConfiguration(request);
+      const configuration = this.configurationFactory.create(request);
       const cacheKey = configuration.getHashKey();
 
       // Step 3: Check cache first
@@ -79,9 +77,11 @@ export class GenerateQRCodeUseCase {
             mimeType: cachedQRCode.getMimeType(),
             size: cachedQRCode.getDataSize(),
             format: configuration.getFormat().toString(),
-            dimensions: configuration.getSize().toString(),
+            dimensions: this.formatDimensions(configuration),
             cacheHit: true,
-            generatedAt: cachedQRCode.getCreatedAt().toISOString()
+            generatedAt: cachedQRCode.getCreatedAt().toISOString(),
+            symbol: cachedQRCode.getSymbol(),
+            verification: cachedQRCode.getVerification()
           },
           performance: {
             processingTimeMs: processingTime,
@@ -120,6 +120,13 @@ export class GenerateQRCodeUseCase {
         cache: 'miss' 
       });
 
+      const verification = qrCode.getVerification();
+      if (verification) {
+        this.metricsCollector.incrementCounter('qr_verifications_total', {
+          result: verification.attempts > 1 ? 'passed_after_retry' : 'passed'
+        });
+      }
+
       return {
         success: true,
         data: {
@@ -128,9 +135,11 @@ export class GenerateQRCodeUseCase {
           mimeType: qrCode.getMimeType(),
           size: qrCode.getDataSize(),
           format: configuration.getFormat().toString(),
-          dimensions: configuration.getSize().toString(),
+          dimensions: this.formatDimensions(configuration),
           cacheHit: false,
-          generatedAt: qrCode.getCreatedAt().toISOString()
+          generatedAt: qrCode.getCreatedAt().toISOString(),
+          symbol: qrCode.getSymbol(),
+          verification: qrCode.getVerification()
         },
         performance: {
           processingTimeMs: processingTime,
@@ -149,15 +158,23 @@ export class GenerateQRCodeUseCase {
         }
       });
 
-      this.metricsCollector.incrementCounter('qr_generation_errors_total', { type: 'generation' });
+      if (error instanceof ScanVerificationError) {
+        this.metricsCollector.incrementCounter('qr_verifications_total', { result: 'failed' });
+      }
+      this.metricsCollector.incrementCounter('qr_generation_errors_total', {
+        type: error instanceof ScanVerificationError ? 'verification' : 'generation'
+      });
       this.metricsCollector.recordHistogram('qr_generation_duration_ms', processingTime, { status: 'error' });
 
       return {
         success: false,
         error: {
-          code: 'GENERATION_ERROR',
+          code: error instanceof AppError ? error.code : 'GENERATION_ERROR',
           message: error instanceof Error ? error.message : 'Unknown error occurred',
-          details: error instanceof Error ? error.stack : undefined
+          // Failed scans list what each attempt read; other errors carry their stack
+          details: error instanceof ScanVerificationError
+            ? { attempts: error.attempts }
+            : error instanceof Error ? error.stack : undefined
         },
         performance: {
           processingTimeMs: processingTime,
@@ -168,46 +185,9 @@ export class GenerateQRCodeUseCase {
     }
   }
 
-  private buildConfiguration(request: QRCodeRequestDTO): QRCodeConfiguration {
-    const data = DataPayload.create(request.data);
-    
-    const size = request.size 
-      ? Size.fromString(request.size) 
-      : Size.default();
-    
-    const format = request.format 
-      ? OutputFormatValue.create(request.format) 
-      : OutputFormatValue.default();
-    
-    const errorCorrectionLevel = request.ecc 
-      ? ErrorCorrectionLevelValue.create(request.ecc) 
-      : ErrorCorrectionLevelValue.default();
-    
-    const foregroundColor = request.color 
-      ? ColorValue.create(request.color) 
-      : ColorValue.black();
-    
-    const backgroundColor = request.bgcolor 
-      ? ColorValue.create(request.bgcolor) 
-      : ColorValue.white();
-
-    const logo = request.logo 
-      ? Logo.create(request.logo, request.logo_size, request.logo_margin) 
-      : undefined;
-
-    return new QRCodeConfiguration({
-      data,
-      size,
-      format,
-      errorCorrectionLevel,
-      foregroundColor,
-      backgroundColor,
-      margin: request.margin,
-      quietZone: request.qzone,
-      charsetSource: request['charset-source'],
-      charsetTarget: request['charset-target'],
-      logo
-    });
+  private formatDimensions(configuration: QRCodeConfiguration): string {
+    const { width, height } = configuration.getImageSize();
+    return `${width}x${height}`;
   }
 
   // Health check method for the use case
@@ -246,7 +226,7 @@ export class GenerateQRCodeUseCase {
       cache: cacheStats,
       generator: {
         capabilities: this.qrCodeGenerator.getCapabilities(),
-        supportedFormats: ['png', 'jpg', 'jpeg', 'svg']
+        supportedFormats: this.qrCodeGenerator.getSupportedFormats()
       }
     };
   }
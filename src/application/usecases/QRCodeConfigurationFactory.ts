@@ -0,0 +1,131 @@
+import { QRCodeRequestDTO } from '../dto';
+import { QRCodeConfiguration } from '../../domain/entities/QRCodeConfiguration';
+import { Size } from '../../domain/valueObjects/Size';
+import { ColorValue } from '../../domain/valueObjects/ColorValue';
+import { ErrorCorrectionLevelValue } from '../../domain/valueObjects/ErrorCorrectionLevel';
+import { OutputFormatValue } from '../../domain/valueObjects/OutputFormat';
+import { DataPayload } from '../../domain/valueObjects/DataPayload';
+import { Logo } from '../../domain/valueObjects/Logo';
+import { PageSize } from '../../domain/valueObjects/PageSize';
+import { ModuleStyleValue } from '../../domain/valueObjects/ModuleStyle';
+import { EyeStyle, EyePosition } from '../../domain/valueObjects/EyeStyle';
+import { Gradient, GradientType } from '../../domain/valueObjects/Gradient';
+import { Frame } from '../../domain/valueObjects/Frame';
+import { CharsetValue } from '../../domain/valueObjects/Charset';
+import { EncodingModeValue } from '../../domain/valueObjects/EncodingMode';
+import { SymbologyValue } from '../../domain/valueObjects/Symbology';
+
+/**
+ * Turns validated request parameters into a configuration, filling in the
+ * defaults for everything the request leaves out.
+ */
+export class QRCodeConfigurationFactory {
+  create(request: QRCodeRequestDTO): QRCodeConfiguration {
+    const data = DataPayload.create(request.data);
+    
+    const size = request.size 
+      ? Size.fromString(request.size) 
+      : Size.default();
+    
+    const format = request.format 
+      ? OutputFormatValue.create(request.format) 
+      : OutputFormatValue.default();
+    
+    const errorCorrectionLevel = request.ecc 
+      ? ErrorCorrectionLevelValue.create(request.ecc) 
+      : ErrorCorrectionLevelValue.default();
+    
+    const foregroundColor = request.color 
+      ? ColorValue.create(request.color) 
+      : ColorValue.black();
+    
+    const backgroundColor = request.bgcolor 
+      ? ColorValue.create(request.bgcolor) 
+      : ColorValue.white();
+
+    const logo = request.logo 
+      ? Logo.create(request.logo, request.logo_size, request.logo_margin) 
+      : undefined;
+
+    const pageSize = request.page_size
+      ? PageSize.create(request.page_size)
+      : undefined;
+
+    const moduleStyle = request.module_style
+      ? ModuleStyleValue.create(request.module_style)
+      : undefined;
+
+    const eyeStyle = EyeStyle.create({
+      frame: request.eye_frame,
+      ball: request.eye_ball,
+      color: request.eye_color ? ColorValue.create(request.eye_color) : undefined,
+      colors: {
+        [EyePosition.TOP_LEFT]: request.eye_color_tl ? ColorValue.create(request.eye_color_tl) : undefined,
+        [EyePosition.TOP_RIGHT]: request.eye_color_tr ? ColorValue.create(request.eye_color_tr) : undefined,
+        [EyePosition.BOTTOM_LEFT]: request.eye_color_bl ? ColorValue.create(request.eye_color_bl) : undefined
+      }
+    });
+
+    const gradient = request.gradient_colors
+      ? Gradient.create(request.gradient_type || GradientType.LINEAR, request.gradient_colors, request.gradient_angle)
+      : undefined;
+
+    const charsetSource = request['charset-source']
+      ? CharsetValue.create(request['charset-source'])
+      : undefined;
+
+    const charsetTarget = request['charset-target']
+      ? CharsetValue.create(request['charset-target'])
+      : undefined;
+
+    const encodingMode = request.mode
+      ? EncodingModeValue.create(request.mode)
+      : undefined;
+
+    const symbology = request.symbology
+      ? SymbologyValue.create(request.symbology)
+      : undefined;
+
+    const matteColor = request.matte
+      ? ColorValue.create(request.matte)
+      : undefined;
+
+    // The frame takes the code's foreground color unless it has its own
+    const frame = request.frame
+      ? Frame.create({
+        style: request.frame,
+        text: request.frame_text,
+        textSize: request.frame_text_size,
+        color: request.frame_color ? ColorValue.create(request.frame_color) : foregroundColor,
+        textColor: request.frame_text_color ? ColorValue.create(request.frame_text_color) : undefined
+      })
+      : undefined;
+
+    return new QRCodeConfiguration({
+      data,
+      size,
+      format,
+      errorCorrectionLevel,
+      foregroundColor,
+      backgroundColor,
+      margin: request.margin,
+      quietZone: request.qzone,
+      charsetSource,
+      charsetTarget,
+      logo,
+      pageSize,
+      codeSizeMm: request.code_size_mm,
+      quality: request.quality,
+      moduleStyle,
+      eyeStyle,
+      gradient,
+      matteColor,
+      frame,
+      version: request.version,
+      maskPattern: request.mask,
+      encodingMode,
+      symbology,
+      verify: request.verify
+    });
+  }
+}
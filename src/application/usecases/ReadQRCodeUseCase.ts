@@ -0,0 +1,119 @@
+import { QRReadRequestDTO, QRReadResponseDTO } from '../dto';
+import { IQRCodeReader, ILogger, IMetricsCollector } from '../ports';
+import { ScanImage } from '../../domain/valueObjects/ScanImage';
+import { AppError } from '../../shared/errors';
+
+/**
+ * Decodes every QR code in an uploaded image. An image without a readable
+ * code is a failed request, reported with what the reader did see.
+ */
+export class ReadQRCodeUseCase {
+  constructor(
+    private readonly qrCodeReader: IQRCodeReader,
+    private readonly logger: ILogger,
+    private readonly metricsCollector: IMetricsCollector
+  ) {}
+
+  async execute(request: QRReadRequestDTO): Promise<QRReadResponseDTO> {
+    const startTime = Date.now();
+
+    let image: ScanImage;
+    try {
+      image = Buffer.isBuffer(request.image)
+        ? ScanImage.fromBinary(request.image)
+        : ScanImage.fromBase64(request.image);
+    } catch (error) {
+      this.metricsCollector.incrementCounter('qr_read_errors_total', { type: 'validation' });
+
+      const message = error instanceof Error ? error.message : 'Invalid image';
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input parameters',
+          details: [{ field: 'image', message, type: 'invalid_image' }]
+        },
+        performance: {
+          processingTimeMs: Date.now() - startTime
+        }
+      };
+    }
+
+    try {
+      const result = await this.qrCodeReader.read(image);
+      const processingTime = Date.now() - startTime;
+
+      this.metricsCollector.recordHistogram('qr_read_duration_ms', processingTime, {
+        status: result.codes.length > 0 ? 'found' : 'not_found'
+      });
+
+      if (result.codes.length === 0) {
+        this.logger.info('No QR code found in image', {
+          format: image.getMimeType(),
+          width: result.image.width,
+          height: result.image.height,
+          finderPatterns: result.finderPatterns,
+          processingTimeMs: processingTime
+        });
+        this.metricsCollector.incrementCounter('qr_reads_total', { result: 'not_found' });
+
+        return {
+          success: false,
+          error: {
+            code: 'QR_CODE_NOT_FOUND',
+            message: result.finderPatterns > 0
+              ? 'Finder patterns were found but no QR code could be decoded; it may be damaged, blurred or too small'
+              : 'No QR code found in the image',
+            details: {
+              image: result.image,
+              finderPatterns: result.finderPatterns
+            }
+          },
+          performance: {
+            processingTimeMs: processingTime
+          }
+        };
+      }
+
+      this.logger.info('QR codes read', {
+        count: result.codes.length,
+        truncated: result.truncated,
+        format: image.getMimeType(),
+        processingTimeMs: processingTime
+      });
+      this.metricsCollector.incrementCounter('qr_reads_total', { result: 'found' });
+
+      return {
+        success: true,
+        data: {
+          count: result.codes.length,
+          codes: result.codes,
+          image: result.image,
+          truncated: result.truncated
+        },
+        performance: {
+          processingTimeMs: processingTime
+        }
+      };
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      const code = error instanceof AppError ? error.code : 'DECODE_ERROR';
+
+      this.logger.error('QR code reading failed', error as Error);
+      this.metricsCollector.incrementCounter('qr_read_errors_total', { type: code === 'VALIDATION_ERROR' ? 'validation' : 'decode' });
+      this.metricsCollector.recordHistogram('qr_read_duration_ms', processingTime, { status: 'error' });
+
+      return {
+        success: false,
+        error: {
+          code,
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        },
+        performance: {
+          processingTimeMs: processingTime
+        }
+      };
+    }
+  }
+}
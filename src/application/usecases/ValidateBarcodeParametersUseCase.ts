@@ -0,0 +1,197 @@
+import { BarcodeRequestDTO } from '../dto';
+import { ValidationResult, ValidationError, ValidationErrorType } from '../../domain/entities/ValidationResult';
+import { Size } from '../../domain/valueObjects/Size';
+import { ColorValue } from '../../domain/valueObjects/ColorValue';
+import { OutputFormatValue } from '../../domain/valueObjects/OutputFormat';
+import { BarcodePayload } from '../../domain/valueObjects/BarcodePayload';
+import { BarcodeTypeValue } from '../../domain/valueObjects/BarcodeType';
+import { BarcodeConfiguration } from '../../domain/entities/BarcodeConfiguration';
+import { IBarcodeGenerator } from '../ports';
+
+export class ValidateBarcodeParametersUseCase {
+  // When a generator is given, formats it cannot render are rejected up front
+  constructor(private readonly barcodeGenerator?: IBarcodeGenerator) {}
+
+  async execute(request: BarcodeRequestDTO): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+
+    if (request.type) {
+      const typeValidation = this.validateType(request.type);
+      if (!typeValidation.isValid()) {
+        errors.push(...typeValidation.getErrors());
+      }
+    }
+
+    // Retail data is checked against its type, so an unknown type leaves it to the type error
+    const dataValidation = this.validateData(request.data, request.type);
+    if (!dataValidation.isValid()) {
+      errors.push(...dataValidation.getErrors());
+    }
+
+    if (request.size) {
+      const sizeValidation = this.validateSize(request.size);
+      if (!sizeValidation.isValid()) {
+        errors.push(...sizeValidation.getErrors());
+      }
+    }
+
+    if (request.format) {
+      const formatValidation = this.validateFormat(request.format);
+      if (!formatValidation.isValid()) {
+        errors.push(...formatValidation.getErrors());
+      }
+    }
+
+    if (request.color) {
+      const colorValidation = this.validateColor(request.color, 'color');
+      if (!colorValidation.isValid()) {
+        errors.push(...colorValidation.getErrors());
+      }
+    }
+
+    if (request.bgcolor) {
+      const bgColorValidation = this.validateColor(request.bgcolor, 'bgcolor');
+      if (!bgColorValidation.isValid()) {
+        errors.push(...bgColorValidation.getErrors());
+      }
+    }
+
+    if (request.margin !== undefined) {
+      const marginValidation = this.validateMargin(request.margin, request.size);
+      if (!marginValidation.isValid()) {
+        errors.push(...marginValidation.getErrors());
+      }
+    }
+
+    return errors.length > 0 ? ValidationResult.failure(errors) : ValidationResult.success();
+  }
+
+  private validateType(type: string): ValidationResult {
+    try {
+      BarcodeTypeValue.create(type);
+      return ValidationResult.success();
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'type',
+        message: error instanceof Error ? error.message : 'Invalid barcode type',
+        type: ValidationErrorType.INVALID_VALUE,
+        value: type
+      });
+    }
+  }
+
+  private validateData(data: string, type?: string): ValidationResult {
+    if (!data) {
+      return ValidationResult.single({
+        field: 'data',
+        message: 'Data field is required',
+        type: ValidationErrorType.REQUIRED_FIELD
+      });
+    }
+
+    let barcodeType: BarcodeTypeValue;
+    try {
+      barcodeType = type ? BarcodeTypeValue.create(type) : BarcodeTypeValue.default();
+    } catch {
+      // Type validation will be caught by the type validation method
+      return ValidationResult.success();
+    }
+
+    try {
+      BarcodePayload.create(data, barcodeType);
+      return ValidationResult.success();
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'data',
+        message: error instanceof Error ? error.message : 'Invalid data format',
+        type: ValidationErrorType.INVALID_VALUE,
+        value: data
+      });
+    }
+  }
+
+  private validateSize(size: string): ValidationResult {
+    try {
+      Size.fromString(size);
+      return ValidationResult.success();
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'size',
+        message: error instanceof Error ? error.message : 'Invalid size format',
+        type: ValidationErrorType.INVALID_FORMAT,
+        value: size
+      });
+    }
+  }
+
+  private validateFormat(format: string): ValidationResult {
+    try {
+      const outputFormat = OutputFormatValue.create(format);
+
+      if (this.barcodeGenerator && !this.barcodeGenerator.supports(outputFormat.getValue())) {
+        return ValidationResult.single({
+          field: 'format',
+          message: `Unsupported output format for barcodes: ${format}. Supported formats: ${this.barcodeGenerator.getSupportedFormats().join(', ')}`,
+          type: ValidationErrorType.INVALID_VALUE,
+          value: format
+        });
+      }
+
+      return ValidationResult.success();
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'format',
+        message: error instanceof Error ? error.message : 'Invalid format',
+        type: ValidationErrorType.INVALID_VALUE,
+        value: format
+      });
+    }
+  }
+
+  private validateColor(color: string, field: string): ValidationResult {
+    try {
+      ColorValue.create(color);
+      return ValidationResult.success();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid color format';
+      return ValidationResult.single({
+        field,
+        message: message.includes(ColorValue.ACCEPTED_FORMATS)
+          ? message
+          : `${message}. Accepted formats: ${ColorValue.ACCEPTED_FORMATS}`,
+        type: ValidationErrorType.INVALID_FORMAT,
+        value: color
+      });
+    }
+  }
+
+  private validateMargin(margin: number, size?: string): ValidationResult {
+    if (!Number.isInteger(margin) || margin < 0 || margin > 50) {
+      return ValidationResult.single({
+        field: 'margin',
+        message: 'Margin must be an integer between 0 and 50 pixels',
+        type: ValidationErrorType.OUT_OF_RANGE,
+        value: margin
+      });
+    }
+
+    let imageSize: Size;
+    try {
+      imageSize = size ? Size.fromString(size) : BarcodeConfiguration.DEFAULT_SIZE;
+    } catch {
+      // Size validation will be caught by the size validation method
+      return ValidationResult.success();
+    }
+
+    if (margin * 2 >= Math.min(imageSize.getWidth(), imageSize.getHeight())) {
+      return ValidationResult.single({
+        field: 'margin',
+        message: `Margin (${margin}px) leaves no room for the barcode; it must be less than half of the shorter side`,
+        type: ValidationErrorType.CONSTRAINT_VIOLATION,
+        value: { margin, size: imageSize.toString() }
+      });
+    }
+
+    return ValidationResult.success();
+  }
+}
@@ -2,12 +2,50 @@ import { QRCodeRequestDTO } from '../dto';
 import { ValidationResult, ValidationError, ValidationErrorType } from '../../domain/entities/ValidationResult';
 import { Size } from '../../domain/valueObjects/Size';
 import { ColorValue } from '../../domain/valueObjects/ColorValue';
-import { ErrorCorrectionLevelValue } from '../../domain/valueObjects/ErrorCorrectionLevel';
-import { OutputFormatValue } from '../../domain/valueObjects/OutputFormat';
+import { ErrorCorrectionLevel, ErrorCorrectionLevelValue } from '../../domain/valueObjects/ErrorCorrectionLevel';
+import { OutputFormat, OutputFormatValue } from '../../domain/valueObjects/OutputFormat';
 import { DataPayload } from '../../domain/valueObjects/DataPayload';
 import { Logo } from '../../domain/valueObjects/Logo';
+import { ModuleStyleValue } from '../../domain/valueObjects/ModuleStyle';
+import { EyeStyle } from '../../domain/valueObjects/EyeStyle';
+import { Gradient, GradientType } from '../../domain/valueObjects/Gradient';
+import { PageSize } from '../../domain/valueObjects/PageSize';
+import { Frame } from '../../domain/valueObjects/Frame';
+import { CharsetValue } from '../../domain/valueObjects/Charset';
+import { EncodingMode, EncodingModeValue } from '../../domain/valueObjects/EncodingMode';
+import { Symbology, SymbologyValue } from '../../domain/valueObjects/Symbology';
+import { QRCodeConfiguration } from '../../domain/entities/QRCodeConfiguration';
+import { IQRCodeGenerator, QRCapacity } from '../ports';
+
+// Formats drawn without styling: logos, frames, gradients, eye and module styles are rejected
+const UNSTYLED_FORMATS = [
+  OutputFormat.EPS,
+  OutputFormat.PDF,
+  OutputFormat.MATRIX,
+  OutputFormat.TXT,
+  OutputFormat.UTF8,
+  OutputFormat.ANSI
+];
+
+// Formats the scan check can rasterize; print and text output cannot be verified
+const VERIFIABLE_FORMATS = [
+  OutputFormat.PNG,
+  OutputFormat.GIF,
+  OutputFormat.JPEG,
+  OutputFormat.JPG,
+  OutputFormat.WEBP,
+  OutputFormat.AVIF,
+  OutputFormat.SVG
+];
 
 export class ValidateParametersUseCase {
+  // When a generator is given, formats it cannot render and data that does not
+  // fit the symbol are rejected up front instead of failing later
+  constructor(
+    private readonly qrCodeGenerator?: IQRCodeGenerator,
+    private readonly maxDataLength: number = DataPayload.MAX_LENGTH
+  ) {}
+
   async execute(request: QRCodeRequestDTO): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
 
@@ -67,6 +105,41 @@ export class ValidateParametersUseCase {
       }
     }
 
+    if (request.version !== undefined) {
+      const versionValidation = this.validateVersion(request.version);
+      if (!versionValidation.isValid()) {
+        errors.push(...versionValidation.getErrors());
+      }
+    }
+
+    if (request.mask !== undefined) {
+      const maskValidation = this.validateMask(request.mask);
+      if (!maskValidation.isValid()) {
+        errors.push(...maskValidation.getErrors());
+      }
+    }
+
+    if (request.mode) {
+      const modeValidation = this.validateEncodingMode(request.mode);
+      if (!modeValidation.isValid()) {
+        errors.push(...modeValidation.getErrors());
+      }
+    }
+
+    if (request.symbology) {
+      const symbologyValidation = this.validateSymbology(request);
+      if (!symbologyValidation.isValid()) {
+        errors.push(...symbologyValidation.getErrors());
+      }
+    }
+
+    if (request.verify) {
+      const verifyValidation = this.validateVerify(request.format);
+      if (!verifyValidation.isValid()) {
+        errors.push(...verifyValidation.getErrors());
+      }
+    }
+
     if (request['charset-source']) {
       const charsetValidation = this.validateCharset(request['charset-source'], 'charset-source');
       if (!charsetValidation.isValid()) {
@@ -81,6 +154,13 @@ export class ValidateParametersUseCase {
       }
     }
 
+    if (request.data && request['charset-target']) {
+      const dataCharsetValidation = this.validateDataCharset(request.data, request['charset-target']);
+      if (!dataCharsetValidation.isValid()) {
+        errors.push(...dataCharsetValidation.getErrors());
+      }
+    }
+
     // Validate logo parameters
     if (request.logo) {
       const logoValidation = this.validateLogo(request.logo, request.logo_size, request.logo_margin);
@@ -89,14 +169,104 @@ export class ValidateParametersUseCase {
       }
     }
 
+    if (request.page_size) {
+      const pageSizeValidation = this.validatePageSize(request.page_size);
+      if (!pageSizeValidation.isValid()) {
+        errors.push(...pageSizeValidation.getErrors());
+      }
+    }
+
+    if (request.code_size_mm !== undefined) {
+      const codeSizeValidation = this.validateCodeSizeMm(request.code_size_mm);
+      if (!codeSizeValidation.isValid()) {
+        errors.push(...codeSizeValidation.getErrors());
+      }
+    }
+
+    if (request.quality !== undefined) {
+      const qualityValidation = this.validateQuality(request.quality, request.format);
+      if (!qualityValidation.isValid()) {
+        errors.push(...qualityValidation.getErrors());
+      }
+    }
+
+    if (request.module_style) {
+      const moduleStyleValidation = this.validateModuleStyle(request.module_style, request.format);
+      if (!moduleStyleValidation.isValid()) {
+        errors.push(...moduleStyleValidation.getErrors());
+      }
+    }
+
+    const eyeStyleValidation = this.validateEyeStyle(request);
+    if (!eyeStyleValidation.isValid()) {
+      errors.push(...eyeStyleValidation.getErrors());
+    }
+
+    if (request.gradient_type || request.gradient_colors || request.gradient_angle !== undefined) {
+      const gradientValidation = this.validateGradient(request);
+      if (!gradientValidation.isValid()) {
+        errors.push(...gradientValidation.getErrors());
+      }
+    }
+
+    const frameFields = ['frame', 'frame_text', 'frame_text_size', 'frame_color', 'frame_text_color'] as const;
+    if (frameFields.some(field => request[field] !== undefined)) {
+      const frameValidation = this.validateFrame(request);
+      if (!frameValidation.isValid()) {
+        errors.push(...frameValidation.getErrors());
+      }
+    }
+
+    if (request.matte) {
+      const matteValidation = this.validateMatte(request.matte);
+      if (!matteValidation.isValid()) {
+        errors.push(...matteValidation.getErrors());
+      }
+    }
+
     // Cross-field validations
     if (request.color && request.bgcolor) {
-      const contrastValidation = this.validateColorContrast(request.color, request.bgcolor);
+      const contrastValidation = this.validateColorContrast(request.color, request.bgcolor, request.matte);
       if (!contrastValidation.isValid()) {
         errors.push(...contrastValidation.getErrors());
       }
     }
 
+    if ((request.color || request.bgcolor) && request.format) {
+      const transparencyValidation = this.validateTransparencyFormat(request);
+      if (!transparencyValidation.isValid()) {
+        errors.push(...transparencyValidation.getErrors());
+      }
+    }
+
+    if (request.margin !== undefined && (request.size || request.code_size_mm !== undefined)) {
+      const marginFitValidation = this.validateMarginFitsSize(request.margin, request.size, request.code_size_mm);
+      if (!marginFitValidation.isValid()) {
+        errors.push(...marginFitValidation.getErrors());
+      }
+    }
+
+    if (request.page_size && request.code_size_mm !== undefined) {
+      const pageFitValidation = this.validateCodeFitsPage(request.page_size, request.code_size_mm);
+      if (!pageFitValidation.isValid()) {
+        errors.push(...pageFitValidation.getErrors());
+      }
+    }
+
+    if (request.logo && request.format) {
+      const logoFormatValidation = this.validateLogoFormat(request.format);
+      if (!logoFormatValidation.isValid()) {
+        errors.push(...logoFormatValidation.getErrors());
+      }
+    }
+
+    if (request.data && this.qrCodeGenerator && errors.length === 0) {
+      const capacityValidation = this.validateCapacity(request);
+      if (!capacityValidation.isValid()) {
+        errors.push(...capacityValidation.getErrors());
+      }
+    }
+
     // Validate logo size relative to QR code size
     if (request.logo && request.size && request.logo_size) {
       const logoSizeValidation = this.validateLogoSizeRelativeToQR(request.size, request.logo_size);
@@ -118,7 +288,7 @@ export class ValidateParametersUseCase {
     }
 
     try {
-      DataPayload.create(data);
+      DataPayload.create(data, this.maxDataLength);
       return ValidationResult.success();
     } catch (error) {
       return ValidationResult.single({
@@ -146,7 +316,17 @@ export class ValidateParametersUseCase {
 
   private validateFormat(format: string): ValidationResult {
     try {
-      OutputFormatValue.create(format);
+      const outputFormat = OutputFormatValue.create(format);
+
+      if (this.qrCodeGenerator && !this.qrCodeGenerator.supports(outputFormat.getValue())) {
+        return ValidationResult.single({
+          field: 'format',
+          message: `Unsupported output format: ${format}. Supported formats: ${this.qrCodeGenerator.getSupportedFormats().join(', ')}`,
+          type: ValidationErrorType.INVALID_VALUE,
+          value: format
+        });
+      }
+
       return ValidationResult.success();
     } catch (error) {
       return ValidationResult.single({
@@ -177,9 +357,12 @@ export class ValidateParametersUseCase {
       ColorValue.create(color);
       return ValidationResult.success();
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid color format';
       return ValidationResult.single({
         field,
-        message: error instanceof Error ? error.message : 'Invalid color format',
+        message: message.includes(ColorValue.ACCEPTED_FORMATS)
+          ? message
+          : `${message}. Accepted formats: ${ColorValue.ACCEPTED_FORMATS}`,
         type: ValidationErrorType.INVALID_FORMAT,
         value: color
       });
@@ -210,30 +393,628 @@ export class ValidateParametersUseCase {
     return ValidationResult.success();
   }
 
+  private validateVersion(version: number): ValidationResult {
+    if (!Number.isInteger(version) || version < 1 || version > 40) {
+      return ValidationResult.single({
+        field: 'version',
+        message: 'Version must be an integer between 1 and 40',
+        type: ValidationErrorType.OUT_OF_RANGE,
+        value: version
+      });
+    }
+    return ValidationResult.success();
+  }
+
+  private validateMask(mask: number): ValidationResult {
+    if (!Number.isInteger(mask) || mask < 0 || mask > 7) {
+      return ValidationResult.single({
+        field: 'mask',
+        message: 'Mask pattern must be an integer between 0 and 7',
+        type: ValidationErrorType.OUT_OF_RANGE,
+        value: mask
+      });
+    }
+    return ValidationResult.success();
+  }
+
+  private validateEncodingMode(mode: string): ValidationResult {
+    try {
+      EncodingModeValue.create(mode);
+      return ValidationResult.success();
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'mode',
+        message: error instanceof Error ? error.message : 'Invalid encoding mode',
+        type: ValidationErrorType.INVALID_VALUE,
+        value: mode
+      });
+    }
+  }
+
+  // Analysis reports QR versions, segment modes and capacity, which the other
+  // symbologies do not have
+  async executeForAnalysis(request: QRCodeRequestDTO): Promise<ValidationResult> {
+    const validation = await this.execute(request);
+    return validation.combine(this.validateAnalysisSymbology(request.symbology));
+  }
+
+  private validateAnalysisSymbology(value?: string): ValidationResult {
+    if (!value) {
+      return ValidationResult.success();
+    }
+
+    try {
+      const symbology = SymbologyValue.create(value);
+      if (symbology.isQR()) {
+        return ValidationResult.success();
+      }
+      return ValidationResult.single({
+        field: 'symbology',
+        message: `Analysis is only available for QR codes, not ${symbology.getDisplayName()}`,
+        type: ValidationErrorType.CONSTRAINT_VIOLATION,
+        value
+      });
+    } catch {
+      // Unknown symbologies are already reported by execute
+      return ValidationResult.success();
+    }
+  }
+
+  // Data Matrix and Aztec have no versions, masks, segment modes or finder
+  // eyes, and hide too few codewords behind a logo to cover one
+  private validateSymbology(request: QRCodeRequestDTO): ValidationResult {
+    let symbology: SymbologyValue;
+    try {
+      symbology = SymbologyValue.create(request.symbology!);
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'symbology',
+        message: error instanceof Error ? error.message : 'Invalid symbology',
+        type: ValidationErrorType.INVALID_VALUE,
+        value: request.symbology
+      });
+    }
+    if (symbology.isQR()) {
+      return ValidationResult.success();
+    }
+
+    const errors: ValidationError[] = [];
+    const name = symbology.getDisplayName();
+
+    const qrOnlyFields = [
+      'version', 'mask', 'mode', 'logo', 'eye_frame', 'eye_ball', 'eye_color', 'eye_color_tl', 'eye_color_tr', 'eye_color_bl', 'verify'
+    ] as const;
+    for (const field of qrOnlyFields) {
+      if (request[field] === undefined || request[field] === '' || request[field] === false) continue;
+      if (field === 'mode' && request.mode!.toLowerCase().trim() === EncodingMode.AUTO) continue;
+      errors.push({
+        field,
+        message: `${field} is only available for QR codes, not ${name}`,
+        type: ValidationErrorType.CONSTRAINT_VIOLATION,
+        value: request[field]
+      });
+    }
+
+    if (request.format?.toLowerCase() === OutputFormat.MATRIX) {
+      errors.push({
+        field: 'format',
+        message: `The matrix format describes QR function patterns and is not available for ${name}`,
+        type: ValidationErrorType.CONSTRAINT_VIOLATION,
+        value: request.format
+      });
+    }
+
+    if (symbology.getValue() === Symbology.DATA_MATRIX && request.ecc) {
+      errors.push({
+        field: 'ecc',
+        message: 'Data Matrix error correction is fixed by the symbol size; omit ecc',
+        type: ValidationErrorType.CONSTRAINT_VIOLATION,
+        value: request.ecc
+      });
+    }
+
+    return errors.length > 0 ? ValidationResult.failure(errors) : ValidationResult.success();
+  }
+
+  private validateVerify(format?: string): ValidationResult {
+    try {
+      const outputFormat = format ? OutputFormatValue.create(format) : OutputFormatValue.default();
+      if (!VERIFIABLE_FORMATS.includes(outputFormat.getValue())) {
+        return ValidationResult.single({
+          field: 'verify',
+          message: `Verification scans the rendered image and is not available for ${outputFormat.toString().toUpperCase()} output`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: format
+        });
+      }
+    } catch {
+      // Format validation will be caught by the format validation method
+    }
+
+    return ValidationResult.success();
+  }
+
   private validateCharset(charset: string, field: string): ValidationResult {
-    const supportedCharsets = ['UTF-8', 'ISO-8859-1'];
-    if (!supportedCharsets.includes(charset)) {
+    let charsetValue: CharsetValue;
+    try {
+      charsetValue = CharsetValue.create(charset);
+    } catch (error) {
       return ValidationResult.single({
         field,
-        message: `Unsupported charset: ${charset}. Supported: ${supportedCharsets.join(', ')}`,
+        message: error instanceof Error ? error.message : 'Unsupported charset',
         type: ValidationErrorType.INVALID_VALUE,
         value: charset
       });
     }
+
+    // Readers can only be told about charsets with an ECI designator
+    if (field === 'charset-target' && !charsetValue.canBeTarget()) {
+      return ValidationResult.single({
+        field,
+        message: `${charsetValue} has no ECI designator, so readers cannot be told about it. Use it as charset-source and encode to UTF-8`,
+        type: ValidationErrorType.CONSTRAINT_VIOLATION,
+        value: charset
+      });
+    }
     return ValidationResult.success();
   }
 
-  private validateColorContrast(color: string, bgcolor: string): ValidationResult {
+  private validateDataCharset(data: string, charsetTarget: string): ValidationResult {
+    try {
+      const charset = CharsetValue.create(charsetTarget);
+      if (!DataPayload.create(data).isCompatibleWithCharset(charset.getValue())) {
+        return ValidationResult.single({
+          field: 'charset-target',
+          message: `Data contains characters that cannot be encoded in ${charset}`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: charsetTarget
+        });
+      }
+      return ValidationResult.success();
+    } catch {
+      // Data and charset validation will be caught by their own validation methods
+      return ValidationResult.success();
+    }
+  }
+
+  // Capacity depends on how the data splits into segments, the level and the version
+  private validateCapacity(request: QRCodeRequestDTO): ValidationResult {
+    let configuration: QRCodeConfiguration;
+    try {
+      configuration = new QRCodeConfiguration({
+        data: DataPayload.create(request.data, this.maxDataLength),
+        size: request.size ? Size.fromString(request.size) : undefined,
+        format: request.format ? OutputFormatValue.create(request.format) : undefined,
+        margin: request.margin,
+        quietZone: request.qzone,
+        errorCorrectionLevel: request.ecc ? ErrorCorrectionLevelValue.create(request.ecc) : undefined,
+        charsetTarget: request['charset-target'] ? CharsetValue.create(request['charset-target']) : undefined,
+        encodingMode: request.mode ? EncodingModeValue.create(request.mode) : undefined,
+        version: request.version,
+        symbology: request.symbology ? SymbologyValue.create(request.symbology) : undefined
+      });
+    } catch {
+      // Data, size, format, margins, level, charset, mode, version and symbology validation will be caught by their own validation methods
+      return ValidationResult.success();
+    }
+
+    let capacity: QRCapacity;
+    try {
+      capacity = this.qrCodeGenerator!.getCapacity(configuration);
+    } catch {
+      // Data that the forced mode cannot hold is reported by the generator
+      return ValidationResult.success();
+    }
+    if (capacity.fits) {
+      return this.validateModulesFitSize(configuration, capacity.moduleCount);
+    }
+
+    const level = configuration.getErrorCorrectionLevel().getValue();
+    const length = [...configuration.getData().getContent()].length;
+    const symbology = configuration.getSymbology();
+    const message = !symbology.isQR()
+      ? this.describeSymbologyCapacity(symbology, level, capacity.maxCharacters, length)
+      : request.version !== undefined && capacity.minimumVersion !== undefined
+      ? `Data does not fit in version ${request.version} at error correction level ${level}: ` +
+        `at most ${capacity.maxCharacters} of its ${length} characters fit. The smallest version that fits is ${capacity.minimumVersion}`
+      : `Data does not fit in a QR code at error correction level ${level}: ` +
+        `at most ${capacity.maxCharacters} of its ${length} characters fit in version ${request.version ?? 40}` +
+        (level === ErrorCorrectionLevel.LOW ? '' : '. Lower error correction levels hold more data');
+
+    return ValidationResult.single({
+      field: 'data',
+      message,
+      type: ValidationErrorType.CONSTRAINT_VIOLATION,
+      value: length
+    });
+  }
+
+  // Raster images need a pixel per module; smaller ones drop modules and do not scan
+  private validateModulesFitSize(configuration: QRCodeConfiguration, moduleCount?: number): ValidationResult {
+    if (moduleCount === undefined || !configuration.getFormat().isBitmapFormat()) {
+      return ValidationResult.success();
+    }
+
+    const size = configuration.getSize();
+    const margin = configuration.getMargin();
+    const modules = moduleCount + configuration.getQuietZone() * 2;
+    if (Math.min(size.getWidth(), size.getHeight()) - margin * 2 >= modules) {
+      return ValidationResult.success();
+    }
+
+    const minimum = modules + margin * 2;
+    return ValidationResult.single({
+      field: 'size',
+      message: `Size ${size.toString()} is too small for a symbol of ${moduleCount}x${moduleCount} modules: ` +
+        `with its quiet zone and margin it needs at least ${minimum}x${minimum} pixels`,
+      type: ValidationErrorType.CONSTRAINT_VIOLATION,
+      value: size.toString()
+    });
+  }
+
+  // Data Matrix has a single error correction level per symbol size
+  private describeSymbologyCapacity(symbology: SymbologyValue, level: ErrorCorrectionLevel, maxCharacters: number, length: number): string {
+    const fits = `at most ${maxCharacters} of its ${length} characters fit in the largest ${symbology.getDisplayName()} symbol`;
+    if (symbology.getValue() === Symbology.DATA_MATRIX) {
+      return `Data does not fit in a Data Matrix symbol: ${fits}`;
+    }
+    return `Data does not fit in an ${symbology.getDisplayName()} symbol at error correction level ${level}: ${fits}` +
+      (level === ErrorCorrectionLevel.LOW ? '' : '. Lower error correction levels hold more data');
+  }
+
+  private validatePageSize(pageSize: string): ValidationResult {
+    try {
+      PageSize.create(pageSize);
+      return ValidationResult.success();
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'page_size',
+        message: error instanceof Error ? error.message : 'Invalid page size',
+        type: ValidationErrorType.INVALID_FORMAT,
+        value: pageSize
+      });
+    }
+  }
+
+  private validateCodeSizeMm(codeSizeMm: number): ValidationResult {
+    if (!Number.isFinite(codeSizeMm) || codeSizeMm < 5 || codeSizeMm > 1000) {
+      return ValidationResult.single({
+        field: 'code_size_mm',
+        message: 'Code size must be between 5 and 1000 millimeters',
+        type: ValidationErrorType.OUT_OF_RANGE,
+        value: codeSizeMm
+      });
+    }
+    return ValidationResult.success();
+  }
+
+  private validateQuality(quality: number, format?: string): ValidationResult {
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      return ValidationResult.single({
+        field: 'quality',
+        message: 'Quality must be an integer between 1 and 100',
+        type: ValidationErrorType.OUT_OF_RANGE,
+        value: quality
+      });
+    }
+
+    try {
+      const outputFormat = format ? OutputFormatValue.create(format) : OutputFormatValue.default();
+      if (!outputFormat.supportsQuality()) {
+        return ValidationResult.single({
+          field: 'quality',
+          message: `Quality is not applicable to ${outputFormat.toString()} output. Use it with jpeg, jpg, webp or avif`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: { quality, format }
+        });
+      }
+    } catch {
+      // Format validation will be caught by the format validation method
+    }
+
+    return ValidationResult.success();
+  }
+
+  private validateModuleStyle(moduleStyle: string, format?: string): ValidationResult {
+    let style: ModuleStyleValue;
+    try {
+      style = ModuleStyleValue.create(moduleStyle);
+    } catch (error) {
+      return ValidationResult.single({
+        field: 'module_style',
+        message: error instanceof Error ? error.message : 'Invalid module style',
+        type: ValidationErrorType.INVALID_VALUE,
+        value: moduleStyle
+      });
+    }
+
+    try {
+      const outputFormat = format ? OutputFormatValue.create(format) : OutputFormatValue.default();
+      if (!style.isSquare() && UNSTYLED_FORMATS.includes(outputFormat.getValue())) {
+        return ValidationResult.single({
+          field: 'module_style',
+          message: `Module style ${style.toString()} is not supported for ${outputFormat.toString().toUpperCase()} output`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: { moduleStyle, format }
+        });
+      }
+    } catch {
+      // Format validation will be caught by the format validation method
+    }
+
+    return ValidationResult.success();
+  }
+
+  private validateEyeStyle(request: QRCodeRequestDTO): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    const shapes: Array<{ field: 'eye_frame' | 'eye_ball'; value?: string }> = [
+      { field: 'eye_frame', value: request.eye_frame },
+      { field: 'eye_ball', value: request.eye_ball }
+    ];
+    for (const { field, value } of shapes) {
+      if (!value) continue;
+      try {
+        EyeStyle.create(field === 'eye_frame' ? { frame: value } : { ball: value });
+      } catch (error) {
+        errors.push({
+          field,
+          message: error instanceof Error ? error.message : 'Invalid eye shape',
+          type: ValidationErrorType.INVALID_VALUE,
+          value
+        });
+      }
+    }
+
+    // Eyes are what scanners lock onto first, so each eye color needs the
+    // same contrast against the background as the modules themselves
+    const colorFields = ['eye_color', 'eye_color_tl', 'eye_color_tr', 'eye_color_bl'] as const;
+    for (const field of colorFields) {
+      const value = request[field];
+      if (!value) continue;
+
+      const colorValidation = this.validateColor(value, field);
+      if (!colorValidation.isValid()) {
+        errors.push(...colorValidation.getErrors());
+        continue;
+      }
+
+      try {
+        const eyeColor = ColorValue.create(value);
+        const background = request.bgcolor ? ColorValue.create(request.bgcolor) : ColorValue.white();
+        const matte = this.resolveMatte(request.matte);
+        if (!eyeColor.hasAccessibleContrast(background, matte)) {
+          errors.push({
+            field,
+            message: `Eye color ${eyeColor.toHex()} does not have enough contrast against the background (contrast ratio < 4.5:1)`,
+            type: ValidationErrorType.CONSTRAINT_VIOLATION,
+            value: { [field]: value, bgcolor: request.bgcolor, ratio: eyeColor.getContrastRatio(background, matte) }
+          });
+        }
+      } catch {
+        // Background color validation will be caught by the bgcolor validation method
+      }
+    }
+
+    const firstEyeField = [...shapes.map(shape => shape.field), ...colorFields].find(field => request[field]);
+    if (firstEyeField) {
+      try {
+        const outputFormat = request.format ? OutputFormatValue.create(request.format) : OutputFormatValue.default();
+        if (UNSTYLED_FORMATS.includes(outputFormat.getValue())) {
+          errors.push({
+            field: firstEyeField,
+            message: `Eye styling is not supported for ${outputFormat.toString().toUpperCase()} output`,
+            type: ValidationErrorType.CONSTRAINT_VIOLATION,
+            value: request.format
+          });
+        }
+      } catch {
+        // Format validation will be caught by the format validation method
+      }
+    }
+
+    return errors.length > 0 ? ValidationResult.failure(errors) : ValidationResult.success();
+  }
+
+  private validateGradient(request: QRCodeRequestDTO): ValidationResult {
+    if (!request.gradient_colors) {
+      return ValidationResult.single({
+        field: 'gradient_colors',
+        message: 'gradient_colors is required when using a gradient (at least two colors)',
+        type: ValidationErrorType.REQUIRED_FIELD
+      });
+    }
+
+    let gradient: Gradient;
+    try {
+      gradient = Gradient.create(request.gradient_type || GradientType.LINEAR, request.gradient_colors, request.gradient_angle);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid gradient';
+      const field = /type/.test(message) ? 'gradient_type' : /angle/.test(message) ? 'gradient_angle' : 'gradient_colors';
+      return ValidationResult.single({
+        field,
+        message,
+        type: ValidationErrorType.INVALID_VALUE,
+        value: request[field]
+      });
+    }
+
+    const errors: ValidationError[] = [];
+
+    try {
+      const background = request.bgcolor ? ColorValue.create(request.bgcolor) : ColorValue.white();
+      const matte = this.resolveMatte(request.matte);
+      const lightest = gradient.getLightestStop();
+      if (!lightest.hasAccessibleContrast(background, matte)) {
+        errors.push({
+          field: 'gradient_colors',
+          message: `Gradient stop ${lightest.toHex()} does not have enough contrast against the background (contrast ratio < 4.5:1)`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: { gradient_colors: request.gradient_colors, bgcolor: request.bgcolor, ratio: lightest.getContrastRatio(background, matte) }
+        });
+      }
+    } catch {
+      // Background color validation will be caught by the bgcolor validation method
+    }
+
+    try {
+      const outputFormat = request.format ? OutputFormatValue.create(request.format) : OutputFormatValue.default();
+      if (UNSTYLED_FORMATS.includes(outputFormat.getValue())) {
+        errors.push({
+          field: 'gradient_colors',
+          message: `Gradients are not supported for ${outputFormat.toString().toUpperCase()} output`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: request.format
+        });
+      }
+    } catch {
+      // Format validation will be caught by the format validation method
+    }
+
+    return errors.length > 0 ? ValidationResult.failure(errors) : ValidationResult.success();
+  }
+
+  private validateFrame(request: QRCodeRequestDTO): ValidationResult {
+    if (!request.frame) {
+      return ValidationResult.single({
+        field: 'frame',
+        message: 'frame is required when using frame_text, frame_text_size, frame_color or frame_text_color',
+        type: ValidationErrorType.REQUIRED_FIELD
+      });
+    }
+
+    const errors: ValidationError[] = [];
+    for (const field of ['frame_color', 'frame_text_color'] as const) {
+      const value = request[field];
+      if (!value) continue;
+      const colorValidation = this.validateColor(value, field);
+      if (!colorValidation.isValid()) {
+        errors.push(...colorValidation.getErrors());
+      }
+    }
+    if (errors.length > 0) {
+      return ValidationResult.failure(errors);
+    }
+
+    // Without its own color the frame takes the foreground color
+    let frameColor: ColorValue;
+    try {
+      frameColor = ColorValue.create(request.frame_color || request.color || '#000000');
+    } catch {
+      // Color validation will be caught by the color validation method
+      frameColor = ColorValue.black();
+    }
+
+    let frame: Frame;
+    try {
+      frame = Frame.create({
+        style: request.frame,
+        text: request.frame_text,
+        textSize: request.frame_text_size,
+        color: frameColor,
+        textColor: request.frame_text_color ? ColorValue.create(request.frame_text_color) : undefined
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid frame';
+      const field = /style/.test(message) ? 'frame' : /text size/.test(message) ? 'frame_text_size' : 'frame_text';
+      return ValidationResult.single({
+        field,
+        message,
+        type: ValidationErrorType.INVALID_VALUE,
+        value: request[field]
+      });
+    }
+
+    // The label sits on the frame color for filled styles and on the background for boxes
+    try {
+      const matte = this.resolveMatte(request.matte);
+      const background = request.bgcolor ? ColorValue.create(request.bgcolor) : ColorValue.white();
+      const backdrop = frame.hasFilledLabel() ? frame.getColor().compositeOver(background.compositeOver(matte)) : background;
+      if (!frame.getTextColor().hasAccessibleContrast(backdrop, matte)) {
+        errors.push({
+          field: request.frame_text_color ? 'frame_text_color' : 'frame_color',
+          message: `Frame text color ${frame.getTextColor().toHex()} does not have enough contrast against its backdrop (contrast ratio < 4.5:1)`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: { frame_color: request.frame_color, frame_text_color: request.frame_text_color, ratio: frame.getTextColor().getContrastRatio(backdrop, matte) }
+        });
+      }
+    } catch {
+      // Color validation will be caught by the color validation method
+    }
+
+    try {
+      const outputFormat = request.format ? OutputFormatValue.create(request.format) : OutputFormatValue.default();
+      if (UNSTYLED_FORMATS.includes(outputFormat.getValue())) {
+        errors.push({
+          field: 'frame',
+          message: `Frames are not supported for ${outputFormat.toString().toUpperCase()} output`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: request.format
+        });
+      }
+    } catch {
+      // Format validation will be caught by the format validation method
+    }
+
+    return errors.length > 0 ? ValidationResult.failure(errors) : ValidationResult.success();
+  }
+
+  // The margin surrounds the quiet zone on every side, so it must leave room for the code
+  private validateMarginFitsSize(margin: number, size?: string, codeSizeMm?: number): ValidationResult {
+    try {
+      const shortSide = size
+        ? Math.min(Size.fromString(size).getWidth(), Size.fromString(size).getHeight())
+        : Infinity;
+      const printedSide = codeSizeMm !== undefined ? PageSize.mmToPoints(codeSizeMm) : Infinity;
+
+      if (margin * 2 >= Math.min(shortSide, printedSide)) {
+        return ValidationResult.single({
+          field: 'margin',
+          message: `Margin (${margin}px) leaves no room for the code; it must be less than half of the shorter side`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: { margin, size, codeSizeMm }
+        });
+      }
+
+      return ValidationResult.success();
+    } catch {
+      // Size validation will be caught by the size validation method
+      return ValidationResult.success();
+    }
+  }
+
+  private validateCodeFitsPage(pageSize: string, codeSizeMm: number): ValidationResult {
+    try {
+      const page = PageSize.create(pageSize);
+
+      if (!page.canContain(codeSizeMm)) {
+        return ValidationResult.single({
+          field: 'code_size_mm',
+          message: `Code size (${codeSizeMm}mm) does not fit on page size ${page} (${page.getWidthMm()}x${page.getHeightMm()}mm)`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: { pageSize, codeSizeMm }
+        });
+      }
+
+      return ValidationResult.success();
+    } catch {
+      // Page size validation will be caught by the page size validation method
+      return ValidationResult.success();
+    }
+  }
+
+  private validateColorContrast(color: string, bgcolor: string, matteColor?: string): ValidationResult {
     try {
       const foreground = ColorValue.create(color);
       const background = ColorValue.create(bgcolor);
+      const matte = this.resolveMatte(matteColor);
       
-      if (!foreground.hasAccessibleContrast(background)) {
+      if (!foreground.hasAccessibleContrast(background, matte)) {
         return ValidationResult.single({
           field: 'color_contrast',
           message: 'Color combination may not meet WCAG AA accessibility standards (contrast ratio < 4.5:1)',
           type: ValidationErrorType.CONSTRAINT_VIOLATION,
-          value: { color, bgcolor, ratio: foreground.getContrastRatio(background) }
+          value: { color, bgcolor, ratio: foreground.getContrastRatio(background, matte) }
         });
       }
       
@@ -244,6 +1025,67 @@ export class ValidateParametersUseCase {
     }
   }
 
+  private validateMatte(matte: string): ValidationResult {
+    const colorValidation = this.validateColor(matte, 'matte');
+    if (!colorValidation.isValid()) {
+      return colorValidation;
+    }
+
+    if (!ColorValue.create(matte).isOpaque()) {
+      return ValidationResult.single({
+        field: 'matte',
+        message: 'Matte color must be opaque',
+        type: ValidationErrorType.INVALID_VALUE,
+        value: matte
+      });
+    }
+
+    return ValidationResult.success();
+  }
+
+  // Translucent colors are judged against the matte they end up on; an unusable
+  // matte is reported by the matte validation method, so white stands in here
+  private resolveMatte(matte?: string): ColorValue {
+    try {
+      const color = matte ? ColorValue.create(matte) : ColorValue.white();
+      return color.isOpaque() ? color : ColorValue.white();
+    } catch {
+      return ColorValue.white();
+    }
+  }
+
+  private validateTransparencyFormat(request: QRCodeRequestDTO): ValidationResult {
+    try {
+      const outputFormat = OutputFormatValue.create(request.format as string);
+      if (![OutputFormat.EPS, OutputFormat.PDF].includes(outputFormat.getValue())) {
+        return ValidationResult.success();
+      }
+
+      const errors: ValidationError[] = [];
+      for (const field of ['color', 'bgcolor'] as const) {
+        const value = request[field];
+        if (!value) continue;
+        try {
+          if (!ColorValue.create(value).isOpaque()) {
+            errors.push({
+              field,
+              message: `Transparent colors are not supported for ${outputFormat.toString().toUpperCase()} output`,
+              type: ValidationErrorType.CONSTRAINT_VIOLATION,
+              value
+            });
+          }
+        } catch {
+          // Color validation will be caught by the color validation method
+        }
+      }
+
+      return errors.length > 0 ? ValidationResult.failure(errors) : ValidationResult.success();
+    } catch {
+      // Format validation will be caught by the format validation method
+      return ValidationResult.success();
+    }
+  }
+
   private validateLogo(logo: string, logoSize?: number, logoMargin?: number): ValidationResult {
     try {
       Logo.create(logo, logoSize, logoMargin);
@@ -258,6 +1100,26 @@ export class ValidateParametersUseCase {
     }
   }
 
+  private validateLogoFormat(format: string): ValidationResult {
+    try {
+      const outputFormat = OutputFormatValue.create(format);
+
+      if (UNSTYLED_FORMATS.includes(outputFormat.getValue())) {
+        return ValidationResult.single({
+          field: 'logo',
+          message: `Logo overlay is not supported for ${outputFormat.toString().toUpperCase()} output`,
+          type: ValidationErrorType.CONSTRAINT_VIOLATION,
+          value: format
+        });
+      }
+
+      return ValidationResult.success();
+    } catch {
+      // Format validation will be caught by the format validation method
+      return ValidationResult.success();
+    }
+  }
+
   private validateLogoSizeRelativeToQR(qrSize: string, logoSize: number): ValidationResult {
     try {
       const size = Size.fromString(qrSize);
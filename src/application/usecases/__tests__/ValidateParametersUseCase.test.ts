@@ -1,5 +1,7 @@
 import { ValidateParametersUseCase } from '../ValidateParametersUseCase';
 import { QRCodeRequestDTO } from '../../dto';
+import { IQRCodeGenerator, QRCapacity } from '../../ports';
+import { ValidationErrorType } from '../../../domain/entities/ValidationResult';
 
 describe('ValidateParametersUseCase', () => {
   let useCase: ValidateParametersUseCase;
@@ -82,6 +84,14 @@ describe('ValidateParametersUseCase', () => {
       expect(result.hasErrorForField('color')).toBe(true);
     });
 
+    it('should accept CSS color syntax and list accepted syntaxes on errors', async () => {
+      const valid = await useCase.execute({ data: 'test data', color: 'hsl(210 50% 20%)', bgcolor: 'ivory' });
+      expect(valid.isValid()).toBe(true);
+
+      const invalid = await useCase.execute({ data: 'test data', color: 'rgb(300 0 0)' });
+      expect(invalid.getErrorsForField('color')[0].message).toContain('rgb()/rgba(), hsl()/hsla(), a CSS color name');
+    });
+
     it('should fail validation for out-of-range margin', async () => {
       const request: QRCodeRequestDTO = {
         data: 'test data',
@@ -104,6 +114,14 @@ describe('ValidateParametersUseCase', () => {
       expect(result.hasErrorForField('qzone')).toBe(true);
     });
 
+    it('should fail validation when the margin leaves no room for the code', async () => {
+      const result = await useCase.execute({ data: 'test data', size: '60x20', margin: 10 });
+
+      expect(result.isValid()).toBe(false);
+      expect(result.getErrorsForField('margin')[0].type).toBe(ValidationErrorType.CONSTRAINT_VIOLATION);
+      expect((await useCase.execute({ data: 'test data', size: '60x40', margin: 10 })).isValid()).toBe(true);
+    });
+
     it('should warn about poor color contrast', async () => {
       const request: QRCodeRequestDTO = {
         data: 'test data',
@@ -134,6 +152,22 @@ describe('ValidateParametersUseCase', () => {
       expect(result.hasErrorForField('margin')).toBe(true);
     });
 
+    it('should validate version and mask ranges', async () => {
+      const valid = await useCase.execute({ data: 'test data', version: 40, mask: 0 });
+      const invalid = await useCase.execute({ data: 'test data', version: 0, mask: 8 });
+
+      expect(valid.isValid()).toBe(true);
+      expect(invalid.getErrorsForField('version')[0].type).toBe(ValidationErrorType.OUT_OF_RANGE);
+      expect(invalid.getErrorsForField('mask')[0].type).toBe(ValidationErrorType.OUT_OF_RANGE);
+    });
+
+    it('should validate the encoding mode', async () => {
+      expect((await useCase.execute({ data: 'test data', mode: 'Kanji' })).isValid()).toBe(true);
+
+      const result = await useCase.execute({ data: 'test data', mode: 'binary' });
+      expect(result.getErrorsForField('mode')[0].type).toBe(ValidationErrorType.INVALID_VALUE);
+    });
+
     it('should validate charset parameters', async () => {
       const request: QRCodeRequestDTO = {
         data: 'test data',
@@ -145,6 +179,26 @@ describe('ValidateParametersUseCase', () => {
       expect(result.hasErrorForField('charset-source')).toBe(true);
     });
 
+    it('should accept charsets that can be declared with an ECI', async () => {
+      const result = await useCase.execute({ data: '日本', 'charset-target': 'Shift_JIS' });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should only accept Windows-1258 as source charset', async () => {
+      const source = await useCase.execute({ data: 'test data', 'charset-source': 'Windows-1258' });
+      const target = await useCase.execute({ data: 'test data', 'charset-target': 'Windows-1258' });
+
+      expect(source.isValid()).toBe(true);
+      expect(target.getErrorsForField('charset-target')[0].type).toBe(ValidationErrorType.CONSTRAINT_VIOLATION);
+    });
+
+    it('should reject data the target charset cannot represent', async () => {
+      const result = await useCase.execute({ data: '世界', 'charset-target': 'ISO-8859-1' });
+
+      expect(result.isValid()).toBe(false);
+      expect(result.hasErrorForField('charset-target')).toBe(true);
+    });
+
     it('should accept valid hex colors', async () => {
       const request: QRCodeRequestDTO = {
         data: 'test data',
@@ -177,4 +231,334 @@ describe('ValidateParametersUseCase', () => {
       expect(result.isValid()).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('quality', () => {
+    it('should accept quality for lossy-capable formats', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'webp', quality: 80 });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should reject quality outside 1-100', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'avif', quality: 0 });
+      expect(result.hasErrorForField('quality')).toBe(true);
+    });
+
+    it('should reject quality for formats without a quality setting', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'png', quality: 80 });
+      expect(result.hasErrorForField('quality')).toBe(true);
+    });
+  });
+
+  describe('module_style', () => {
+    it('should accept styles for raster and SVG output', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'svg', module_style: 'dots' });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should reject unknown styles', async () => {
+      const result = await useCase.execute({ data: 'test data', module_style: 'hexagon' });
+      expect(result.hasErrorForField('module_style')).toBe(true);
+    });
+
+    it('should reject styled modules for EPS and PDF', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'pdf', module_style: 'rounded' });
+      expect(result.hasErrorForField('module_style')).toBe(true);
+    });
+  });
+
+  describe('eye style', () => {
+    it('should accept eye shapes and colors with enough contrast', async () => {
+      const result = await useCase.execute({
+        data: 'test data',
+        eye_frame: 'circle',
+        eye_ball: 'rounded',
+        eye_color: '#1a237e',
+        eye_color_tr: '#b71c1c'
+      });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should reject unknown eye shapes', async () => {
+      const result = await useCase.execute({ data: 'test data', eye_frame: 'star', eye_ball: 'star' });
+      expect(result.hasErrorForField('eye_frame')).toBe(true);
+      expect(result.hasErrorForField('eye_ball')).toBe(true);
+    });
+
+    it('should reject eye colors without enough contrast against the background', async () => {
+      const result = await useCase.execute({ data: 'test data', bgcolor: '#000000', eye_color_bl: '#222222' });
+      expect(result.hasErrorForField('eye_color_bl')).toBe(true);
+    });
+
+    it('should reject invalid eye colors', async () => {
+      const result = await useCase.execute({ data: 'test data', eye_color: 'not-a-color' });
+      expect(result.hasErrorForField('eye_color')).toBe(true);
+    });
+
+    it('should reject eye styling for EPS and PDF', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'eps', eye_ball: 'circle' });
+      expect(result.hasErrorForField('eye_ball')).toBe(true);
+    });
+  });
+
+  describe('gradient', () => {
+    it('should accept gradients whose lightest stop contrasts with the background', async () => {
+      const result = await useCase.execute({
+        data: 'test data',
+        gradient_type: 'linear',
+        gradient_colors: '#000000, #0d47a1',
+        gradient_angle: 90
+      });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should reject a light stop against the background', async () => {
+      const result = await useCase.execute({ data: 'test data', gradient_colors: '#000000, #ffeb3b' });
+      expect(result.hasErrorForField('gradient_colors')).toBe(true);
+    });
+
+    it('should require colors when a gradient type is given', async () => {
+      const result = await useCase.execute({ data: 'test data', gradient_type: 'radial' });
+      expect(result.hasErrorForField('gradient_colors')).toBe(true);
+    });
+
+    it('should report invalid types and angles on their own fields', async () => {
+      const typeResult = await useCase.execute({ data: 'test data', gradient_type: 'conic', gradient_colors: '#000, #333' });
+      expect(typeResult.hasErrorForField('gradient_type')).toBe(true);
+
+      const angleResult = await useCase.execute({ data: 'test data', gradient_colors: '#000, #333', gradient_angle: -10 });
+      expect(angleResult.hasErrorForField('gradient_angle')).toBe(true);
+    });
+  });
+
+  describe('transparency', () => {
+    it('should judge contrast against the matte behind a transparent background', async () => {
+      const onWhite = await useCase.execute({ data: 'test data', color: '#ffffff', bgcolor: 'transparent' });
+      expect(onWhite.hasErrorForField('color_contrast')).toBe(true);
+
+      const onBlack = await useCase.execute({ data: 'test data', color: '#ffffff', bgcolor: 'transparent', matte: '#000000' });
+      expect(onBlack.isValid()).toBe(true);
+    });
+
+    it('should reject faint translucent foregrounds', async () => {
+      const result = await useCase.execute({ data: 'test data', color: '#00000020', bgcolor: '#ffffff' });
+      expect(result.hasErrorForField('color_contrast')).toBe(true);
+    });
+
+    it('should require an opaque matte', async () => {
+      const result = await useCase.execute({ data: 'test data', matte: 'transparent' });
+      expect(result.hasErrorForField('matte')).toBe(true);
+    });
+
+    it('should reject transparent colors for EPS and PDF', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'eps', color: '#00000080' });
+      expect(result.hasErrorForField('color')).toBe(true);
+    });
+  });
+
+  describe('frame', () => {
+    it('should accept a framed code with custom label and colors', async () => {
+      const result = await useCase.execute({
+        data: 'test data',
+        frame: 'banner',
+        frame_text: 'Scan for the menu',
+        frame_text_size: 18,
+        frame_color: '#1565c0'
+      });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should require a frame style for the other frame options', async () => {
+      const result = await useCase.execute({ data: 'test data', frame_text: 'Scan me' });
+      expect(result.hasErrorForField('frame')).toBe(true);
+    });
+
+    it('should report invalid options on their own fields', async () => {
+      const textResult = await useCase.execute({ data: 'test data', frame: 'box', frame_text: 'x'.repeat(41) });
+      expect(textResult.hasErrorForField('frame_text')).toBe(true);
+
+      const sizeResult = await useCase.execute({ data: 'test data', frame: 'box', frame_text_size: 200 });
+      expect(sizeResult.hasErrorForField('frame_text_size')).toBe(true);
+    });
+
+    it('should reject label text that does not contrast with its backdrop', async () => {
+      const result = await useCase.execute({ data: 'test data', frame: 'banner', frame_color: '#eeeeee' });
+      expect(result.hasErrorForField('frame_color')).toBe(true);
+    });
+
+    it('should reject frames for EPS and PDF', async () => {
+      const result = await useCase.execute({ data: 'test data', frame: 'box', format: 'pdf' });
+      expect(result.hasErrorForField('frame')).toBe(true);
+    });
+  });
+
+  describe('symbology', () => {
+    it('should accept the supported symbologies', async () => {
+      for (const symbology of ['qr', 'DataMatrix', 'aztec']) {
+        const result = await useCase.execute({ data: 'test data', symbology });
+        expect(result.isValid()).toBe(true);
+      }
+    });
+
+    it('should reject unknown symbologies', async () => {
+      const result = await useCase.execute({ data: 'test data', symbology: 'pdf417' });
+      expect(result.getErrorsForField('symbology')[0].type).toBe(ValidationErrorType.INVALID_VALUE);
+    });
+
+    it('should reject QR-only options for other symbologies', async () => {
+      const result = await useCase.execute({
+        data: 'test data',
+        symbology: 'aztec',
+        version: 2,
+        mask: 3,
+        mode: 'byte',
+        eye_frame: 'circle'
+      });
+
+      expect(result.getErrors().map(error => error.field)).toEqual(['version', 'mask', 'mode', 'eye_frame']);
+      expect(result.getErrorsForField('version')[0].message).toBe('version is only available for QR codes, not Aztec');
+    });
+
+    it('should reject the matrix format for other symbologies', async () => {
+      const result = await useCase.execute({ data: 'test data', symbology: 'datamatrix', format: 'matrix' });
+      expect(result.getErrorsForField('format')[0].type).toBe(ValidationErrorType.CONSTRAINT_VIOLATION);
+    });
+
+    it('should accept the automatic mode and error correction levels for Aztec', async () => {
+      const result = await useCase.execute({ data: 'test data', symbology: 'aztec', mode: 'auto', ecc: 'H' });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should reject an error correction level for Data Matrix', async () => {
+      const result = await useCase.execute({ data: 'test data', symbology: 'datamatrix', ecc: 'M' });
+      expect(result.getErrorsForField('ecc')[0].message).toBe('Data Matrix error correction is fixed by the symbol size; omit ecc');
+    });
+
+    it('should only analyze QR codes', async () => {
+      const qr = await useCase.executeForAnalysis({ data: 'test data', symbology: 'qr' });
+      const aztec = await useCase.executeForAnalysis({ data: 'test data', symbology: 'aztec' });
+      const unknown = await useCase.executeForAnalysis({ data: 'test data', symbology: 'pdf417' });
+
+      expect(qr.isValid()).toBe(true);
+      expect(aztec.getErrorsForField('symbology')).toEqual([expect.objectContaining({
+        message: 'Analysis is only available for QR codes, not Aztec',
+        type: ValidationErrorType.CONSTRAINT_VIOLATION
+      })]);
+      expect(unknown.getErrorsForField('symbology')).toHaveLength(1);
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept verification for raster and SVG output', async () => {
+      for (const format of ['png', 'jpeg', 'webp', 'gif', 'avif', 'svg']) {
+        const result = await useCase.execute({ data: 'test data', format, verify: true });
+        expect(result.isValid()).toBe(true);
+      }
+    });
+
+    it('should reject verification for print and text output', async () => {
+      const result = await useCase.execute({ data: 'test data', format: 'pdf', verify: true });
+      expect(result.getErrorsForField('verify')[0].message)
+        .toBe('Verification scans the rendered image and is not available for PDF output');
+    });
+
+    it('should only verify QR codes', async () => {
+      const verified = await useCase.execute({ data: 'test data', symbology: 'datamatrix', verify: true });
+      const unverified = await useCase.execute({ data: 'test data', symbology: 'datamatrix', verify: false });
+
+      expect(verified.getErrorsForField('verify')[0].message).toBe('verify is only available for QR codes, not Data Matrix');
+      expect(unverified.isValid()).toBe(true);
+    });
+  });
+
+  describe('generator format support', () => {
+    const generator: IQRCodeGenerator = {
+      generate: jest.fn(),
+      getCapacity: () => ({ fits: true, version: 1, minimumVersion: 1, maxCharacters: 9 }),
+      analyze: jest.fn(),
+      supports: (format: string) => ['png', 'gif'].includes(format),
+      getSupportedFormats: () => ['png', 'gif'],
+      getCapabilities: () => []
+    };
+
+    it('should accept formats the generator supports', async () => {
+      const result = await new ValidateParametersUseCase(generator).execute({ data: 'test data', format: 'GIF' });
+      expect(result.isValid()).toBe(true);
+    });
+
+    it('should reject known formats the generator cannot render', async () => {
+      const result = await new ValidateParametersUseCase(generator).execute({ data: 'test data', format: 'eps' });
+      expect(result.isValid()).toBe(false);
+      expect(result.getErrorsForField('format')[0].message).toContain('Supported formats: png, gif');
+    });
+  });
+
+  describe('data capacity', () => {
+    const generator = (capacity: QRCapacity): IQRCodeGenerator => ({
+      generate: jest.fn(),
+      getCapacity: () => capacity,
+      analyze: jest.fn(),
+      supports: () => true,
+      getSupportedFormats: () => ['png'],
+      getCapabilities: () => []
+    });
+
+    it('should state how much of the data fits the requested version', async () => {
+      const result = await new ValidateParametersUseCase(
+        generator({ fits: false, minimumVersion: 10, maxCharacters: 14 })
+      ).execute({ data: 'x'.repeat(100), version: 2, ecc: 'H' });
+
+      const error = result.getErrorsForField('data')[0];
+      expect(error.type).toBe(ValidationErrorType.CONSTRAINT_VIOLATION);
+      expect(error.message).toBe(
+        'Data does not fit in version 2 at error correction level H: at most 14 of its 100 characters fit. ' +
+        'The smallest version that fits is 10'
+      );
+    });
+
+    it('should state the largest amount that fits any version', async () => {
+      const result = await new ValidateParametersUseCase(
+        generator({ fits: false, maxCharacters: 1273 })
+      ).execute({ data: 'x'.repeat(2000), ecc: 'H' });
+
+      expect(result.getErrorsForField('data')[0].message).toBe(
+        'Data does not fit in a QR code at error correction level H: at most 1273 of its 2000 characters fit in version 40. ' +
+        'Lower error correction levels hold more data'
+      );
+    });
+
+    it('should reject raster sizes with less than a pixel per module', async () => {
+      const useCase = new ValidateParametersUseCase(generator({ fits: true, version: 9, maxCharacters: 300, moduleCount: 53 }));
+      const tooSmall = await useCase.execute({ data: 'x'.repeat(300), size: '40x40' });
+      const smallest = await useCase.execute({ data: 'x'.repeat(300), size: '63x63', qzone: 4, margin: 1 });
+      const vector = await useCase.execute({ data: 'x'.repeat(300), size: '40x40', format: 'svg' });
+
+      expect(tooSmall.getErrorsForField('size')[0].message).toBe(
+        'Size 40x40 is too small for a symbol of 53x53 modules: with its quiet zone and margin it needs at least 55x55 pixels'
+      );
+      expect(smallest.isValid()).toBe(true);
+      expect(vector.isValid()).toBe(true);
+    });
+
+    it('should name the symbology when data does not fit', async () => {
+      const dataMatrix = await new ValidateParametersUseCase(
+        generator({ fits: false, maxCharacters: 1555 })
+      ).execute({ data: 'x'.repeat(2000), symbology: 'datamatrix' });
+      const aztec = await new ValidateParametersUseCase(
+        generator({ fits: false, maxCharacters: 1914 })
+      ).execute({ data: 'x'.repeat(2000), symbology: 'aztec', ecc: 'Q' });
+
+      expect(dataMatrix.getErrorsForField('data')[0].message).toBe(
+        'Data does not fit in a Data Matrix symbol: at most 1555 of its 2000 characters fit in the largest Data Matrix symbol'
+      );
+      expect(aztec.getErrorsForField('data')[0].message).toBe(
+        'Data does not fit in an Aztec symbol at error correction level Q: at most 1914 of its 2000 characters fit ' +
+        'in the largest Aztec symbol. Lower error correction levels hold more data'
+      );
+    });
+
+    it('should apply the configured length limit', async () => {
+      const result = await new ValidateParametersUseCase(undefined, 50).execute({ data: 'x'.repeat(51) });
+      expect(result.getErrorsForField('data')[0].message).toBe('Data content cannot exceed 50 characters');
+    });
+  });
+});
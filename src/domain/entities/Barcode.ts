@@ -0,0 +1,122 @@
+import { BarcodeConfiguration } from './BarcodeConfiguration';
+import { v4 as uuidv4 } from 'uuid';
+
+// Structure of the encoded barcode, as chosen by the generator
+export interface BarcodeSymbolInfo {
+  type: string;
+  // Encoded data, including a computed check digit
+  text: string;
+  checkDigit?: number;
+  // Code 128 code sets in the order they are used
+  codeSets?: string[];
+  // Width of the symbol in modules, quiet zones included
+  modules: number;
+}
+
+export interface BarcodeMetadata {
+  id: string;
+  createdAt: Date;
+  configuration: BarcodeConfiguration;
+  dataSize: number;
+  mimeType: string;
+  cacheKey?: string;
+  symbol?: BarcodeSymbolInfo;
+}
+
+export class Barcode {
+  private readonly id: string;
+  private readonly createdAt: Date;
+  private readonly configuration: BarcodeConfiguration;
+  private readonly imageData: Buffer;
+  private readonly metadata: BarcodeMetadata;
+
+  constructor(
+    configuration: BarcodeConfiguration,
+    imageData: Buffer,
+    id?: string,
+    symbol?: BarcodeSymbolInfo
+  ) {
+    this.id = id || uuidv4();
+    this.createdAt = new Date();
+    this.configuration = configuration;
+    this.imageData = imageData;
+
+    this.metadata = {
+      id: this.id,
+      createdAt: this.createdAt,
+      configuration: this.configuration,
+      dataSize: imageData.length,
+      mimeType: configuration.getFormat().getMimeType(),
+      cacheKey: configuration.getHashKey(),
+      symbol
+    };
+  }
+
+  // Getters
+  getId(): string {
+    return this.id;
+  }
+
+  getCreatedAt(): Date {
+    return new Date(this.createdAt);
+  }
+
+  getConfiguration(): BarcodeConfiguration {
+    return this.configuration;
+  }
+
+  getImageData(): Buffer {
+    return Buffer.from(this.imageData);
+  }
+
+  getSymbol(): BarcodeSymbolInfo | undefined {
+    return this.metadata.symbol;
+  }
+
+  getMetadata(): BarcodeMetadata {
+    return {
+      ...this.metadata,
+      createdAt: new Date(this.metadata.createdAt)
+    };
+  }
+
+  // Utility methods
+  getDataSize(): number {
+    return this.imageData.length;
+  }
+
+  getMimeType(): string {
+    return this.configuration.getFormat().getMimeType();
+  }
+
+  getCacheKey(): string {
+    return this.configuration.getHashKey();
+  }
+
+  // Serialization for caching
+  toJSON() {
+    return {
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
+      configuration: {
+        type: this.configuration.getType().toString(),
+        data: this.configuration.getData().toString(),
+        size: this.configuration.getSize().toString(),
+        format: this.configuration.getFormat().toString(),
+        foregroundColor: this.configuration.getForegroundColor().toString(),
+        backgroundColor: this.configuration.getBackgroundColor().toString(),
+        margin: this.configuration.getMargin(),
+        showText: this.configuration.getShowText()
+      },
+      metadata: {
+        ...this.metadata,
+        createdAt: this.metadata.createdAt.toISOString()
+      },
+      imageDataBase64: this.imageData.toString('base64')
+    };
+  }
+
+  toString(): string {
+    return `Barcode{id=${this.id}, type=${this.configuration.getType()}, size=${this.getDataSize()} bytes}`;
+  }
+}
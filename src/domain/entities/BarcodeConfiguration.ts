@@ -0,0 +1,136 @@
+import { Size } from '../valueObjects/Size';
+import { ColorValue } from '../valueObjects/ColorValue';
+import { OutputFormatValue } from '../valueObjects/OutputFormat';
+import { BarcodePayload } from '../valueObjects/BarcodePayload';
+import { BarcodeTypeValue } from '../valueObjects/BarcodeType';
+
+export interface BarcodeConfigurationParams {
+  data: BarcodePayload;
+  type?: BarcodeTypeValue;
+  size?: Size;
+  format?: OutputFormatValue;
+  foregroundColor?: ColorValue;
+  backgroundColor?: ColorValue;
+  margin?: number;
+  showText?: boolean;
+}
+
+export class BarcodeConfiguration {
+  // Wide enough for a retail symbol at two pixels per module
+  static readonly DEFAULT_SIZE = Size.create(300, 150);
+
+  private readonly data: BarcodePayload;
+  private readonly type: BarcodeTypeValue;
+  private readonly size: Size;
+  private readonly format: OutputFormatValue;
+  private readonly foregroundColor: ColorValue;
+  private readonly backgroundColor: ColorValue;
+  private readonly margin: number;
+  private readonly showText: boolean;
+
+  constructor(params: BarcodeConfigurationParams) {
+    this.data = params.data;
+    this.type = params.type || BarcodeTypeValue.default();
+    this.size = params.size || BarcodeConfiguration.DEFAULT_SIZE;
+    this.format = params.format || OutputFormatValue.default();
+    this.foregroundColor = params.foregroundColor || ColorValue.black();
+    this.backgroundColor = params.backgroundColor || ColorValue.white();
+    this.margin = this.validateMargin(params.margin);
+    this.showText = params.showText ?? true;
+
+    this.validateConfiguration();
+  }
+
+  private validateMargin(margin?: number): number {
+    const defaultMargin = 0;
+    if (margin === undefined) return defaultMargin;
+
+    if (!Number.isInteger(margin) || margin < 0 || margin > 50) {
+      throw new Error('Margin must be an integer between 0 and 50 pixels');
+    }
+
+    return margin;
+  }
+
+  private validateConfiguration(): void {
+    // Validate color contrast for accessibility (optional warning)
+    if (!this.foregroundColor.hasAccessibleContrast(this.backgroundColor)) {
+      console.warn('Warning: Color combination may not meet WCAG AA accessibility standards');
+    }
+
+    const shortSide = Math.min(this.size.getWidth(), this.size.getHeight());
+    if (this.margin * 2 >= shortSide) {
+      throw new Error(`Margin (${this.margin}px) leaves no room for the barcode at size ${this.size}`);
+    }
+  }
+
+  // Getters
+  getData(): BarcodePayload {
+    return this.data;
+  }
+
+  getType(): BarcodeTypeValue {
+    return this.type;
+  }
+
+  getSize(): Size {
+    return this.size;
+  }
+
+  getFormat(): OutputFormatValue {
+    return this.format;
+  }
+
+  getForegroundColor(): ColorValue {
+    return this.foregroundColor;
+  }
+
+  getBackgroundColor(): ColorValue {
+    return this.backgroundColor;
+  }
+
+  // Blank pixels around the symbol, on top of the quiet zone the symbology requires
+  getMargin(): number {
+    return this.margin;
+  }
+
+  // Whether the human-readable text is printed under the bars
+  getShowText(): boolean {
+    return this.showText;
+  }
+
+  // Utility methods
+  equals(other: BarcodeConfiguration): boolean {
+    return (
+      this.data.equals(other.data) &&
+      this.type.equals(other.type) &&
+      this.size.equals(other.size) &&
+      this.format.equals(other.format) &&
+      this.foregroundColor.equals(other.foregroundColor) &&
+      this.backgroundColor.equals(other.backgroundColor) &&
+      this.margin === other.margin &&
+      this.showText === other.showText
+    );
+  }
+
+  // Generate a unique hash for caching
+  getHashKey(): string {
+    const components = [
+      'barcode',
+      this.type.toString(),
+      this.data.toString(),
+      this.size.toString(),
+      this.format.toString(),
+      this.foregroundColor.toString(),
+      this.backgroundColor.toString(),
+      this.margin.toString(),
+      this.showText ? 'text' : 'no-text'
+    ];
+
+    return Buffer.from(components.join('|')).toString('base64');
+  }
+
+  toString(): string {
+    return `BarcodeConfiguration{type=${this.type}, data=${this.data.getLength()} chars, size=${this.size}, format=${this.format}}`;
+  }
+}
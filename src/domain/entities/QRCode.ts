@@ -1,6 +1,30 @@
 import { QRCodeConfiguration } from './QRCodeConfiguration';
 import { v4 as uuidv4 } from 'uuid';
 
+// Segments of the encoded bit stream, in order
+export interface QRSegmentInfo {
+  mode: string;
+  characterCount: number;
+}
+
+// Structure of the encoded symbol, as chosen by the generator
+export interface QRSymbolInfo {
+  version: number;
+  errorCorrectionLevel: string;
+  maskPattern: number;
+  eciDesignator?: number;
+  segments: QRSegmentInfo[];
+}
+
+// Outcome of scanning the rendered image back; only passing scans are returned
+export interface QRVerificationInfo {
+  verified: boolean;
+  // Level of the returned symbol, raised from the requested one when a lower level did not scan
+  errorCorrectionLevel: string;
+  attempts: number;
+  correctedCodewords: number;
+}
+
 export interface QRCodeMetadata {
   id: string;
   createdAt: Date;
@@ -8,6 +32,8 @@ export interface QRCodeMetadata {
   dataSize: number;
   mimeType: string;
   cacheKey?: string;
+  symbol?: QRSymbolInfo;
+  verification?: QRVerificationInfo;
 }
 
 export class QRCode {
@@ -20,7 +46,9 @@ export class QRCode {
   constructor(
     configuration: QRCodeConfiguration,
     imageData: Buffer,
-    id?: string
+    id?: string,
+    symbol?: QRSymbolInfo,
+    verification?: QRVerificationInfo
   ) {
     this.id = id || uuidv4();
     this.createdAt = new Date();
@@ -33,7 +61,9 @@ export class QRCode {
       configuration: this.configuration,
       dataSize: imageData.length,
       mimeType: configuration.getFormat().getMimeType(),
-      cacheKey: configuration.getHashKey()
+      cacheKey: configuration.getHashKey(),
+      symbol,
+      verification
     };
   }
 
@@ -54,6 +84,14 @@ export class QRCode {
     return Buffer.from(this.imageData);
   }
 
+  getSymbol(): QRSymbolInfo | undefined {
+    return this.metadata.symbol;
+  }
+
+  getVerification(): QRVerificationInfo | undefined {
+    return this.metadata.verification;
+  }
+
   getMetadata(): QRCodeMetadata {
     return {
       ...this.metadata,
@@ -137,8 +175,11 @@ export class QRCode {
         backgroundColor: this.configuration.getBackgroundColor().toString(),
         margin: this.configuration.getMargin(),
         quietZone: this.configuration.getQuietZone(),
-        charsetSource: this.configuration.getCharsetSource(),
-        charsetTarget: this.configuration.getCharsetTarget()
+        charsetSource: this.configuration.getCharsetSource().toString(),
+        charsetTarget: this.configuration.getCharsetTarget().toString(),
+        pageSize: this.configuration.getPageSize().toString(),
+        codeSizeMm: this.configuration.getCodeSizeMm(),
+        symbology: this.configuration.getSymbology().toString()
       },
       metadata: {
         ...this.metadata,
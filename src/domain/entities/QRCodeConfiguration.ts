@@ -4,6 +4,14 @@ import { ErrorCorrectionLevelValue } from '../valueObjects/ErrorCorrectionLevel'
 import { OutputFormatValue } from '../valueObjects/OutputFormat';
 import { DataPayload } from '../valueObjects/DataPayload';
 import { Logo } from '../valueObjects/Logo';
+import { PageSize } from '../valueObjects/PageSize';
+import { ModuleStyleValue } from '../valueObjects/ModuleStyle';
+import { EyeStyle } from '../valueObjects/EyeStyle';
+import { Gradient } from '../valueObjects/Gradient';
+import { Frame } from '../valueObjects/Frame';
+import { CharsetValue } from '../valueObjects/Charset';
+import { EncodingModeValue } from '../valueObjects/EncodingMode';
+import { SymbologyValue } from '../valueObjects/Symbology';
 
 export interface QRCodeConfigurationParams {
   data: DataPayload;
@@ -14,9 +22,22 @@ export interface QRCodeConfigurationParams {
   backgroundColor?: ColorValue;
   margin?: number;
   quietZone?: number;
-  charsetSource?: string;
-  charsetTarget?: string;
+  charsetSource?: CharsetValue;
+  charsetTarget?: CharsetValue;
   logo?: Logo;
+  pageSize?: PageSize;
+  codeSizeMm?: number;
+  quality?: number;
+  moduleStyle?: ModuleStyleValue;
+  eyeStyle?: EyeStyle;
+  gradient?: Gradient;
+  matteColor?: ColorValue;
+  frame?: Frame;
+  version?: number;
+  maskPattern?: number;
+  encodingMode?: EncodingModeValue;
+  symbology?: SymbologyValue;
+  verify?: boolean;
 }
 
 export class QRCodeConfiguration {
@@ -28,9 +49,22 @@ export class QRCodeConfiguration {
   private readonly backgroundColor: ColorValue;
   private readonly margin: number;
   private readonly quietZone: number;
-  private readonly charsetSource: string;
-  private readonly charsetTarget: string;
+  private readonly charsetSource: CharsetValue;
+  private readonly charsetTarget: CharsetValue;
   private readonly logo?: Logo;
+  private readonly pageSize: PageSize;
+  private readonly codeSizeMm?: number;
+  private readonly quality?: number;
+  private readonly moduleStyle: ModuleStyleValue;
+  private readonly eyeStyle: EyeStyle;
+  private readonly gradient?: Gradient;
+  private readonly matteColor: ColorValue;
+  private readonly frame?: Frame;
+  private readonly version?: number;
+  private readonly maskPattern?: number;
+  private readonly encodingMode: EncodingModeValue;
+  private readonly symbology: SymbologyValue;
+  private readonly verify: boolean;
 
   constructor(params: QRCodeConfigurationParams) {
     this.data = params.data;
@@ -41,9 +75,22 @@ export class QRCodeConfiguration {
     this.backgroundColor = params.backgroundColor || ColorValue.white();
     this.margin = this.validateMargin(params.margin);
     this.quietZone = this.validateQuietZone(params.quietZone);
-    this.charsetSource = params.charsetSource || 'UTF-8';
-    this.charsetTarget = params.charsetTarget || 'UTF-8';
+    this.charsetSource = params.charsetSource || CharsetValue.default();
+    this.charsetTarget = params.charsetTarget || CharsetValue.default();
     this.logo = params.logo;
+    this.pageSize = params.pageSize || PageSize.fitToCode();
+    this.codeSizeMm = this.validateCodeSizeMm(params.codeSizeMm);
+    this.quality = this.validateQuality(params.quality);
+    this.moduleStyle = params.moduleStyle || ModuleStyleValue.default();
+    this.eyeStyle = params.eyeStyle || EyeStyle.default();
+    this.gradient = params.gradient;
+    this.matteColor = params.matteColor || ColorValue.white();
+    this.frame = params.frame;
+    this.version = this.validateVersion(params.version);
+    this.maskPattern = this.validateMaskPattern(params.maskPattern);
+    this.encodingMode = params.encodingMode || EncodingModeValue.default();
+    this.symbology = params.symbology || SymbologyValue.default();
+    this.verify = params.verify ?? false;
 
     this.validateConfiguration();
   }
@@ -70,26 +117,80 @@ export class QRCodeConfiguration {
     return quietZone;
   }
 
-  private validateConfiguration(): void {
-    // Validate charset compatibility
-    if (!this.data.isCompatibleWithCharset(this.charsetSource)) {
-      throw new Error(`Data content is not compatible with charset: ${this.charsetSource}`);
+  private validateCodeSizeMm(codeSizeMm?: number): number | undefined {
+    if (codeSizeMm === undefined) return undefined;
+
+    if (!Number.isFinite(codeSizeMm) || codeSizeMm < 5 || codeSizeMm > 1000) {
+      throw new Error('Code size must be between 5 and 1000 millimeters');
+    }
+
+    return codeSizeMm;
+  }
+
+  private validateQuality(quality?: number): number | undefined {
+    if (quality === undefined) return undefined;
+
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      throw new Error('Quality must be an integer between 1 and 100');
+    }
+
+    return quality;
+  }
+
+  private validateVersion(version?: number): number | undefined {
+    if (version === undefined) return undefined;
+
+    if (!Number.isInteger(version) || version < 1 || version > 40) {
+      throw new Error('Version must be an integer between 1 and 40');
+    }
+
+    return version;
+  }
+
+  private validateMaskPattern(maskPattern?: number): number | undefined {
+    if (maskPattern === undefined) return undefined;
+
+    if (!Number.isInteger(maskPattern) || maskPattern < 0 || maskPattern > 7) {
+      throw new Error('Mask pattern must be an integer between 0 and 7');
     }
 
-    // Validate supported charsets
-    const supportedCharsets = ['UTF-8', 'ISO-8859-1'];
-    if (!supportedCharsets.includes(this.charsetSource)) {
-      throw new Error(`Unsupported source charset: ${this.charsetSource}. Supported: ${supportedCharsets.join(', ')}`);
+    return maskPattern;
+  }
+
+  private validateConfiguration(): void {
+    // The payload is encoded in the target charset, which the symbol declares with an ECI designator
+    if (!this.charsetTarget.canBeTarget()) {
+      throw new Error(`Target charset ${this.charsetTarget} has no ECI designator; use it as charset-source and encode to UTF-8`);
     }
-    if (!supportedCharsets.includes(this.charsetTarget)) {
-      throw new Error(`Unsupported target charset: ${this.charsetTarget}. Supported: ${supportedCharsets.join(', ')}`);
+
+    // Validate charset compatibility
+    if (!this.data.isCompatibleWithCharset(this.charsetTarget.getValue())) {
+      throw new Error(`Data content is not compatible with charset: ${this.charsetTarget}`);
     }
 
     // Validate color contrast for accessibility (optional warning)
-    if (!this.foregroundColor.hasAccessibleContrast(this.backgroundColor)) {
+    if (!this.foregroundColor.hasAccessibleContrast(this.backgroundColor, this.matteColor)) {
       console.warn('Warning: Color combination may not meet WCAG AA accessibility standards');
     }
 
+    if (!this.matteColor.isOpaque()) {
+      throw new Error('Matte color must be opaque');
+    }
+
+    // Validate the margin leaves room for the code (PDF takes the margin in points of the printed size)
+    const shortSide = Math.min(this.size.getWidth(), this.size.getHeight());
+    if (this.margin * 2 >= shortSide) {
+      throw new Error(`Margin (${this.margin}px) leaves no room for the code at size ${this.size}`);
+    }
+    if (this.codeSizeMm !== undefined && this.margin * 2 >= PageSize.mmToPoints(this.codeSizeMm)) {
+      throw new Error(`Margin (${this.margin}pt) leaves no room for a ${this.codeSizeMm}mm code`);
+    }
+
+    // Validate the printed code fits on the selected page
+    if (!this.pageSize.canContain(this.getCodeSizeMm())) {
+      throw new Error(`Code size (${this.getCodeSizeMm()}mm) does not fit on page size ${this.pageSize}`);
+    }
+
     // Validate logo size relative to QR code if logo is present
     if (this.logo) {
       this.validateLogoSize();
@@ -141,11 +242,13 @@ export class QRCodeConfiguration {
     return this.quietZone;
   }
 
-  getCharsetSource(): string {
+  // Charset the client sent the data in; the payload has already been decoded from it
+  getCharsetSource(): CharsetValue {
     return this.charsetSource;
   }
 
-  getCharsetTarget(): string {
+  // Charset the data is encoded in inside the symbol
+  getCharsetTarget(): CharsetValue {
     return this.charsetTarget;
   }
 
@@ -157,6 +260,97 @@ export class QRCodeConfiguration {
     return this.logo !== undefined;
   }
 
+  // Undefined means the format's default: lossless for WebP/AVIF, 90 for JPEG
+  getQuality(): number | undefined {
+    return this.quality;
+  }
+
+  getModuleStyle(): ModuleStyleValue {
+    return this.moduleStyle;
+  }
+
+  getEyeStyle(): EyeStyle {
+    return this.eyeStyle;
+  }
+
+  // Replaces the flat foreground color when set
+  getGradient(): Gradient | undefined {
+    return this.gradient;
+  }
+
+  hasGradient(): boolean {
+    return this.gradient !== undefined;
+  }
+
+  // Solid color that translucent pixels are blended onto for formats without an alpha channel (JPEG)
+  getMatteColor(): ColorValue {
+    return this.matteColor;
+  }
+
+  hasTransparency(): boolean {
+    return !this.foregroundColor.isOpaque() || !this.backgroundColor.isOpaque() ||
+      (this.gradient?.hasTransparency() ?? false) || this.eyeStyle.hasTransparency();
+  }
+
+  // Call-to-action frame drawn around the code
+  getFrame(): Frame | undefined {
+    return this.frame;
+  }
+
+  hasFrame(): boolean {
+    return this.frame !== undefined;
+  }
+
+  // Size of the final image: the code size, enlarged by the frame if there is one
+  getImageSize(): { width: number; height: number } {
+    if (!this.frame) {
+      return { width: this.size.getWidth(), height: this.size.getHeight() };
+    }
+    const { width, height } = this.frame.getLayout(this.size.getWidth(), this.size.getHeight());
+    return { width, height };
+  }
+
+  // Styled modules, eyes or gradients need the matrix-based renderer instead of plain squares
+  hasCustomStyling(): boolean {
+    return !this.moduleStyle.isSquare() || !this.eyeStyle.isDefault() || this.hasGradient();
+  }
+
+  // Fixed symbol version; undefined picks the smallest version that holds the data
+  getVersion(): number | undefined {
+    return this.version;
+  }
+
+  // Fixed mask pattern; undefined picks the one with the lowest penalty score
+  getMaskPattern(): number | undefined {
+    return this.maskPattern;
+  }
+
+  getEncodingMode(): EncodingModeValue {
+    return this.encodingMode;
+  }
+
+  getSymbology(): SymbologyValue {
+    return this.symbology;
+  }
+
+  // Whether the rendered image is scanned back before it is returned
+  shouldVerify(): boolean {
+    return this.verify;
+  }
+
+  getPageSize(): PageSize {
+    return this.pageSize;
+  }
+
+  // Physical edge length of the code (quiet zone included) for print formats.
+  // Without an explicit value the pixel size is taken as points (1px = 1pt).
+  getCodeSizeMm(): number {
+    if (this.codeSizeMm !== undefined) {
+      return this.codeSizeMm;
+    }
+    return PageSize.pointsToMm(Math.min(this.size.getWidth(), this.size.getHeight()));
+  }
+
   // Utility methods
   equals(other: QRCodeConfiguration): boolean {
     return (
@@ -168,8 +362,23 @@ export class QRCodeConfiguration {
       this.backgroundColor.equals(other.backgroundColor) &&
       this.margin === other.margin &&
       this.quietZone === other.quietZone &&
-      this.charsetSource === other.charsetSource &&
-      this.charsetTarget === other.charsetTarget &&
+      this.charsetSource.equals(other.charsetSource) &&
+      this.charsetTarget.equals(other.charsetTarget) &&
+      this.pageSize.equals(other.pageSize) &&
+      this.codeSizeMm === other.codeSizeMm &&
+      this.quality === other.quality &&
+      this.moduleStyle.equals(other.moduleStyle) &&
+      this.eyeStyle.equals(other.eyeStyle) &&
+      this.matteColor.equals(other.matteColor) &&
+      this.version === other.version &&
+      this.maskPattern === other.maskPattern &&
+      this.encodingMode.equals(other.encodingMode) &&
+      this.symbology.equals(other.symbology) &&
+      this.verify === other.verify &&
+      ((this.frame && other.frame && this.frame.equals(other.frame)) ||
+       (!this.frame && !other.frame)) &&
+      ((this.gradient && other.gradient && this.gradient.equals(other.gradient)) ||
+       (!this.gradient && !other.gradient)) &&
       ((this.logo && other.logo && this.logo.equals(other.logo)) || 
        (!this.logo && !other.logo))
     );
@@ -186,9 +395,22 @@ export class QRCodeConfiguration {
       this.backgroundColor.toString(),
       this.margin.toString(),
       this.quietZone.toString(),
-      this.charsetSource,
-      this.charsetTarget,
-      this.logo ? this.logo.toString() : 'no-logo'
+      this.charsetSource.toString(),
+      this.charsetTarget.toString(),
+      this.logo ? this.logo.toString() : 'no-logo',
+      this.pageSize.toString(),
+      this.codeSizeMm !== undefined ? this.codeSizeMm.toString() : 'auto',
+      this.quality !== undefined ? this.quality.toString() : 'default-quality',
+      this.moduleStyle.toString(),
+      this.eyeStyle.toString(),
+      this.gradient ? this.gradient.toString() : 'no-gradient',
+      this.matteColor.toString(),
+      this.frame ? this.frame.toString() : 'no-frame',
+      this.version !== undefined ? this.version.toString() : 'auto-version',
+      this.maskPattern !== undefined ? this.maskPattern.toString() : 'auto-mask',
+      this.encodingMode.toString(),
+      this.symbology.toString(),
+      this.verify ? 'verify' : 'no-verify'
     ];
     
     return Buffer.from(components.join('|')).toString('base64');
@@ -0,0 +1,95 @@
+import { BarcodeTypeValue } from './BarcodeType';
+
+/**
+ * Data encoded in a linear barcode. Retail payloads are digit strings that
+ * end in a GS1 check digit: it is appended when omitted and verified when
+ * given. Code 128 payloads are printable or control ASCII.
+ */
+export class BarcodePayload {
+  // Longest Code 128 payload; scanners and labels rarely go past this
+  static readonly MAX_CODE_128_LENGTH = 80;
+
+  private constructor(
+    private readonly content: string,
+    private readonly checkDigit?: number
+  ) {}
+
+  static create(data: string, type: BarcodeTypeValue): BarcodePayload {
+    if (!data || data.trim().length === 0) {
+      throw new Error('Data content cannot be empty');
+    }
+
+    const digits = type.getDigitCount();
+    if (!digits) {
+      return BarcodePayload.createCode128(data);
+    }
+
+    const content = data.trim();
+    if (!/^\d+$/.test(content)) {
+      throw new Error(`${type.getDisplayName()} data must contain digits only`);
+    }
+
+    if (content.length === digits.withoutCheckDigit) {
+      const checkDigit = BarcodePayload.computeCheckDigit(content);
+      return new BarcodePayload(content + checkDigit, checkDigit);
+    }
+
+    if (content.length === digits.withCheckDigit) {
+      const checkDigit = BarcodePayload.computeCheckDigit(content.slice(0, -1));
+      if (Number(content[content.length - 1]) !== checkDigit) {
+        throw new Error(`Invalid ${type.getDisplayName()} check digit: expected ${checkDigit}, got ${content[content.length - 1]}`);
+      }
+      return new BarcodePayload(content, checkDigit);
+    }
+
+    throw new Error(
+      `${type.getDisplayName()} data must be ${digits.withoutCheckDigit} digits, or ${digits.withCheckDigit} including the check digit`
+    );
+  }
+
+  // GS1 mod-10: digits are weighted 3 and 1 alternately, starting with 3 at the rightmost
+  static computeCheckDigit(digits: string): number {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+      sum += Number(digits[i]) * weight;
+    }
+    return (10 - (sum % 10)) % 10;
+  }
+
+  private static createCode128(data: string): BarcodePayload {
+    if (data.length > BarcodePayload.MAX_CODE_128_LENGTH) {
+      throw new Error(`Code 128 data cannot exceed ${BarcodePayload.MAX_CODE_128_LENGTH} characters`);
+    }
+
+    for (let i = 0; i < data.length; i++) {
+      if (data.charCodeAt(i) > 127) {
+        throw new Error(`Code 128 encodes ASCII characters only; "${data[i]}" at position ${i + 1} is not ASCII`);
+      }
+    }
+
+    // Leading and trailing spaces are data in Code 128
+    return new BarcodePayload(data);
+  }
+
+  getContent(): string {
+    return this.content;
+  }
+
+  // Check digit of a retail payload, whether computed or verified
+  getCheckDigit(): number | undefined {
+    return this.checkDigit;
+  }
+
+  getLength(): number {
+    return this.content.length;
+  }
+
+  toString(): string {
+    return this.content;
+  }
+
+  equals(other: BarcodePayload): boolean {
+    return this.content === other.content;
+  }
+}
@@ -0,0 +1,58 @@
+export enum BarcodeType {
+  CODE_128 = 'code128',
+  EAN_13 = 'ean13',
+  UPC_A = 'upca'
+}
+
+export class BarcodeTypeValue {
+  private constructor(private readonly value: BarcodeType) {}
+
+  static create(type: string): BarcodeTypeValue {
+    const lowerType = type.toLowerCase().trim();
+
+    if (!Object.values(BarcodeType).includes(lowerType as BarcodeType)) {
+      throw new Error(`Invalid barcode type: ${type}. Valid values: ${Object.values(BarcodeType).join(', ')}`);
+    }
+
+    return new BarcodeTypeValue(lowerType as BarcodeType);
+  }
+
+  static default(): BarcodeTypeValue {
+    return new BarcodeTypeValue(BarcodeType.CODE_128);
+  }
+
+  getValue(): BarcodeType {
+    return this.value;
+  }
+
+  // EAN-13 and UPC-A carry a fixed number of digits ending in a GS1 check digit
+  isRetail(): boolean {
+    return this.value !== BarcodeType.CODE_128;
+  }
+
+  // Number of digits without and with the check digit, for retail types
+  getDigitCount(): { withoutCheckDigit: number; withCheckDigit: number } | undefined {
+    switch (this.value) {
+      case BarcodeType.EAN_13: return { withoutCheckDigit: 12, withCheckDigit: 13 };
+      case BarcodeType.UPC_A: return { withoutCheckDigit: 11, withCheckDigit: 12 };
+      default: return undefined;
+    }
+  }
+
+  // Name used in messages
+  getDisplayName(): string {
+    switch (this.value) {
+      case BarcodeType.EAN_13: return 'EAN-13';
+      case BarcodeType.UPC_A: return 'UPC-A';
+      default: return 'Code 128';
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: BarcodeTypeValue): boolean {
+    return this.value === other.value;
+  }
+}
@@ -0,0 +1,102 @@
+export enum Charset {
+  UTF_8 = 'UTF-8',
+  ISO_8859_1 = 'ISO-8859-1',
+  ISO_8859_2 = 'ISO-8859-2',
+  ISO_8859_5 = 'ISO-8859-5',
+  ISO_8859_7 = 'ISO-8859-7',
+  ISO_8859_15 = 'ISO-8859-15',
+  WINDOWS_1250 = 'Windows-1250',
+  WINDOWS_1251 = 'Windows-1251',
+  WINDOWS_1252 = 'Windows-1252',
+  WINDOWS_1256 = 'Windows-1256',
+  WINDOWS_1258 = 'Windows-1258',
+  SHIFT_JIS = 'Shift_JIS',
+  BIG5 = 'Big5',
+  GB2312 = 'GB2312',
+  EUC_KR = 'EUC-KR',
+  UTF_16BE = 'UTF-16BE',
+  US_ASCII = 'US-ASCII'
+}
+
+interface CharsetDefinition {
+  // AIM ECI assignment; charsets without one cannot be declared in a symbol
+  eci?: number;
+  aliases: string[];
+  // ASCII text has the same bytes as in ISO-8859-1, so it needs no ECI
+  asciiCompatible: boolean;
+}
+
+const CHARSETS: Record<Charset, CharsetDefinition> = {
+  [Charset.UTF_8]: { eci: 26, aliases: ['UTF8'], asciiCompatible: true },
+  [Charset.ISO_8859_1]: { eci: 3, aliases: ['LATIN1', 'L1'], asciiCompatible: true },
+  [Charset.ISO_8859_2]: { eci: 4, aliases: ['LATIN2', 'L2'], asciiCompatible: true },
+  [Charset.ISO_8859_5]: { eci: 7, aliases: ['CYRILLIC'], asciiCompatible: true },
+  [Charset.ISO_8859_7]: { eci: 9, aliases: ['GREEK'], asciiCompatible: true },
+  [Charset.ISO_8859_15]: { eci: 17, aliases: ['LATIN9', 'L9'], asciiCompatible: true },
+  [Charset.WINDOWS_1250]: { eci: 21, aliases: ['CP1250'], asciiCompatible: true },
+  [Charset.WINDOWS_1251]: { eci: 22, aliases: ['CP1251'], asciiCompatible: true },
+  [Charset.WINDOWS_1252]: { eci: 23, aliases: ['CP1252'], asciiCompatible: true },
+  [Charset.WINDOWS_1256]: { eci: 24, aliases: ['CP1256'], asciiCompatible: true },
+  [Charset.WINDOWS_1258]: { aliases: ['CP1258'], asciiCompatible: true },
+  [Charset.SHIFT_JIS]: { eci: 20, aliases: ['SJIS', 'MSKANJI'], asciiCompatible: true },
+  [Charset.BIG5]: { eci: 28, aliases: ['BIG5HKSCS'], asciiCompatible: true },
+  [Charset.GB2312]: { eci: 29, aliases: ['EUCCN'], asciiCompatible: true },
+  [Charset.EUC_KR]: { eci: 30, aliases: ['KSC56011987'], asciiCompatible: true },
+  [Charset.UTF_16BE]: { eci: 25, aliases: ['UTF16BE'], asciiCompatible: false },
+  [Charset.US_ASCII]: { eci: 27, aliases: ['ASCII'], asciiCompatible: true }
+};
+
+// Charset names are matched ignoring case, dashes, underscores and spaces
+const normalize = (name: string): string => name.toUpperCase().replace(/[\s_-]/g, '');
+
+export class CharsetValue {
+  private constructor(private readonly value: Charset) {}
+
+  static create(name: string): CharsetValue {
+    const normalized = normalize(name || '');
+    const charset = (Object.keys(CHARSETS) as Charset[]).find(candidate =>
+      normalize(candidate) === normalized || CHARSETS[candidate].aliases.includes(normalized)
+    );
+
+    if (!charset) {
+      throw new Error(`Unsupported charset: ${name}. Supported: ${Object.values(Charset).join(', ')}`);
+    }
+
+    return new CharsetValue(charset);
+  }
+
+  static default(): CharsetValue {
+    return new CharsetValue(Charset.UTF_8);
+  }
+
+  // Charset a decoded symbol declares, or undefined for designators without a supported charset
+  static fromEciDesignator(designator: number): CharsetValue | undefined {
+    const charset = (Object.keys(CHARSETS) as Charset[]).find(candidate => CHARSETS[candidate].eci === designator);
+    return charset ? new CharsetValue(charset) : undefined;
+  }
+
+  getValue(): Charset {
+    return this.value;
+  }
+
+  getEciDesignator(): number | undefined {
+    return CHARSETS[this.value].eci;
+  }
+
+  // Only charsets with an ECI designator can be used for the encoded payload
+  canBeTarget(): boolean {
+    return this.getEciDesignator() !== undefined;
+  }
+
+  isAsciiCompatible(): boolean {
+    return CHARSETS[this.value].asciiCompatible;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: CharsetValue): boolean {
+    return this.value === other.value;
+  }
+}
@@ -1,3 +1,5 @@
+import { CSS_NAMED_COLORS } from './CssNamedColors';
+
 export interface RGBColor {
   r: number;
   g: number;
@@ -5,11 +7,15 @@ export interface RGBColor {
 }
 
 export class ColorValue {
-  private constructor(private readonly color: RGBColor) {}
+  static readonly ACCEPTED_FORMATS =
+    'hex (#RRGGBB or #RRGGBBAA), RGB (r-g-b or r-g-b-a), rgb()/rgba(), hsl()/hsla(), a CSS color name or transparent';
+
+  // Alpha runs from 0 (fully transparent) to 1 (opaque)
+  private constructor(private readonly color: RGBColor, private readonly alpha: number = 1) {}
 
   static create(colorInput: string): ColorValue {
-    const rgb = ColorValue.parseColor(colorInput);
-    return new ColorValue(rgb);
+    const { rgb, alpha } = ColorValue.parseColor(colorInput);
+    return new ColorValue(rgb, alpha);
   }
 
   static fromRGB(r: number, g: number, b: number): ColorValue {
@@ -28,26 +34,144 @@ export class ColorValue {
     return new ColorValue({ r: 255, g: 255, b: 255 });
   }
 
-  private static parseColor(colorInput: string): RGBColor {
-    // Handle hex format (#RRGGBB or #RGB)
+  static transparent(): ColorValue {
+    return new ColorValue({ r: 0, g: 0, b: 0 }, 0);
+  }
+
+  private static parseColor(colorInput: string): { rgb: RGBColor; alpha: number } {
+    const normalized = colorInput.trim().toLowerCase();
+
+    if (normalized === 'transparent') {
+      return { rgb: { r: 0, g: 0, b: 0 }, alpha: 0 };
+    }
+
+    // Handle CSS named colors (rebeccapurple, navy, ...)
+    if (Object.prototype.hasOwnProperty.call(CSS_NAMED_COLORS, normalized)) {
+      return ColorValue.parseHexColor(CSS_NAMED_COLORS[normalized]);
+    }
+
+    // Handle CSS functional notation (rgb(), rgba(), hsl(), hsla())
+    const functional = normalized.match(/^(rgba?|hsla?)\((.*)\)$/);
+    if (functional) {
+      return ColorValue.parseFunctionalColor(functional[1], functional[2], colorInput);
+    }
+
+    // Handle hex format (#RRGGBB, #RGB or #RRGGBBAA)
     if (colorInput.startsWith('#')) {
       return ColorValue.parseHexColor(colorInput);
     }
 
-    // Handle RGB decimal format (r-g-b)
+    // Handle RGB decimal format (r-g-b or r-g-b-a)
     if (colorInput.includes('-')) {
       return ColorValue.parseRGBString(colorInput);
     }
 
     // Handle hex format without # prefix (auto-add #)
-    if (/^[0-9a-fA-F]{3}$|^[0-9a-fA-F]{6}$/.test(colorInput)) {
+    if (/^[0-9a-fA-F]{3}$|^[0-9a-fA-F]{6}$|^[0-9a-fA-F]{8}$/.test(colorInput)) {
       return ColorValue.parseHexColor('#' + colorInput);
     }
 
-    throw new Error(`Invalid color format: ${colorInput}. Use hex (#RRGGBB) or RGB (r-g-b) format`);
+    throw new Error(`Invalid color format: ${colorInput}. Use ${ColorValue.ACCEPTED_FORMATS}`);
+  }
+
+  // Accepts both the legacy comma syntax (rgb(10, 20, 30, 0.5)) and the
+  // space syntax with an optional slash-separated alpha (rgb(10 20 30 / 50%))
+  private static parseFunctionalColor(fn: string, args: string, colorInput: string): { rgb: RGBColor; alpha: number } {
+    let parts: string[];
+    let alphaPart: string | undefined;
+
+    if (args.includes(',')) {
+      parts = args.split(',').map(part => part.trim());
+      if (parts.length === 4) {
+        alphaPart = parts.pop();
+      }
+    } else {
+      const [channels, alpha, ...rest] = args.split('/');
+      if (rest.length > 0) {
+        throw new Error(`Invalid color function: ${colorInput}`);
+      }
+      parts = channels.trim().split(/\s+/);
+      alphaPart = alpha?.trim();
+    }
+
+    if (parts.length !== 3 || parts.some(part => part === '')) {
+      throw new Error(`Invalid color function: ${colorInput}. Expected three components and an optional alpha`);
+    }
+
+    const alpha = alphaPart === undefined ? 1 : ColorValue.parseAlphaComponent(alphaPart, colorInput);
+    const rgb = fn.startsWith('rgb')
+      ? {
+        r: ColorValue.parseRGBComponent(parts[0], colorInput),
+        g: ColorValue.parseRGBComponent(parts[1], colorInput),
+        b: ColorValue.parseRGBComponent(parts[2], colorInput)
+      }
+      : ColorValue.hslToRGB(
+        ColorValue.parseHue(parts[0], colorInput),
+        ColorValue.parsePercentage(parts[1], colorInput),
+        ColorValue.parsePercentage(parts[2], colorInput)
+      );
+
+    return { rgb, alpha };
+  }
+
+  // 0-255 or 0%-100%
+  private static parseRGBComponent(value: string, colorInput: string): number {
+    const match = value.match(/^(\d+(?:\.\d+)?)(%?)$/);
+    const number = match ? parseFloat(match[1]) : NaN;
+    const max = match && match[2] ? 100 : 255;
+
+    if (!match || number > max) {
+      throw new Error(`Invalid color function: ${colorInput}. RGB components must be 0-255 or 0%-100%`);
+    }
+
+    return Math.round(match[2] ? (number * 255) / 100 : number);
+  }
+
+  // 0-1 or 0%-100%
+  private static parseAlphaComponent(value: string, colorInput: string): number {
+    const match = value.match(/^(\d*\.?\d+)(%?)$/);
+    const alpha = match ? parseFloat(match[1]) / (match[2] ? 100 : 1) : NaN;
+
+    if (!match || alpha > 1) {
+      throw new Error(`Invalid color function: ${colorInput}. Alpha must be between 0 and 1 (or 0%-100%)`);
+    }
+
+    return alpha;
   }
 
-  private static parseHexColor(hex: string): RGBColor {
+  // Degrees, with or without the deg unit; wraps around like CSS
+  private static parseHue(value: string, colorInput: string): number {
+    const match = value.match(/^(-?\d*\.?\d+)(deg)?$/);
+    if (!match) {
+      throw new Error(`Invalid color function: ${colorInput}. Hue must be a number of degrees`);
+    }
+
+    return ((parseFloat(match[1]) % 360) + 360) % 360;
+  }
+
+  private static parsePercentage(value: string, colorInput: string): number {
+    const match = value.match(/^(\d*\.?\d+)%$/);
+    const percentage = match ? parseFloat(match[1]) : NaN;
+
+    if (!match || percentage > 100) {
+      throw new Error(`Invalid color function: ${colorInput}. Saturation and lightness must be percentages (0%-100%)`);
+    }
+
+    return percentage / 100;
+  }
+
+  private static hslToRGB(hue: number, saturation: number, lightness: number): RGBColor {
+    const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+    const channel = (n: number) => {
+      const k = (n + hue / 30) % 12;
+      const value = lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+      return Math.round(value * 255);
+    };
+
+    return { r: channel(0), g: channel(8), b: channel(4) };
+  }
+
+  private static parseHexColor(hex: string): { rgb: RGBColor; alpha: number } {
     const cleanHex = hex.replace('#', '');
     
     if (cleanHex.length === 3) {
@@ -55,22 +179,23 @@ export class ColorValue {
       const r = parseInt(cleanHex[0] + cleanHex[0], 16);
       const g = parseInt(cleanHex[1] + cleanHex[1], 16);
       const b = parseInt(cleanHex[2] + cleanHex[2], 16);
-      return { r, g, b };
-    } else if (cleanHex.length === 6) {
-      // Full hex format (#RRGGBB)
+      return { rgb: { r, g, b }, alpha: 1 };
+    } else if (cleanHex.length === 6 || cleanHex.length === 8) {
+      // Full hex format (#RRGGBB), optionally with alpha (#RRGGBBAA)
       const r = parseInt(cleanHex.substring(0, 2), 16);
       const g = parseInt(cleanHex.substring(2, 4), 16);
       const b = parseInt(cleanHex.substring(4, 6), 16);
-      return { r, g, b };
+      const alpha = cleanHex.length === 8 ? parseInt(cleanHex.substring(6, 8), 16) / 255 : 1;
+      return { rgb: { r, g, b }, alpha };
     }
 
     throw new Error(`Invalid hex color format: ${hex}`);
   }
 
-  private static parseRGBString(rgbStr: string): RGBColor {
+  private static parseRGBString(rgbStr: string): { rgb: RGBColor; alpha: number } {
     const parts = rgbStr.split('-');
-    if (parts.length !== 3) {
-      throw new Error(`Invalid RGB format: ${rgbStr}. Use format r-g-b`);
+    if (parts.length !== 3 && parts.length !== 4) {
+      throw new Error(`Invalid RGB format: ${rgbStr}. Use format r-g-b or r-g-b-a`);
     }
 
     const r = parseInt(parts[0], 10);
@@ -85,7 +210,15 @@ export class ColorValue {
     ColorValue.validateRGBComponent(g, 'green');
     ColorValue.validateRGBComponent(b, 'blue');
 
-    return { r, g, b };
+    let alpha = 1;
+    if (parts.length === 4) {
+      alpha = Number(parts[3]);
+      if (parts[3].trim() === '' || isNaN(alpha) || alpha < 0 || alpha > 1) {
+        throw new Error(`Invalid RGB format: ${rgbStr}. Alpha must be between 0 and 1`);
+      }
+    }
+
+    return { rgb: { r, g, b }, alpha };
   }
 
   private static validateRGBComponent(value: number, component: string): void {
@@ -98,27 +231,62 @@ export class ColorValue {
     return { ...this.color };
   }
 
+  getAlpha(): number {
+    return this.alpha;
+  }
+
+  isOpaque(): boolean {
+    return this.alpha === 1;
+  }
+
+  isTransparent(): boolean {
+    return this.alpha === 0;
+  }
+
   toHex(): string {
     const toHex = (n: number) => n.toString(16).padStart(2, '0');
     return `#${toHex(this.color.r)}${toHex(this.color.g)}${toHex(this.color.b)}`;
   }
 
+  // #RRGGBBAA, as understood by the qrcode library and CSS
+  toHexWithAlpha(): string {
+    return this.toHex() + Math.round(this.alpha * 255).toString(16).padStart(2, '0');
+  }
+
   toRGBString(): string {
-    return `${this.color.r}-${this.color.g}-${this.color.b}`;
+    const rgb = `${this.color.r}-${this.color.g}-${this.color.b}`;
+    return this.isOpaque() ? rgb : `${rgb}-${parseFloat(this.alpha.toFixed(3))}`;
   }
 
   toString(): string {
-    return this.toHex();
+    return this.isOpaque() ? this.toHex() : this.toHexWithAlpha();
   }
 
   equals(other: ColorValue): boolean {
     return (
       this.color.r === other.color.r &&
       this.color.g === other.color.g &&
-      this.color.b === other.color.b
+      this.color.b === other.color.b &&
+      this.alpha === other.alpha
     );
   }
 
+  // Blends this color over an opaque backdrop, giving the color that is actually seen
+  compositeOver(backdrop: ColorValue): ColorValue {
+    if (this.isOpaque()) {
+      return this;
+    }
+
+    const base = backdrop.isOpaque() ? backdrop : backdrop.compositeOver(ColorValue.white());
+    const blend = (top: number, bottom: number) => Math.round(top * this.alpha + bottom * (1 - this.alpha));
+
+    return new ColorValue({
+      r: blend(this.color.r, base.color.r),
+      g: blend(this.color.g, base.color.g),
+      b: blend(this.color.b, base.color.b)
+    });
+  }
+
   // WCAG AA compliance check for color contrast
   getLuminance(): number {
     const sRGB = (c: number) => {
@@ -129,15 +297,18 @@ export class ColorValue {
     return 0.2126 * sRGB(this.color.r) + 0.7152 * sRGB(this.color.g) + 0.0722 * sRGB(this.color.b);
   }
 
-  getContrastRatio(other: ColorValue): number {
-    const l1 = this.getLuminance();
-    const l2 = other.getLuminance();
+  // Translucent colors are compared as they appear: the background over the
+  // backdrop (the matte, or white), then this color over that background.
+  getContrastRatio(other: ColorValue, backdrop: ColorValue = ColorValue.white()): number {
+    const background = other.compositeOver(backdrop);
+    const l1 = this.compositeOver(background).getLuminance();
+    const l2 = background.getLuminance();
     const lighter = Math.max(l1, l2);
     const darker = Math.min(l1, l2);
     return (lighter + 0.05) / (darker + 0.05);
   }
 
-  hasAccessibleContrast(other: ColorValue): boolean {
-    return this.getContrastRatio(other) >= 3.0; // Relaxed standard for QR codes (was 4.5 WCAG AA)
+  hasAccessibleContrast(other: ColorValue, backdrop?: ColorValue): boolean {
+    return this.getContrastRatio(other, backdrop) >= 3.0; // Relaxed standard for QR codes (was 4.5 WCAG AA)
   }
 }
\ No newline at end of file
@@ -1,13 +1,16 @@
 export class DataPayload {
+  // Most characters any QR code holds: numeric data in version 40 at level L
+  static readonly MAX_LENGTH = 7089;
+
   private constructor(private readonly content: string) {}
 
-  static create(data: string): DataPayload {
+  static create(data: string, maxLength: number = DataPayload.MAX_LENGTH): DataPayload {
     if (!data || data.trim().length === 0) {
       throw new Error('Data content cannot be empty');
     }
 
-    if (data.length > 900) {
-      throw new Error('Data content cannot exceed 900 characters');
+    if (data.length > maxLength) {
+      throw new Error(`Data content cannot exceed ${maxLength} characters`);
     }
 
     // Validate that the content is properly URL-encoded for URLs
@@ -57,11 +60,14 @@ export class DataPayload {
   // Validate charset compatibility
   isCompatibleWithCharset(charset: string): boolean {
     try {
-      if (charset.toUpperCase() === 'ISO-8859-1') {
-        // Check if all characters are within ISO-8859-1 range
+      // Other charsets are checked when the payload is transcoded
+      const maxCharCodes: Record<string, number> = { 'ISO-8859-1': 255, 'US-ASCII': 127 };
+      const maxCharCode = maxCharCodes[charset.toUpperCase()];
+      if (maxCharCode !== undefined) {
+        // Check if all characters are within the charset's range
         for (let i = 0; i < this.content.length; i++) {
           const charCode = this.content.charCodeAt(i);
-          if (charCode > 255) {
+          if (charCode > maxCharCode) {
             return false;
           }
         }
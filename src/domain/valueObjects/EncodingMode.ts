@@ -0,0 +1,42 @@
+export enum EncodingMode {
+  AUTO = 'auto',
+  NUMERIC = 'numeric',
+  ALPHANUMERIC = 'alphanumeric',
+  BYTE = 'byte',
+  KANJI = 'kanji'
+}
+
+export class EncodingModeValue {
+  private constructor(private readonly value: EncodingMode) {}
+
+  static create(mode: string): EncodingModeValue {
+    const lowerMode = mode.toLowerCase().trim();
+
+    if (!Object.values(EncodingMode).includes(lowerMode as EncodingMode)) {
+      throw new Error(`Invalid encoding mode: ${mode}. Valid values: ${Object.values(EncodingMode).join(', ')}`);
+    }
+
+    return new EncodingModeValue(lowerMode as EncodingMode);
+  }
+
+  static default(): EncodingModeValue {
+    return new EncodingModeValue(EncodingMode.AUTO);
+  }
+
+  getValue(): EncodingMode {
+    return this.value;
+  }
+
+  // Auto splits the data into the segments that need the fewest bits
+  isAuto(): boolean {
+    return this.value === EncodingMode.AUTO;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: EncodingModeValue): boolean {
+    return this.value === other.value;
+  }
+}
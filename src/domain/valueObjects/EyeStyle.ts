@@ -0,0 +1,113 @@
+import { ColorValue } from './ColorValue';
+
+export enum EyeFrameShape {
+  SQUARE = 'square',
+  ROUNDED = 'rounded',
+  CIRCLE = 'circle'
+}
+
+export enum EyeBallShape {
+  SQUARE = 'square',
+  ROUNDED = 'rounded',
+  CIRCLE = 'circle',
+  DIAMOND = 'diamond'
+}
+
+export enum EyePosition {
+  TOP_LEFT = 'tl',
+  TOP_RIGHT = 'tr',
+  BOTTOM_LEFT = 'bl'
+}
+
+export interface EyeStyleOptions {
+  frame?: string;
+  ball?: string;
+  color?: ColorValue;
+  colors?: Partial<Record<EyePosition, ColorValue>>;
+}
+
+/**
+ * Appearance of the three finder patterns ("eyes"): the 7x7 outer frame,
+ * the 3x3 inner ball and an optional color per eye. Eyes without a color
+ * use the foreground color.
+ */
+export class EyeStyle {
+  private constructor(
+    private readonly frame: EyeFrameShape,
+    private readonly ball: EyeBallShape,
+    private readonly colors: Partial<Record<EyePosition, ColorValue>>
+  ) {}
+
+  static create(options: EyeStyleOptions): EyeStyle {
+    const frame = options.frame ? EyeStyle.parseFrame(options.frame) : EyeFrameShape.SQUARE;
+    const ball = options.ball ? EyeStyle.parseBall(options.ball) : EyeBallShape.SQUARE;
+
+    const colors: Partial<Record<EyePosition, ColorValue>> = {};
+    for (const position of Object.values(EyePosition)) {
+      const color = options.colors?.[position] || options.color;
+      if (color) {
+        colors[position] = color;
+      }
+    }
+
+    return new EyeStyle(frame, ball, colors);
+  }
+
+  static default(): EyeStyle {
+    return new EyeStyle(EyeFrameShape.SQUARE, EyeBallShape.SQUARE, {});
+  }
+
+  private static parseFrame(frame: string): EyeFrameShape {
+    const lowerFrame = frame.toLowerCase().trim();
+    if (!Object.values(EyeFrameShape).includes(lowerFrame as EyeFrameShape)) {
+      throw new Error(`Invalid eye frame shape: ${frame}. Valid values: ${Object.values(EyeFrameShape).join(', ')}`);
+    }
+    return lowerFrame as EyeFrameShape;
+  }
+
+  private static parseBall(ball: string): EyeBallShape {
+    const lowerBall = ball.toLowerCase().trim();
+    if (!Object.values(EyeBallShape).includes(lowerBall as EyeBallShape)) {
+      throw new Error(`Invalid eye ball shape: ${ball}. Valid values: ${Object.values(EyeBallShape).join(', ')}`);
+    }
+    return lowerBall as EyeBallShape;
+  }
+
+  getFrameShape(): EyeFrameShape {
+    return this.frame;
+  }
+
+  getBallShape(): EyeBallShape {
+    return this.ball;
+  }
+
+  getColor(position: EyePosition): ColorValue | undefined {
+    return this.colors[position];
+  }
+
+  hasSquareShapes(): boolean {
+    return this.frame === EyeFrameShape.SQUARE && this.ball === EyeBallShape.SQUARE;
+  }
+
+  // Square eyes in the foreground color look exactly like an unstyled code
+  isDefault(): boolean {
+    return this.frame === EyeFrameShape.SQUARE &&
+      this.ball === EyeBallShape.SQUARE &&
+      Object.keys(this.colors).length === 0;
+  }
+
+  hasTransparency(): boolean {
+    return Object.values(this.colors).some(color => color !== undefined && !color.isOpaque());
+  }
+
+  equals(other: EyeStyle): boolean {
+    return this.toString() === other.toString();
+  }
+
+  toString(): string {
+    const colors = Object.values(EyePosition)
+      .map(position => `${position}:${this.colors[position]?.toString() || 'fg'}`)
+      .join(',');
+    return `EyeStyle{frame=${this.frame}, ball=${this.ball}, colors=${colors}}`;
+  }
+}
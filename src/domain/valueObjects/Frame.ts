@@ -0,0 +1,172 @@
+import { ColorValue } from './ColorValue';
+
+export enum FrameStyle {
+  BOX = 'box',
+  BANNER = 'banner',
+  BANNER_TOP = 'banner-top',
+  BUBBLE = 'bubble'
+}
+
+export interface FrameOptions {
+  style: string;
+  text?: string;
+  textSize?: number;
+  color?: ColorValue;
+  textColor?: ColorValue;
+}
+
+export interface FrameBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Pixel geometry of a framed code; the code image is placed at `code`
+export interface FrameLayout {
+  width: number;
+  height: number;
+  code: FrameBox;
+  label: FrameBox;
+  border: number;
+  fontSize: number;
+}
+
+const DEFAULT_TEXT = 'SCAN ME';
+const MAX_TEXT_LENGTH = 40;
+const MIN_TEXT_SIZE = 8;
+const MAX_TEXT_SIZE = 96;
+
+/**
+ * A call-to-action frame drawn around the code: a border plus a label such
+ * as "SCAN ME". The frame enlarges the image; the code itself keeps the
+ * requested size.
+ */
+export class Frame {
+  private constructor(
+    private readonly style: FrameStyle,
+    private readonly text: string,
+    private readonly color: ColorValue,
+    private readonly textSize?: number,
+    private readonly textColor?: ColorValue
+  ) {}
+
+  static create(options: FrameOptions): Frame {
+    return new Frame(
+      Frame.parseStyle(options.style),
+      Frame.parseText(options.text),
+      options.color || ColorValue.black(),
+      Frame.validateTextSize(options.textSize),
+      options.textColor
+    );
+  }
+
+  private static parseStyle(style: string): FrameStyle {
+    const lowerStyle = (style || '').toLowerCase().trim();
+    if (!Object.values(FrameStyle).includes(lowerStyle as FrameStyle)) {
+      throw new Error(`Invalid frame style: ${style}. Valid values: ${Object.values(FrameStyle).join(', ')}`);
+    }
+    return lowerStyle as FrameStyle;
+  }
+
+  private static parseText(text?: string): string {
+    if (text === undefined) {
+      return DEFAULT_TEXT;
+    }
+
+    const trimmed = text.trim();
+    if (trimmed.length === 0 || trimmed.length > MAX_TEXT_LENGTH) {
+      throw new Error(`Frame text must be between 1 and ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (/\p{Cc}/u.test(trimmed)) {
+      throw new Error('Frame text must not contain control characters');
+    }
+
+    return trimmed;
+  }
+
+  private static validateTextSize(textSize?: number): number | undefined {
+    if (textSize === undefined) return undefined;
+
+    if (!Number.isInteger(textSize) || textSize < MIN_TEXT_SIZE || textSize > MAX_TEXT_SIZE) {
+      throw new Error(`Frame text size must be an integer between ${MIN_TEXT_SIZE} and ${MAX_TEXT_SIZE} pixels`);
+    }
+
+    return textSize;
+  }
+
+  getStyle(): FrameStyle {
+    return this.style;
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  getColor(): ColorValue {
+    return this.color;
+  }
+
+  // Undefined means the size is derived from the code size
+  getTextSize(): number | undefined {
+    return this.textSize;
+  }
+
+  // Box labels sit on the background; the other styles put the label on a filled band
+  getTextColor(): ColorValue {
+    if (this.textColor) {
+      return this.textColor;
+    }
+    return this.hasFilledLabel() ? ColorValue.white() : this.color;
+  }
+
+  hasFilledLabel(): boolean {
+    return this.style !== FrameStyle.BOX;
+  }
+
+  getLayout(codeWidth: number, codeHeight: number): FrameLayout {
+    const shortSide = Math.min(codeWidth, codeHeight);
+    const border = Math.max(2, Math.round(shortSide * 0.03));
+    const fontSize = this.textSize ?? Math.max(10, Math.round(shortSide * 0.09));
+    const labelHeight = Math.round(fontSize * 1.8);
+    // The bubble's label floats below the frame, joined by a pointer
+    const gap = this.style === FrameStyle.BUBBLE ? Math.round(fontSize * 0.6) : 0;
+
+    const width = codeWidth + border * 2;
+    const height = codeHeight + border * 2 + gap + labelHeight;
+
+    if (this.style === FrameStyle.BANNER_TOP) {
+      return {
+        width,
+        height,
+        code: { x: border, y: border + labelHeight, width: codeWidth, height: codeHeight },
+        label: { x: border, y: border, width: codeWidth, height: labelHeight },
+        border,
+        fontSize
+      };
+    }
+
+    return {
+      width,
+      height,
+      code: { x: border, y: border, width: codeWidth, height: codeHeight },
+      label: {
+        x: this.style === FrameStyle.BUBBLE ? 0 : border,
+        y: codeHeight + border * (this.style === FrameStyle.BUBBLE ? 2 : 1) + gap,
+        width: this.style === FrameStyle.BUBBLE ? width : codeWidth,
+        height: labelHeight
+      },
+      border,
+      fontSize
+    };
+  }
+
+  equals(other: Frame): boolean {
+    return this.toString() === other.toString();
+  }
+
+  toString(): string {
+    return `Frame{style=${this.style}, text=${JSON.stringify(this.text)}, size=${this.textSize ?? 'auto'}, ` +
+      `color=${this.color}, textColor=${this.getTextColor()}}`;
+  }
+}
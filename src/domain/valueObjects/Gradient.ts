@@ -0,0 +1,154 @@
+import { ColorValue } from './ColorValue';
+
+export enum GradientType {
+  LINEAR = 'linear',
+  RADIAL = 'radial'
+}
+
+export interface GradientStop {
+  color: ColorValue;
+  offset: number; // 0-1 along the gradient
+}
+
+const MAX_STOPS = 10;
+
+/**
+ * Foreground fill that blends two or more color stops, either along an
+ * angle (linear) or outwards from the center of the code (radial).
+ */
+export class Gradient {
+  private constructor(
+    private readonly type: GradientType,
+    private readonly stops: GradientStop[],
+    private readonly angle: number
+  ) {}
+
+  /**
+   * @param colors Comma-separated stops, each a color optionally followed by
+   *               a percentage, e.g. "#ff0000, #0000ff" or "#f00 0%, #00f 80%"
+   * @param angle  Direction of a linear gradient in degrees: 0 runs left to
+   *               right, 90 top to bottom
+   */
+  static create(type: string, colors: string, angle?: number): Gradient {
+    const gradientType = Gradient.parseType(type);
+    const stops = Gradient.parseStops(colors);
+    const validatedAngle = Gradient.validateAngle(angle);
+
+    return new Gradient(gradientType, stops, validatedAngle);
+  }
+
+  private static parseType(type: string): GradientType {
+    const lowerType = (type || '').toLowerCase().trim();
+    if (!Object.values(GradientType).includes(lowerType as GradientType)) {
+      throw new Error(`Invalid gradient type: ${type}. Valid values: ${Object.values(GradientType).join(', ')}`);
+    }
+    return lowerType as GradientType;
+  }
+
+  private static parseStops(colors: string): GradientStop[] {
+    const parts = Gradient.splitList(colors || '');
+
+    if (parts.length < 2) {
+      throw new Error('Gradient requires at least two color stops');
+    }
+    if (parts.length > MAX_STOPS) {
+      throw new Error(`Gradient supports at most ${MAX_STOPS} color stops`);
+    }
+
+    const parsed = parts.map(part => {
+      const match = part.match(/^(.*\S)\s+(-?\d+(?:\.\d+)?)%$/);
+      return match
+        ? { color: ColorValue.create(match[1]), offset: parseFloat(match[2]) / 100 }
+        : { color: ColorValue.create(part), offset: undefined };
+    });
+
+    const withOffsets = parsed.filter(stop => stop.offset !== undefined).length;
+    if (withOffsets > 0 && withOffsets < parsed.length) {
+      throw new Error('Gradient stop positions must be given for all stops or none');
+    }
+
+    // Without explicit positions the stops are spread evenly
+    const stops = parsed.map((stop, index) => ({
+      color: stop.color,
+      offset: stop.offset !== undefined ? stop.offset : index / (parsed.length - 1)
+    }));
+
+    stops.forEach((stop, index) => {
+      if (stop.offset < 0 || stop.offset > 1) {
+        throw new Error('Gradient stop positions must be between 0% and 100%');
+      }
+      if (index > 0 && stop.offset < stops[index - 1].offset) {
+        throw new Error('Gradient stop positions must be in ascending order');
+      }
+    });
+
+    return stops;
+  }
+
+  // Splits on commas outside parentheses so functional colors keep their arguments
+  private static splitList(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of value) {
+      if (char === '(') depth++;
+      if (char === ')') depth = Math.max(0, depth - 1);
+
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+
+    return parts.filter(part => part.length > 0);
+  }
+
+  private static validateAngle(angle?: number): number {
+    if (angle === undefined) return 0;
+
+    if (!Number.isFinite(angle) || angle < 0 || angle > 360) {
+      throw new Error('Gradient angle must be between 0 and 360 degrees');
+    }
+    return angle;
+  }
+
+  getType(): GradientType {
+    return this.type;
+  }
+
+  getStops(): GradientStop[] {
+    return this.stops.map(stop => ({ ...stop }));
+  }
+
+  getAngle(): number {
+    return this.angle;
+  }
+
+  // The stop closest to a light background decides whether the code stays readable.
+  // Translucent stops are judged by how they look over white.
+  getLightestStop(): ColorValue {
+    const luminance = (color: ColorValue) => color.compositeOver(ColorValue.white()).getLuminance();
+    return this.stops.reduce((lightest, stop) =>
+      luminance(stop.color) > luminance(lightest) ? stop.color : lightest,
+    this.stops[0].color);
+  }
+
+  hasTransparency(): boolean {
+    return this.stops.some(stop => !stop.color.isOpaque());
+  }
+
+  equals(other: Gradient): boolean {
+    return this.toString() === other.toString();
+  }
+
+  toString(): string {
+    const stops = this.stops.map(stop => `${stop.color.toString()} ${parseFloat((stop.offset * 100).toFixed(2))}%`).join(', ');
+    return this.type === GradientType.LINEAR
+      ? `linear-gradient(${this.angle}deg, ${stops})`
+      : `radial-gradient(${stops})`;
+  }
+}
@@ -1,21 +1,40 @@
+import { createHash } from 'crypto';
+
 export interface LogoOptions {
   source: string;
   size: number;
   margin: number;
 }
 
+export interface LogoBinary {
+  data: Buffer;
+  mimeType: string;
+}
+
+const SUPPORTED_BINARY_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+
 export class Logo {
+  static readonly MAX_BINARY_BYTES = 512 * 1024; // 512KB
+
   private readonly source: string;
   private readonly size: number;
   private readonly margin: number;
+  private readonly binary?: LogoBinary;
 
-  private constructor(source: string, size: number, margin: number) {
+  private constructor(source: string, size: number, margin: number, binary?: LogoBinary) {
     this.source = source;
     this.size = size;
     this.margin = margin;
+    this.binary = binary;
   }
 
   static create(source: string, size?: number, margin?: number): Logo {
+    // Inline images (data:image/png;base64,...) carry their bytes with them
+    if (source && Logo.isDataUri(source.trim())) {
+      const { data, mimeType } = Logo.parseDataUri(source.trim());
+      return Logo.fromBinary(data, mimeType, size, margin);
+    }
+
     const validatedSource = Logo.validateSource(source);
     const validatedSize = Logo.validateSize(size || 50);
     const validatedMargin = Logo.validateMargin(margin !== undefined ? margin : 5);
@@ -23,6 +42,94 @@ export class Logo {
     return new Logo(validatedSource, validatedSize, validatedMargin);
   }
 
+  /**
+   * Creates a logo from uploaded image bytes. The declared MIME type must
+   * match the image signature found in the data.
+   */
+  static fromBinary(data: Buffer, mimeType: string, size?: number, margin?: number): Logo {
+    const validatedBinary = Logo.validateBinary(data, mimeType);
+    const validatedSize = Logo.validateSize(size || 50);
+    const validatedMargin = Logo.validateMargin(margin !== undefined ? margin : 5);
+
+    // Binary logos are identified by their content hash so cache keys stay short
+    const hash = createHash('sha256').update(validatedBinary.data).digest('hex');
+    const source = `data:${validatedBinary.mimeType};sha256,${hash}`;
+
+    return new Logo(source, validatedSize, validatedMargin, validatedBinary);
+  }
+
+  /**
+   * Detects the image type from its leading bytes.
+   * Returns undefined for anything that is not PNG, JPEG, GIF, WebP or SVG.
+   */
+  static detectMimeType(data: Buffer): string | undefined {
+    if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+      return 'image/png';
+    }
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+      return 'image/jpeg';
+    }
+    if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('ascii'))) {
+      return 'image/gif';
+    }
+    if (data.length >= 12 && data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+      return 'image/webp';
+    }
+
+    const head = data.subarray(0, 1024).toString('utf-8').replace(/^\uFEFF/, '').trimStart();
+    if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(head)) {
+      return 'image/svg+xml';
+    }
+
+    return undefined;
+  }
+
+  private static isDataUri(source: string): boolean {
+    return /^data:/i.test(source);
+  }
+
+  private static parseDataUri(source: string): LogoBinary {
+    const match = source.match(/^data:([^;,]+)((?:;[^;,]+)*),(.*)$/is);
+    if (!match) {
+      throw new Error('Invalid logo data URI');
+    }
+
+    const mimeType = match[1].toLowerCase();
+    const parameters = match[2].toLowerCase().split(';');
+    if (!parameters.includes('base64')) {
+      throw new Error('Logo data URI must be base64 encoded');
+    }
+
+    const payload = match[3].replace(/\s/g, '');
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(payload)) {
+      throw new Error('Logo data URI contains invalid base64 data');
+    }
+
+    return { data: Buffer.from(payload, 'base64'), mimeType };
+  }
+
+  private static validateBinary(data: Buffer, mimeType: string): LogoBinary {
+    const normalizedType = (mimeType || '').toLowerCase().trim().replace('image/jpg', 'image/jpeg');
+
+    if (!SUPPORTED_BINARY_TYPES.includes(normalizedType)) {
+      throw new Error(`Unsupported logo image type: ${mimeType}. Supported types: PNG, JPEG, GIF, WebP, SVG`);
+    }
+
+    if (data.length === 0) {
+      throw new Error('Logo image cannot be empty');
+    }
+
+    if (data.length > Logo.MAX_BINARY_BYTES) {
+      throw new Error(`Logo image exceeds the maximum size of ${Logo.MAX_BINARY_BYTES / 1024}KB`);
+    }
+
+    if (Logo.detectMimeType(data) !== normalizedType) {
+      throw new Error(`Logo image content does not match its declared type ${normalizedType}`);
+    }
+
+    return { data, mimeType: normalizedType };
+  }
+
   private static validateSource(source: string): string {
     if (!source || source.trim().length === 0) {
       throw new Error('Logo source cannot be empty');
@@ -41,7 +148,7 @@ export class Logo {
       return trimmedSource;
     }
 
-    throw new Error(`Invalid logo source: ${source}. Must be a valid URL or predefined logo identifier (google, facebook, twitter, linkedin)`);
+    throw new Error(`Invalid logo source: ${source}. Must be a valid URL, an image data URI or predefined logo identifier (google, facebook, twitter, linkedin)`);
   }
 
   private static isUrl(source: string): boolean {
@@ -57,12 +164,13 @@ export class Logo {
     try {
       const url = new URL(source);
       
-      // Basic security check - prevent localhost and private IPs
+      // Basic security check - prevent localhost and private IPs.
+      // Resolved addresses are checked again by the logo fetcher.
       if (url.hostname === 'localhost' || 
           url.hostname === '127.0.0.1' || 
           url.hostname.startsWith('192.168.') ||
           url.hostname.startsWith('10.') ||
-          url.hostname.startsWith('172.')) {
+          /^172\.(1[6-9]|2\d|3[01])\./.test(url.hostname)) {
         throw new Error('Private IP addresses and localhost are not allowed');
       }
 
@@ -120,6 +228,14 @@ export class Logo {
     return Logo.isPredefinedLogo(this.source);
   }
 
+  isBinary(): boolean {
+    return this.binary !== undefined;
+  }
+
+  getBinary(): LogoBinary | undefined {
+    return this.binary;
+  }
+
   // Utility methods
   equals(other: Logo): boolean {
     return (
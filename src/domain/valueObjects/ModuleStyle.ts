@@ -0,0 +1,41 @@
+export enum ModuleStyle {
+  SQUARE = 'square',
+  DOTS = 'dots',
+  ROUNDED = 'rounded',
+  EXTRA_ROUNDED = 'extra-rounded',
+  CLASSY = 'classy'
+}
+
+export class ModuleStyleValue {
+  private constructor(private readonly value: ModuleStyle) {}
+
+  static create(style: string): ModuleStyleValue {
+    const lowerStyle = style.toLowerCase().trim();
+
+    if (!Object.values(ModuleStyle).includes(lowerStyle as ModuleStyle)) {
+      throw new Error(`Invalid module style: ${style}. Valid values: ${Object.values(ModuleStyle).join(', ')}`);
+    }
+
+    return new ModuleStyleValue(lowerStyle as ModuleStyle);
+  }
+
+  static default(): ModuleStyleValue {
+    return new ModuleStyleValue(ModuleStyle.SQUARE);
+  }
+
+  getValue(): ModuleStyle {
+    return this.value;
+  }
+
+  isSquare(): boolean {
+    return this.value === ModuleStyle.SQUARE;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: ModuleStyleValue): boolean {
+    return this.value === other.value;
+  }
+}
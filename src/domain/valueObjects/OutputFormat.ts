@@ -3,8 +3,15 @@ export enum OutputFormat {
   GIF = 'gif',
   JPEG = 'jpeg',
   JPG = 'jpg',
+  WEBP = 'webp',
+  AVIF = 'avif',
   SVG = 'svg',
-  EPS = 'eps'
+  EPS = 'eps',
+  PDF = 'pdf',
+  MATRIX = 'matrix',
+  TXT = 'txt',
+  UTF8 = 'utf8',
+  ANSI = 'ansi'
 }
 
 export class OutputFormatValue {
@@ -14,7 +21,7 @@ export class OutputFormatValue {
     const lowerFormat = format.toLowerCase();
     
     if (!Object.values(OutputFormat).includes(lowerFormat as OutputFormat)) {
-      throw new Error(`Invalid output format: ${format}. Valid formats: png, gif, jpeg, jpg, svg, eps`);
+      throw new Error(`Invalid output format: ${format}. Valid formats: png, gif, jpeg, jpg, webp, avif, svg, eps, pdf, matrix, txt, utf8, ansi`);
     }
     
     return new OutputFormatValue(lowerFormat as OutputFormat);
@@ -37,11 +44,33 @@ export class OutputFormatValue {
   }
 
   isBitmapFormat(): boolean {
-    return [OutputFormat.PNG, OutputFormat.GIF, OutputFormat.JPEG, OutputFormat.JPG].includes(this.value);
+    return [
+      OutputFormat.PNG,
+      OutputFormat.GIF,
+      OutputFormat.JPEG,
+      OutputFormat.JPG,
+      OutputFormat.WEBP,
+      OutputFormat.AVIF
+    ].includes(this.value);
+  }
+
+  // Formats whose encoder can trade module-edge fidelity for size
+  supportsQuality(): boolean {
+    return [OutputFormat.JPEG, OutputFormat.JPG, OutputFormat.WEBP, OutputFormat.AVIF].includes(this.value);
   }
 
   isVectorFormat(): boolean {
-    return [OutputFormat.SVG, OutputFormat.EPS].includes(this.value);
+    return [OutputFormat.SVG, OutputFormat.EPS, OutputFormat.PDF].includes(this.value);
+  }
+
+  // The module grid as JSON, for clients that draw the code themselves
+  isMatrixFormat(): boolean {
+    return this.value === OutputFormat.MATRIX;
+  }
+
+  // Text drawings of the code for terminals and chat
+  isTextFormat(): boolean {
+    return [OutputFormat.TXT, OutputFormat.UTF8, OutputFormat.ANSI].includes(this.value);
   }
 
   getMimeType(): string {
@@ -53,10 +82,22 @@ export class OutputFormatValue {
       case OutputFormat.JPEG:
       case OutputFormat.JPG:
         return 'image/jpeg';
+      case OutputFormat.WEBP:
+        return 'image/webp';
+      case OutputFormat.AVIF:
+        return 'image/avif';
       case OutputFormat.SVG:
         return 'image/svg+xml';
       case OutputFormat.EPS:
         return 'application/postscript';
+      case OutputFormat.PDF:
+        return 'application/pdf';
+      case OutputFormat.MATRIX:
+        return 'application/json';
+      case OutputFormat.TXT:
+      case OutputFormat.UTF8:
+      case OutputFormat.ANSI:
+        return 'text/plain; charset=utf-8';
       default:
         return 'application/octet-stream';
     }
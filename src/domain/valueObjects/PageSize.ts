@@ -0,0 +1,92 @@
+export enum PageSizePreset {
+  FIT = 'fit',
+  A4 = 'a4',
+  LETTER = 'letter',
+  CUSTOM = 'custom'
+}
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+export class PageSize {
+  private constructor(
+    private readonly preset: PageSizePreset,
+    private readonly widthMm: number,
+    private readonly heightMm: number
+  ) {}
+
+  static create(pageSize: string): PageSize {
+    const normalized = pageSize.trim().toLowerCase();
+
+    switch (normalized) {
+      case PageSizePreset.FIT:
+        return PageSize.fitToCode();
+      case PageSizePreset.A4:
+        return new PageSize(PageSizePreset.A4, 210, 297);
+      case PageSizePreset.LETTER:
+        return new PageSize(PageSizePreset.LETTER, 215.9, 279.4);
+    }
+
+    // Custom page size in millimeters (WxHmm)
+    const match = normalized.match(/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)mm$/);
+    if (!match) {
+      throw new Error(`Invalid page size: ${pageSize}. Use fit, a4, letter or a custom size in millimeters (e.g., 100x150mm)`);
+    }
+
+    const width = parseFloat(match[1]);
+    const height = parseFloat(match[2]);
+
+    if (width < 10 || width > 1000 || height < 10 || height > 1000) {
+      throw new Error('Custom page width and height must be between 10 and 1000 millimeters');
+    }
+
+    return new PageSize(PageSizePreset.CUSTOM, width, height);
+  }
+
+  static fitToCode(): PageSize {
+    return new PageSize(PageSizePreset.FIT, 0, 0);
+  }
+
+  static mmToPoints(mm: number): number {
+    return (mm / MM_PER_INCH) * POINTS_PER_INCH;
+  }
+
+  static pointsToMm(points: number): number {
+    return (points / POINTS_PER_INCH) * MM_PER_INCH;
+  }
+
+  getPreset(): PageSizePreset {
+    return this.preset;
+  }
+
+  isFitToCode(): boolean {
+    return this.preset === PageSizePreset.FIT;
+  }
+
+  // Fit-to-code pages have no intrinsic dimensions; they take the code's size
+  getWidthMm(): number {
+    return this.widthMm;
+  }
+
+  getHeightMm(): number {
+    return this.heightMm;
+  }
+
+  canContain(codeSizeMm: number): boolean {
+    return this.isFitToCode() || (codeSizeMm <= this.widthMm && codeSizeMm <= this.heightMm);
+  }
+
+  toString(): string {
+    return this.preset === PageSizePreset.CUSTOM
+      ? `${this.widthMm}x${this.heightMm}mm`
+      : this.preset;
+  }
+
+  equals(other: PageSize): boolean {
+    return (
+      this.preset === other.preset &&
+      this.widthMm === other.widthMm &&
+      this.heightMm === other.heightMm
+    );
+  }
+}
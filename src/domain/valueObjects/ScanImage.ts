@@ -0,0 +1,70 @@
+import { Logo } from './Logo';
+
+const SUPPORTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Image submitted for QR code reading. The type is taken from the image
+ * signature, never from a declared MIME type or file name.
+ */
+export class ScanImage {
+  static readonly MAX_BYTES = 5 * 1024 * 1024; // 5MB
+
+  private constructor(
+    private readonly data: Buffer,
+    private readonly mimeType: string
+  ) {}
+
+  static fromBinary(data: Buffer): ScanImage {
+    if (data.length === 0) {
+      throw new Error('Image cannot be empty');
+    }
+
+    if (data.length > ScanImage.MAX_BYTES) {
+      throw new Error(`Image exceeds the maximum size of ${ScanImage.MAX_BYTES / 1024 / 1024}MB`);
+    }
+
+    const mimeType = Logo.detectMimeType(data);
+    if (!mimeType || !SUPPORTED_TYPES.includes(mimeType)) {
+      throw new Error('Unsupported image format. Supported formats: PNG, JPEG, WebP');
+    }
+
+    return new ScanImage(data, mimeType);
+  }
+
+  // Bare base64 or a data URI (data:image/png;base64,...)
+  static fromBase64(source: string): ScanImage {
+    const trimmed = (source || '').trim();
+    let payload = trimmed;
+
+    if (/^data:/i.test(trimmed)) {
+      const match = trimmed.match(/^data:[^,]*;base64,(.*)$/is);
+      if (!match) {
+        throw new Error('Image data URI must be base64 encoded');
+      }
+      payload = match[1];
+    }
+
+    payload = payload.replace(/\s/g, '');
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(payload)) {
+      throw new Error('Image contains invalid base64 data');
+    }
+
+    return ScanImage.fromBinary(Buffer.from(payload, 'base64'));
+  }
+
+  getData(): Buffer {
+    return this.data;
+  }
+
+  getMimeType(): string {
+    return this.mimeType;
+  }
+
+  getSize(): number {
+    return this.data.length;
+  }
+
+  toString(): string {
+    return `ScanImage{type=${this.mimeType}, size=${this.data.length} bytes}`;
+  }
+}
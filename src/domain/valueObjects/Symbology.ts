@@ -0,0 +1,49 @@
+export enum Symbology {
+  QR = 'qr',
+  DATA_MATRIX = 'datamatrix',
+  AZTEC = 'aztec'
+}
+
+export class SymbologyValue {
+  private constructor(private readonly value: Symbology) {}
+
+  static create(symbology: string): SymbologyValue {
+    const lowerSymbology = symbology.toLowerCase().trim();
+
+    if (!Object.values(Symbology).includes(lowerSymbology as Symbology)) {
+      throw new Error(`Invalid symbology: ${symbology}. Valid values: ${Object.values(Symbology).join(', ')}`);
+    }
+
+    return new SymbologyValue(lowerSymbology as Symbology);
+  }
+
+  static default(): SymbologyValue {
+    return new SymbologyValue(Symbology.QR);
+  }
+
+  getValue(): Symbology {
+    return this.value;
+  }
+
+  // Versions, masks, segment modes, logos and eye styles only exist in QR codes
+  isQR(): boolean {
+    return this.value === Symbology.QR;
+  }
+
+  // Name used in messages
+  getDisplayName(): string {
+    switch (this.value) {
+      case Symbology.DATA_MATRIX: return 'Data Matrix';
+      case Symbology.AZTEC: return 'Aztec';
+      default: return 'QR';
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: SymbologyValue): boolean {
+    return this.value === other.value;
+  }
+}
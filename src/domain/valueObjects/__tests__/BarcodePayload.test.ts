@@ -0,0 +1,43 @@
+import { BarcodePayload } from '../BarcodePayload';
+import { BarcodeType, BarcodeTypeValue } from '../BarcodeType';
+
+describe('BarcodePayload', () => {
+  const ean13 = BarcodeTypeValue.create('ean13');
+  const upca = BarcodeTypeValue.create('UPCA');
+
+  it('should default to Code 128', () => {
+    expect(BarcodeTypeValue.default().getValue()).toBe(BarcodeType.CODE_128);
+    expect(BarcodeTypeValue.default().isRetail()).toBe(false);
+  });
+
+  it('should reject unknown barcode types', () => {
+    expect(() => BarcodeTypeValue.create('code39')).toThrow('Invalid barcode type: code39. Valid values: code128, ean13, upca');
+  });
+
+  it('should append the computed check digit', () => {
+    const payload = BarcodePayload.create('400638133393', ean13);
+
+    expect(payload.getContent()).toBe('4006381333931');
+    expect(payload.getCheckDigit()).toBe(1);
+    expect(BarcodePayload.create('03600029145', upca).getContent()).toBe('036000291452');
+  });
+
+  it('should verify a given check digit', () => {
+    expect(BarcodePayload.create('4006381333931', ean13).getCheckDigit()).toBe(1);
+    expect(() => BarcodePayload.create('4006381333932', ean13)).toThrow('Invalid EAN-13 check digit: expected 1, got 2');
+  });
+
+  it('should reject retail data of the wrong length or with letters', () => {
+    expect(() => BarcodePayload.create('12345', upca)).toThrow('UPC-A data must be 11 digits, or 12 including the check digit');
+    expect(() => BarcodePayload.create('40063813339A', ean13)).toThrow('EAN-13 data must contain digits only');
+  });
+
+  it('should accept ASCII for Code 128 and keep spaces', () => {
+    const code128 = BarcodeTypeValue.default();
+
+    expect(BarcodePayload.create(' LOT 42 ', code128).getContent()).toBe(' LOT 42 ');
+    expect(BarcodePayload.create('A1', code128).getCheckDigit()).toBeUndefined();
+    expect(() => BarcodePayload.create('€5', code128)).toThrow('Code 128 encodes ASCII characters only');
+    expect(() => BarcodePayload.create('x'.repeat(81), code128)).toThrow('Code 128 data cannot exceed 80 characters');
+  });
+});
@@ -0,0 +1,42 @@
+import { Charset, CharsetValue } from '../Charset';
+
+describe('CharsetValue', () => {
+  it('should default to UTF-8', () => {
+    expect(CharsetValue.default().getValue()).toBe(Charset.UTF_8);
+    expect(CharsetValue.default().getEciDesignator()).toBe(26);
+  });
+
+  it('should match names and aliases ignoring case and punctuation', () => {
+    expect(CharsetValue.create('utf8').getValue()).toBe(Charset.UTF_8);
+    expect(CharsetValue.create('iso_8859_1').getValue()).toBe(Charset.ISO_8859_1);
+    expect(CharsetValue.create('latin1').getValue()).toBe(Charset.ISO_8859_1);
+    expect(CharsetValue.create('SJIS').getValue()).toBe(Charset.SHIFT_JIS);
+    expect(CharsetValue.create('cp1258').getValue()).toBe(Charset.WINDOWS_1258);
+  });
+
+  it('should reject unknown charsets and list the supported ones', () => {
+    expect(() => CharsetValue.create('KOI8-R')).toThrow('Unsupported charset: KOI8-R. Supported: UTF-8, ISO-8859-1');
+  });
+
+  it('should expose AIM ECI designators', () => {
+    expect(CharsetValue.create('ISO-8859-1').getEciDesignator()).toBe(3);
+    expect(CharsetValue.create('Shift_JIS').getEciDesignator()).toBe(20);
+    expect(CharsetValue.create('Windows-1251').getEciDesignator()).toBe(22);
+  });
+
+  it('should map ECI designators back to charsets', () => {
+    expect(CharsetValue.fromEciDesignator(26)?.getValue()).toBe(Charset.UTF_8);
+    expect(CharsetValue.fromEciDesignator(20)?.getValue()).toBe(Charset.SHIFT_JIS);
+    expect(CharsetValue.fromEciDesignator(899)).toBeUndefined();
+  });
+
+  it('should only allow charsets with an ECI designator as target', () => {
+    expect(CharsetValue.create('UTF-8').canBeTarget()).toBe(true);
+    expect(CharsetValue.create('Windows-1258').canBeTarget()).toBe(false);
+  });
+
+  it('should compare by value', () => {
+    expect(CharsetValue.create('latin1').equals(CharsetValue.create('ISO-8859-1'))).toBe(true);
+    expect(CharsetValue.create('latin1').equals(CharsetValue.default())).toBe(false);
+  });
+});
@@ -0,0 +1,17 @@
+import { EncodingMode, EncodingModeValue } from '../EncodingMode';
+
+describe('EncodingModeValue', () => {
+  it('should default to auto', () => {
+    expect(EncodingModeValue.default().getValue()).toBe(EncodingMode.AUTO);
+    expect(EncodingModeValue.default().isAuto()).toBe(true);
+  });
+
+  it('should accept modes case-insensitively', () => {
+    expect(EncodingModeValue.create('Kanji').getValue()).toBe(EncodingMode.KANJI);
+    expect(EncodingModeValue.create(' byte ').isAuto()).toBe(false);
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => EncodingModeValue.create('binary')).toThrow('Invalid encoding mode: binary. Valid values: auto, numeric, alphanumeric, byte, kanji');
+  });
+});
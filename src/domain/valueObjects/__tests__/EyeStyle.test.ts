@@ -0,0 +1,48 @@
+import { EyeStyle, EyeFrameShape, EyeBallShape, EyePosition } from '../EyeStyle';
+import { ColorValue } from '../ColorValue';
+
+describe('EyeStyle', () => {
+  it('should default to square eyes in the foreground color', () => {
+    const style = EyeStyle.default();
+
+    expect(style.getFrameShape()).toBe(EyeFrameShape.SQUARE);
+    expect(style.getBallShape()).toBe(EyeBallShape.SQUARE);
+    expect(style.getColor(EyePosition.TOP_LEFT)).toBeUndefined();
+    expect(style.isDefault()).toBe(true);
+    expect(EyeStyle.create({}).isDefault()).toBe(true);
+  });
+
+  it('should parse frame and ball shapes case-insensitively', () => {
+    const style = EyeStyle.create({ frame: 'Circle', ball: 'DIAMOND' });
+
+    expect(style.getFrameShape()).toBe(EyeFrameShape.CIRCLE);
+    expect(style.getBallShape()).toBe(EyeBallShape.DIAMOND);
+    expect(style.isDefault()).toBe(false);
+  });
+
+  it('should reject unknown shapes', () => {
+    expect(() => EyeStyle.create({ frame: 'star' })).toThrow('Invalid eye frame shape: star');
+    expect(() => EyeStyle.create({ ball: 'star' })).toThrow('Invalid eye ball shape: star');
+  });
+
+  it('should let per-eye colors override the shared eye color', () => {
+    const style = EyeStyle.create({
+      color: ColorValue.create('#000080'),
+      colors: { [EyePosition.BOTTOM_LEFT]: ColorValue.create('#800000') }
+    });
+
+    expect(style.getColor(EyePosition.TOP_LEFT)?.toHex()).toBe('#000080');
+    expect(style.getColor(EyePosition.TOP_RIGHT)?.toHex()).toBe('#000080');
+    expect(style.getColor(EyePosition.BOTTOM_LEFT)?.toHex()).toBe('#800000');
+  });
+
+  it('should compare shapes and colors', () => {
+    const a = EyeStyle.create({ frame: 'rounded', color: ColorValue.create('#000080') });
+    const b = EyeStyle.create({ frame: 'rounded', color: ColorValue.create('#000080') });
+    const c = EyeStyle.create({ frame: 'rounded', color: ColorValue.create('#800000') });
+
+    expect(a.equals(b)).toBe(true);
+    expect(a.equals(c)).toBe(false);
+    expect(a.toString()).not.toBe(c.toString());
+  });
+});
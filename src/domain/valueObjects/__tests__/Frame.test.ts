@@ -0,0 +1,59 @@
+import { Frame, FrameStyle } from '../Frame';
+import { ColorValue } from '../ColorValue';
+
+describe('Frame', () => {
+  it('should default to a black frame labelled SCAN ME', () => {
+    const frame = Frame.create({ style: 'Banner' });
+
+    expect(frame.getStyle()).toBe(FrameStyle.BANNER);
+    expect(frame.getText()).toBe('SCAN ME');
+    expect(frame.getColor().toHex()).toBe('#000000');
+    expect(frame.getTextSize()).toBeUndefined();
+  });
+
+  it('should put white text on filled labels and frame-colored text in boxes', () => {
+    const color = ColorValue.create('#1565c0');
+
+    expect(Frame.create({ style: 'bubble', color }).getTextColor().toHex()).toBe('#ffffff');
+    expect(Frame.create({ style: 'box', color }).getTextColor().toHex()).toBe('#1565c0');
+    expect(Frame.create({ style: 'box', color, textColor: ColorValue.black() }).getTextColor().toHex()).toBe('#000000');
+  });
+
+  it('should reject invalid styles, texts and text sizes', () => {
+    expect(() => Frame.create({ style: 'polaroid' })).toThrow('Invalid frame style: polaroid');
+    expect(() => Frame.create({ style: 'box', text: '   ' })).toThrow('Frame text must be between 1 and 40 characters');
+    expect(() => Frame.create({ style: 'box', text: 'x'.repeat(41) })).toThrow('between 1 and 40 characters');
+    expect(() => Frame.create({ style: 'box', text: 'SCAN\nME' })).toThrow('control characters');
+    expect(() => Frame.create({ style: 'box', textSize: 4 })).toThrow('Frame text size must be an integer between 8 and 96');
+  });
+
+  it('should enlarge the image by the border and label band', () => {
+    const layout = Frame.create({ style: 'banner', textSize: 20 }).getLayout(200, 200);
+
+    expect(layout.border).toBe(6);
+    expect(layout.fontSize).toBe(20);
+    expect(layout.code).toEqual({ x: 6, y: 6, width: 200, height: 200 });
+    expect(layout.label).toEqual({ x: 6, y: 206, width: 200, height: 36 });
+    expect([layout.width, layout.height]).toEqual([212, 248]);
+  });
+
+  it('should place the label above the code for banner-top frames', () => {
+    const layout = Frame.create({ style: 'banner-top' }).getLayout(300, 300);
+
+    expect(layout.label.y).toBe(layout.border);
+    expect(layout.code.y).toBe(layout.border + layout.label.height);
+  });
+
+  it('should leave room for the pointer between the bubble and its label', () => {
+    const layout = Frame.create({ style: 'bubble', textSize: 20 }).getLayout(200, 200);
+
+    expect(layout.label).toEqual({ x: 0, y: 224, width: 212, height: 36 });
+    expect(layout.height).toBe(260);
+  });
+
+  it('should compare frames by all options', () => {
+    expect(Frame.create({ style: 'box' }).equals(Frame.create({ style: 'box', text: 'SCAN ME' }))).toBe(true);
+    expect(Frame.create({ style: 'box' }).equals(Frame.create({ style: 'box', text: 'Menu' }))).toBe(false);
+    expect(Frame.create({ style: 'box' }).equals(Frame.create({ style: 'box', color: ColorValue.create('red') }))).toBe(false);
+  });
+});
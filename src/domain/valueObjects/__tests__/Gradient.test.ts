@@ -0,0 +1,45 @@
+import { Gradient, GradientType } from '../Gradient';
+
+describe('Gradient', () => {
+  it('should spread stops evenly when no positions are given', () => {
+    const gradient = Gradient.create('linear', '#ff0000, #00ff00, #0000ff', 45);
+
+    expect(gradient.getType()).toBe(GradientType.LINEAR);
+    expect(gradient.getAngle()).toBe(45);
+    expect(gradient.getStops().map(stop => stop.offset)).toEqual([0, 0.5, 1]);
+    expect(gradient.getStops()[1].color.toHex()).toBe('#00ff00');
+  });
+
+  it('should accept explicit stop positions', () => {
+    const gradient = Gradient.create('RADIAL', '#000000 10%, 0066ff 80%');
+
+    expect(gradient.getType()).toBe(GradientType.RADIAL);
+    expect(gradient.getStops().map(stop => stop.offset)).toEqual([0.1, 0.8]);
+  });
+
+  it('should keep parenthesised arguments together when splitting stops', () => {
+    const gradient = Gradient.create('linear', 'rgb(1,2,3) 0%, hsl(240, 100%, 25%) 100%');
+
+    expect(gradient.getStops().map(stop => stop.color.toHex())).toEqual(['#010203', '#000080']);
+  });
+
+  it('should reject invalid gradients', () => {
+    expect(() => Gradient.create('conic', '#000, #111')).toThrow('Invalid gradient type: conic');
+    expect(() => Gradient.create('linear', '#000000')).toThrow('at least two color stops');
+    expect(() => Gradient.create('linear', '#000 50%, #111')).toThrow('all stops or none');
+    expect(() => Gradient.create('linear', '#000 80%, #111 20%')).toThrow('ascending order');
+    expect(() => Gradient.create('linear', '#000 0%, #111 120%')).toThrow('between 0% and 100%');
+    expect(() => Gradient.create('linear', '#000, #111', 400)).toThrow('Gradient angle must be between 0 and 360 degrees');
+  });
+
+  it('should find the lightest stop by luminance', () => {
+    const gradient = Gradient.create('linear', '#000000, #1565c0, #333333');
+    expect(gradient.getLightestStop().toHex()).toBe('#1565c0');
+  });
+
+  it('should describe itself in CSS-like notation for cache keys', () => {
+    expect(Gradient.create('linear', '#f00, #00f', 90).toString()).toBe('linear-gradient(90deg, #ff0000 0%, #0000ff 100%)');
+    expect(Gradient.create('radial', '#f00, #00f').toString()).toBe('radial-gradient(#ff0000 0%, #0000ff 100%)');
+    expect(Gradient.create('linear', '#f00, #00f').equals(Gradient.create('linear', '#ff0000 0%, #0000ff 100%'))).toBe(true);
+  });
+});
@@ -32,11 +32,66 @@ describe('Logo Value Object', () => {
       expect(() => Logo.create('http://192.168.1.1/logo.png')).toThrow('Private IP addresses and localhost are not allowed');
     });
 
+    it('should only reject the private part of 172.*', () => {
+      expect(() => Logo.create('http://172.20.0.1/logo.png')).toThrow('Private IP addresses and localhost are not allowed');
+      expect(Logo.create('http://172.217.0.1/logo.png').getSource()).toBe('http://172.217.0.1/logo.png');
+      expect(Logo.create('http://172.32.0.1/logo.png').getSource()).toBe('http://172.32.0.1/logo.png');
+    });
+
     it('should reject unsupported file extension', () => {
       expect(() => Logo.create('https://example.com/logo.gif')).toThrow('Logo URL must point to a supported image format');
     });
   });
 
+  describe('creation with binary data', () => {
+    const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+
+    it('should create logo from a base64 data URI', () => {
+      const logo = Logo.create(`data:image/png;base64,${png.toString('base64')}`, 40, 4);
+
+      expect(logo.isBinary()).toBe(true);
+      expect(logo.isUrl()).toBe(false);
+      expect(logo.getBinary()?.mimeType).toBe('image/png');
+      expect(logo.getBinary()?.data.equals(png)).toBe(true);
+      expect(logo.getSource()).toMatch(/^data:image\/png;sha256,[0-9a-f]{64}$/);
+    });
+
+    it('should create logo from uploaded bytes', () => {
+      const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1"/>');
+      const logo = Logo.fromBinary(svg, 'image/svg+xml');
+
+      expect(logo.getBinary()?.mimeType).toBe('image/svg+xml');
+      expect(logo.getSize()).toBe(50);
+    });
+
+    it('should identify equal content by hash', () => {
+      expect(Logo.fromBinary(png, 'image/png').equals(Logo.create(`data:image/png;base64,${png.toString('base64')}`))).toBe(true);
+    });
+
+    it('should reject content that does not match the declared type', () => {
+      expect(() => Logo.fromBinary(png, 'image/jpeg')).toThrow('does not match its declared type');
+    });
+
+    it('should reject unsupported types and non-base64 data URIs', () => {
+      expect(() => Logo.create('data:image/bmp;base64,Qk0=')).toThrow('Unsupported logo image type');
+      expect(() => Logo.create('data:image/svg+xml,<svg/>')).toThrow('must be base64 encoded');
+    });
+
+    it('should reject images over the size limit', () => {
+      const large = Buffer.concat([png, Buffer.alloc(Logo.MAX_BINARY_BYTES)]);
+      expect(() => Logo.fromBinary(large, 'image/png')).toThrow('exceeds the maximum size');
+    });
+
+    it('should detect image types from their signature', () => {
+      expect(Logo.detectMimeType(png)).toBe('image/png');
+      expect(Logo.detectMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+      expect(Logo.detectMimeType(Buffer.from('GIF89a....'))).toBe('image/gif');
+      expect(Logo.detectMimeType(Buffer.from('RIFF....WEBPVP8 '))).toBe('image/webp');
+      expect(Logo.detectMimeType(Buffer.from('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('image/svg+xml');
+      expect(Logo.detectMimeType(Buffer.from('<html>'))).toBeUndefined();
+    });
+  });
+
   describe('creation with predefined logo', () => {
     it('should create logo with predefined identifier', () => {
       const logo = Logo.create('google', 60, 10);
@@ -0,0 +1,24 @@
+import { ModuleStyle, ModuleStyleValue } from '../ModuleStyle';
+
+describe('ModuleStyleValue', () => {
+  it('should default to square modules', () => {
+    expect(ModuleStyleValue.default().getValue()).toBe(ModuleStyle.SQUARE);
+    expect(ModuleStyleValue.default().isSquare()).toBe(true);
+  });
+
+  it('should accept every style case-insensitively', () => {
+    expect(ModuleStyleValue.create('DOTS').getValue()).toBe(ModuleStyle.DOTS);
+    expect(ModuleStyleValue.create('rounded').getValue()).toBe(ModuleStyle.ROUNDED);
+    expect(ModuleStyleValue.create('Extra-Rounded').getValue()).toBe(ModuleStyle.EXTRA_ROUNDED);
+    expect(ModuleStyleValue.create('classy').isSquare()).toBe(false);
+  });
+
+  it('should reject unknown styles', () => {
+    expect(() => ModuleStyleValue.create('hexagon')).toThrow('Invalid module style: hexagon');
+  });
+
+  it('should compare by value', () => {
+    expect(ModuleStyleValue.create('dots').equals(ModuleStyleValue.create('DOTS'))).toBe(true);
+    expect(ModuleStyleValue.create('dots').equals(ModuleStyleValue.default())).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { PageSize, PageSizePreset } from '../PageSize';
+
+describe('PageSize Value Object', () => {
+  it('should resolve presets case-insensitively', () => {
+    expect(PageSize.create('A4').getPreset()).toBe(PageSizePreset.A4);
+    expect(PageSize.create('letter').getWidthMm()).toBe(215.9);
+    expect(PageSize.create('fit').isFitToCode()).toBe(true);
+  });
+
+  it('should parse custom sizes in millimeters', () => {
+    const pageSize = PageSize.create('100x150mm');
+    expect(pageSize.getPreset()).toBe(PageSizePreset.CUSTOM);
+    expect(pageSize.getWidthMm()).toBe(100);
+    expect(pageSize.getHeightMm()).toBe(150);
+    expect(pageSize.toString()).toBe('100x150mm');
+  });
+
+  it('should reject invalid page sizes', () => {
+    expect(() => PageSize.create('a3')).toThrow('Invalid page size');
+    expect(() => PageSize.create('100x150')).toThrow('Invalid page size');
+    expect(() => PageSize.create('5x150mm')).toThrow('between 10 and 1000 millimeters');
+  });
+
+  it('should check whether a code fits on the page', () => {
+    expect(PageSize.create('a4').canContain(200)).toBe(true);
+    expect(PageSize.create('a4').canContain(250)).toBe(false);
+    expect(PageSize.fitToCode().canContain(900)).toBe(true);
+  });
+
+  it('should convert between millimeters and points', () => {
+    expect(PageSize.mmToPoints(25.4)).toBeCloseTo(72);
+    expect(PageSize.pointsToMm(72)).toBeCloseTo(25.4);
+  });
+});
@@ -0,0 +1,31 @@
+import { ScanImage } from '../ScanImage';
+
+describe('ScanImage Value Object', () => {
+  const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+  const gif = Buffer.concat([Buffer.from('GIF89a'), Buffer.alloc(16)]);
+
+  it('should detect the type from the image signature', () => {
+    const image = ScanImage.fromBinary(png);
+
+    expect(image.getMimeType()).toBe('image/png');
+    expect(image.getSize()).toBe(png.length);
+    expect(image.getData().equals(png)).toBe(true);
+  });
+
+  it('should accept bare base64 and data URIs', () => {
+    expect(ScanImage.fromBase64(png.toString('base64')).getMimeType()).toBe('image/png');
+    expect(ScanImage.fromBase64(`data:image/jpeg;base64,${png.toString('base64')}`).getMimeType()).toBe('image/png');
+  });
+
+  it('should reject formats the reader cannot decode', () => {
+    expect(() => ScanImage.fromBinary(gif)).toThrow('Unsupported image format. Supported formats: PNG, JPEG, WebP');
+    expect(() => ScanImage.fromBinary(Buffer.from('not an image'))).toThrow('Unsupported image format');
+  });
+
+  it('should reject empty, oversized and malformed input', () => {
+    expect(() => ScanImage.fromBinary(Buffer.alloc(0))).toThrow('Image cannot be empty');
+    expect(() => ScanImage.fromBinary(Buffer.concat([png, Buffer.alloc(ScanImage.MAX_BYTES)]))).toThrow('Image exceeds the maximum size of 5MB');
+    expect(() => ScanImage.fromBase64('data:image/png,plain')).toThrow('Image data URI must be base64 encoded');
+    expect(() => ScanImage.fromBase64('not*base64')).toThrow('Image contains invalid base64 data');
+  });
+});
@@ -0,0 +1,22 @@
+import { Symbology, SymbologyValue } from '../Symbology';
+
+describe('SymbologyValue', () => {
+  it('should default to QR', () => {
+    expect(SymbologyValue.default().getValue()).toBe(Symbology.QR);
+    expect(SymbologyValue.default().isQR()).toBe(true);
+  });
+
+  it('should accept symbologies case-insensitively', () => {
+    expect(SymbologyValue.create('DataMatrix').getValue()).toBe(Symbology.DATA_MATRIX);
+    expect(SymbologyValue.create(' aztec ').isQR()).toBe(false);
+  });
+
+  it('should name the symbology for messages', () => {
+    expect(SymbologyValue.create('datamatrix').getDisplayName()).toBe('Data Matrix');
+    expect(SymbologyValue.create('aztec').getDisplayName()).toBe('Aztec');
+  });
+
+  it('should reject unknown symbologies', () => {
+    expect(() => SymbologyValue.create('pdf417')).toThrow('Invalid symbology: pdf417. Valid values: qr, datamatrix, aztec');
+  });
+});
@@ -0,0 +1,183 @@
+import { Request, Response } from 'express';
+import { GenerateBarcodeUseCase } from '../../../application/usecases/GenerateBarcodeUseCase';
+import { BarcodeRequestDTO } from '../../../application/dto';
+import { ILogger, IMetricsCollector } from '../../../application/ports';
+
+export class BarcodeController {
+  constructor(
+    private readonly generateBarcodeUseCase: GenerateBarcodeUseCase,
+    private readonly logger: ILogger,
+    private readonly metricsCollector: IMetricsCollector
+  ) {}
+
+  async generateBarcode(req: Request, res: Response): Promise<void> {
+    const requestId = (req.headers['x-request-id'] as string) || 'unknown';
+    const startTime = Date.now();
+    const meta = () => ({
+      timestamp: new Date().toISOString(),
+      requestId,
+      version: '1.0.0',
+    });
+
+    try {
+      this.logger.info('Barcode generation request received', {
+        requestId,
+        method: req.method,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      const requestData: BarcodeRequestDTO = this.extractRequestData(req);
+
+      if (!requestData.data) {
+        this.metricsCollector.incrementCounter('http_requests_total', {
+          method: req.method,
+          status: '400',
+          endpoint: 'create-barcode',
+        });
+
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'MISSING_REQUIRED_PARAMETER',
+            message: 'The "data" parameter is required',
+          },
+          meta: meta(),
+        });
+        return;
+      }
+
+      const result = await this.generateBarcodeUseCase.execute(requestData);
+
+      if (result.success && result.data) {
+        res.set({
+          'X-Barcode-ID': result.data.id,
+          'X-Cache-Status': result.data.cacheHit ? 'HIT' : 'MISS',
+          'X-Processing-Time': `${result.performance?.processingTimeMs}ms`,
+          'Vary': 'Accept',
+        });
+
+        this.metricsCollector.incrementCounter('http_requests_total', {
+          method: req.method,
+          status: '200',
+          endpoint: 'create-barcode',
+        });
+        this.metricsCollector.recordHistogram('http_request_duration_ms', Date.now() - startTime);
+
+        // Clients that opt in to JSON get the image base64-encoded next to the symbol metadata
+        if (this.wantsJson(req, result.data.mimeType)) {
+          const { image, ...details } = result.data;
+          res.status(200).json({
+            success: true,
+            data: { ...details, image: image.toString('base64') },
+            meta: meta(),
+          });
+          return;
+        }
+
+        res.set({
+          'Content-Type': result.data.mimeType,
+          'Content-Length': result.data.size.toString(),
+        });
+        res.status(200).send(result.data.image);
+      } else {
+        const statusCode = this.getErrorStatusCode(result.error?.code);
+
+        this.metricsCollector.incrementCounter('http_requests_total', {
+          method: req.method,
+          status: statusCode.toString(),
+          endpoint: 'create-barcode',
+        });
+
+        res.status(statusCode).json({
+          success: false,
+          error: result.error,
+          meta: meta(),
+        });
+      }
+    } catch (error) {
+      this.logger.error('Unexpected error in barcode generation', error as Error, { requestId });
+
+      this.metricsCollector.incrementCounter('http_requests_total', {
+        method: req.method,
+        status: '500',
+        endpoint: 'create-barcode',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        },
+        meta: meta(),
+      });
+    }
+  }
+
+  // JSON is opt-in: ?response=json, or an Accept header that rules out the image itself
+  private wantsJson(req: Request, mimeType: string): boolean {
+    const source = req.method === 'GET' || req.method === 'HEAD' ? req.query : req.body;
+    if (String(source?.response ?? '').toLowerCase() === 'json') {
+      return true;
+    }
+    return !req.accepts(mimeType) && req.accepts('application/json') === 'application/json';
+  }
+
+  private extractRequestData(req: Request): BarcodeRequestDTO {
+    // Support both GET (query params) and POST (body) requests
+    const source = req.method === 'GET' || req.method === 'HEAD' ? req.query : req.body;
+
+    if (!source) {
+      return { data: '' };
+    }
+
+    return {
+      data: source.data as string,
+      type: source.type as string,
+      size: source.size as string,
+      format: source.format as string,
+      color: source.color as string,
+      bgcolor: source.bgcolor as string,
+      margin: source.margin ? parseInt(source.margin as string, 10) : undefined,
+      // Query strings carry the flag as text; anything but false or 0 turns the text on
+      show_text: source.show_text !== undefined && source.show_text !== ''
+        ? !['false', '0'].includes(String(source.show_text).toLowerCase())
+        : undefined,
+    };
+  }
+
+  private getErrorStatusCode(errorCode?: string): number {
+    switch (errorCode) {
+      case 'VALIDATION_ERROR':
+        return 400;
+      case 'RATE_LIMIT_EXCEEDED':
+        return 429;
+      case 'GENERATION_ERROR':
+        return 422;
+      default:
+        return 500;
+    }
+  }
+
+  // GET endpoint handler
+  async handleGet(req: Request, res: Response): Promise<void> {
+    await this.generateBarcode(req, res);
+  }
+
+  // POST endpoint handler
+  async handlePost(req: Request, res: Response): Promise<void> {
+    await this.generateBarcode(req, res);
+  }
+
+  // Options handler for CORS preflight
+  async handleOptions(req: Request, res: Response): Promise<void> {
+    res.set({
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Request-ID',
+      'Access-Control-Max-Age': '86400',
+    });
+    res.status(204).send();
+  }
+}
@@ -1,12 +1,18 @@
 import { Request, Response } from 'express';
 import { GenerateQRCodeUseCase } from '../../../application/usecases/GenerateQRCodeUseCase';
+import { AnalyzeQRCodeUseCase } from '../../../application/usecases/AnalyzeQRCodeUseCase';
 import { QRCodeRequestDTO } from '../../../application/dto';
 import { ILogger, IMetricsCollector } from '../../../application/ports';
 import { ValidationError, RateLimitError } from '../../../shared/errors';
+import { Charset, CharsetValue } from '../../../domain/valueObjects/Charset';
+import { CharsetCodec } from '../external/encoder/CharsetCodec';
 
 export class QRCodeController {
+  private readonly charsetCodec = new CharsetCodec();
+
   constructor(
     private readonly generateQRCodeUseCase: GenerateQRCodeUseCase,
+    private readonly analyzeQRCodeUseCase: AnalyzeQRCodeUseCase,
     private readonly logger: ILogger,
     private readonly metricsCollector: IMetricsCollector
   ) {}
@@ -55,12 +61,18 @@ export class QRCodeController {
       if (result.success && result.data) {
         // Set appropriate headers
         res.set({
-          'Content-Type': result.data.mimeType,
-          'Content-Length': result.data.size.toString(),
           'X-QR-Code-ID': result.data.id,
           'X-Cache-Status': result.data.cacheHit ? 'HIT' : 'MISS',
           'X-Processing-Time': `${result.performance?.processingTimeMs}ms`,
+          'Vary': 'Accept',
         });
+        if (result.data.verification) {
+          res.set({
+            'X-Verification-Status': 'PASSED',
+            'X-Verification-Attempts': result.data.verification.attempts.toString(),
+            'X-Verified-ECC': result.data.verification.errorCorrectionLevel,
+          });
+        }
 
         this.metricsCollector.incrementCounter('http_requests_total', {
           method: req.method,
@@ -69,11 +81,34 @@ export class QRCodeController {
         });
         this.metricsCollector.recordHistogram('http_request_duration_ms', Date.now() - startTime);
 
+        // Clients that opt in to JSON get the image base64-encoded next to the symbol metadata;
+        // the matrix format is JSON already and is always sent as is
+        if (result.data.mimeType !== 'application/json' && this.wantsJson(req, result.data.mimeType)) {
+          const { image, ...details } = result.data;
+          res.status(200).json({
+            success: true,
+            data: { ...details, image: image.toString('base64') },
+            meta: {
+              timestamp: new Date().toISOString(),
+              requestId,
+              version: '1.0.0',
+            },
+          });
+          return;
+        }
+
         // Send the image buffer
+        res.set({
+          'Content-Type': result.data.mimeType,
+          'Content-Length': result.data.size.toString(),
+        });
         res.status(200).send(result.data.image);
       } else {
         // Handle error response
         const statusCode = this.getErrorStatusCode(result.error?.code);
+        if (result.error?.code === 'SCAN_VERIFICATION_FAILED') {
+          res.set('X-Verification-Status', 'FAILED');
+        }
 
         this.metricsCollector.incrementCounter('http_requests_total', {
           method: req.method,
@@ -115,6 +150,69 @@ export class QRCodeController {
     }
   }
 
+  // Describes the symbol a request would produce without rendering it
+  async analyzeQRCode(req: Request, res: Response): Promise<void> {
+    const requestId = (req.headers['x-request-id'] as string) || 'unknown';
+    const meta = () => ({
+      timestamp: new Date().toISOString(),
+      requestId,
+      version: '1.0.0',
+    });
+
+    try {
+      const requestData: QRCodeRequestDTO = this.extractRequestData(req);
+
+      if (!requestData.data) {
+        this.metricsCollector.incrementCounter('http_requests_total', {
+          method: req.method,
+          status: '400',
+          endpoint: 'analyze',
+        });
+
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'MISSING_REQUIRED_PARAMETER',
+            message: 'The "data" parameter is required',
+          },
+          meta: meta(),
+        });
+        return;
+      }
+
+      const result = await this.analyzeQRCodeUseCase.execute(requestData);
+      const statusCode = result.success ? 200 : this.getErrorStatusCode(result.error?.code);
+
+      this.metricsCollector.incrementCounter('http_requests_total', {
+        method: req.method,
+        status: statusCode.toString(),
+        endpoint: 'analyze',
+      });
+
+      res.set('X-Processing-Time', `${result.performance?.processingTimeMs}ms`);
+      res.status(statusCode).json(result.success
+        ? { success: true, data: result.data, meta: meta() }
+        : { success: false, error: result.error, meta: meta() });
+    } catch (error) {
+      this.logger.error('Unexpected error in QR code analysis', error as Error, { requestId });
+
+      this.metricsCollector.incrementCounter('http_requests_total', {
+        method: req.method,
+        status: '500',
+        endpoint: 'analyze',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        },
+        meta: meta(),
+      });
+    }
+  }
+
   private extractRequestData(req: Request): QRCodeRequestDTO {
     // Support both GET (query params) and POST (body) requests
     const source = req.method === 'GET' || req.method === 'HEAD' ? req.query : req.body;
@@ -124,22 +222,103 @@ export class QRCodeController {
     }
 
     return {
-      data: source.data as string,
+      data: this.decodeData(req, source.data as string, source['charset-source'] as string),
       size: source.size as string,
       format: source.format as string,
       ecc: source.ecc as string,
       color: source.color as string,
       bgcolor: source.bgcolor as string,
-      margin: source.margin ? parseInt(source.margin as string, 10) : undefined,
-      qzone: source.qzone ? parseInt(source.qzone as string, 10) : undefined,
+      // Zero margins are valid, so only a missing value means the default
+      margin: source.margin !== undefined && source.margin !== '' ? parseInt(source.margin as string, 10) : undefined,
+      qzone: source.qzone !== undefined && source.qzone !== '' ? parseInt(source.qzone as string, 10) : undefined,
       'charset-source': source['charset-source'] as string,
       'charset-target': source['charset-target'] as string,
-      logo: source.logo as string,
+      logo: req.file ? this.toDataUri(req.file) : source.logo as string,
       logo_size: source.logo_size ? parseInt(source.logo_size as string, 10) : undefined,
-      logo_margin: source.logo_margin ? parseInt(source.logo_margin as string, 10) : undefined,
+      logo_margin: source.logo_margin !== undefined && source.logo_margin !== '' ? parseInt(source.logo_margin as string, 10) : undefined,
+      page_size: source.page_size as string,
+      code_size_mm: source.code_size_mm ? parseFloat(source.code_size_mm as string) : undefined,
+      quality: source.quality ? parseInt(source.quality as string, 10) : undefined,
+      module_style: source.module_style as string,
+      eye_frame: source.eye_frame as string,
+      eye_ball: source.eye_ball as string,
+      eye_color: source.eye_color as string,
+      eye_color_tl: source.eye_color_tl as string,
+      eye_color_tr: source.eye_color_tr as string,
+      eye_color_bl: source.eye_color_bl as string,
+      gradient_type: source.gradient_type as string,
+      gradient_colors: source.gradient_colors as string,
+      gradient_angle: source.gradient_angle !== undefined ? parseFloat(source.gradient_angle as string) : undefined,
+      matte: source.matte as string,
+      frame: source.frame as string,
+      frame_text: source.frame_text as string,
+      frame_text_size: source.frame_text_size ? parseInt(source.frame_text_size as string, 10) : undefined,
+      frame_color: source.frame_color as string,
+      frame_text_color: source.frame_text_color as string,
+      version: source.version ? parseInt(source.version as string, 10) : undefined,
+      // Mask 0 is a valid choice, so only a missing value means automatic
+      mask: source.mask !== undefined && source.mask !== '' ? parseInt(source.mask as string, 10) : undefined,
+      mode: source.mode as string,
+      symbology: source.symbology as string,
+      verify: source.verify !== undefined && source.verify !== ''
+        ? !['false', '0'].includes(String(source.verify).toLowerCase())
+        : undefined,
     };
   }
 
+  // Express percent-decodes query strings as UTF-8; data sent in another
+  // charset is decoded again from the raw bytes. JSON bodies are already text.
+  private decodeData(req: Request, data: string, charsetSource?: string): string {
+    if (!charsetSource || (req.method !== 'GET' && req.method !== 'HEAD')) {
+      return data;
+    }
+
+    let charset: CharsetValue;
+    try {
+      charset = CharsetValue.create(charsetSource);
+    } catch {
+      // An unknown charset is reported by validation
+      return data;
+    }
+    if (charset.getValue() === Charset.UTF_8) {
+      return data;
+    }
+
+    const query = req.originalUrl.split('?')[1] || '';
+    const field = query.split('&').find(pair => pair.split('=')[0] === 'data');
+    if (field === undefined) {
+      return data;
+    }
+
+    const encoded = field.substring('data='.length).replace(/\+/g, ' ');
+    const bytes: number[] = [];
+    for (let i = 0; i < encoded.length; i++) {
+      if (encoded[i] === '%' && /^[0-9a-fA-F]{2}$/.test(encoded.substring(i + 1, i + 3))) {
+        bytes.push(parseInt(encoded.substring(i + 1, i + 3), 16));
+        i += 2;
+      } else {
+        bytes.push(encoded.charCodeAt(i) & 0xff);
+      }
+    }
+
+    return this.charsetCodec.decode(Buffer.from(bytes), charset);
+  }
+
+  // JSON is opt-in: ?response=json, or an Accept header that rules out the image itself.
+  // Clients sending the common "application/json, text/plain, */*" still get the image.
+  private wantsJson(req: Request, mimeType: string): boolean {
+    const source = req.method === 'GET' || req.method === 'HEAD' ? req.query : req.body;
+    if (String(source?.response ?? '').toLowerCase() === 'json') {
+      return true;
+    }
+    return !req.accepts(mimeType) && req.accepts('application/json') === 'application/json';
+  }
+
+  // Uploaded logos travel as data URIs so they follow the same validation path as inline ones
+  private toDataUri(file: Express.Multer.File): string {
+    return `data:${file.mimetype};base64,${file.buffer.toString('base64')}`;
+  }
+
   private getErrorStatusCode(errorCode?: string): number {
     switch (errorCode) {
       case 'VALIDATION_ERROR':
@@ -149,6 +328,8 @@ export class QRCodeController {
       case 'RATE_LIMIT_EXCEEDED':
         return 429;
       case 'GENERATION_ERROR':
+      case 'LOGO_FETCH_ERROR':
+      case 'SCAN_VERIFICATION_FAILED':
         return 422;
       default:
         return 500;
@@ -165,6 +346,11 @@ export class QRCodeController {
     await this.generateQRCode(req, res);
   }
 
+  // POST /v1/analyze handler
+  async handleAnalyze(req: Request, res: Response): Promise<void> {
+    await this.analyzeQRCode(req, res);
+  }
+
   // Options handler for CORS preflight
   async handleOptions(req: Request, res: Response): Promise<void> {
     res.set({
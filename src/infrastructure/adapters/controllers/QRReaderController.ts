@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { ReadQRCodeUseCase } from '../../../application/usecases/ReadQRCodeUseCase';
+import { ILogger, IMetricsCollector } from '../../../application/ports';
+
+export class QRReaderController {
+  constructor(
+    private readonly readQRCodeUseCase: ReadQRCodeUseCase,
+    private readonly logger: ILogger,
+    private readonly metricsCollector: IMetricsCollector
+  ) {}
+
+  async readQRCode(req: Request, res: Response): Promise<void> {
+    const requestId = (req.headers['x-request-id'] as string) || 'unknown';
+    const startTime = Date.now();
+    const meta = () => ({
+      timestamp: new Date().toISOString(),
+      requestId,
+      version: '1.0.0',
+    });
+
+    try {
+      this.logger.info('QR code read request received', {
+        requestId,
+        method: req.method,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        upload: req.file !== undefined,
+      });
+
+      // Multipart uploads carry the bytes; JSON and form bodies carry base64 text
+      const image = req.file ? req.file.buffer : req.body?.image;
+
+      if (!image || (typeof image !== 'string' && !Buffer.isBuffer(image))) {
+        this.metricsCollector.incrementCounter('http_requests_total', {
+          method: req.method,
+          status: '400',
+          endpoint: 'read-qr-code',
+        });
+
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'MISSING_REQUIRED_PARAMETER',
+            message: 'The "image" parameter is required, as an uploaded file or base64 text',
+          },
+          meta: meta(),
+        });
+        return;
+      }
+
+      const result = await this.readQRCodeUseCase.execute({ image });
+      const statusCode = result.success ? 200 : this.getErrorStatusCode(result.error?.code);
+
+      this.metricsCollector.incrementCounter('http_requests_total', {
+        method: req.method,
+        status: statusCode.toString(),
+        endpoint: 'read-qr-code',
+      });
+      this.metricsCollector.recordHistogram('http_request_duration_ms', Date.now() - startTime);
+
+      res.set({
+        'X-QR-Codes-Found': String(result.data?.count ?? 0),
+        'X-Processing-Time': `${result.performance?.processingTimeMs}ms`,
+      });
+      res.status(statusCode).json(result.success
+        ? { success: true, data: result.data, meta: meta() }
+        : { success: false, error: result.error, meta: meta() });
+    } catch (error) {
+      this.logger.error('Unexpected error in QR code reading', error as Error, { requestId });
+
+      this.metricsCollector.incrementCounter('http_requests_total', {
+        method: req.method,
+        status: '500',
+        endpoint: 'read-qr-code',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        },
+        meta: meta(),
+      });
+    }
+  }
+
+  private getErrorStatusCode(errorCode?: string): number {
+    switch (errorCode) {
+      case 'VALIDATION_ERROR':
+        return 400;
+      case 'RATE_LIMIT_EXCEEDED':
+        return 429;
+      case 'QR_CODE_NOT_FOUND':
+        return 422;
+      default:
+        return 500;
+    }
+  }
+
+  // POST endpoint handler
+  async handlePost(req: Request, res: Response): Promise<void> {
+    await this.readQRCode(req, res);
+  }
+
+  // Options handler for CORS preflight
+  async handleOptions(req: Request, res: Response): Promise<void> {
+    res.set({
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Request-ID',
+      'Access-Control-Max-Age': '86400',
+    });
+    res.status(204).send();
+  }
+}
@@ -0,0 +1,92 @@
+import { IQRCodeGenerator, ILogoFetcher, QRCapacity, QRSymbolAnalysis } from '../../../application/ports';
+import { QRCode } from '../../../domain/entities/QRCode';
+import { QRCodeConfiguration } from '../../../domain/entities/QRCodeConfiguration';
+import { OutputFormat } from '../../../domain/valueObjects/OutputFormat';
+import { ErrorCorrectionLevel } from '../../../domain/valueObjects/ErrorCorrectionLevel';
+import { GenerationError, ValidationError } from '../../../shared/errors';
+import { AztecEncoder } from './encoder/AztecEncoder';
+import { SymbolImageRenderer } from './renderers/SymbolImageRenderer';
+import { HttpLogoFetcher } from './HttpLogoFetcher';
+
+// Minimum share of the data added as error correction; ISO/IEC 24778 recommends at least 23%
+const ERROR_CORRECTION_PERCENT: Record<ErrorCorrectionLevel, number> = {
+  [ErrorCorrectionLevel.LOW]: 23,
+  [ErrorCorrectionLevel.MEDIUM]: 33,
+  [ErrorCorrectionLevel.QUARTILE]: 50,
+  [ErrorCorrectionLevel.HIGH]: 66
+};
+
+/**
+ * Generates compact and full-range Aztec symbols. The error correction
+ * level sets the minimum share of error correction codewords.
+ */
+export class AztecGenerator implements IQRCodeGenerator {
+  // The matrix format describes QR function patterns, so it is left out
+  private readonly supportedFormats: OutputFormat[] = Object.values(OutputFormat).filter(format => format !== OutputFormat.MATRIX);
+
+  private readonly encoder = new AztecEncoder();
+  private readonly imageRenderer: SymbolImageRenderer;
+
+  constructor(logoFetcher: ILogoFetcher = new HttpLogoFetcher()) {
+    this.imageRenderer = new SymbolImageRenderer(logoFetcher);
+  }
+
+  async generate(configuration: QRCodeConfiguration): Promise<QRCode> {
+    try {
+      const format = configuration.getFormat().getValue();
+
+      if (!this.supports(format)) {
+        throw new GenerationError(`Unsupported format for Aztec: ${format}`);
+      }
+
+      const matrix = this.encoder.encodeText(
+        configuration.getData().getContent(),
+        configuration.getCharsetTarget(),
+        this.getErrorCorrectionPercent(configuration)
+      );
+      const imageBuffer = await this.imageRenderer.render(matrix, configuration);
+
+      return new QRCode(configuration, imageBuffer);
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new GenerationError(
+        `Failed to generate Aztec symbol: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  getCapacity(configuration: QRCodeConfiguration): QRCapacity {
+    return this.encoder.measure(
+      configuration.getData().getContent(),
+      configuration.getCharsetTarget(),
+      this.getErrorCorrectionPercent(configuration)
+    );
+  }
+
+  private getErrorCorrectionPercent(configuration: QRCodeConfiguration): number {
+    return ERROR_CORRECTION_PERCENT[configuration.getErrorCorrectionLevel().getValue()];
+  }
+
+  analyze(configuration: QRCodeConfiguration): QRSymbolAnalysis {
+    throw new ValidationError('Symbol analysis is only available for QR codes', {
+      field: 'symbology',
+      value: configuration.getSymbology().toString()
+    });
+  }
+
+  supports(format: string): boolean {
+    return this.supportedFormats.includes(format as OutputFormat);
+  }
+
+  getSupportedFormats(): string[] {
+    return [...this.supportedFormats];
+  }
+
+  getCapabilities(): string[] {
+    return ['Aztec symbols (compact and full-range, 15x15 to 151x151 modules)'];
+  }
+}
@@ -0,0 +1,68 @@
+import { ILogoFetcher } from '../../../application/ports';
+
+export interface CachingLogoFetcherOptions {
+  maxEntries?: number;
+  ttlMs?: number;
+}
+
+interface CachedLogo {
+  image: { data: Buffer; mimeType: string };
+  expiresAt: number;
+}
+
+/**
+ * Keeps recently downloaded logos so repeated requests for the same URL skip
+ * the network. Entries are bounded: the least recently used one is evicted
+ * when the cache is full, and expired ones are dropped as soon as they are seen.
+ * One instance is shared by every generator.
+ */
+export class CachingLogoFetcher implements ILogoFetcher {
+  // Map iteration follows insertion order; entries are re-inserted on use, so the first is the least recent
+  private readonly cache = new Map<string, CachedLogo>();
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+
+  constructor(private readonly fetcher: ILogoFetcher, options: CachingLogoFetcherOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000; // 5 minutes
+  }
+
+  async fetch(url: string): Promise<{ data: Buffer; mimeType: string }> {
+    const cached = this.cache.get(url);
+    if (cached) {
+      this.cache.delete(url);
+      if (Date.now() < cached.expiresAt) {
+        this.cache.set(url, cached);
+        return cached.image;
+      }
+    }
+
+    const image = await this.fetcher.fetch(url);
+    this.store(url, image);
+    return image;
+  }
+
+  getSize(): number {
+    return this.cache.size;
+  }
+
+  private store(url: string, image: CachedLogo['image']): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, entry] of this.cache) {
+      if (now >= entry.expiresAt) {
+        this.cache.delete(key);
+      }
+    }
+
+    while (this.cache.size >= this.maxEntries) {
+      const leastRecent = this.cache.keys().next().value as string;
+      this.cache.delete(leastRecent);
+    }
+
+    this.cache.set(url, { image, expiresAt: now + this.ttlMs });
+  }
+}
@@ -0,0 +1,71 @@
+import { IQRCodeGenerator, ILogoFetcher, QRCapacity, QRSymbolAnalysis } from '../../../application/ports';
+import { QRCode } from '../../../domain/entities/QRCode';
+import { QRCodeConfiguration } from '../../../domain/entities/QRCodeConfiguration';
+import { OutputFormat } from '../../../domain/valueObjects/OutputFormat';
+import { GenerationError, ValidationError } from '../../../shared/errors';
+import { DataMatrixEncoder } from './encoder/DataMatrixEncoder';
+import { SymbolImageRenderer } from './renderers/SymbolImageRenderer';
+import { HttpLogoFetcher } from './HttpLogoFetcher';
+
+/**
+ * Generates ECC 200 Data Matrix symbols. The error correction is fixed by
+ * the symbol size, so the configured level is not used.
+ */
+export class DataMatrixGenerator implements IQRCodeGenerator {
+  // The matrix format describes QR function patterns, so it is left out
+  private readonly supportedFormats: OutputFormat[] = Object.values(OutputFormat).filter(format => format !== OutputFormat.MATRIX);
+
+  private readonly encoder = new DataMatrixEncoder();
+  private readonly imageRenderer: SymbolImageRenderer;
+
+  constructor(logoFetcher: ILogoFetcher = new HttpLogoFetcher()) {
+    this.imageRenderer = new SymbolImageRenderer(logoFetcher);
+  }
+
+  async generate(configuration: QRCodeConfiguration): Promise<QRCode> {
+    try {
+      const format = configuration.getFormat().getValue();
+
+      if (!this.supports(format)) {
+        throw new GenerationError(`Unsupported format for Data Matrix: ${format}`);
+      }
+
+      const matrix = this.encoder.encodeText(configuration.getData().getContent(), configuration.getCharsetTarget());
+      const imageBuffer = await this.imageRenderer.render(matrix, configuration);
+
+      return new QRCode(configuration, imageBuffer);
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new GenerationError(
+        `Failed to generate Data Matrix symbol: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  getCapacity(configuration: QRCodeConfiguration): QRCapacity {
+    return this.encoder.measure(configuration.getData().getContent(), configuration.getCharsetTarget());
+  }
+
+  analyze(configuration: QRCodeConfiguration): QRSymbolAnalysis {
+    throw new ValidationError('Symbol analysis is only available for QR codes', {
+      field: 'symbology',
+      value: configuration.getSymbology().toString()
+    });
+  }
+
+  supports(format: string): boolean {
+    return this.supportedFormats.includes(format as OutputFormat);
+  }
+
+  getSupportedFormats(): string[] {
+    return [...this.supportedFormats];
+  }
+
+  getCapabilities(): string[] {
+    return ['Data Matrix ECC 200 symbols (square, 10x10 to 144x144 modules)'];
+  }
+}
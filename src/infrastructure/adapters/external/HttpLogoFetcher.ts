@@ -0,0 +1,282 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { promises as dns, LookupAddress } from 'dns';
+import { ILogoFetcher } from '../../../application/ports';
+import { LogoFetchError } from '../../../shared/errors';
+import { Logo } from '../../../domain/valueObjects/Logo';
+
+export interface HttpLogoFetcherOptions {
+  maxBytes?: number;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  // Overridable so tests can point the fetcher at a local stand-in server
+  resolver?: (hostname: string) => Promise<LookupAddress[]>;
+  isBlockedAddress?: (address: string) => boolean;
+}
+
+interface FetchedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+// Declared content types a logo response may carry; the body is sniffed regardless
+const ACCEPTED_CONTENT_TYPES = [/^image\//, /^application\/octet-stream/, /^(text|application)\/xml/];
+
+/**
+ * Address ranges a logo URL must never reach once DNS has been resolved:
+ * private networks, loopback, link-local (including cloud metadata endpoints),
+ * carrier-grade NAT, documentation, multicast and reserved space. IPv6 also
+ * blocks the deprecated IPv4-compatible and site-local ranges.
+ */
+const blockedRanges = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([network, prefix]) => blockedRanges.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8]
+].forEach(([network, prefix]) => blockedRanges.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// The eight 16-bit groups of an IPv6 address, with "::" expanded and a dotted IPv4 tail split in two
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase();
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const left = parse(head);
+  const right = tail === undefined ? [] : parse(tail);
+  return [...left, ...new Array(8 - left.length - right.length).fill(0), ...right];
+}
+
+const ipv4FromGroups = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+
+  if (family === 6) {
+    const groups = ipv6Groups(address);
+    // IPv4-mapped (::ffff:a.b.c.d) and 6to4 (2002:aabb:ccdd::) addresses lead to the IPv4
+    // address they embed, so that address decides
+    if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+      return blockedRanges.check(ipv4FromGroups(groups[6], groups[7]), 'ipv4');
+    }
+    if (groups[0] === 0x2002) {
+      return blockedRanges.check(ipv4FromGroups(groups[1], groups[2]), 'ipv4');
+    }
+    return blockedRanges.check(address, 'ipv6');
+  }
+
+  return blockedRanges.check(address, 'ipv4');
+}
+
+export class HttpLogoFetcher implements ILogoFetcher {
+  private readonly maxBytes: number;
+  private readonly timeoutMs: number;
+  private readonly maxRedirects: number;
+  private readonly resolver: (hostname: string) => Promise<LookupAddress[]>;
+  private readonly isBlocked: (address: string) => boolean;
+
+  constructor(options: HttpLogoFetcherOptions = {}) {
+    this.maxBytes = options.maxBytes || 1024 * 1024; // 1MB
+    this.timeoutMs = options.timeoutMs || 5000;
+    this.maxRedirects = options.maxRedirects ?? 3;
+    this.resolver = options.resolver || ((hostname: string) => dns.lookup(hostname, { all: true, verbatim: true }));
+    this.isBlocked = options.isBlockedAddress || isBlockedAddress;
+  }
+
+  async fetch(url: string): Promise<FetchedImage> {
+    const deadline = Date.now() + this.timeoutMs;
+    let currentUrl = this.parseUrl(url, url);
+
+    for (let redirects = 0; ; redirects++) {
+      const address = await this.resolveAllowedAddress(currentUrl, url);
+      const response = await this.request(currentUrl, address, deadline, url);
+
+      if (response.redirectTo === undefined) {
+        return this.toImage(response.body, response.contentType, url);
+      }
+
+      if (redirects >= this.maxRedirects) {
+        throw new LogoFetchError(`Logo URL exceeded the maximum of ${this.maxRedirects} redirects`, url);
+      }
+      currentUrl = this.parseUrl(new URL(response.redirectTo, currentUrl).toString(), url);
+    }
+  }
+
+  private parseUrl(value: string, originalUrl: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(value);
+    } catch {
+      throw new LogoFetchError(`Invalid logo URL: ${value}`, originalUrl);
+    }
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      throw new LogoFetchError(`Logo URL must use http or https, got ${parsed.protocol}`, originalUrl);
+    }
+    if (parsed.username || parsed.password) {
+      throw new LogoFetchError('Logo URL must not contain credentials', originalUrl);
+    }
+
+    return parsed;
+  }
+
+  // Resolves the hostname and rejects it if any of its addresses is internal
+  private async resolveAllowedAddress(url: URL, originalUrl: string): Promise<LookupAddress> {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: LookupAddress[];
+
+    if (net.isIP(hostname)) {
+      addresses = [{ address: hostname, family: net.isIP(hostname) }];
+    } else {
+      try {
+        addresses = await this.resolver(hostname);
+      } catch {
+        throw new LogoFetchError(`Unable to resolve logo host ${hostname}`, originalUrl);
+      }
+    }
+
+    if (addresses.length === 0) {
+      throw new LogoFetchError(`Unable to resolve logo host ${hostname}`, originalUrl);
+    }
+
+    const blocked = addresses.find(entry => this.isBlocked(entry.address));
+    if (blocked) {
+      throw new LogoFetchError(`Logo host ${hostname} resolves to a blocked address (${blocked.address})`, originalUrl);
+    }
+
+    return addresses[0];
+  }
+
+  private request(
+    url: URL,
+    address: LookupAddress,
+    deadline: number,
+    originalUrl: string
+  ): Promise<{ body: Buffer; contentType?: string; redirectTo?: string }> {
+    return new Promise((resolve, reject) => {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        reject(new LogoFetchError(`Logo download timed out after ${this.timeoutMs}ms`, originalUrl));
+        return;
+      }
+
+      // Pin the connection to the address that passed the block list, so a
+      // second DNS answer cannot redirect it to an internal host
+      const lookup: net.LookupFunction = (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, [address]);
+        } else {
+          callback(null, address.address, address.family);
+        }
+      };
+
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.request(url, {
+        method: 'GET',
+        headers: { 'Accept': 'image/*', 'User-Agent': 'api-gen-qr-code-logo-fetcher' },
+        lookup
+      });
+
+      const timer = setTimeout(() => {
+        req.destroy(new LogoFetchError(`Logo download timed out after ${this.timeoutMs}ms`, originalUrl));
+      }, remaining);
+
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        reject(error instanceof LogoFetchError
+          ? error
+          : new LogoFetchError(`Logo download failed: ${error.message}`, originalUrl));
+      };
+
+      req.on('error', fail);
+      req.on('response', (res) => {
+        const statusCode = res.statusCode || 0;
+
+        if (REDIRECT_STATUS_CODES.includes(statusCode) && res.headers.location) {
+          clearTimeout(timer);
+          res.resume();
+          resolve({ body: Buffer.alloc(0), redirectTo: res.headers.location });
+          return;
+        }
+
+        if (statusCode < 200 || statusCode >= 300) {
+          res.resume();
+          fail(new LogoFetchError(`Logo download failed with HTTP status ${statusCode}`, originalUrl));
+          return;
+        }
+
+        const declaredLength = parseInt(res.headers['content-length'] || '', 10);
+        if (declaredLength > this.maxBytes) {
+          res.destroy();
+          fail(new LogoFetchError(`Logo exceeds the maximum size of ${this.maxBytes} bytes`, originalUrl));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+
+        res.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > this.maxBytes) {
+            res.destroy();
+            fail(new LogoFetchError(`Logo exceeds the maximum size of ${this.maxBytes} bytes`, originalUrl));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on('error', fail);
+        res.on('end', () => {
+          clearTimeout(timer);
+          resolve({ body: Buffer.concat(chunks), contentType: res.headers['content-type'] });
+        });
+      });
+
+      req.end();
+    });
+  }
+
+  private toImage(body: Buffer, contentType: string | undefined, originalUrl: string): FetchedImage {
+    const declared = (contentType || '').toLowerCase();
+    if (declared && !ACCEPTED_CONTENT_TYPES.some(pattern => pattern.test(declared))) {
+      throw new LogoFetchError(`Logo URL did not return an image (Content-Type: ${contentType})`, originalUrl);
+    }
+
+    const mimeType = Logo.detectMimeType(body);
+    if (!mimeType) {
+      throw new LogoFetchError('Logo content is not a supported image (PNG, JPEG, GIF, WebP or SVG)', originalUrl);
+    }
+
+    return { data: body, mimeType };
+  }
+}
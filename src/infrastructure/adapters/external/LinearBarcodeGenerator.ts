@@ -0,0 +1,96 @@
+import { IBarcodeGenerator } from '../../../application/ports';
+import { Barcode, BarcodeSymbolInfo } from '../../../domain/entities/Barcode';
+import { BarcodeConfiguration } from '../../../domain/entities/BarcodeConfiguration';
+import { BarcodeType } from '../../../domain/valueObjects/BarcodeType';
+import { OutputFormat } from '../../../domain/valueObjects/OutputFormat';
+import { GenerationError, ValidationError } from '../../../shared/errors';
+import { Code128Encoder } from './encoder/Code128Encoder';
+import { EANEncoder } from './encoder/EANEncoder';
+import { LinearSymbol } from './encoder/LinearSymbol';
+import { LinearBarcodeRenderer } from './renderers/LinearBarcodeRenderer';
+
+/**
+ * Generates Code 128, EAN-13 and UPC-A barcodes. Retail payloads arrive with
+ * their check digit already computed or verified by the domain.
+ */
+export class LinearBarcodeGenerator implements IBarcodeGenerator {
+  private readonly supportedFormats = [OutputFormat.PNG, OutputFormat.SVG];
+
+  private readonly code128Encoder = new Code128Encoder();
+  private readonly eanEncoder = new EANEncoder();
+  private readonly renderer = new LinearBarcodeRenderer();
+
+  async generate(configuration: BarcodeConfiguration): Promise<Barcode> {
+    try {
+      const format = configuration.getFormat().getValue();
+
+      if (!this.supports(format)) {
+        throw new GenerationError(`Unsupported format for barcodes: ${format}`);
+      }
+
+      const { symbol, info } = this.encode(configuration);
+      const imageBuffer = await this.renderer.render(symbol, configuration);
+
+      return new Barcode(configuration, imageBuffer, undefined, info);
+
+    } catch (error) {
+      // Images too narrow for the symbol are client errors
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new GenerationError(
+        `Failed to generate barcode: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private encode(configuration: BarcodeConfiguration): { symbol: LinearSymbol; info: BarcodeSymbolInfo } {
+    const data = configuration.getData();
+    const type = configuration.getType().getValue();
+
+    let symbol: LinearSymbol;
+    let codeSets: string[] | undefined;
+    switch (type) {
+      case BarcodeType.EAN_13:
+        symbol = this.eanEncoder.encodeEAN13(data.getContent());
+        break;
+      case BarcodeType.UPC_A:
+        symbol = this.eanEncoder.encodeUPCA(data.getContent());
+        break;
+      default: {
+        const code128 = this.code128Encoder.encode(data.getContent());
+        symbol = code128;
+        codeSets = code128.codeSets;
+      }
+    }
+
+    return {
+      symbol,
+      info: {
+        type,
+        text: data.getContent(),
+        checkDigit: data.getCheckDigit(),
+        codeSets,
+        modules: symbol.quietZone.left + symbol.modules.length + symbol.quietZone.right
+      }
+    };
+  }
+
+  supports(format: string): boolean {
+    return this.supportedFormats.includes(format as OutputFormat);
+  }
+
+  getSupportedFormats(): string[] {
+    return [...this.supportedFormats];
+  }
+
+  getCapabilities(): string[] {
+    return [
+      'Code 128 with automatic code set switching',
+      'EAN-13 and UPC-A with check digit computation and validation',
+      'Human-readable text',
+      'PNG and SVG output'
+    ];
+  }
+}
@@ -0,0 +1,41 @@
+import { IQRCodeGenerator, QRCapacity, QRSymbolAnalysis } from '../../../application/ports';
+import { QRCode } from '../../../domain/entities/QRCode';
+import { QRCodeConfiguration } from '../../../domain/entities/QRCodeConfiguration';
+import { Symbology } from '../../../domain/valueObjects/Symbology';
+
+/**
+ * Hands each configuration to the generator of its symbology. Formats and
+ * capabilities are the union of all generators'; symbology-specific format
+ * rules are enforced by request validation.
+ */
+export class MultiSymbologyGenerator implements IQRCodeGenerator {
+  constructor(private readonly generators: Record<Symbology, IQRCodeGenerator>) {}
+
+  generate(configuration: QRCodeConfiguration): Promise<QRCode> {
+    return this.getGenerator(configuration).generate(configuration);
+  }
+
+  getCapacity(configuration: QRCodeConfiguration): QRCapacity {
+    return this.getGenerator(configuration).getCapacity(configuration);
+  }
+
+  analyze(configuration: QRCodeConfiguration): QRSymbolAnalysis {
+    return this.getGenerator(configuration).analyze(configuration);
+  }
+
+  supports(format: string): boolean {
+    return Object.values(this.generators).some(generator => generator.supports(format));
+  }
+
+  getSupportedFormats(): string[] {
+    return [...new Set(Object.values(this.generators).flatMap(generator => generator.getSupportedFormats()))];
+  }
+
+  getCapabilities(): string[] {
+    return [...new Set(Object.values(this.generators).flatMap(generator => generator.getCapabilities()))];
+  }
+
+  private getGenerator(configuration: QRCodeConfiguration): IQRCodeGenerator {
+    return this.generators[configuration.getSymbology().getValue()];
+  }
+}
@@ -0,0 +1,91 @@
+import sharp from 'sharp';
+import { DecodedQRCode, ImagePoint, IQRCodeReader, QRReadResult } from '../../../application/ports';
+import { ScanImage } from '../../../domain/valueObjects/ScanImage';
+import { ValidationError } from '../../../shared/errors';
+import { QRImageDecoder, LocatedSymbol } from './decoder/QRImageDecoder';
+
+// Larger images are scaled down first; modules stay several pixels wide for any readable code
+const MAX_DECODE_DIMENSION = 2048;
+
+/**
+ * Decodes the QR codes in a PNG, JPEG or WebP image with the built-in
+ * decoder. Transparent areas read as white and photos are turned upright
+ * from their EXIF orientation.
+ */
+export class QRCodeReader implements IQRCodeReader {
+  private readonly decoder = new QRImageDecoder();
+
+  async read(image: ScanImage): Promise<QRReadResult> {
+    let pixels: { data: Buffer; info: sharp.OutputInfo };
+    let width: number;
+    let height: number;
+
+    try {
+      const { width: rawWidth = 0, height: rawHeight = 0, orientation = 1 } = await sharp(image.getData()).metadata();
+      // Orientations 5 to 8 swap width and height
+      [width, height] = orientation >= 5 ? [rawHeight, rawWidth] : [rawWidth, rawHeight];
+      const scale = Math.min(1, MAX_DECODE_DIMENSION / Math.max(width, height));
+
+      let pipeline = sharp(image.getData()).rotate().flatten({ background: '#ffffff' }).greyscale();
+      if (scale < 1) {
+        pipeline = pipeline.resize(Math.round(width * scale), Math.round(height * scale));
+      }
+      pixels = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      throw new ValidationError(
+        `Image could not be decoded: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { field: 'image', value: image.getMimeType() }
+      );
+    }
+
+    const { data, info } = pixels;
+    const luminance = info.channels === 1
+      ? new Uint8Array(data.buffer, data.byteOffset, data.length)
+      : Uint8Array.from({ length: info.width * info.height }, (_, i) => data[i * info.channels]);
+    const result = this.decoder.decode(luminance, info.width, info.height);
+
+    const scaleX = width / info.width;
+    const scaleY = height / info.height;
+    return {
+      codes: result.symbols.map(symbol => this.describe(symbol, scaleX, scaleY, width, height)),
+      image: { format: image.getMimeType().replace('image/', ''), width, height },
+      finderPatterns: result.finderPatterns,
+      truncated: result.truncated
+    };
+  }
+
+  private describe(symbol: LocatedSymbol, scaleX: number, scaleY: number, width: number, height: number): DecodedQRCode {
+    const scalePoint = (point: ImagePoint): ImagePoint => ({
+      x: Math.round(point.x * scaleX * 10) / 10,
+      y: Math.round(point.y * scaleY * 10) / 10
+    });
+    const corners = {
+      topLeft: scalePoint(symbol.corners.topLeft),
+      topRight: scalePoint(symbol.corners.topRight),
+      bottomRight: scalePoint(symbol.corners.bottomRight),
+      bottomLeft: scalePoint(symbol.corners.bottomLeft)
+    };
+
+    const xs = Object.values(corners).map(point => point.x);
+    const ys = Object.values(corners).map(point => point.y);
+    const left = Math.max(0, Math.floor(Math.min(...xs)));
+    const top = Math.max(0, Math.floor(Math.min(...ys)));
+    const right = Math.min(width, Math.ceil(Math.max(...xs)));
+    const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+
+    return {
+      text: symbol.text,
+      symbol: {
+        version: symbol.version,
+        errorCorrectionLevel: symbol.errorCorrectionLevel,
+        maskPattern: symbol.maskPattern,
+        eciDesignator: symbol.eciDesignator,
+        segments: symbol.segments
+      },
+      bounds: { x: left, y: top, width: right - left, height: bottom - top },
+      corners,
+      correctedCodewords: symbol.correctedCodewords,
+      structuredAppend: symbol.structuredAppend
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import sharp from 'sharp';
+import { ColorValue } from '../../../domain/valueObjects/ColorValue';
+import { QRImageDecoder } from './decoder/QRImageDecoder';
+
+export type ScanOutcome =
+  | { result: 'match'; correctedCodewords: number }
+  | { result: 'unreadable' }
+  | { result: 'mismatch'; decodedText: string };
+
+/**
+ * Scans a rendered image the way a phone would see it: translucent pixels
+ * are laid over the matte color, and the decoded text has to equal the data
+ * that was encoded.
+ */
+export class ScanVerifier {
+  private readonly decoder = new QRImageDecoder();
+
+  async scan(image: Buffer, expected: string, matte: ColorValue): Promise<ScanOutcome> {
+    const { data, info } = await sharp(image)
+      .flatten({ background: matte.toHex() })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const luminance = info.channels === 1
+      ? new Uint8Array(data.buffer, data.byteOffset, data.length)
+      : Uint8Array.from({ length: info.width * info.height }, (_, i) => data[i * info.channels]);
+    const { symbols } = this.decoder.decode(luminance, info.width, info.height);
+
+    const match = symbols.find(symbol => symbol.text === expected);
+    if (match) {
+      return { result: 'match', correctedCodewords: match.correctedCodewords };
+    }
+    return symbols.length > 0 ? { result: 'mismatch', decodedText: symbols[0].text } : { result: 'unreadable' };
+  }
+}
@@ -0,0 +1,62 @@
+import { CachingLogoFetcher } from '../CachingLogoFetcher';
+import { ILogoFetcher } from '../../../../application/ports';
+
+describe('CachingLogoFetcher', () => {
+  const image = (url: string) => ({ data: Buffer.from(url), mimeType: 'image/png' });
+  let fetcher: { fetch: jest.Mock };
+
+  beforeEach(() => {
+    fetcher = { fetch: jest.fn(async (url: string) => image(url)) };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should download each URL once while it is cached', async () => {
+    const cache = new CachingLogoFetcher(fetcher as ILogoFetcher);
+
+    await cache.fetch('https://example.com/a.png');
+    const second = await cache.fetch('https://example.com/a.png');
+
+    expect(second).toEqual(image('https://example.com/a.png'));
+    expect(fetcher.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evict the least recently used logo when full', async () => {
+    const cache = new CachingLogoFetcher(fetcher as ILogoFetcher, { maxEntries: 2 });
+
+    await cache.fetch('a');
+    await cache.fetch('b');
+    await cache.fetch('a');
+    await cache.fetch('c');
+
+    expect(cache.getSize()).toBe(2);
+    await cache.fetch('a');
+    await cache.fetch('b');
+    expect(fetcher.fetch.mock.calls.map(([url]) => url)).toEqual(['a', 'b', 'c', 'b']);
+  });
+
+  it('should drop expired logos instead of keeping them until they are read', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const cache = new CachingLogoFetcher(fetcher as ILogoFetcher, { ttlMs: 1000 });
+
+    await cache.fetch('a');
+    await cache.fetch('b');
+    now.mockReturnValue(1500);
+    await cache.fetch('c');
+
+    expect(cache.getSize()).toBe(1);
+    await cache.fetch('a');
+    expect(fetcher.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not cache failed downloads', async () => {
+    fetcher.fetch.mockRejectedValueOnce(new Error('offline'));
+    const cache = new CachingLogoFetcher(fetcher as ILogoFetcher);
+
+    await expect(cache.fetch('a')).rejects.toThrow('offline');
+    await expect(cache.fetch('a')).resolves.toEqual(image('a'));
+    expect(cache.getSize()).toBe(1);
+  });
+});
@@ -0,0 +1,157 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpLogoFetcher, isBlockedAddress } from '../HttpLogoFetcher';
+import { LogoFetchError } from '../../../../shared/errors';
+
+const PNG_BYTES = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(32)
+]);
+
+describe('HttpLogoFetcher', () => {
+  let server: http.Server;
+  let port: number;
+
+  // The stand-in server listens on loopback, which is the only address the
+  // tests allow; everything else goes through the real block list.
+  const allowLoopback = (address: string) => address !== '127.0.0.1' && isBlockedAddress(address);
+  const resolver = async (hostname: string) => {
+    const hosts: Record<string, string> = {
+      'logos.test': '127.0.0.1',
+      'metadata.test': '169.254.169.254',
+      'intranet.test': '10.0.0.5'
+    };
+    return hosts[hostname] ? [{ address: hosts[hostname], family: 4 }] : [];
+  };
+  const createFetcher = (options = {}) =>
+    new HttpLogoFetcher({ resolver, isBlockedAddress: allowLoopback, timeoutMs: 1000, ...options });
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      switch (req.url) {
+        case '/logo.png':
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.end(PNG_BYTES);
+          break;
+        case '/logo.svg':
+          res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+          res.end('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"></svg>');
+          break;
+        case '/page.png':
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end('<html></html>');
+          break;
+        case '/fake.png':
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.end('not really a png');
+          break;
+        case '/large.png':
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.end(Buffer.concat([PNG_BYTES, Buffer.alloc(4096)]));
+          break;
+        case '/redirect.png':
+          res.writeHead(302, { Location: '/logo.png' });
+          res.end();
+          break;
+        case '/loop.png':
+          res.writeHead(302, { Location: '/loop.png' });
+          res.end();
+          break;
+        case '/metadata.png':
+          res.writeHead(302, { Location: 'http://metadata.test/latest/meta-data.png' });
+          res.end();
+          break;
+        case '/slow.png':
+          setTimeout(() => res.end(PNG_BYTES), 500);
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    server.listen(0, '127.0.0.1', () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  const url = (path: string) => `http://logos.test:${port}${path}`;
+
+  it('should download an image and detect its type from the content', async () => {
+    const result = await createFetcher().fetch(url('/logo.png'));
+
+    expect(result.mimeType).toBe('image/png');
+    expect(result.data.equals(PNG_BYTES)).toBe(true);
+  });
+
+  it('should accept SVG logos', async () => {
+    const result = await createFetcher().fetch(url('/logo.svg'));
+    expect(result.mimeType).toBe('image/svg+xml');
+  });
+
+  it('should follow redirects within the limit', async () => {
+    const result = await createFetcher().fetch(url('/redirect.png'));
+    expect(result.mimeType).toBe('image/png');
+  });
+
+  it('should stop after the maximum number of redirects', async () => {
+    await expect(createFetcher({ maxRedirects: 2 }).fetch(url('/loop.png')))
+      .rejects.toThrow('exceeded the maximum of 2 redirects');
+  });
+
+  it('should block hosts that resolve to private addresses', async () => {
+    await expect(createFetcher().fetch('http://intranet.test/logo.png'))
+      .rejects.toThrow('resolves to a blocked address (10.0.0.5)');
+  });
+
+  it('should re-check redirect targets against the block list', async () => {
+    await expect(createFetcher().fetch(url('/metadata.png')))
+      .rejects.toThrow('resolves to a blocked address (169.254.169.254)');
+  });
+
+  it('should block loopback with the default address check', async () => {
+    const fetcher = new HttpLogoFetcher({ resolver });
+    await expect(fetcher.fetch(url('/logo.png'))).rejects.toBeInstanceOf(LogoFetchError);
+  });
+
+  it('should reject responses that are not images', async () => {
+    await expect(createFetcher().fetch(url('/page.png'))).rejects.toThrow('did not return an image');
+    await expect(createFetcher().fetch(url('/fake.png'))).rejects.toThrow('not a supported image');
+  });
+
+  it('should enforce the maximum download size', async () => {
+    await expect(createFetcher({ maxBytes: 1024 }).fetch(url('/large.png')))
+      .rejects.toThrow('exceeds the maximum size of 1024 bytes');
+  });
+
+  it('should time out slow servers', async () => {
+    await expect(createFetcher({ timeoutMs: 100 }).fetch(url('/slow.png')))
+      .rejects.toThrow('timed out after 100ms');
+  });
+
+  it('should report HTTP errors', async () => {
+    await expect(createFetcher().fetch(url('/missing.png'))).rejects.toThrow('HTTP status 404');
+  });
+});
+
+describe('isBlockedAddress', () => {
+  it('should block private, loopback, link-local and reserved ranges', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.0.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1']
+      .forEach(address => expect(isBlockedAddress(address)).toBe(true));
+  });
+
+  it('should block IPv4-compatible, site-local and 6to4 addresses of blocked IPv4 ranges', () => {
+    ['::7f00:1', '::127.0.0.1', '::a9fe:a9fe', 'fec0::1', 'feff::1', '2002:7f00:1::', '2002:a9fe:a9fe::1', '2002:c0a8:101::']
+      .forEach(address => expect(isBlockedAddress(address)).toBe(true));
+  });
+
+  it('should allow public addresses', () => {
+    ['8.8.8.8', '172.32.0.1', '172.217.0.1', '2606:4700::1111', '2002:808:808::1', '::ffff:8.8.8.8']
+      .forEach(address => expect(isBlockedAddress(address)).toBe(false));
+  });
+});
@@ -0,0 +1,77 @@
+import * as QRCodeLib from 'qrcode';
+import sharp from 'sharp';
+import { QRCodeReader } from '../QRCodeReader';
+import { ScanImage } from '../../../../domain/valueObjects/ScanImage';
+import { ValidationError } from '../../../../shared/errors';
+
+describe('QRCodeReader', () => {
+  const reader = new QRCodeReader();
+
+  const generate = (text: string, options: QRCodeLib.QRCodeToBufferOptions = {}) =>
+    QRCodeLib.toBuffer(text, { errorCorrectionLevel: 'Q', scale: 6, margin: 4, ...options });
+
+  it('should read codes from the qrcode package', async () => {
+    const png = await generate('https://example.com/read-me');
+
+    const result = await reader.read(ScanImage.fromBinary(png));
+
+    expect(result.image).toEqual({ format: 'png', width: 222, height: 222 });
+    expect(result.codes).toHaveLength(1);
+    expect(result.codes[0]).toMatchObject({
+      text: 'https://example.com/read-me',
+      symbol: { version: 3, errorCorrectionLevel: 'Q', segments: [{ mode: 'byte', characterCount: 27 }] },
+      bounds: { x: 24, y: 24, width: 174, height: 174 },
+      correctedCodewords: 0
+    });
+    expect(result.codes[0].corners.topLeft).toEqual({ x: 24, y: 24 });
+  });
+
+  it.each([
+    ['jpeg', (image: sharp.Sharp) => image.jpeg({ quality: 60 })],
+    ['webp', (image: sharp.Sharp) => image.webp({ quality: 60 })]
+  ] as const)('should read %s images', async (format, convert) => {
+    const image = await convert(sharp(await generate('lossy formats'))).toBuffer();
+
+    const result = await reader.read(ScanImage.fromBinary(image));
+
+    expect(result.image.format).toBe(format);
+    expect(result.codes.map(code => code.text)).toEqual(['lossy formats']);
+  });
+
+  it('should read transparent backgrounds as white', async () => {
+    const png = await generate('on glass', { color: { dark: '#000000ff', light: '#00000000' } });
+
+    const result = await reader.read(ScanImage.fromBinary(png));
+
+    expect(result.codes.map(code => code.text)).toEqual(['on glass']);
+  });
+
+  it('should report positions in the submitted image when it is scaled down for decoding', async () => {
+    const png = await sharp(await generate('large photo', { scale: 4 }))
+      .resize(3000, 3000, { kernel: 'nearest' })
+      .png()
+      .toBuffer();
+
+    const [code] = (await reader.read(ScanImage.fromBinary(png))).codes;
+
+    // A version 1 symbol with a 4-module quiet zone, scaled from 116 to 3000 pixels
+    const moduleSize = 3000 / 29;
+    expect(code.text).toBe('large photo');
+    expect(code.bounds.x).toBeCloseTo(4 * moduleSize, -1);
+    expect(code.bounds.width).toBeCloseTo(21 * moduleSize, -1);
+  });
+
+  it('should report finder patterns when no code can be decoded', async () => {
+    const png = await sharp({ create: { width: 120, height: 80, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+    const result = await reader.read(ScanImage.fromBinary(png));
+
+    expect(result).toEqual({ codes: [], image: { format: 'png', width: 120, height: 80 }, finderPatterns: 0, truncated: false });
+  });
+
+  it('should reject images that cannot be decoded', async () => {
+    const truncated = (await generate('cut short')).subarray(0, 40);
+
+    await expect(reader.read(ScanImage.fromBinary(truncated))).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,160 @@
+const BLOCK_SIZE = 8;
+// Blocks with less contrast than this are treated as flat and take their neighbours' threshold
+const MIN_DYNAMIC_RANGE = 24;
+// Below five blocks in either direction the local thresholds have too little context
+const MIN_LOCAL_SIZE = BLOCK_SIZE * 5;
+
+/**
+ * Two-level image the QR detector scans. Each 8x8 block is thresholded at
+ * the average of the 5x5 blocks around it, which copes with shadows and
+ * gradients that a single global threshold would not.
+ */
+export class BitImage {
+  private constructor(
+    private readonly width: number,
+    private readonly height: number,
+    private readonly bits: Uint8Array
+  ) {}
+
+  // Luminance is one byte per pixel, row-major, 0 for black
+  static fromLuminance(luminance: Uint8Array, width: number, height: number): BitImage {
+    if (luminance.length !== width * height) {
+      throw new Error(`A ${width}x${height} image has ${width * height} pixels, got ${luminance.length}`);
+    }
+
+    const bits = width < MIN_LOCAL_SIZE || height < MIN_LOCAL_SIZE
+      ? BitImage.thresholdGlobally(luminance)
+      : BitImage.thresholdLocally(luminance, width, height);
+    return new BitImage(width, height, bits);
+  }
+
+  getWidth(): number {
+    return this.width;
+  }
+
+  getHeight(): number {
+    return this.height;
+  }
+
+  // Pixels outside the image read as light, like a quiet zone
+  isDark(x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return false;
+    }
+    return this.bits[y * this.width + x] === 1;
+  }
+
+  // Light-on-dark symbols read as regular ones once inverted
+  invert(): BitImage {
+    return new BitImage(this.width, this.height, this.bits.map(bit => bit ^ 1));
+  }
+
+  // Otsu's threshold over the whole image
+  private static thresholdGlobally(luminance: Uint8Array): Uint8Array {
+    const histogram = new Array<number>(256).fill(0);
+    luminance.forEach(value => histogram[value]++);
+
+    const total = luminance.length;
+    const weightedTotal = histogram.reduce((sum, count, value) => sum + count * value, 0);
+    let threshold = 127;
+    let bestVariance = -1;
+    let darkCount = 0;
+    let darkSum = 0;
+    for (let value = 0; value < 256; value++) {
+      darkCount += histogram[value];
+      darkSum += histogram[value] * value;
+      const lightCount = total - darkCount;
+      if (darkCount === 0 || lightCount === 0) {
+        continue;
+      }
+      const difference = darkSum / darkCount - (weightedTotal - darkSum) / lightCount;
+      const variance = darkCount * lightCount * difference * difference;
+      if (variance > bestVariance) {
+        bestVariance = variance;
+        threshold = value;
+      }
+    }
+
+    return luminance.map(value => (value <= threshold ? 1 : 0));
+  }
+
+  private static thresholdLocally(luminance: Uint8Array, width: number, height: number): Uint8Array {
+    const blocksWide = Math.ceil(width / BLOCK_SIZE);
+    const blocksHigh = Math.ceil(height / BLOCK_SIZE);
+    const blackPoints = BitImage.computeBlackPoints(luminance, width, height, blocksWide, blocksHigh);
+    const bits = new Uint8Array(width * height);
+
+    for (let blockY = 0; blockY < blocksHigh; blockY++) {
+      const top = Math.min(Math.max(blockY, 2), blocksHigh - 3);
+      for (let blockX = 0; blockX < blocksWide; blockX++) {
+        const left = Math.min(Math.max(blockX, 2), blocksWide - 3);
+        let sum = 0;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            sum += blackPoints[(top + dy) * blocksWide + left + dx];
+          }
+        }
+        const threshold = sum / 25;
+
+        const startX = Math.min(blockX * BLOCK_SIZE, width - BLOCK_SIZE);
+        const startY = Math.min(blockY * BLOCK_SIZE, height - BLOCK_SIZE);
+        for (let y = startY; y < startY + BLOCK_SIZE; y++) {
+          for (let x = startX; x < startX + BLOCK_SIZE; x++) {
+            const index = y * width + x;
+            bits[index] = luminance[index] <= threshold ? 1 : 0;
+          }
+        }
+      }
+    }
+
+    return bits;
+  }
+
+  // Average luminance per block, or a guess from the neighbours for blocks without contrast
+  private static computeBlackPoints(
+    luminance: Uint8Array,
+    width: number,
+    height: number,
+    blocksWide: number,
+    blocksHigh: number
+  ): Float64Array {
+    const blackPoints = new Float64Array(blocksWide * blocksHigh);
+
+    for (let blockY = 0; blockY < blocksHigh; blockY++) {
+      const startY = Math.min(blockY * BLOCK_SIZE, height - BLOCK_SIZE);
+      for (let blockX = 0; blockX < blocksWide; blockX++) {
+        const startX = Math.min(blockX * BLOCK_SIZE, width - BLOCK_SIZE);
+        let sum = 0;
+        let min = 255;
+        let max = 0;
+        for (let y = startY; y < startY + BLOCK_SIZE; y++) {
+          for (let x = startX; x < startX + BLOCK_SIZE; x++) {
+            const value = luminance[y * width + x];
+            sum += value;
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+          }
+        }
+
+        let average = sum / (BLOCK_SIZE * BLOCK_SIZE);
+        if (max - min <= MIN_DYNAMIC_RANGE) {
+          // A flat block is assumed light, unless it is darker than the blocks above and to the left
+          average = min / 2;
+          if (blockX > 0 && blockY > 0) {
+            const neighbours = (
+              blackPoints[(blockY - 1) * blocksWide + blockX] +
+              2 * blackPoints[blockY * blocksWide + blockX - 1] +
+              blackPoints[(blockY - 1) * blocksWide + blockX - 1]
+            ) / 4;
+            if (min < neighbours) {
+              average = neighbours;
+            }
+          }
+        }
+        blackPoints[blockY * blocksWide + blockX] = average;
+      }
+    }
+
+    return blackPoints;
+  }
+}
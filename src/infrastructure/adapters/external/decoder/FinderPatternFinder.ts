@@ -0,0 +1,178 @@
+import { BitImage } from './BitImage';
+
+export interface FinderPattern {
+  x: number;
+  y: number;
+  moduleSize: number;
+  // Scan lines that confirmed the pattern; stray matches in data areas rarely reach two
+  count: number;
+}
+
+interface Run {
+  start: number;
+  length: number;
+  dark: boolean;
+}
+
+interface CrossCheck {
+  center: number;
+  total: number;
+}
+
+/**
+ * Finds the 7x7 finder patterns by their 1:1:3:1:1 dark-light-dark-light-dark
+ * runs, first along each row, then confirmed across the column and row
+ * through the candidate's center.
+ */
+export class FinderPatternFinder {
+  find(image: BitImage): FinderPattern[] {
+    const patterns: FinderPattern[] = [];
+
+    for (let y = 0; y < image.getHeight(); y++) {
+      const runs = this.getRowRuns(image, y);
+      for (let i = 0; i + 4 < runs.length; i++) {
+        if (!runs[i].dark) {
+          continue;
+        }
+        const lengths = runs.slice(i, i + 5).map(run => run.length);
+        if (!this.hasFinderRatio(lengths)) {
+          continue;
+        }
+        const centerX = runs[i + 2].start + runs[i + 2].length / 2;
+        this.confirm(image, patterns, centerX, y, lengths);
+      }
+    }
+
+    return patterns.filter(pattern => pattern.count >= 2).sort((a, b) => b.count - a.count);
+  }
+
+  private confirm(image: BitImage, patterns: FinderPattern[], centerX: number, row: number, lengths: number[]): void {
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+
+    const vertical = this.crossCheck(image, Math.floor(centerX), row, 0, 1, lengths[2], total);
+    if (!vertical) {
+      return;
+    }
+    const horizontal = this.crossCheck(image, Math.floor(centerX), Math.floor(vertical.center), 1, 0, lengths[2], total);
+    if (!horizontal) {
+      return;
+    }
+
+    const x = horizontal.center;
+    const y = vertical.center;
+    const moduleSize = (horizontal.total + vertical.total) / 14;
+    const existing = patterns.find(pattern =>
+      Math.abs(pattern.x - x) <= pattern.moduleSize &&
+      Math.abs(pattern.y - y) <= pattern.moduleSize &&
+      Math.abs(pattern.moduleSize - moduleSize) <= Math.max(1, pattern.moduleSize / 2)
+    );
+
+    if (existing) {
+      const count = existing.count + 1;
+      existing.x = (existing.x * existing.count + x) / count;
+      existing.y = (existing.y * existing.count + y) / count;
+      existing.moduleSize = (existing.moduleSize * existing.count + moduleSize) / count;
+      existing.count = count;
+    } else {
+      patterns.push({ x, y, moduleSize, count: 1 });
+    }
+  }
+
+  // Walks both ways from a point inside the center square; the outer runs may not be much longer than it
+  private crossCheck(
+    image: BitImage,
+    startX: number,
+    startY: number,
+    dx: number,
+    dy: number,
+    maxCount: number,
+    originalTotal: number
+  ): CrossCheck | undefined {
+    const counts = [0, 0, 0, 0, 0];
+    const limit = dx === 1 ? image.getWidth() : image.getHeight();
+    const at = (step: number): boolean => image.isDark(startX + dx * step, startY + dy * step);
+    const inside = (step: number): boolean => {
+      const position = (dx === 1 ? startX : startY) + step;
+      return position >= 0 && position < limit;
+    };
+
+    let step = 0;
+    while (inside(step) && at(step)) {
+      counts[2]++;
+      step--;
+    }
+    while (inside(step) && !at(step) && counts[1] <= maxCount) {
+      counts[1]++;
+      step--;
+    }
+    if (!inside(step) || counts[1] > maxCount) {
+      return undefined;
+    }
+    while (inside(step) && at(step) && counts[0] <= maxCount) {
+      counts[0]++;
+      step--;
+    }
+    if (counts[0] > maxCount) {
+      return undefined;
+    }
+
+    step = 1;
+    while (inside(step) && at(step)) {
+      counts[2]++;
+      step++;
+    }
+    while (inside(step) && !at(step) && counts[3] <= maxCount) {
+      counts[3]++;
+      step++;
+    }
+    if (!inside(step) || counts[3] > maxCount) {
+      return undefined;
+    }
+    while (inside(step) && at(step) && counts[4] <= maxCount) {
+      counts[4]++;
+      step++;
+    }
+    if (counts[4] > maxCount) {
+      return undefined;
+    }
+
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (5 * Math.abs(total - originalTotal) >= 2 * originalTotal || !this.hasFinderRatio(counts)) {
+      return undefined;
+    }
+
+    const end = (dx === 1 ? startX : startY) + step;
+    return { center: end - counts[4] - counts[3] - counts[2] / 2, total };
+  }
+
+  private hasFinderRatio(lengths: number[]): boolean {
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    if (total < 7 || lengths.some(length => length === 0)) {
+      return false;
+    }
+    const moduleSize = total / 7;
+    const variance = moduleSize / 2;
+    return (
+      Math.abs(lengths[0] - moduleSize) < variance &&
+      Math.abs(lengths[1] - moduleSize) < variance &&
+      Math.abs(lengths[2] - 3 * moduleSize) < 3 * variance &&
+      Math.abs(lengths[3] - moduleSize) < variance &&
+      Math.abs(lengths[4] - moduleSize) < variance
+    );
+  }
+
+  private getRowRuns(image: BitImage, y: number): Run[] {
+    const runs: Run[] = [];
+    let start = 0;
+    let dark = image.isDark(0, y);
+    for (let x = 1; x <= image.getWidth(); x++) {
+      const current = x < image.getWidth() && image.isDark(x, y);
+      if (current !== dark || x === image.getWidth()) {
+        runs.push({ start, length: x - start, dark });
+        start = x;
+        dark = current;
+      }
+    }
+    return runs;
+  }
+}
@@ -0,0 +1,66 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Projective mapping from module coordinates to image pixels, fixed by four
+ * point pairs. Handles rotation, skew and the keystone of a photographed code.
+ */
+export class PerspectiveTransform {
+  private constructor(private readonly coefficients: number[]) {}
+
+  static fromPoints(from: Point[], to: Point[]): PerspectiveTransform {
+    if (from.length !== 4 || to.length !== 4) {
+      throw new Error('A perspective transform needs four point pairs');
+    }
+
+    // x' = (a u + b v + c) / (g u + h v + 1), y' = (d u + e v + f) / (g u + h v + 1)
+    const rows: number[][] = [];
+    from.forEach(({ x: u, y: v }, i) => {
+      const { x, y } = to[i];
+      rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+      rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+    });
+
+    return new PerspectiveTransform(PerspectiveTransform.solve(rows));
+  }
+
+  transform(x: number, y: number): Point {
+    const [a, b, c, d, e, f, g, h] = this.coefficients;
+    const denominator = g * x + h * y + 1;
+    return {
+      x: (a * x + b * y + c) / denominator,
+      y: (d * x + e * y + f) / denominator
+    };
+  }
+
+  // Gaussian elimination with partial pivoting on an augmented 8x9 system
+  private static solve(rows: number[][]): number[] {
+    const size = rows.length;
+    for (let column = 0; column < size; column++) {
+      let pivot = column;
+      for (let row = column + 1; row < size; row++) {
+        if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+          pivot = row;
+        }
+      }
+      if (Math.abs(rows[pivot][column]) < 1e-12) {
+        throw new Error('Points are degenerate');
+      }
+      [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+      for (let row = 0; row < size; row++) {
+        if (row === column) {
+          continue;
+        }
+        const factor = rows[row][column] / rows[column][column];
+        for (let k = column; k <= size; k++) {
+          rows[row][k] -= factor * rows[column][k];
+        }
+      }
+    }
+
+    return rows.map((row, i) => row[size] / row[i]);
+  }
+}
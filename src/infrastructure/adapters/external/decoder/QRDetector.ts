@@ -0,0 +1,280 @@
+import { QRMatrix } from '../renderers/QRMatrix';
+import { getSymbolSize, MIN_VERSION, MAX_VERSION } from '../encoder/QRTables';
+import { BitImage } from './BitImage';
+import { FinderPattern } from './FinderPatternFinder';
+import { PerspectiveTransform, Point } from './PerspectiveTransform';
+
+// Finder module sizes of one symbol differ by perspective only
+const MAX_MODULE_SIZE_RATIO = 1.5;
+// Deviation of the two legs from equal length, and of the corner from a right angle (cosine of 60 degrees)
+const MAX_LEG_DIFFERENCE = 0.25;
+const MAX_CORNER_COSINE = 0.5;
+// Finder centers of the smallest and largest symbols are 14 and 170 modules apart
+const MIN_MODULES_BETWEEN_FINDERS = 10;
+const MAX_MODULES_BETWEEN_FINDERS = 180;
+
+export interface FinderTriple {
+  topLeft: FinderPattern;
+  topRight: FinderPattern;
+  bottomLeft: FinderPattern;
+}
+
+export interface SampledSymbol {
+  matrix: QRMatrix;
+  // Maps module coordinates to image pixels
+  transform: PerspectiveTransform;
+}
+
+/**
+ * Locates symbols from their finder patterns: groups the patterns into
+ * triples, estimates each symbol's dimension and bottom-right alignment
+ * pattern, and samples the module grid through a perspective transform.
+ */
+export class QRDetector {
+  // Every plausible triple, the most square first; one image may hold several symbols.
+  // All combinations are tried, so callers bound the number of patterns
+  findTriples(candidates: FinderPattern[]): FinderTriple[] {
+    const triples: Array<{ triple: FinderTriple; score: number }> = [];
+
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        for (let k = j + 1; k < candidates.length; k++) {
+          const scored = this.orderTriple(candidates[i], candidates[j], candidates[k]);
+          if (scored) {
+            triples.push(scored);
+          }
+        }
+      }
+    }
+
+    return triples.sort((a, b) => a.score - b.score).map(({ triple }) => triple);
+  }
+
+  // Dimensions to try: the estimate first, then one and two versions either side
+  estimateDimensions(image: BitImage, triple: FinderTriple): number[] {
+    const { topLeft, topRight, bottomLeft } = triple;
+    const moduleSize = this.estimateModuleSize(image, triple);
+    const modules = (this.distance(topLeft, topRight) + this.distance(topLeft, bottomLeft)) / 2 / moduleSize + 7;
+    const estimate = Math.round((modules - 17) / 4) * 4 + 17;
+
+    return [0, 4, -4, 8, -8]
+      .map(offset => estimate + offset)
+      .filter(dimension => dimension >= getSymbolSize(MIN_VERSION) && dimension <= getSymbolSize(MAX_VERSION));
+  }
+
+  // Samplings through the alignment pattern when one is found, and through the parallelogram corner
+  sample(image: BitImage, triple: FinderTriple, dimension: number): SampledSymbol[] {
+    const { topLeft, topRight, bottomLeft } = triple;
+    const from = [{ x: 3.5, y: 3.5 }, { x: dimension - 3.5, y: 3.5 }, { x: 3.5, y: dimension - 3.5 }];
+    const to: Point[] = [topLeft, topRight, bottomLeft];
+    const corner = { x: topRight.x - topLeft.x + bottomLeft.x, y: topRight.y - topLeft.y + bottomLeft.y };
+
+    const quadrilaterals: Array<{ from: Point; to: Point }> = [];
+    if (dimension > getSymbolSize(MIN_VERSION)) {
+      const alignment = this.findAlignmentPattern(image, triple, dimension);
+      if (alignment) {
+        quadrilaterals.push({ from: { x: dimension - 6.5, y: dimension - 6.5 }, to: alignment });
+      }
+    }
+    quadrilaterals.push({ from: { x: dimension - 3.5, y: dimension - 3.5 }, to: corner });
+
+    const samples: SampledSymbol[] = [];
+    for (const quadrilateral of quadrilaterals) {
+      try {
+        const transform = PerspectiveTransform.fromPoints([...from, quadrilateral.from], [...to, quadrilateral.to]);
+        samples.push({ matrix: this.sampleGrid(image, transform, dimension), transform });
+      } catch {
+        // Degenerate corners give no sampling
+      }
+    }
+    return samples;
+  }
+
+  sampleGrid(image: BitImage, transform: PerspectiveTransform, dimension: number): QRMatrix {
+    const modules = new Uint8Array(dimension * dimension);
+    for (let row = 0; row < dimension; row++) {
+      for (let col = 0; col < dimension; col++) {
+        const { x, y } = transform.transform(col + 0.5, row + 0.5);
+        modules[row * dimension + col] = image.isDark(Math.floor(x), Math.floor(y)) ? 1 : 0;
+      }
+    }
+    return QRMatrix.fromGrid(dimension, modules);
+  }
+
+  // The corner opposite the longest side is the top left; the others follow clockwise
+  private orderTriple(a: FinderPattern, b: FinderPattern, c: FinderPattern): { triple: FinderTriple; score: number } | undefined {
+    const sizes = [a.moduleSize, b.moduleSize, c.moduleSize];
+    if (Math.max(...sizes) / Math.min(...sizes) > MAX_MODULE_SIZE_RATIO) {
+      return undefined;
+    }
+
+    const sides = [
+      { corner: a, ends: [b, c], length: this.distance(b, c) },
+      { corner: b, ends: [a, c], length: this.distance(a, c) },
+      { corner: c, ends: [a, b], length: this.distance(a, b) }
+    ].sort((x, y) => y.length - x.length);
+    const { corner, ends: [first, second] } = sides[0];
+    const legA = sides[1].length;
+    const legB = sides[2].length;
+
+    const legDifference = (legA - legB) / legA;
+    const cosine = Math.abs(
+      (first.x - corner.x) * (second.x - corner.x) + (first.y - corner.y) * (second.y - corner.y)
+    ) / (legA * legB);
+    const modules = (legA + legB) / 2 / ((a.moduleSize + b.moduleSize + c.moduleSize) / 3);
+    if (
+      legDifference > MAX_LEG_DIFFERENCE ||
+      cosine > MAX_CORNER_COSINE ||
+      modules < MIN_MODULES_BETWEEN_FINDERS ||
+      modules > MAX_MODULES_BETWEEN_FINDERS
+    ) {
+      return undefined;
+    }
+
+    // Image y grows downwards, so top right to bottom left turns clockwise around the top left
+    const cross = (first.x - corner.x) * (second.y - corner.y) - (first.y - corner.y) * (second.x - corner.x);
+    const [topRight, bottomLeft] = cross > 0 ? [first, second] : [second, first];
+    return { triple: { topLeft: corner, topRight, bottomLeft }, score: legDifference + cosine };
+  }
+
+  // Measured along the lines between the finders, which holds for rotated symbols too
+  private estimateModuleSize(image: BitImage, triple: FinderTriple): number {
+    const { topLeft, topRight, bottomLeft } = triple;
+    const sizes = [
+      this.measureFinder(image, topLeft, topRight),
+      this.measureFinder(image, topRight, topLeft),
+      this.measureFinder(image, topLeft, bottomLeft),
+      this.measureFinder(image, bottomLeft, topLeft)
+    ].filter((size): size is number => size !== undefined);
+
+    if (sizes.length === 0) {
+      return (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+    }
+    return sizes.reduce((sum, size) => sum + size, 0) / sizes.length;
+  }
+
+  // From the center, each way through the dark center, the light ring and the dark ring is 3.5 modules
+  private measureFinder(image: BitImage, from: FinderPattern, towards: FinderPattern): number | undefined {
+    const length = this.distance(from, towards);
+    const dx = (towards.x - from.x) / length;
+    const dy = (towards.y - from.y) / length;
+    const forward = this.runToFinderEdge(image, from, dx, dy, from.moduleSize * 6);
+    const backward = this.runToFinderEdge(image, from, -dx, -dy, from.moduleSize * 6);
+    return forward === undefined || backward === undefined ? undefined : (forward + backward) / 7;
+  }
+
+  private runToFinderEdge(image: BitImage, from: Point, dx: number, dy: number, limit: number): number | undefined {
+    let state = 0;
+    for (let step = 0; step <= limit; step++) {
+      const dark = image.isDark(Math.floor(from.x + dx * step), Math.floor(from.y + dy * step));
+      if (state === 0 && !dark) {
+        state = 1;
+      } else if (state === 1 && dark) {
+        state = 2;
+      } else if (state === 2 && !dark) {
+        return step;
+      }
+    }
+    return undefined;
+  }
+
+  // Searches ever wider around where the bottom-right alignment pattern should be
+  private findAlignmentPattern(image: BitImage, triple: FinderTriple, dimension: number): Point | undefined {
+    const { topLeft, topRight, bottomLeft } = triple;
+    const moduleSize = (this.distance(topLeft, topRight) + this.distance(topLeft, bottomLeft)) / 2 / (dimension - 7);
+    const correction = 1 - 3 / (dimension - 7);
+    const estimate = {
+      x: topLeft.x + correction * (topRight.x - topLeft.x + bottomLeft.x - topLeft.x),
+      y: topLeft.y + correction * (topRight.y - topLeft.y + bottomLeft.y - topLeft.y)
+    };
+
+    for (const allowance of [4, 8, 16]) {
+      const radius = allowance * moduleSize;
+      const found = this.searchAlignmentPattern(image, estimate, radius, moduleSize);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  // Rows through the center of an alignment pattern show light, dark, light runs of one module each
+  private searchAlignmentPattern(image: BitImage, estimate: Point, radius: number, moduleSize: number): Point | undefined {
+    const left = Math.max(0, Math.floor(estimate.x - radius));
+    const right = Math.min(image.getWidth() - 1, Math.ceil(estimate.x + radius));
+    const top = Math.max(0, Math.floor(estimate.y - radius));
+    const bottom = Math.min(image.getHeight() - 1, Math.ceil(estimate.y + radius));
+    const fits = (length: number): boolean => Math.abs(length - moduleSize) < moduleSize / 2 + 1;
+
+    let best: Point | undefined;
+    let bestDistance = Infinity;
+    for (let y = top; y <= bottom; y++) {
+      let x = left;
+      while (x <= right) {
+        // Next light, dark, light sequence on this row
+        if (image.isDark(x, y) || !image.isDark(x + 1, y)) {
+          x++;
+          continue;
+        }
+        const darkStart = x + 1;
+        let darkEnd = darkStart;
+        while (darkEnd <= right && image.isDark(darkEnd, y)) {
+          darkEnd++;
+        }
+        const darkLength = darkEnd - darkStart;
+        let lightEnd = darkEnd;
+        while (lightEnd <= right && !image.isDark(lightEnd, y)) {
+          lightEnd++;
+        }
+        let lightStart = x;
+        while (lightStart > left && !image.isDark(lightStart - 1, y)) {
+          lightStart--;
+        }
+        x = darkEnd;
+
+        if (!fits(darkLength) || !fits(darkStart - lightStart) || !fits(lightEnd - darkEnd)) {
+          continue;
+        }
+        const centerX = darkStart + darkLength / 2;
+        const centerY = this.crossCheckAlignment(image, Math.floor(centerX), y, fits);
+        if (centerY === undefined) {
+          continue;
+        }
+        const distance = Math.hypot(centerX - estimate.x, centerY - estimate.y);
+        if (distance < bestDistance) {
+          best = { x: centerX, y: centerY };
+          bestDistance = distance;
+        }
+      }
+    }
+    return best;
+  }
+
+  private crossCheckAlignment(image: BitImage, x: number, y: number, fits: (length: number) => boolean): number | undefined {
+    let up = y;
+    while (up > 0 && image.isDark(x, up - 1)) {
+      up--;
+    }
+    let down = y;
+    while (down < image.getHeight() - 1 && image.isDark(x, down + 1)) {
+      down++;
+    }
+    let lightUp = up;
+    while (lightUp > 0 && !image.isDark(x, lightUp - 1)) {
+      lightUp--;
+    }
+    let lightDown = down;
+    while (lightDown < image.getHeight() - 1 && !image.isDark(x, lightDown + 1)) {
+      lightDown++;
+    }
+
+    if (!fits(down - up + 1) || !fits(up - lightUp) || !fits(lightDown - down)) {
+      return undefined;
+    }
+    return (up + down + 1) / 2;
+  }
+
+  private distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+}
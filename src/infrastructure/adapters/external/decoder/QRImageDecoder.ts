@@ -0,0 +1,137 @@
+import { getSymbolSize } from '../encoder/QRTables';
+import { BitImage } from './BitImage';
+import { FinderPattern, FinderPatternFinder } from './FinderPatternFinder';
+import { FinderTriple, QRDetector, SampledSymbol } from './QRDetector';
+import { DecodedSymbol, QRSymbolDecoder } from './QRSymbolDecoder';
+import { Point } from './PerspectiveTransform';
+
+// Finder patterns tried per image, strongest first. Each symbol needs three and takes at least
+// 100x100 pixels with its quiet zone, so the limit grows with the image from ten symbols to
+// fifty; triples are searched exhaustively, which makes the work grow with its cube
+const MIN_CANDIDATE_PATTERNS = 30;
+const MAX_CANDIDATE_PATTERNS = 150;
+const PIXELS_PER_SYMBOL = 100 * 100;
+// Bounds the work spent on images full of stray finder-like patterns; decoded symbols use up
+// their patterns and do not count
+const MAX_FAILED_ATTEMPTS = 60;
+
+export interface LocatedSymbol extends DecodedSymbol {
+  // Outer corners of the symbol without its quiet zone, in image pixels
+  corners: { topLeft: Point; topRight: Point; bottomRight: Point; bottomLeft: Point };
+}
+
+export interface ImageDecodeResult {
+  symbols: LocatedSymbol[];
+  // Confirmed finder patterns, which tells an empty image from an unreadable code
+  finderPatterns: number;
+  // Whether the symbols were found as light modules on a dark background
+  inverted: boolean;
+  // Whether the search stopped at its limits, so the image may hold more symbols than were found
+  truncated: boolean;
+}
+
+/**
+ * Finds and decodes every QR code in a greyscale image. Each finder pattern
+ * belongs to one symbol at most, so triples are tried best first and the
+ * patterns of a decoded symbol are not reused.
+ */
+export class QRImageDecoder {
+  private readonly finder = new FinderPatternFinder();
+  private readonly detector = new QRDetector();
+  private readonly decoder = new QRSymbolDecoder();
+
+  decode(luminance: Uint8Array, width: number, height: number): ImageDecodeResult {
+    const image = BitImage.fromLuminance(luminance, width, height);
+
+    const regular = this.decodeImage(image);
+    if (regular.symbols.length > 0) {
+      return { ...regular, inverted: false };
+    }
+
+    const inverted = this.decodeImage(image.invert());
+    if (inverted.symbols.length > 0) {
+      return { ...inverted, inverted: true };
+    }
+    return {
+      symbols: [],
+      finderPatterns: Math.max(regular.finderPatterns, inverted.finderPatterns),
+      inverted: false,
+      truncated: regular.truncated || inverted.truncated
+    };
+  }
+
+  private decodeImage(image: BitImage): Omit<ImageDecodeResult, 'inverted'> {
+    const patterns = this.finder.find(image);
+    const symbolsFitting = Math.floor(image.getWidth() * image.getHeight() / PIXELS_PER_SYMBOL);
+    const maxCandidates = Math.min(MAX_CANDIDATE_PATTERNS, Math.max(MIN_CANDIDATE_PATTERNS, 3 * symbolsFitting));
+    const candidates = patterns.slice(0, maxCandidates);
+    const used = new Set<FinderPattern>();
+    const symbols: LocatedSymbol[] = [];
+    let truncated = patterns.length > candidates.length;
+    let failedAttempts = 0;
+
+    for (const triple of this.detector.findTriples(candidates)) {
+      if (used.has(triple.topLeft) || used.has(triple.topRight) || used.has(triple.bottomLeft)) {
+        continue;
+      }
+      if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+        truncated = true;
+        break;
+      }
+
+      const symbol = this.decodeTriple(image, triple);
+      if (symbol) {
+        symbols.push(symbol);
+        used.add(triple.topLeft).add(triple.topRight).add(triple.bottomLeft);
+      } else {
+        failedAttempts++;
+      }
+    }
+
+    return { symbols, finderPatterns: patterns.length, truncated };
+  }
+
+  private decodeTriple(image: BitImage, triple: FinderTriple): LocatedSymbol | undefined {
+    for (const dimension of this.detector.estimateDimensions(image, triple)) {
+      for (const sampled of this.detector.sample(image, triple, dimension)) {
+        const symbol = this.decodeSample(image, triple, sampled);
+        if (symbol) {
+          return symbol;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private decodeSample(image: BitImage, triple: FinderTriple, sampled: SampledSymbol): LocatedSymbol | undefined {
+    let { matrix, transform } = sampled;
+
+    // Version information sits next to the finders, so it reads correctly even when the dimension estimate is off
+    if (matrix.getSize() >= getSymbolSize(7)) {
+      const version = this.decoder.readVersion(matrix);
+      if (version !== undefined && getSymbolSize(version) !== matrix.getSize()) {
+        const [resampled] = this.detector.sample(image, triple, getSymbolSize(version));
+        if (!resampled) {
+          return undefined;
+        }
+        ({ matrix, transform } = resampled);
+      }
+    }
+
+    try {
+      const symbol = this.decoder.decode(matrix);
+      const size = matrix.getSize();
+      return {
+        ...symbol,
+        corners: {
+          topLeft: transform.transform(0, 0),
+          topRight: transform.transform(size, 0),
+          bottomRight: transform.transform(size, size),
+          bottomLeft: transform.transform(0, size)
+        }
+      };
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,419 @@
+import { ErrorCorrectionLevel } from '../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { Charset, CharsetValue } from '../../../../domain/valueObjects/Charset';
+import { QRSegmentInfo } from '../../../../domain/entities/QRCode';
+import { QRMatrix } from '../renderers/QRMatrix';
+import { CharsetCodec } from '../encoder/CharsetCodec';
+import { SegmentMode } from '../encoder/QRSegment';
+import { correctErrors } from '../encoder/ReedSolomon';
+import {
+  MIN_VERSION,
+  MAX_VERSION,
+  FORMAT_LEVEL_BITS,
+  getSymbolSize,
+  getAlignmentPositions,
+  getRawDataModules,
+  getErrorCorrectionBlocks,
+  getFormatBits,
+  getVersionBits,
+  isMasked
+} from '../encoder/QRTables';
+
+// Both BCH codes have a minimum distance of 7, so up to 3 wrong bits are corrected
+const MAX_BCH_ERRORS = 3;
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+// Mode indicators, including those the encoder never writes
+const MODE_INDICATORS = {
+  TERMINATOR: 0x0,
+  NUMERIC: 0x1,
+  ALPHANUMERIC: 0x2,
+  STRUCTURED_APPEND: 0x3,
+  BYTE: 0x4,
+  FNC1_FIRST: 0x5,
+  ECI: 0x7,
+  KANJI: 0x8,
+  FNC1_SECOND: 0x9,
+  HANZI: 0xd
+};
+
+export interface StructuredAppendInfo {
+  index: number;
+  total: number;
+  parity: number;
+}
+
+export interface DecodedSymbol {
+  text: string;
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  maskPattern: number;
+  eciDesignator?: number;
+  segments: QRSegmentInfo[];
+  // Codewords restored by Reed-Solomon error correction
+  correctedCodewords: number;
+  structuredAppend?: StructuredAppendInfo;
+}
+
+class BitReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  available(): number {
+    return this.bytes.length * 8 - this.offset;
+  }
+
+  read(length: number): number {
+    if (length > this.available()) {
+      throw new Error('Bit stream ends inside a segment');
+    }
+    let value = 0;
+    for (let i = 0; i < length; i++, this.offset++) {
+      value = (value << 1) | ((this.bytes[this.offset >>> 3] >>> (7 - (this.offset & 7))) & 1);
+    }
+    return value;
+  }
+}
+
+/**
+ * Reads the content of a sampled QR module grid: format and version
+ * information, unmasking, codeword deinterleaving, Reed-Solomon correction
+ * and the segments of the bit stream.
+ */
+export class QRSymbolDecoder {
+  private readonly codec = new CharsetCodec();
+
+  decode(matrix: QRMatrix): DecodedSymbol {
+    const size = matrix.getSize();
+    const version = (size - 17) / 4;
+    if (!Number.isInteger(version) || version < MIN_VERSION || version > MAX_VERSION) {
+      throw new Error(`A ${size}x${size} grid is not a QR symbol`);
+    }
+    if (version >= 7 && this.readVersion(matrix) !== version) {
+      throw new Error(`Version information does not match a ${size}x${size} grid`);
+    }
+
+    const { level, mask } = this.readFormat(matrix);
+    const codewords = this.readCodewords(matrix, version, mask);
+    const { data, corrected } = this.correct(codewords, version, level);
+
+    return {
+      ...this.parse(data, version),
+      version,
+      errorCorrectionLevel: level,
+      maskPattern: mask,
+      correctedCodewords: corrected
+    };
+  }
+
+  // Version from the two 6x3 blocks next to the top-right and bottom-left finders, for versions 7 and up
+  readVersion(matrix: QRMatrix): number | undefined {
+    const size = matrix.getSize();
+    let topRight = 0;
+    let bottomLeft = 0;
+    for (let i = 0; i < 18; i++) {
+      const a = Math.floor(i / 3);
+      const b = (i % 3) + size - 11;
+      topRight |= (matrix.isDark(a, b) ? 1 : 0) << i;
+      bottomLeft |= (matrix.isDark(b, a) ? 1 : 0) << i;
+    }
+
+    let best: number | undefined;
+    let bestDistance = MAX_BCH_ERRORS + 1;
+    for (let version = 7; version <= MAX_VERSION; version++) {
+      const bits = getVersionBits(version);
+      const distance = Math.min(this.countBits(bits ^ topRight), this.countBits(bits ^ bottomLeft));
+      if (distance < bestDistance) {
+        best = version;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  private readFormat(matrix: QRMatrix): { level: ErrorCorrectionLevel; mask: number } {
+    const size = matrix.getSize();
+    let first = 0;
+    let second = 0;
+    for (let i = 0; i < 15; i++) {
+      const [row, col] = i < 6 ? [i, 8] : i < 8 ? [i + 1, 8] : [size - 15 + i, 8];
+      first |= (matrix.isDark(row, col) ? 1 : 0) << i;
+      const [row2, col2] = i < 8 ? [8, size - i - 1] : i < 9 ? [8, 15 - i] : [8, 14 - i];
+      second |= (matrix.isDark(row2, col2) ? 1 : 0) << i;
+    }
+
+    let best: { level: ErrorCorrectionLevel; mask: number } | undefined;
+    let bestDistance = MAX_BCH_ERRORS + 1;
+    for (const level of Object.values(ErrorCorrectionLevel)) {
+      for (let mask = 0; mask < 8; mask++) {
+        const bits = getFormatBits(FORMAT_LEVEL_BITS[level], mask);
+        const distance = Math.min(this.countBits(bits ^ first), this.countBits(bits ^ second));
+        if (distance < bestDistance) {
+          best = { level, mask };
+          bestDistance = distance;
+        }
+      }
+    }
+
+    if (!best) {
+      throw new Error('Format information is unreadable');
+    }
+    return best;
+  }
+
+  // Data modules in placement order, unmasked and packed into codewords
+  private readCodewords(matrix: QRMatrix, version: number, mask: number): Uint8Array {
+    const size = matrix.getSize();
+    const isFunction = this.buildFunctionMask(version);
+    const codewords = new Uint8Array(Math.floor(getRawDataModules(version) / 8));
+    let bitIndex = 0;
+    let upward = true;
+
+    for (let right = size - 1; right > 0; right -= 2) {
+      if (right === 6) {
+        right--;
+      }
+      for (let step = 0; step < size; step++) {
+        const row = upward ? size - 1 - step : step;
+        for (let offset = 0; offset < 2; offset++) {
+          const col = right - offset;
+          if (isFunction[row * size + col]) {
+            continue;
+          }
+          const byte = bitIndex >>> 3;
+          if (byte < codewords.length && matrix.isDark(row, col) !== isMasked(mask, row, col)) {
+            codewords[byte] |= 1 << (7 - (bitIndex & 7));
+          }
+          bitIndex++;
+        }
+      }
+      upward = !upward;
+    }
+
+    return codewords;
+  }
+
+  private buildFunctionMask(version: number): Uint8Array {
+    const size = getSymbolSize(version);
+    const mask = new Uint8Array(size * size);
+    const mark = (top: number, left: number, height: number, width: number): void => {
+      for (let row = top; row < top + height; row++) {
+        for (let col = left; col < left + width; col++) {
+          mask[row * size + col] = 1;
+        }
+      }
+    };
+
+    // Finders with their separators and format areas, then the timing patterns
+    mark(0, 0, 9, 9);
+    mark(0, size - 8, 9, 8);
+    mark(size - 8, 0, 8, 9);
+    mark(6, 0, 1, size);
+    mark(0, 6, size, 1);
+
+    const positions = getAlignmentPositions(version);
+    const last = positions.length - 1;
+    positions.forEach((row, i) => positions.forEach((col, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      mark(row - 2, col - 2, 5, 5);
+    }));
+
+    if (version >= 7) {
+      mark(0, size - 11, 6, 3);
+      mark(size - 11, 0, 3, 6);
+    }
+
+    return mask;
+  }
+
+  // Splits the interleaved codewords back into blocks and corrects each one
+  private correct(codewords: Uint8Array, version: number, level: ErrorCorrectionLevel): { data: Uint8Array; corrected: number } {
+    const { blocks: blockCount, codewordsPerBlock } = getErrorCorrectionBlocks(version, level);
+    const shortBlocks = blockCount - (codewords.length % blockCount);
+    const shortBlockData = Math.floor(codewords.length / blockCount) - codewordsPerBlock;
+
+    const blocks = Array.from({ length: blockCount }, (_, i) =>
+      new Uint8Array(shortBlockData + (i < shortBlocks ? 0 : 1) + codewordsPerBlock)
+    );
+    let offset = 0;
+    for (let i = 0; i <= shortBlockData; i++) {
+      blocks.forEach(block => {
+        if (i < block.length - codewordsPerBlock) {
+          block[i] = codewords[offset++];
+        }
+      });
+    }
+    for (let i = 0; i < codewordsPerBlock; i++) {
+      blocks.forEach(block => {
+        block[block.length - codewordsPerBlock + i] = codewords[offset++];
+      });
+    }
+
+    let corrected = 0;
+    const data: number[] = [];
+    blocks.forEach(block => {
+      corrected += correctErrors(block, codewordsPerBlock);
+      data.push(...block.subarray(0, block.length - codewordsPerBlock));
+    });
+
+    return { data: Uint8Array.from(data), corrected };
+  }
+
+  private parse(data: Uint8Array, version: number): Pick<DecodedSymbol, 'text' | 'segments' | 'eciDesignator' | 'structuredAppend'> {
+    const reader = new BitReader(data);
+    const countBitsIndex = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+    const segments: QRSegmentInfo[] = [];
+    let text = '';
+    let charset: CharsetValue | undefined;
+    let eciDesignator: number | undefined;
+    let structuredAppend: StructuredAppendInfo | undefined;
+
+    while (reader.available() >= 4) {
+      const indicator = reader.read(4);
+      if (indicator === MODE_INDICATORS.TERMINATOR) {
+        break;
+      }
+
+      switch (indicator) {
+        case MODE_INDICATORS.NUMERIC: {
+          const count = reader.read([10, 12, 14][countBitsIndex]);
+          text += this.readNumeric(reader, count);
+          segments.push({ mode: SegmentMode.NUMERIC, characterCount: count });
+          break;
+        }
+        case MODE_INDICATORS.ALPHANUMERIC: {
+          const count = reader.read([9, 11, 13][countBitsIndex]);
+          text += this.readAlphanumeric(reader, count);
+          segments.push({ mode: SegmentMode.ALPHANUMERIC, characterCount: count });
+          break;
+        }
+        case MODE_INDICATORS.BYTE: {
+          const count = reader.read([8, 16, 16][countBitsIndex]);
+          const bytes = Buffer.alloc(count);
+          for (let i = 0; i < count; i++) {
+            bytes[i] = reader.read(8);
+          }
+          text += this.codec.decode(bytes, charset ?? this.guessCharset(bytes));
+          segments.push({ mode: SegmentMode.BYTE, characterCount: count });
+          break;
+        }
+        case MODE_INDICATORS.KANJI: {
+          const count = reader.read([8, 10, 12][countBitsIndex]);
+          text += this.readDoubleByte(reader, count, value => value + (value < 0x1f00 ? 0x8140 : 0xc140), 0xc0, Charset.SHIFT_JIS);
+          segments.push({ mode: SegmentMode.KANJI, characterCount: count });
+          break;
+        }
+        case MODE_INDICATORS.HANZI: {
+          // Subset 1 is GB2312; the others are not defined
+          if (reader.read(4) !== 1) {
+            throw new Error('Unsupported Hanzi subset');
+          }
+          const count = reader.read([8, 10, 12][countBitsIndex]);
+          text += this.readDoubleByte(reader, count, value => value + (value < 0x0a00 ? 0xa1a1 : 0xa6a1), 0x60, Charset.GB2312);
+          segments.push({ mode: 'hanzi', characterCount: count });
+          break;
+        }
+        case MODE_INDICATORS.ECI: {
+          const designator = this.readEciDesignator(reader);
+          charset = CharsetValue.fromEciDesignator(designator);
+          eciDesignator = eciDesignator ?? designator;
+          break;
+        }
+        case MODE_INDICATORS.STRUCTURED_APPEND:
+          structuredAppend = { index: reader.read(4), total: reader.read(4) + 1, parity: reader.read(8) };
+          break;
+        case MODE_INDICATORS.FNC1_FIRST:
+          break;
+        case MODE_INDICATORS.FNC1_SECOND:
+          // Application indicator
+          reader.read(8);
+          break;
+        default:
+          throw new Error(`Unknown mode indicator: ${indicator}`);
+      }
+    }
+
+    return { text, segments, eciDesignator, structuredAppend };
+  }
+
+  private readNumeric(reader: BitReader, count: number): string {
+    let digits = '';
+    for (let remaining = count; remaining > 0; remaining -= 3) {
+      const length = Math.min(remaining, 3);
+      const value = reader.read(length * 3 + 1);
+      if (value >= 10 ** length) {
+        throw new Error('Invalid numeric segment');
+      }
+      digits += value.toString().padStart(length, '0');
+    }
+    return digits;
+  }
+
+  private readAlphanumeric(reader: BitReader, count: number): string {
+    let chars = '';
+    for (let remaining = count; remaining > 0; remaining -= 2) {
+      if (remaining >= 2) {
+        const value = reader.read(11);
+        if (value >= 45 * 45) {
+          throw new Error('Invalid alphanumeric segment');
+        }
+        chars += ALPHANUMERIC_CHARSET[Math.floor(value / 45)] + ALPHANUMERIC_CHARSET[value % 45];
+      } else {
+        const value = reader.read(6);
+        if (value >= 45) {
+          throw new Error('Invalid alphanumeric segment');
+        }
+        chars += ALPHANUMERIC_CHARSET[value];
+      }
+    }
+    return chars;
+  }
+
+  // Kanji and Hanzi pack each two-byte character into 13 bits
+  private readDoubleByte(reader: BitReader, count: number, offset: (value: number) => number, base: number, charset: Charset): string {
+    const bytes = Buffer.alloc(count * 2);
+    for (let i = 0; i < count; i++) {
+      const packed = reader.read(13);
+      const value = offset(((Math.floor(packed / base)) << 8) | (packed % base));
+      bytes[i * 2] = value >> 8;
+      bytes[i * 2 + 1] = value & 0xff;
+    }
+    return this.codec.decode(bytes, CharsetValue.create(charset));
+  }
+
+  // One to three bytes, with the length in the leading bits of the first
+  private readEciDesignator(reader: BitReader): number {
+    const first = reader.read(8);
+    if ((first & 0x80) === 0) {
+      return first;
+    }
+    if ((first & 0xc0) === 0x80) {
+      return ((first & 0x3f) << 8) | reader.read(8);
+    }
+    if ((first & 0xe0) === 0xc0) {
+      return ((first & 0x1f) << 16) | reader.read(16);
+    }
+    throw new Error('Invalid ECI designator');
+  }
+
+  // Without an ECI the standard says ISO-8859-1, but most generators write UTF-8 anyway
+  private guessCharset(bytes: Buffer): CharsetValue {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      return CharsetValue.default();
+    } catch {
+      return CharsetValue.create(Charset.ISO_8859_1);
+    }
+  }
+
+  private countBits(value: number): number {
+    let count = 0;
+    for (let rest = value; rest !== 0; rest &= rest - 1) {
+      count++;
+    }
+    return count;
+  }
+}
@@ -0,0 +1,190 @@
+import { QRImageDecoder } from '../QRImageDecoder';
+import { PerspectiveTransform, Point } from '../PerspectiveTransform';
+import { QREncoder } from '../../encoder/QREncoder';
+import { QRMatrix } from '../../renderers/QRMatrix';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+import { ErrorCorrectionLevel } from '../../../../../domain/valueObjects/ErrorCorrectionLevel';
+
+interface Placement {
+  matrix: QRMatrix;
+  // Image positions of the symbol's top-left, top-right, bottom-right and bottom-left corners
+  corners: Point[];
+}
+
+// Paints symbols onto a white canvas, each through its own perspective transform
+const paint = (width: number, height: number, placements: Placement[]): Uint8Array => {
+  const luminance = new Uint8Array(width * height).fill(255);
+  placements.forEach(({ matrix, corners }) => {
+    const size = matrix.getSize();
+    const toModules = PerspectiveTransform.fromPoints(corners, [
+      { x: 0, y: 0 }, { x: size, y: 0 }, { x: size, y: size }, { x: 0, y: size }
+    ]);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const { x: col, y: row } = toModules.transform(x + 0.5, y + 0.5);
+        if (col >= 0 && row >= 0 && col < size && row < size && matrix.isDark(Math.floor(row), Math.floor(col))) {
+          luminance[y * width + x] = 20;
+        }
+      }
+    }
+  });
+  return luminance;
+};
+
+const square = (left: number, top: number, side: number): Point[] => [
+  { x: left, y: top }, { x: left + side, y: top }, { x: left + side, y: top + side }, { x: left, y: top + side }
+];
+
+describe('QRImageDecoder', () => {
+  const encoder = new QREncoder();
+  const decoder = new QRImageDecoder();
+
+  const encode = (text: string, level = ErrorCorrectionLevel.MEDIUM, charset = CharsetValue.default()) =>
+    encoder.encodeText(text, charset, level);
+
+  it.each(Object.values(ErrorCorrectionLevel))('should read back a symbol at level %s', level => {
+    const matrix = encode('https://example.com/menu?table=12', level);
+    const side = matrix.getSize() * 4;
+    const result = decoder.decode(paint(side + 40, side + 40, [{ matrix, corners: square(20, 20, side) }]), side + 40, side + 40);
+
+    expect(result.symbols).toHaveLength(1);
+    expect(result.symbols[0]).toMatchObject({
+      text: 'https://example.com/menu?table=12',
+      version: matrix.getVersion(),
+      errorCorrectionLevel: level,
+      maskPattern: matrix.getMaskPattern(),
+      correctedCodewords: 0
+    });
+    expect(result.symbols[0].corners.topLeft.x).toBeCloseTo(20, 0);
+    expect(result.symbols[0].corners.bottomRight.y).toBeCloseTo(20 + side, 0);
+  });
+
+  it('should read versions that carry version information', () => {
+    const text = 'Version information blocks start at version 7. '.repeat(8);
+    const matrix = encode(text, ErrorCorrectionLevel.LOW);
+    const side = matrix.getSize() * 3;
+    const result = decoder.decode(paint(side + 30, side + 30, [{ matrix, corners: square(15, 15, side) }]), side + 30, side + 30);
+
+    expect(matrix.getVersion()).toBeGreaterThanOrEqual(7);
+    expect(result.symbols.map(symbol => [symbol.text, symbol.version])).toEqual([[text, matrix.getVersion()]]);
+  });
+
+  it('should decode numeric, alphanumeric, byte and Kanji segments and ECI charsets', () => {
+    const cases: Array<[string, CharsetValue, number | undefined, string[]]> = [
+      ['0123456789012345', CharsetValue.default(), undefined, ['numeric']],
+      ['HELLO WORLD $%*+-./:', CharsetValue.default(), undefined, ['alphanumeric']],
+      ['Zażółć gęślą jaźń', CharsetValue.create('ISO-8859-2'), 4, ['byte']],
+      ['QRコード読み取り', CharsetValue.create('Shift_JIS'), undefined, ['alphanumeric', 'kanji']]
+    ];
+
+    cases.forEach(([text, charset, eci, modes]) => {
+      const matrix = encode(text, ErrorCorrectionLevel.MEDIUM, charset);
+      const side = matrix.getSize() * 4;
+      const [symbol] = decoder.decode(paint(side + 40, side + 40, [{ matrix, corners: square(20, 20, side) }]), side + 40, side + 40).symbols;
+
+      expect(symbol.text).toBe(text);
+      expect(symbol.eciDesignator).toBe(eci);
+      expect(symbol.segments.map(segment => segment.mode)).toEqual(modes);
+    });
+  });
+
+  it('should find every symbol in the image', () => {
+    const first = encode('first');
+    const second = encode('second code, a little longer');
+    const third = encode('third');
+    const luminance = paint(600, 400, [
+      { matrix: first, corners: square(20, 20, 120) },
+      { matrix: second, corners: square(300, 40, 200) },
+      { matrix: third, corners: square(60, 240, 110) }
+    ]);
+
+    const texts = decoder.decode(luminance, 600, 400).symbols.map(symbol => symbol.text);
+
+    expect(texts.sort()).toEqual(['first', 'second code, a little longer', 'third']);
+  });
+
+  it('should search more finder patterns in larger images', () => {
+    const texts = Array.from({ length: 12 }, (_, i) => `code ${i + 1}`);
+    const grid = (cell: number, side: number) => texts.map((text, i) => ({
+      matrix: encode(text),
+      corners: square((i % 4) * cell + 10, Math.floor(i / 4) * cell + 10, side)
+    }));
+
+    const large = decoder.decode(paint(800, 600, grid(200, 105)), 800, 600);
+    expect(large.symbols.map(symbol => symbol.text).sort()).toEqual([...texts].sort());
+    expect(large.truncated).toBe(false);
+
+    const small = decoder.decode(paint(340, 260, grid(84, 63)), 340, 260);
+    expect(small.symbols.length).toBeLessThan(12);
+    expect(small.truncated).toBe(true);
+  });
+
+  it('should follow rotation and perspective', () => {
+    const matrix = encode('seen at an angle');
+    const corners = [{ x: 90, y: 20 }, { x: 290, y: 70 }, { x: 250, y: 270 }, { x: 40, y: 230 }];
+    const result = decoder.decode(paint(320, 300, [{ matrix, corners }]), 320, 300);
+
+    expect(result.symbols).toHaveLength(1);
+    expect(result.symbols[0].text).toBe('seen at an angle');
+    expect(result.symbols[0].corners.topRight.x).toBeCloseTo(290, -1);
+    expect(result.symbols[0].corners.topRight.y).toBeCloseTo(70, -1);
+  });
+
+  it('should read symbols rotated by a quarter turn', () => {
+    const matrix = encode('turned a quarter');
+    const side = matrix.getSize() * 5;
+    const corners = [{ x: 20 + side, y: 20 }, { x: 20 + side, y: 20 + side }, { x: 20, y: 20 + side }, { x: 20, y: 20 }];
+
+    expect(decoder.decode(paint(side + 40, side + 40, [{ matrix, corners }]), side + 40, side + 40).symbols[0].text).toBe('turned a quarter');
+  });
+
+  it('should restore damaged modules with error correction', () => {
+    const matrix = encode('damaged but readable', ErrorCorrectionLevel.HIGH);
+    const side = matrix.getSize() * 6;
+    const width = side + 40;
+    const luminance = paint(width, width, [{ matrix, corners: square(20, 20, side) }]);
+    // A dark blot over the middle of the symbol
+    for (let y = 20 + side * 0.4; y < 20 + side * 0.6; y++) {
+      for (let x = 20 + side * 0.4; x < 20 + side * 0.6; x++) {
+        luminance[Math.floor(y) * width + Math.floor(x)] = 0;
+      }
+    }
+
+    const [symbol] = decoder.decode(luminance, width, width).symbols;
+
+    expect(symbol.text).toBe('damaged but readable');
+    expect(symbol.correctedCodewords).toBeGreaterThan(0);
+  });
+
+  it('should read light symbols on a dark background', () => {
+    const matrix = encode('inverted');
+    const side = matrix.getSize() * 4;
+    const luminance = paint(side + 40, side + 40, [{ matrix, corners: square(20, 20, side) }]).map(value => 255 - value);
+
+    const result = decoder.decode(luminance, side + 40, side + 40);
+
+    expect(result.inverted).toBe(true);
+    expect(result.symbols[0].text).toBe('inverted');
+  });
+
+  it('should report no symbols, and no finder patterns, for an empty image', () => {
+    expect(decoder.decode(new Uint8Array(200 * 100).fill(230), 200, 100)).toEqual({ symbols: [], finderPatterns: 0, inverted: false, truncated: false });
+  });
+
+  it('should count finder patterns it could not decode', () => {
+    const matrix = encode('too damaged', ErrorCorrectionLevel.LOW);
+    const side = matrix.getSize() * 4;
+    const width = side + 40;
+    const luminance = paint(width, width, [{ matrix, corners: square(20, 20, side) }]);
+    for (let y = 20 + side * 0.45; y < 20 + side; y++) {
+      for (let x = 20 + side * 0.45; x < 20 + side; x++) {
+        luminance[Math.floor(y) * width + Math.floor(x)] = 255;
+      }
+    }
+
+    const result = decoder.decode(luminance, width, width);
+
+    expect(result.symbols).toEqual([]);
+    expect(result.finderPatterns).toBe(3);
+  });
+});
@@ -0,0 +1,506 @@
+import { CharsetValue } from '../../../../domain/valueObjects/Charset';
+import { QRCapacity } from '../../../../application/ports';
+import { QRMatrix } from '../renderers/QRMatrix';
+import { CharsetCodec } from './CharsetCodec';
+import { GaloisField } from './GaloisField';
+
+enum TextMode {
+  UPPER,
+  LOWER,
+  MIXED,
+  DIGIT
+}
+
+export interface AztecLayout {
+  compact: boolean;
+  layers: number;
+  // Bits per codeword, set by the number of layers
+  wordSize: number;
+  // Data codewords after bit stuffing; the rest of the layers hold error correction
+  dataWords: number;
+}
+
+const MAX_LAYERS = 32;
+const COMPACT_MAX_LAYERS = 4;
+// Compact symbols count data codewords in 6 bits
+const COMPACT_MAX_DATA_WORDS = 64;
+const BINARY_SHIFT_MAX = 2078;
+
+// Punctuation table from code 1; only single characters are written, each with its own shift
+const PUNCTUATION = [
+  '\r', '\r\n', '. ', ', ', ': ', '!', '"', '#', '$', '%', '&', '\'', '(', ')', '*', '+', ',', '-', '.', '/', ':', ';',
+  '<', '=', '>', '?', '[', ']', '{', '}'
+];
+const MIXED = '\x01\x02\x03\x04\x05\x06\x07\x08\x09\x0a\x0b\x0c\x0d\x1b\x1c\x1d\x1e\x1f@\\^_`|~\x7f';
+
+// Latch and shift codes, by the mode they are written in
+const LATCH_LOWER = 28;
+const LATCH_MIXED = 29;
+const LATCH_DIGIT = 30;
+const BINARY_SHIFT = 31;
+const PUNCT_SHIFT = 0;
+const LOWER_UPPER_SHIFT = 28;
+const MIXED_LATCH_UPPER = 29;
+const MIXED_LATCH_LOWER = 28;
+const DIGIT_LATCH_UPPER = 14;
+const DIGIT_UPPER_SHIFT = 15;
+const FLG = 0;
+
+/**
+ * Builds Aztec symbols (ISO/IEC 24778): compact symbols of 1 to 4 layers
+ * and full-range symbols of 4 to 32 layers around a bullseye finder. Text
+ * is written with the upper, lower, mixed, digit and punctuation tables
+ * and bytes without a table entry with binary shift.
+ */
+export class AztecEncoder {
+  private readonly charsetCodec = new CharsetCodec();
+
+  // Encodes text in the given charset; the minimum error correction is a share of the data bits
+  encodeText(text: string, charset: CharsetValue, errorCorrectionPercent: number): QRMatrix {
+    const bits = this.encodeData(text, charset);
+    const layout = this.findLayout(bits, errorCorrectionPercent);
+    if (!layout) {
+      throw new Error(
+        `The amount of data is too big to be stored in an Aztec symbol with ${errorCorrectionPercent}% error correction`
+      );
+    }
+
+    return this.encode(bits, layout);
+  }
+
+  // Checks the text against the largest symbol without building it
+  measure(text: string, charset: CharsetValue, errorCorrectionPercent: number): QRCapacity {
+    const chars = [...text];
+    const fitsPrefix = (length: number): boolean =>
+      this.findLayout(this.encodeData(chars.slice(0, length).join(''), charset), errorCorrectionPercent) !== undefined;
+
+    const layout = this.findLayout(this.encodeData(text, charset), errorCorrectionPercent);
+    if (layout) {
+      return { fits: true, maxCharacters: chars.length, moduleCount: getSymbolSize(layout) };
+    }
+
+    // Longest prefix that fits; a longer text never needs fewer bits
+    let low = 0;
+    let high = chars.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fitsPrefix(middle)) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return { fits: false, maxCharacters: low };
+  }
+
+  // Data bits before stuffing, starting in upper mode
+  encodeData(text: string, charset: CharsetValue): number[] {
+    const bytes = this.charsetCodec.encode(text, charset);
+    const designator = this.charsetCodec.getEciDesignator(text, charset);
+    const writer = new AztecBitWriter();
+
+    if (designator !== undefined) {
+      writer.flag(designator);
+    }
+
+    for (let i = 0; i < bytes.length; i++) {
+      const value = bytes[i];
+      if (writer.hasCode(value)) {
+        writer.write(value);
+      } else if (PUNCTUATION.includes(String.fromCharCode(value))) {
+        writer.shiftPunctuation(value);
+      } else if (getTextMode(value) !== undefined) {
+        const mode = getTextMode(value)!;
+        // A single capital between lowercase letters or digits is shifted rather than latched
+        const nextIsUpper = i + 1 < bytes.length && getTextMode(bytes[i + 1]) === TextMode.UPPER;
+        if (mode === TextMode.UPPER && !nextIsUpper && writer.canShiftUpper()) {
+          writer.shiftUpper(value);
+        } else {
+          writer.latch(mode);
+          writer.write(value);
+        }
+      } else {
+        let end = i;
+        while (end < bytes.length && getTextMode(bytes[end]) === undefined &&
+          !PUNCTUATION.includes(String.fromCharCode(bytes[end]))) {
+          end++;
+        }
+        writer.binary(bytes.subarray(i, end));
+        i = end - 1;
+      }
+    }
+
+    return writer.getBits();
+  }
+
+  // Smallest symbol whose layers hold the data plus the minimum error correction
+  findLayout(bits: number[], errorCorrectionPercent: number): AztecLayout | undefined {
+    const errorCorrectionBits = Math.floor(bits.length * errorCorrectionPercent / 100) + 11;
+    const totalBits = bits.length + errorCorrectionBits;
+
+    for (let i = 0; i <= MAX_LAYERS; i++) {
+      const compact = i < COMPACT_MAX_LAYERS;
+      const layers = compact ? i + 1 : i;
+      const layerBits = getLayerBits(layers, compact);
+      if (totalBits > layerBits) {
+        continue;
+      }
+
+      const wordSize = getWordSize(layers);
+      const dataWords = this.stuffBits(bits, wordSize).length;
+      if (compact && dataWords > COMPACT_MAX_DATA_WORDS) {
+        continue;
+      }
+      const usableBits = layerBits - (layerBits % wordSize);
+      if (dataWords * wordSize + errorCorrectionBits <= usableBits) {
+        return { compact, layers, wordSize, dataWords };
+      }
+    }
+
+    return undefined;
+  }
+
+  encode(bits: number[], layout: AztecLayout): QRMatrix {
+    const { compact, layers, wordSize } = layout;
+    const dataWords = this.stuffBits(bits, wordSize);
+    const layerBits = getLayerBits(layers, compact);
+    const messageBits = this.addErrorCorrection(dataWords, Math.floor(layerBits / wordSize), wordSize, layerBits % wordSize);
+
+    const modeMessage = this.buildModeMessage(compact, layers, dataWords.length);
+
+    return this.draw(messageBits, modeMessage, layout);
+  }
+
+  // Layer and data codeword counts, protected by their own error correction in GF(16)
+  private buildModeMessage(compact: boolean, layers: number, dataWordCount: number): number[] {
+    if (compact) {
+      const value = ((layers - 1) << 6) | (dataWordCount - 1);
+      return this.addErrorCorrection([value >> 4, value & 0xf], 7, 4, 0);
+    }
+
+    const value = ((layers - 1) << 11) | (dataWordCount - 1);
+    return this.addErrorCorrection([value >> 12, (value >> 8) & 0xf, (value >> 4) & 0xf, value & 0xf], 10, 4, 0);
+  }
+
+  // Codewords whose leading bits are all equal get a complementing last bit,
+  // so no codeword is all zeros or all ones; the bits it displaces move on
+  private stuffBits(bits: number[], wordSize: number): number[] {
+    const words: number[] = [];
+    const mask = (1 << wordSize) - 2;
+
+    for (let i = 0; i < bits.length; i += wordSize) {
+      let word = 0;
+      for (let j = 0; j < wordSize; j++) {
+        if (i + j >= bits.length || bits[i + j] === 1) {
+          word |= 1 << (wordSize - 1 - j);
+        }
+      }
+
+      if ((word & mask) === mask) {
+        words.push(word & mask);
+        i--;
+      } else if ((word & mask) === 0) {
+        words.push(word | 1);
+        i--;
+      } else {
+        words.push(word);
+      }
+    }
+
+    return words;
+  }
+
+  // Data and check words as bits, after the leading bits the layers cannot fill with whole words
+  private addErrorCorrection(words: number[], totalWords: number, wordSize: number, startPad: number): number[] {
+    const field = getField(wordSize);
+    const check = field.computeErrorCorrection(words, totalWords - words.length);
+    const bits = new Array<number>(startPad).fill(0);
+
+    [...words, ...check].forEach(word => {
+      for (let i = wordSize - 1; i >= 0; i--) {
+        bits.push((word >> i) & 1);
+      }
+    });
+
+    return bits;
+  }
+
+  private draw(messageBits: number[], modeMessage: number[], layout: AztecLayout): QRMatrix {
+    const { compact, layers } = layout;
+    const baseSize = (compact ? 11 : 14) + layers * 4;
+
+    // Full-range symbols have reference grid lines every 16 modules from the center
+    const alignmentMap: number[] = [];
+    let size: number;
+    if (compact) {
+      size = baseSize;
+      for (let i = 0; i < baseSize; i++) {
+        alignmentMap[i] = i;
+      }
+    } else {
+      size = getSymbolSize(layout);
+      const originalCenter = Math.floor(baseSize / 2);
+      const center = Math.floor(size / 2);
+      for (let i = 0; i < originalCenter; i++) {
+        const offset = i + Math.floor(i / 15);
+        alignmentMap[originalCenter - i - 1] = center - offset - 1;
+        alignmentMap[originalCenter + i] = center + offset + 1;
+      }
+    }
+
+    const modules = new Uint8Array(size * size);
+    const set = (x: number, y: number) => {
+      modules[y * size + x] = 1;
+    };
+
+    // Layers are written from the outside in, two modules deep, one side after the other
+    let rowOffset = 0;
+    for (let i = 0; i < layers; i++) {
+      const rowSize = (layers - i) * 4 + (compact ? 9 : 12);
+      for (let j = 0; j < rowSize; j++) {
+        const columnOffset = j * 2;
+        for (let k = 0; k < 2; k++) {
+          if (messageBits[rowOffset + columnOffset + k]) {
+            set(alignmentMap[i * 2 + k], alignmentMap[i * 2 + j]);
+          }
+          if (messageBits[rowOffset + rowSize * 2 + columnOffset + k]) {
+            set(alignmentMap[i * 2 + j], alignmentMap[baseSize - 1 - i * 2 - k]);
+          }
+          if (messageBits[rowOffset + rowSize * 4 + columnOffset + k]) {
+            set(alignmentMap[baseSize - 1 - i * 2 - k], alignmentMap[baseSize - 1 - i * 2 - j]);
+          }
+          if (messageBits[rowOffset + rowSize * 6 + columnOffset + k]) {
+            set(alignmentMap[baseSize - 1 - i * 2 - j], alignmentMap[i * 2 + k]);
+          }
+        }
+      }
+      rowOffset += rowSize * 8;
+    }
+
+    const center = Math.floor(size / 2);
+    this.drawModeMessage(set, modeMessage, compact, center);
+
+    if (compact) {
+      this.drawBullsEye(set, center, 5);
+    } else {
+      this.drawBullsEye(set, center, 7);
+      for (let i = 0, j = 0; i < Math.floor(baseSize / 2) - 1; i += 15, j += 16) {
+        for (let k = center & 1; k < size; k += 2) {
+          set(center - j, k);
+          set(center + j, k);
+          set(k, center - j);
+          set(k, center + j);
+        }
+      }
+    }
+
+    return QRMatrix.fromGrid(size, modules);
+  }
+
+  // Mode message bits run clockwise around the bullseye, skipping the reference lines
+  private drawModeMessage(set: (x: number, y: number) => void, modeMessage: number[], compact: boolean, center: number): void {
+    if (compact) {
+      for (let i = 0; i < 7; i++) {
+        const offset = center - 3 + i;
+        const sides: Array<[number, number, number]> = [
+          [i, offset, center - 5], [i + 7, center + 5, offset], [20 - i, offset, center + 5], [27 - i, center - 5, offset]
+        ];
+        sides.forEach(([bit, x, y]) => modeMessage[bit] && set(x, y));
+      }
+      return;
+    }
+
+    for (let i = 0; i < 10; i++) {
+      const offset = center - 5 + i + Math.floor(i / 5);
+      if (modeMessage[i]) set(offset, center - 7);
+      if (modeMessage[i + 10]) set(center + 7, offset);
+      if (modeMessage[29 - i]) set(offset, center + 7);
+      if (modeMessage[39 - i]) set(center - 7, offset);
+    }
+  }
+
+  // Concentric dark rings with the orientation marks at the corners of the mode message
+  private drawBullsEye(set: (x: number, y: number) => void, center: number, size: number): void {
+    for (let i = 0; i < size; i += 2) {
+      for (let j = center - i; j <= center + i; j++) {
+        set(j, center - i);
+        set(j, center + i);
+        set(center - i, j);
+        set(center + i, j);
+      }
+    }
+    set(center - size, center - size);
+    set(center - size + 1, center - size);
+    set(center - size, center - size + 1);
+    set(center + size, center - size);
+    set(center + size, center - size + 1);
+    set(center + size, center + size - 1);
+  }
+}
+
+/**
+ * Appends mode codes to the bit stream, tracking the latched text mode.
+ */
+class AztecBitWriter {
+  private readonly bits: number[] = [];
+  private mode = TextMode.UPPER;
+
+  getBits(): number[] {
+    return this.bits;
+  }
+
+  hasCode(value: number): boolean {
+    return getCode(this.mode, value) !== undefined;
+  }
+
+  write(value: number): void {
+    this.append(getCode(this.mode, value)!, this.codeBits());
+  }
+
+  canShiftUpper(): boolean {
+    return this.mode === TextMode.LOWER || this.mode === TextMode.DIGIT;
+  }
+
+  shiftUpper(value: number): void {
+    this.append(this.mode === TextMode.DIGIT ? DIGIT_UPPER_SHIFT : LOWER_UPPER_SHIFT, this.codeBits());
+    this.append(getCode(TextMode.UPPER, value)!, 5);
+  }
+
+  shiftPunctuation(value: number): void {
+    this.append(PUNCT_SHIFT, this.codeBits());
+    this.append(PUNCTUATION.indexOf(String.fromCharCode(value)) + 1, 5);
+  }
+
+  // FLG(n) followed by the designator's n digits declares an ECI
+  flag(designator: number): void {
+    const digits = designator.toString();
+    this.append(PUNCT_SHIFT, this.codeBits());
+    this.append(FLG, 5);
+    this.append(digits.length, 3);
+    [...digits].forEach(digit => this.append(Number(digit) + 2, 4));
+  }
+
+  latch(target: TextMode): void {
+    if (this.mode === target) {
+      return;
+    }
+
+    // Modes without a direct latch go through upper mode
+    if (this.mode === TextMode.DIGIT) {
+      this.append(DIGIT_LATCH_UPPER, 4);
+      this.mode = TextMode.UPPER;
+    } else if (this.mode === TextMode.LOWER && target === TextMode.UPPER) {
+      this.append(LATCH_DIGIT, 5);
+      this.append(DIGIT_LATCH_UPPER, 4);
+      this.mode = TextMode.UPPER;
+    } else if (this.mode === TextMode.MIXED && target !== TextMode.LOWER) {
+      this.append(MIXED_LATCH_UPPER, 5);
+      this.mode = TextMode.UPPER;
+    }
+    if (this.mode === target) {
+      return;
+    }
+
+    switch (target) {
+      case TextMode.LOWER:
+        this.append(this.mode === TextMode.MIXED ? MIXED_LATCH_LOWER : LATCH_LOWER, 5);
+        break;
+      case TextMode.MIXED:
+        this.append(LATCH_MIXED, 5);
+        break;
+      case TextMode.DIGIT:
+        this.append(LATCH_DIGIT, 5);
+        break;
+      default:
+        break;
+    }
+    this.mode = target;
+  }
+
+  // Runs of up to 31 bytes take a 5-bit length; longer runs a 16-bit one
+  binary(bytes: Uint8Array): void {
+    if (this.mode === TextMode.DIGIT) {
+      this.latch(TextMode.UPPER);
+    }
+
+    let start = 0;
+    while (start < bytes.length) {
+      const remaining = bytes.length - start;
+      const count = remaining > 62 ? Math.min(remaining, BINARY_SHIFT_MAX) : Math.min(remaining, 31);
+
+      this.append(BINARY_SHIFT, 5);
+      if (count > 31) {
+        this.append(count - 31, 16);
+      } else {
+        this.append(count, 5);
+      }
+      bytes.subarray(start, start + count).forEach(value => this.append(value, 8));
+      start += count;
+    }
+  }
+
+  private codeBits(): number {
+    return this.mode === TextMode.DIGIT ? 4 : 5;
+  }
+
+  private append(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.bits.push((value >> i) & 1);
+    }
+  }
+}
+
+// Code of a byte in a text mode's table, if it has one
+function getCode(mode: TextMode, value: number): number | undefined {
+  const char = String.fromCharCode(value);
+  if (char === ' ') {
+    return 1;
+  }
+
+  switch (mode) {
+    case TextMode.UPPER:
+      return char >= 'A' && char <= 'Z' ? value - 0x41 + 2 : undefined;
+    case TextMode.LOWER:
+      return char >= 'a' && char <= 'z' ? value - 0x61 + 2 : undefined;
+    case TextMode.DIGIT:
+      if (char >= '0' && char <= '9') {
+        return value - 0x30 + 2;
+      }
+      return char === ',' ? 12 : char === '.' ? 13 : undefined;
+    default:
+      return MIXED.includes(char) ? MIXED.indexOf(char) + 2 : undefined;
+  }
+}
+
+// Text mode to latch to for a byte; punctuation is only ever shifted to
+function getTextMode(value: number): TextMode | undefined {
+  return [TextMode.UPPER, TextMode.LOWER, TextMode.DIGIT, TextMode.MIXED].find(mode => getCode(mode, value) !== undefined);
+}
+
+function getLayerBits(layers: number, compact: boolean): number {
+  return ((compact ? 88 : 112) + 16 * layers) * layers;
+}
+
+// Full-range symbols grow by their reference grid lines
+function getSymbolSize({ compact, layers }: AztecLayout): number {
+  const baseSize = (compact ? 11 : 14) + layers * 4;
+  return compact ? baseSize : baseSize + 1 + 2 * Math.floor((Math.floor(baseSize / 2) - 1) / 15);
+}
+
+function getWordSize(layers: number): number {
+  if (layers <= 2) return 6;
+  if (layers <= 8) return 8;
+  if (layers <= 22) return 10;
+  return 12;
+}
+
+function getField(wordSize: number): GaloisField {
+  switch (wordSize) {
+    case 4: return GaloisField.AZTEC_PARAM;
+    case 6: return GaloisField.AZTEC_DATA_6;
+    case 8: return GaloisField.AZTEC_DATA_8;
+    case 10: return GaloisField.AZTEC_DATA_10;
+    default: return GaloisField.AZTEC_DATA_12;
+  }
+}
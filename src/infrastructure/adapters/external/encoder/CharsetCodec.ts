@@ -0,0 +1,50 @@
+import * as iconv from 'iconv-lite';
+import { Charset, CharsetValue } from '../../../../domain/valueObjects/Charset';
+import { ValidationError } from '../../../../shared/errors';
+
+/**
+ * Converts between text and the byte encodings of the supported charsets.
+ */
+export class CharsetCodec {
+  encode(text: string, charset: CharsetValue): Buffer {
+    const bytes = this.tryEncode(text, charset);
+
+    if (!bytes) {
+      const unsupported = [...text].find(char => !this.tryEncode(char, charset));
+      throw new ValidationError(
+        `Data contains characters that cannot be encoded in ${charset}${unsupported ? `: "${unsupported}"` : ''}`,
+        { field: 'charset-target', value: charset.toString() }
+      );
+    }
+
+    return bytes;
+  }
+
+  // Undefined when the charset cannot represent the text
+  tryEncode(text: string, charset: CharsetValue): Buffer | undefined {
+    const bytes = iconv.encode(text, charset.getValue());
+
+    // iconv-lite substitutes unmappable characters, so a lossy encoding shows up on the way back
+    return iconv.decode(bytes, charset.getValue()) === text ? bytes : undefined;
+  }
+
+  // Designator that declares the charset, or undefined when the text reads the same in the default ISO-8859-1
+  getEciDesignator(text: string, charset: CharsetValue): number | undefined {
+    if ([...text].every(char => char.charCodeAt(0) < 0x80) && charset.isAsciiCompatible()) {
+      return undefined;
+    }
+
+    const designator = charset.getEciDesignator();
+    if (designator === undefined) {
+      throw new Error(`Charset ${charset} has no ECI designator`);
+    }
+    return designator;
+  }
+
+  decode(bytes: Buffer, charset: CharsetValue): string {
+    const text = iconv.decode(bytes, charset.getValue());
+
+    // Windows-1258 writes most Vietnamese letters as a base letter plus a combining tone mark
+    return charset.getValue() === Charset.WINDOWS_1258 ? text.normalize('NFC') : text;
+  }
+}
@@ -0,0 +1,164 @@
+import { LinearSymbol, widthsToModules } from './LinearSymbol';
+
+export type Code128Set = 'A' | 'B' | 'C';
+
+export interface Code128Symbol extends LinearSymbol {
+  // Symbol values from the start character to the check character
+  values: number[];
+  // Code sets in the order they are used
+  codeSets: Code128Set[];
+}
+
+// Bar and space widths of symbol values 0-106, from ISO/IEC 15417 table 1;
+// the stop pattern includes its final bar
+export const CODE_128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const SHIFT = 98;
+const LATCH: Record<Code128Set, number> = { C: 99, B: 100, A: 101 };
+const START: Record<Code128Set, number> = { A: 103, B: 104, C: 105 };
+const STOP = 106;
+
+// Quiet zone on each side, ten times the module width
+const QUIET_ZONE = 10;
+
+const SETS: Code128Set[] = ['B', 'A', 'C'];
+
+// How the cheapest encoding reached a position in a code set
+interface Step {
+  cost: number;
+  from?: { position: number; set: Code128Set };
+  // Values written by this step
+  values: number[];
+}
+
+/**
+ * Builds Code 128 symbols for ASCII text. Code sets are chosen by dynamic
+ * programming over the text, so runs of digits switch to code set C, control
+ * characters to A and lowercase to B, with shifts for single characters,
+ * whenever that gives the fewest symbol characters.
+ */
+export class Code128Encoder {
+  encode(text: string): Code128Symbol {
+    if (text.length === 0) {
+      throw new Error('Code 128 data cannot be empty');
+    }
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) > 127) {
+        throw new Error(`Code 128 encodes ASCII characters only; "${text[i]}" is not ASCII`);
+      }
+    }
+
+    const { values, codeSets } = this.encodeValues(text);
+    const checked = [...values, this.computeCheckValue(values)];
+
+    const modules = [...checked, STOP].flatMap(value => widthsToModules(CODE_128_PATTERNS[value]));
+
+    return {
+      modules,
+      quietZone: { left: QUIET_ZONE, right: QUIET_ZONE },
+      guards: [],
+      // Control characters have no printable form
+      text: [{ text: text.replace(/\p{Cc}/gu, ' '), start: 0, end: modules.length }],
+      values: checked,
+      codeSets
+    };
+  }
+
+  // Start character and data values, without the check character
+  encodeValues(text: string): { values: number[]; codeSets: Code128Set[] } {
+    const steps: Array<Partial<Record<Code128Set, Step>>> = Array.from({ length: text.length + 1 }, () => ({}));
+    const relax = (position: number, set: Code128Set, step: Step) => {
+      const current = steps[position][set];
+      if (!current || step.cost < current.cost) {
+        steps[position][set] = step;
+      }
+    };
+
+    for (const set of SETS) {
+      relax(0, set, { cost: 1, values: [START[set]] });
+    }
+
+    for (let position = 0; position <= text.length; position++) {
+      // Latching costs one value whichever sets are involved, so one pass finds the cheapest
+      for (const set of SETS) {
+        const step = steps[position][set];
+        if (!step) continue;
+        for (const target of SETS) {
+          if (target !== set) {
+            relax(position, target, { cost: step.cost + 1, from: { position, set }, values: [LATCH[target]] });
+          }
+        }
+      }
+
+      if (position === text.length) break;
+
+      for (const set of SETS) {
+        const step = steps[position][set];
+        if (!step) continue;
+        const from = { position, set };
+
+        if (set === 'C') {
+          const pair = text.substring(position, position + 2);
+          if (/^\d\d$/.test(pair)) {
+            relax(position + 2, set, { cost: step.cost + 1, from, values: [Number(pair)] });
+          }
+          continue;
+        }
+
+        const code = text.charCodeAt(position);
+        const value = this.valueIn(set, code);
+        if (value !== undefined) {
+          relax(position + 1, set, { cost: step.cost + 1, from, values: [value] });
+        } else {
+          // A single character of the other of A and B is shifted rather than latched
+          relax(position + 1, set, { cost: step.cost + 2, from, values: [SHIFT, this.valueIn(set === 'A' ? 'B' : 'A', code)!] });
+        }
+      }
+    }
+
+    let set = SETS.reduce((best, candidate) =>
+      (steps[text.length][candidate]?.cost ?? Infinity) < steps[text.length][best]!.cost ? candidate : best, 'B' as Code128Set);
+
+    const path: Step[] = [];
+    const sets: Code128Set[] = [];
+    let position = text.length;
+    for (let step = steps[position][set]; step; ) {
+      path.unshift(step);
+      if (!step.from || step.from.set !== set) {
+        sets.unshift(set);
+      }
+      if (!step.from) break;
+      ({ position, set } = step.from);
+      step = steps[position][set];
+    }
+
+    return { values: path.flatMap(step => step.values), codeSets: sets };
+  }
+
+  // Weighted sum of the values, the start character weighing 1 like the first data value
+  computeCheckValue(values: number[]): number {
+    const sum = values.reduce((total, value, index) => total + value * Math.max(index, 1), 0);
+    return sum % 103;
+  }
+
+  private valueIn(set: Code128Set, code: number): number | undefined {
+    if (set === 'A') {
+      if (code < 32) return code + 64;
+      if (code < 96) return code - 32;
+      return undefined;
+    }
+    return code >= 32 ? code - 32 : undefined;
+  }
+}
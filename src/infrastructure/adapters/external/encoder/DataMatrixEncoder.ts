@@ -0,0 +1,311 @@
+import { CharsetValue } from '../../../../domain/valueObjects/Charset';
+import { QRCapacity } from '../../../../application/ports';
+import { QRMatrix } from '../renderers/QRMatrix';
+import { CharsetCodec } from './CharsetCodec';
+import { GaloisField } from './GaloisField';
+
+export interface DataMatrixSymbolSize {
+  size: number;
+  // Edge length of one data region, without its finder and timing border
+  regionSize: number;
+  dataCodewords: number;
+  errorCodewords: number;
+  // Interleaved Reed-Solomon blocks
+  blocks: number;
+}
+
+// Square ECC 200 symbols from ISO/IEC 16022 table 7
+export const DATA_MATRIX_SIZES: DataMatrixSymbolSize[] = [
+  { size: 10, regionSize: 8, dataCodewords: 3, errorCodewords: 5, blocks: 1 },
+  { size: 12, regionSize: 10, dataCodewords: 5, errorCodewords: 7, blocks: 1 },
+  { size: 14, regionSize: 12, dataCodewords: 8, errorCodewords: 10, blocks: 1 },
+  { size: 16, regionSize: 14, dataCodewords: 12, errorCodewords: 12, blocks: 1 },
+  { size: 18, regionSize: 16, dataCodewords: 18, errorCodewords: 14, blocks: 1 },
+  { size: 20, regionSize: 18, dataCodewords: 22, errorCodewords: 18, blocks: 1 },
+  { size: 22, regionSize: 20, dataCodewords: 30, errorCodewords: 20, blocks: 1 },
+  { size: 24, regionSize: 22, dataCodewords: 36, errorCodewords: 24, blocks: 1 },
+  { size: 26, regionSize: 24, dataCodewords: 44, errorCodewords: 28, blocks: 1 },
+  { size: 32, regionSize: 14, dataCodewords: 62, errorCodewords: 36, blocks: 1 },
+  { size: 36, regionSize: 16, dataCodewords: 86, errorCodewords: 42, blocks: 1 },
+  { size: 40, regionSize: 18, dataCodewords: 114, errorCodewords: 48, blocks: 1 },
+  { size: 44, regionSize: 20, dataCodewords: 144, errorCodewords: 56, blocks: 1 },
+  { size: 48, regionSize: 22, dataCodewords: 174, errorCodewords: 68, blocks: 1 },
+  { size: 52, regionSize: 24, dataCodewords: 204, errorCodewords: 84, blocks: 2 },
+  { size: 64, regionSize: 14, dataCodewords: 280, errorCodewords: 112, blocks: 2 },
+  { size: 72, regionSize: 16, dataCodewords: 368, errorCodewords: 144, blocks: 4 },
+  { size: 80, regionSize: 18, dataCodewords: 456, errorCodewords: 192, blocks: 4 },
+  { size: 88, regionSize: 20, dataCodewords: 576, errorCodewords: 224, blocks: 4 },
+  { size: 96, regionSize: 22, dataCodewords: 696, errorCodewords: 272, blocks: 4 },
+  { size: 104, regionSize: 24, dataCodewords: 816, errorCodewords: 336, blocks: 6 },
+  { size: 120, regionSize: 18, dataCodewords: 1050, errorCodewords: 408, blocks: 6 },
+  { size: 132, regionSize: 20, dataCodewords: 1304, errorCodewords: 496, blocks: 8 },
+  { size: 144, regionSize: 22, dataCodewords: 1558, errorCodewords: 620, blocks: 10 }
+];
+
+const LARGEST_SIZE = DATA_MATRIX_SIZES[DATA_MATRIX_SIZES.length - 1];
+
+// Codewords of the ASCII encodation
+const PAD = 129;
+const DIGIT_PAIR_OFFSET = 130;
+const BASE256_LATCH = 231;
+const UPPER_SHIFT = 235;
+const ECI = 241;
+
+/**
+ * Builds square ECC 200 Data Matrix symbols. Text is written in ASCII
+ * encodation (digit pairs share a codeword) or, when that is shorter,
+ * as one Base 256 run. Error correction is fixed by the symbol size.
+ */
+export class DataMatrixEncoder {
+  private readonly charsetCodec = new CharsetCodec();
+
+  // Encodes text in the given charset, declaring it with an ECI designator when readers could misread it
+  encodeText(text: string, charset: CharsetValue): QRMatrix {
+    const codewords = this.encodeData(text, charset);
+    const symbolSize = this.findSymbolSize(codewords.length);
+    if (!symbolSize) {
+      throw new Error(
+        `The amount of data is too big to be stored in a Data Matrix symbol: it needs ${codewords.length} codewords ` +
+        `but the largest symbol holds ${LARGEST_SIZE.dataCodewords}`
+      );
+    }
+
+    return this.encode(codewords, symbolSize);
+  }
+
+  // Checks the text against the largest symbol without building it
+  measure(text: string, charset: CharsetValue): QRCapacity {
+    const chars = [...text];
+    const fitsPrefix = (length: number): boolean =>
+      this.encodeData(chars.slice(0, length).join(''), charset).length <= LARGEST_SIZE.dataCodewords;
+
+    const symbolSize = this.findSymbolSize(this.encodeData(text, charset).length);
+    if (symbolSize) {
+      return { fits: true, maxCharacters: chars.length, moduleCount: symbolSize.size };
+    }
+
+    // Longest prefix that fits; a longer text never needs fewer codewords
+    let low = 0;
+    let high = chars.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fitsPrefix(middle)) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return { fits: false, maxCharacters: low };
+  }
+
+  // Data codewords before padding
+  encodeData(text: string, charset: CharsetValue): number[] {
+    const bytes = this.charsetCodec.encode(text, charset);
+    const designator = this.charsetCodec.getEciDesignator(text, charset);
+    const header = designator !== undefined ? this.encodeEci(designator) : [];
+
+    const ascii = this.encodeAscii(bytes);
+    const base256 = this.encodeBase256(bytes, header.length);
+    return [...header, ...(base256.length < ascii.length ? base256 : ascii)];
+  }
+
+  findSymbolSize(codewordCount: number): DataMatrixSymbolSize | undefined {
+    return DATA_MATRIX_SIZES.find(candidate => candidate.dataCodewords >= codewordCount);
+  }
+
+  encode(data: number[], symbolSize: DataMatrixSymbolSize): QRMatrix {
+    const codewords = this.addErrorCorrection(this.pad(data, symbolSize.dataCodewords), symbolSize);
+    const regions = symbolSize.size / (symbolSize.regionSize + 2);
+    const mappingSize = regions * symbolSize.regionSize;
+    const mapping = this.placeModules(codewords, mappingSize);
+
+    const modules = new Uint8Array(symbolSize.size * symbolSize.size);
+    const regionSpan = symbolSize.regionSize + 2;
+    for (let row = 0; row < symbolSize.size; row++) {
+      for (let col = 0; col < symbolSize.size; col++) {
+        const regionRow = row % regionSpan;
+        const regionCol = col % regionSpan;
+        let dark: boolean;
+
+        if (regionCol === 0 || regionRow === regionSpan - 1) {
+          // Solid L of the finder pattern on the left and bottom edge
+          dark = true;
+        } else if (regionRow === 0) {
+          dark = regionCol % 2 === 0;
+        } else if (regionCol === regionSpan - 1) {
+          dark = regionRow % 2 === 1;
+        } else {
+          const mappingRow = Math.floor(row / regionSpan) * symbolSize.regionSize + regionRow - 1;
+          const mappingCol = Math.floor(col / regionSpan) * symbolSize.regionSize + regionCol - 1;
+          dark = mapping[mappingRow * mappingSize + mappingCol] === 1;
+        }
+
+        modules[row * symbolSize.size + col] = dark ? 1 : 0;
+      }
+    }
+
+    return QRMatrix.fromGrid(symbolSize.size, modules);
+  }
+
+  // ECI designators up to 126 take one codeword, larger ones two or three
+  private encodeEci(designator: number): number[] {
+    if (designator < 127) {
+      return [ECI, designator + 1];
+    }
+    if (designator < 16383) {
+      return [ECI, Math.floor((designator - 127) / 254) + 128, ((designator - 127) % 254) + 1];
+    }
+    const rest = designator - 16383;
+    return [ECI, Math.floor(rest / 64516) + 192, (Math.floor(rest / 254) % 254) + 1, (rest % 254) + 1];
+  }
+
+  private encodeAscii(bytes: Buffer): number[] {
+    const isDigit = (value: number) => value >= 0x30 && value <= 0x39;
+    const codewords: number[] = [];
+
+    for (let i = 0; i < bytes.length; i++) {
+      const value = bytes[i];
+      if (isDigit(value) && i + 1 < bytes.length && isDigit(bytes[i + 1])) {
+        codewords.push(DIGIT_PAIR_OFFSET + (value - 0x30) * 10 + (bytes[i + 1] - 0x30));
+        i++;
+      } else if (value < 0x80) {
+        codewords.push(value + 1);
+      } else {
+        codewords.push(UPPER_SHIFT, value - 0x7f);
+      }
+    }
+
+    return codewords;
+  }
+
+  // Latch, length and bytes; everything after the latch is scrambled by its position in the stream
+  private encodeBase256(bytes: Buffer, offset: number): number[] {
+    const length = bytes.length < 250
+      ? [bytes.length]
+      : [Math.floor(bytes.length / 250) + 249, bytes.length % 250];
+    const values = [...length, ...bytes];
+
+    return [BASE256_LATCH, ...values.map((value, i) => {
+      const position = offset + i + 2;
+      const scrambled = value + ((149 * position) % 255) + 1;
+      return scrambled <= 255 ? scrambled : scrambled - 256;
+    })];
+  }
+
+  // The first pad codeword is 129, the rest are scrambled by their position
+  private pad(data: number[], capacity: number): number[] {
+    const padded = [...data];
+    if (padded.length < capacity) {
+      padded.push(PAD);
+    }
+    while (padded.length < capacity) {
+      const position = padded.length + 1;
+      const scrambled = PAD + ((149 * position) % 253) + 1;
+      padded.push(scrambled <= 254 ? scrambled : scrambled - 254);
+    }
+    return padded;
+  }
+
+  // Codewords are dealt round-robin to the blocks, and each block's error
+  // correction is interleaved the same way after the data
+  private addErrorCorrection(data: number[], symbolSize: DataMatrixSymbolSize): number[] {
+    const { blocks } = symbolSize;
+    const errorPerBlock = symbolSize.errorCodewords / blocks;
+    const codewords = [...data, ...new Array<number>(symbolSize.errorCodewords).fill(0)];
+
+    for (let block = 0; block < blocks; block++) {
+      const blockData = data.filter((_, i) => i % blocks === block);
+      GaloisField.DATA_MATRIX.computeErrorCorrection(blockData, errorPerBlock).forEach((codeword, i) => {
+        codewords[data.length + i * blocks + block] = codeword;
+      });
+    }
+
+    return codewords;
+  }
+
+  // Codeword placement from ISO/IEC 16022 annex F: 8-module "utah" shapes
+  // along diagonals, with special shapes at the corners. Returns 1 for dark.
+  private placeModules(codewords: number[], size: number): Uint8Array {
+    const bits = new Uint8Array(size * size);
+    const placed = new Uint8Array(size * size);
+
+    const module = (row: number, col: number, codeword: number, bit: number) => {
+      if (row < 0) {
+        row += size;
+        col += 4 - ((size + 4) % 8);
+      }
+      if (col < 0) {
+        col += size;
+        row += 4 - ((size + 4) % 8);
+      }
+      placed[row * size + col] = 1;
+      bits[row * size + col] = (codewords[codeword] >> (7 - bit)) & 1;
+    };
+
+    // Bits 0 (most significant) to 7, relative to the shape's bottom-right module
+    const utah = (row: number, col: number, codeword: number) => {
+      const offsets = [[-2, -2], [-2, -1], [-1, -2], [-1, -1], [-1, 0], [0, -2], [0, -1], [0, 0]];
+      offsets.forEach(([dRow, dCol], bit) => module(row + dRow, col + dCol, codeword, bit));
+    };
+
+    const corner = (positions: number[][], codeword: number) => {
+      positions.forEach(([row, col], bit) => module(row, col, codeword, bit));
+    };
+    const last = size - 1;
+    const corners = [
+      [[last, 0], [last, 1], [last, 2], [0, last - 1], [0, last], [1, last], [2, last], [3, last]],
+      [[last - 2, 0], [last - 1, 0], [last, 0], [0, last - 3], [0, last - 2], [0, last - 1], [0, last], [1, last]],
+      [[last - 2, 0], [last - 1, 0], [last, 0], [0, last - 1], [0, last], [1, last], [2, last], [3, last]],
+      [[last, 0], [last, last], [0, last - 2], [0, last - 1], [0, last], [1, last - 2], [1, last - 1], [1, last]]
+    ];
+
+    let codeword = 0;
+    let row = 4;
+    let col = 0;
+    do {
+      if (row === size && col === 0) {
+        corner(corners[0], codeword++);
+      }
+      if (row === size - 2 && col === 0 && size % 4 !== 0) {
+        corner(corners[1], codeword++);
+      }
+      if (row === size - 2 && col === 0 && size % 8 === 4) {
+        corner(corners[2], codeword++);
+      }
+      if (row === size + 4 && col === 2 && size % 8 === 0) {
+        corner(corners[3], codeword++);
+      }
+
+      // Up and to the right
+      do {
+        if (row < size && col >= 0 && !placed[row * size + col]) {
+          utah(row, col, codeword++);
+        }
+        row -= 2;
+        col += 2;
+      } while (row >= 0 && col < size);
+      row += 1;
+      col += 3;
+
+      // Down and to the left
+      do {
+        if (row >= 0 && col < size && !placed[row * size + col]) {
+          utah(row, col, codeword++);
+        }
+        row += 2;
+        col -= 2;
+      } while (row < size && col >= 0);
+      row += 3;
+      col += 1;
+    } while (row < size || col < size);
+
+    // Sizes that leave four modules unused fill them with a fixed checkerboard
+    if (!placed[size * size - 1]) {
+      bits[size * size - 1] = 1;
+      bits[(size - 1) * size - 2] = 1;
+    }
+
+    return bits;
+  }
+}
@@ -0,0 +1,93 @@
+import { LinearSymbol } from './LinearSymbol';
+
+// Left-hand odd parity (set A) digit modules; set C is their complement and set B is set C reversed
+const SET_A = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+
+// Parity of the six left-hand digits, selected by the leading digit ('A' odd, 'B' even)
+const PARITY = ['AAAAAA', 'AABABB', 'AABBAB', 'AABBBA', 'ABAABB', 'ABBAAB', 'ABBBAA', 'ABABAB', 'ABABBA', 'ABBABA'];
+
+const GUARD = '101';
+const CENTER_GUARD = '01010';
+
+// Offsets of the fixed parts of the 95-module symbol
+const LEFT_HALF = 3;
+const CENTER = 45;
+const RIGHT_HALF = 50;
+const END = 92;
+const DIGIT_WIDTH = 7;
+
+/**
+ * Builds EAN-13 and UPC-A symbols from digits that already carry their check
+ * digit. A UPC-A symbol is the EAN-13 symbol of the same digits behind a zero.
+ */
+export class EANEncoder {
+  encodeEAN13(digits: string): LinearSymbol {
+    const modules = this.encodeModules(this.assertDigits(digits, 13));
+
+    return {
+      modules,
+      quietZone: { left: 11, right: 7 },
+      guards: [
+        { start: 0, end: LEFT_HALF },
+        { start: CENTER, end: RIGHT_HALF },
+        { start: END, end: modules.length }
+      ],
+      // The leading digit has no bars of its own and is printed in the left quiet zone
+      text: [
+        { text: digits[0], start: -DIGIT_WIDTH - 2, end: -2 },
+        { text: digits.substring(1, 7), start: LEFT_HALF, end: CENTER },
+        { text: digits.substring(7), start: RIGHT_HALF, end: END }
+      ]
+    };
+  }
+
+  encodeUPCA(digits: string): LinearSymbol {
+    const modules = this.encodeModules('0' + this.assertDigits(digits, 12));
+
+    // The number system and check digits are printed smaller, outside the symbol,
+    // with their bars as long as the guards
+    return {
+      modules,
+      quietZone: { left: 9, right: 9 },
+      guards: [
+        { start: 0, end: LEFT_HALF + DIGIT_WIDTH },
+        { start: CENTER, end: RIGHT_HALF },
+        { start: END - DIGIT_WIDTH, end: modules.length }
+      ],
+      text: [
+        { text: digits[0], start: -DIGIT_WIDTH - 1, end: -1 },
+        { text: digits.substring(1, 6), start: LEFT_HALF + DIGIT_WIDTH, end: CENTER },
+        { text: digits.substring(6, 11), start: RIGHT_HALF, end: END - DIGIT_WIDTH },
+        { text: digits[11], start: modules.length + 1, end: modules.length + 1 + DIGIT_WIDTH }
+      ]
+    };
+  }
+
+  private encodeModules(digits: string): boolean[] {
+    const parity = PARITY[Number(digits[0])];
+    let modules = GUARD;
+
+    for (let i = 1; i <= 6; i++) {
+      const setA = SET_A[Number(digits[i])];
+      modules += parity[i - 1] === 'A' ? setA : this.complement(setA).split('').reverse().join('');
+    }
+    modules += CENTER_GUARD;
+    for (let i = 7; i <= 12; i++) {
+      modules += this.complement(SET_A[Number(digits[i])]);
+    }
+    modules += GUARD;
+
+    return modules.split('').map(module => module === '1');
+  }
+
+  private complement(modules: string): string {
+    return modules.replace(/[01]/g, module => (module === '1' ? '0' : '1'));
+  }
+
+  private assertDigits(digits: string, length: number): string {
+    if (!new RegExp(`^\\d{${length}}$`).test(digits)) {
+      throw new Error(`Expected ${length} digits including the check digit`);
+    }
+    return digits;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * GF(2^m) arithmetic and Reed-Solomon error correction for the Data Matrix
+ * and Aztec codes. Their generator polynomials start at a^1, where QR codes
+ * (see ReedSolomon) start at a^0.
+ */
+export class GaloisField {
+  static readonly DATA_MATRIX = new GaloisField(0x12d, 256, 1);
+  static readonly AZTEC_PARAM = new GaloisField(0x13, 16, 1);
+  static readonly AZTEC_DATA_6 = new GaloisField(0x43, 64, 1);
+  static readonly AZTEC_DATA_8 = GaloisField.DATA_MATRIX;
+  static readonly AZTEC_DATA_10 = new GaloisField(0x409, 1024, 1);
+  static readonly AZTEC_DATA_12 = new GaloisField(0x1069, 4096, 1);
+
+  private readonly exp: Uint16Array;
+  private readonly log: Uint16Array;
+  private readonly generators = new Map<number, number[]>();
+
+  private constructor(primitive: number, private readonly size: number, private readonly generatorBase: number) {
+    this.exp = new Uint16Array(size * 2);
+    this.log = new Uint16Array(size);
+
+    let value = 1;
+    for (let i = 0; i < size - 1; i++) {
+      this.exp[i] = value;
+      this.log[value] = i;
+      value <<= 1;
+      if (value >= size) {
+        value ^= primitive;
+      }
+    }
+    for (let i = size - 1; i < size * 2; i++) {
+      this.exp[i] = this.exp[i - (size - 1)];
+    }
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  // a raised to the given power
+  power(exponent: number): number {
+    return this.exp[exponent % (this.size - 1)];
+  }
+
+  multiply(x: number, y: number): number {
+    return x === 0 || y === 0 ? 0 : this.exp[this.log[x] + this.log[y]];
+  }
+
+  // Error correction codewords for the data, highest power first
+  computeErrorCorrection(data: number[], degree: number): number[] {
+    const generator = this.getGenerator(degree);
+    const remainder = new Array<number>(degree).fill(0);
+
+    for (const codeword of data) {
+      const factor = codeword ^ remainder[0];
+      remainder.shift();
+      remainder.push(0);
+      for (let i = 0; i < degree; i++) {
+        remainder[i] ^= this.multiply(generator[i], factor);
+      }
+    }
+
+    return remainder;
+  }
+
+  // Coefficients of (x - a^base)...(x - a^(base+degree-1)), highest power first, leading 1 dropped
+  private getGenerator(degree: number): number[] {
+    const cached = this.generators.get(degree);
+    if (cached) {
+      return cached;
+    }
+
+    const generator = new Array<number>(degree).fill(0);
+    generator[degree - 1] = 1;
+    for (let i = 0; i < degree; i++) {
+      const root = this.power(i + this.generatorBase);
+      for (let j = 0; j < degree; j++) {
+        generator[j] = this.multiply(generator[j], root) ^ (j + 1 < degree ? generator[j + 1] : 0);
+      }
+    }
+
+    this.generators.set(degree, generator);
+    return generator;
+  }
+}
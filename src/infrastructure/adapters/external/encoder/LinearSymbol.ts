@@ -0,0 +1,34 @@
+// Run of modules, half-open, counted from the first bar of the symbol
+export interface ModuleRange {
+  start: number;
+  end: number;
+}
+
+// Human-readable characters printed centered under a module range; retail
+// symbols put their outer digits into the quiet zones (negative or past the end)
+export interface TextGroup extends ModuleRange {
+  text: string;
+}
+
+/**
+ * A one-dimensional symbol as a row of modules, dark or light, without its
+ * quiet zones. Renderers add the quiet zones and draw guard ranges longer
+ * than the other bars, as retail symbols print them.
+ */
+export interface LinearSymbol {
+  modules: boolean[];
+  quietZone: { left: number; right: number };
+  guards: ModuleRange[];
+  text: TextGroup[];
+}
+
+// Expands alternating bar and space widths, starting with a bar, into modules
+export function widthsToModules(widths: string): boolean[] {
+  const modules: boolean[] = [];
+  for (let i = 0; i < widths.length; i++) {
+    for (let j = 0; j < Number(widths[i]); j++) {
+      modules.push(i % 2 === 0);
+    }
+  }
+  return modules;
+}
@@ -0,0 +1,537 @@
+import { ErrorCorrectionLevel } from '../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { Charset, CharsetValue } from '../../../../domain/valueObjects/Charset';
+import { EncodingMode } from '../../../../domain/valueObjects/EncodingMode';
+import { QRMatrix } from '../renderers/QRMatrix';
+import { BitBuffer, QRSegment, SegmentMode } from './QRSegment';
+import { CharsetCodec } from './CharsetCodec';
+import { SegmentOptimizer, SegmentRun } from './SegmentOptimizer';
+import { computeErrorCorrection } from './ReedSolomon';
+import { ValidationError } from '../../../../shared/errors';
+import { QRCapacity } from '../../../../application/ports';
+import {
+  MIN_VERSION,
+  MAX_VERSION,
+  FORMAT_LEVEL_BITS,
+  getSymbolSize,
+  getAlignmentPositions,
+  getRawDataModules,
+  getErrorCorrectionBlocks,
+  getDataCodewords,
+  getFormatBits,
+  getVersionBits,
+  isMasked
+} from './QRTables';
+
+const MASK_COUNT = 8;
+
+export interface EncodeOptions {
+  // Fixed symbol version; the smallest one that fits when omitted
+  version?: number;
+  // Fixed mask pattern; the one with the lowest penalty when omitted
+  mask?: number;
+  // Single mode for the whole text; auto splits it into the cheapest segments
+  mode?: EncodingMode;
+}
+
+// Highest version of each range that shares character count widths
+const COUNT_BITS_VERSIONS = [9, 26, MAX_VERSION];
+
+const SHIFT_JIS = CharsetValue.create(Charset.SHIFT_JIS);
+
+const SEGMENT_MODES: Record<Exclude<EncodingMode, EncodingMode.AUTO>, SegmentMode> = {
+  [EncodingMode.NUMERIC]: SegmentMode.NUMERIC,
+  [EncodingMode.ALPHANUMERIC]: SegmentMode.ALPHANUMERIC,
+  [EncodingMode.BYTE]: SegmentMode.BYTE,
+  [EncodingMode.KANJI]: SegmentMode.KANJI
+};
+
+// Penalty weights from ISO/IEC 18004 section 7.8.3
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+/**
+ * Builds QR symbols from explicit segments. Unlike the qrcode package this
+ * accepts ECI segments, so byte data can declare its charset.
+ */
+export class QREncoder {
+  private readonly charsetCodec = new CharsetCodec();
+  private readonly optimizer = new SegmentOptimizer(this.charsetCodec);
+
+  // Encodes text in the given charset, declaring it with an ECI designator when readers could misread it
+  encodeText(text: string, charset: CharsetValue, level: ErrorCorrectionLevel, options: EncodeOptions = {}): QRMatrix {
+    return this.encode(this.segmentText(text, charset, level, options), level, options);
+  }
+
+  // Segments the text as encodeText would, for the smallest version it fits in
+  segmentText(text: string, charset: CharsetValue, level: ErrorCorrectionLevel, options: EncodeOptions = {}): QRSegment[] {
+    // The whole text must be representable in the target charset, whichever modes end up holding it
+    this.charsetCodec.encode(text, charset);
+
+    const mode = options.mode ?? EncodingMode.AUTO;
+    if (mode !== EncodingMode.AUTO) {
+      return this.buildSegments([this.toSingleRun(text, mode)], charset);
+    }
+
+    if (options.version !== undefined) {
+      return this.buildSegments(this.optimizer.split(text, charset, options.version), charset);
+    }
+
+    // The best split is the same for every version sharing count widths, so one try per range is enough
+    let segments: QRSegment[] = [];
+    for (const version of COUNT_BITS_VERSIONS) {
+      segments = this.buildSegments(this.optimizer.split(text, charset, version), charset);
+      if (this.fits(segments, version, level)) {
+        break;
+      }
+    }
+    return segments;
+  }
+
+  encode(segments: QRSegment[], level: ErrorCorrectionLevel, options: EncodeOptions = {}): QRMatrix {
+    if (options.mask !== undefined && (!Number.isInteger(options.mask) || options.mask < 0 || options.mask >= MASK_COUNT)) {
+      throw new Error(`Mask pattern must be an integer between 0 and ${MASK_COUNT - 1}, got ${options.mask}`);
+    }
+
+    const version = options.version !== undefined
+      ? this.checkVersion(segments, level, options.version)
+      : this.findVersion(segments, level);
+    const codewords = this.buildCodewords(this.buildDataCodewords(segments, version, level), version, level);
+
+    const grid = new SymbolGrid(version);
+    grid.drawFunctionPatterns();
+    grid.placeCodewords(codewords);
+
+    const mask = options.mask ?? this.chooseMask(grid, level);
+    grid.applyMask(mask);
+    grid.drawFormatBits(level, mask);
+
+    return QRMatrix.create(version, grid.getModules(), mask);
+  }
+
+  // Checks the text against the symbol's capacity without building it
+  measure(text: string, charset: CharsetValue, level: ErrorCorrectionLevel, options: EncodeOptions = {}): QRCapacity {
+    const chars = [...text];
+    const versionFor = (length: number, version?: number): number | undefined => {
+      const segments = this.segmentText(chars.slice(0, length).join(''), charset, level, { ...options, version });
+      if (version === undefined) {
+        return this.findSmallestVersion(segments, level);
+      }
+      return this.fits(segments, version, level) ? version : undefined;
+    };
+
+    const minimumVersion = versionFor(chars.length);
+    const version = options.version !== undefined ? versionFor(chars.length, options.version) : minimumVersion;
+    if (version !== undefined) {
+      return { fits: true, version, minimumVersion, maxCharacters: chars.length, moduleCount: getSymbolSize(version) };
+    }
+
+    // Longest prefix that fits; a longer text never needs fewer bits
+    const largestVersion = options.version ?? MAX_VERSION;
+    let low = 0;
+    let high = chars.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (versionFor(middle, largestVersion) !== undefined) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return { fits: false, minimumVersion, maxCharacters: low };
+  }
+
+  // Characters a single segment of the mode holds at a version, in bytes for byte mode
+  getMaxCharacters(mode: Exclude<EncodingMode, EncodingMode.AUTO>, level: ErrorCorrectionLevel, version: number = MAX_VERSION): number {
+    const segmentMode = SEGMENT_MODES[mode];
+    const bits = getDataCodewords(version, level) * 8 - 4 - QRSegment.getCountBits(segmentMode, version);
+
+    switch (segmentMode) {
+      case SegmentMode.NUMERIC: return Math.floor(bits / 10) * 3 + (bits % 10 >= 7 ? 2 : bits % 10 >= 4 ? 1 : 0);
+      case SegmentMode.ALPHANUMERIC: return Math.floor(bits / 11) * 2 + (bits % 11 >= 6 ? 1 : 0);
+      case SegmentMode.KANJI: return Math.floor(bits / 13);
+      default: return Math.floor(bits / 8);
+    }
+  }
+
+  private toSingleRun(text: string, mode: Exclude<EncodingMode, EncodingMode.AUTO>): SegmentRun {
+    const fits = mode === EncodingMode.NUMERIC ? QRSegment.isNumeric(text)
+      : mode === EncodingMode.ALPHANUMERIC ? QRSegment.isAlphanumeric(text)
+        : mode === EncodingMode.KANJI ? this.isKanjiText(text)
+          : true;
+
+    if (!fits) {
+      throw new ValidationError(
+        `Data cannot be encoded in ${mode} mode; use auto to choose modes per character`,
+        { field: 'mode', value: mode }
+      );
+    }
+
+    return { mode: SEGMENT_MODES[mode], text };
+  }
+
+  private buildSegments(runs: SegmentRun[], charset: CharsetValue): QRSegment[] {
+    const segments = runs.map(run => {
+      switch (run.mode) {
+        case SegmentMode.NUMERIC: return QRSegment.numeric(run.text);
+        case SegmentMode.ALPHANUMERIC: return QRSegment.alphanumeric(run.text);
+        case SegmentMode.KANJI: return QRSegment.kanji(this.charsetCodec.encode(run.text, SHIFT_JIS));
+        default: return QRSegment.bytes(this.charsetCodec.encode(run.text, charset));
+      }
+    });
+
+    // Only byte data depends on the charset; ASCII reads the same in the default ISO-8859-1 interpretation
+    const needsEci = runs.some(run =>
+      run.mode === SegmentMode.BYTE && !([...run.text].every(char => char.charCodeAt(0) < 0x80) && charset.isAsciiCompatible())
+    );
+    if (!needsEci) {
+      return segments;
+    }
+
+    const designator = charset.getEciDesignator();
+    if (designator === undefined) {
+      throw new Error(`Charset ${charset} has no ECI designator`);
+    }
+
+    return [QRSegment.eci(designator), ...segments];
+  }
+
+  private isKanjiText(text: string): boolean {
+    const shiftJis = this.charsetCodec.tryEncode(text, SHIFT_JIS);
+    return shiftJis !== undefined && QRSegment.isKanji(shiftJis);
+  }
+
+  private findVersion(segments: QRSegment[], level: ErrorCorrectionLevel): number {
+    const version = this.findSmallestVersion(segments, level);
+    if (version === undefined) {
+      throw new Error('The amount of data is too big to be stored in a QR Code');
+    }
+    return version;
+  }
+
+  private findSmallestVersion(segments: QRSegment[], level: ErrorCorrectionLevel): number | undefined {
+    for (let version = MIN_VERSION; version <= MAX_VERSION; version++) {
+      if (this.fits(segments, version, level)) {
+        return version;
+      }
+    }
+    return undefined;
+  }
+
+  // A requested version must hold the data as is; the symbol is never grown behind the caller's back
+  private checkVersion(segments: QRSegment[], level: ErrorCorrectionLevel, version: number): number {
+    if (!Number.isInteger(version) || version < MIN_VERSION || version > MAX_VERSION) {
+      throw new Error(`Version must be an integer between ${MIN_VERSION} and ${MAX_VERSION}, got ${version}`);
+    }
+
+    if (!this.fits(segments, version, level)) {
+      const smallest = this.findSmallestVersion(segments, level);
+      throw new ValidationError(
+        `Data does not fit in version ${version} at error correction level ${level}: ` +
+        `it needs ${QRSegment.getTotalBits(segments, version)} bits but the symbol holds ${getDataCodewords(version, level) * 8}` +
+        (smallest !== undefined ? `. The smallest version that fits is ${smallest}` : '. It does not fit in any version at this level'),
+        { field: 'version', value: version, minimumVersion: smallest }
+      );
+    }
+
+    return version;
+  }
+
+  private fits(segments: QRSegment[], version: number, level: ErrorCorrectionLevel): boolean {
+    return QRSegment.getTotalBits(segments, version) <= getDataCodewords(version, level) * 8;
+  }
+
+  private buildDataCodewords(segments: QRSegment[], version: number, level: ErrorCorrectionLevel): Uint8Array {
+    const capacity = getDataCodewords(version, level) * 8;
+    const buffer = new BitBuffer();
+    segments.forEach(segment => segment.writeTo(buffer, version));
+
+    // Terminator, then zero bits up to a byte boundary
+    buffer.append(0, Math.min(4, capacity - buffer.getLength()));
+    buffer.append(0, (8 - (buffer.getLength() % 8)) % 8);
+
+    // Alternating pad codewords fill the remaining capacity
+    for (let pad = 0xec; buffer.getLength() < capacity; pad ^= 0xec ^ 0x11) {
+      buffer.append(pad, 8);
+    }
+
+    return buffer.toBytes();
+  }
+
+  // Splits the data into blocks, adds error correction and interleaves them
+  private buildCodewords(data: Uint8Array, version: number, level: ErrorCorrectionLevel): Uint8Array {
+    const { blocks: blockCount, codewordsPerBlock } = getErrorCorrectionBlocks(version, level);
+    const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+    const shortBlocks = blockCount - (rawCodewords % blockCount);
+    const shortBlockData = Math.floor(rawCodewords / blockCount) - codewordsPerBlock;
+
+    const dataBlocks: Uint8Array[] = [];
+    const correctionBlocks: Uint8Array[] = [];
+    let offset = 0;
+    for (let i = 0; i < blockCount; i++) {
+      const length = shortBlockData + (i < shortBlocks ? 0 : 1);
+      const block = data.subarray(offset, offset + length);
+      dataBlocks.push(block);
+      correctionBlocks.push(computeErrorCorrection(block, codewordsPerBlock));
+      offset += length;
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i <= shortBlockData; i++) {
+      dataBlocks.forEach(block => {
+        if (i < block.length) {
+          result.push(block[i]);
+        }
+      });
+    }
+    for (let i = 0; i < codewordsPerBlock; i++) {
+      correctionBlocks.forEach(block => result.push(block[i]));
+    }
+
+    return Uint8Array.from(result);
+  }
+
+  private chooseMask(grid: SymbolGrid, level: ErrorCorrectionLevel): number {
+    let bestMask = 0;
+    let lowestPenalty = Infinity;
+
+    for (let mask = 0; mask < MASK_COUNT; mask++) {
+      grid.drawFormatBits(level, mask);
+      grid.applyMask(mask);
+      const penalty = grid.getPenalty();
+      // Masking is an XOR, so applying it again restores the grid
+      grid.applyMask(mask);
+
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty;
+        bestMask = mask;
+      }
+    }
+
+    return bestMask;
+  }
+}
+
+/**
+ * Mutable module grid used while a symbol is built. Function modules are
+ * marked reserved so data placement and masking skip them.
+ */
+class SymbolGrid {
+  private readonly size: number;
+  private readonly modules: Uint8Array;
+  private readonly reserved: Uint8Array;
+
+  constructor(private readonly version: number) {
+    this.size = getSymbolSize(version);
+    this.modules = new Uint8Array(this.size * this.size);
+    this.reserved = new Uint8Array(this.size * this.size);
+  }
+
+  getModules(): Uint8Array {
+    return this.modules;
+  }
+
+  drawFunctionPatterns(): void {
+    this.drawFinderPattern(0, 0);
+    this.drawFinderPattern(0, this.size - 7);
+    this.drawFinderPattern(this.size - 7, 0);
+
+    for (let i = 8; i < this.size - 8; i++) {
+      this.setFunction(i, 6, i % 2 === 0);
+      this.setFunction(6, i, i % 2 === 0);
+    }
+
+    // Alignment patterns skip the three corners taken by finder patterns
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((row, i) => positions.forEach((col, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      this.drawAlignmentPattern(row, col);
+    }));
+
+    // Reserve the format areas now; the real bits depend on the chosen mask
+    this.drawFormatBits(undefined, 0);
+    if (this.version >= 7) {
+      this.drawVersionBits();
+    }
+  }
+
+  placeCodewords(codewords: Uint8Array): void {
+    let bitIndex = 0;
+    let upward = true;
+
+    // Two-module columns zigzag from the bottom-right corner, skipping the vertical timing pattern
+    for (let right = this.size - 1; right > 0; right -= 2) {
+      if (right === 6) {
+        right--;
+      }
+      for (let step = 0; step < this.size; step++) {
+        const row = upward ? this.size - 1 - step : step;
+        for (let offset = 0; offset < 2; offset++) {
+          const col = right - offset;
+          if (this.isReserved(row, col)) {
+            continue;
+          }
+          const byte = bitIndex >>> 3;
+          const dark = byte < codewords.length && ((codewords[byte] >>> (7 - (bitIndex & 7))) & 1) === 1;
+          this.modules[row * this.size + col] = dark ? 1 : 0;
+          bitIndex++;
+        }
+      }
+      upward = !upward;
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let row = 0; row < this.size; row++) {
+      for (let col = 0; col < this.size; col++) {
+        if (!this.isReserved(row, col) && isMasked(mask, row, col)) {
+          this.modules[row * this.size + col] ^= 1;
+        }
+      }
+    }
+  }
+
+  // A level of undefined only reserves the format areas
+  drawFormatBits(level: ErrorCorrectionLevel | undefined, mask: number): void {
+    const bits = getFormatBits(level === undefined ? 0 : FORMAT_LEVEL_BITS[level], mask);
+
+    for (let i = 0; i < 15; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+
+      // Copy along the left edge: top-left corner, then bottom-left
+      if (i < 6) {
+        this.setFunction(i, 8, dark);
+      } else if (i < 8) {
+        this.setFunction(i + 1, 8, dark);
+      } else {
+        this.setFunction(this.size - 15 + i, 8, dark);
+      }
+
+      // Copy along the top edge: top-right corner, then top-left
+      if (i < 8) {
+        this.setFunction(8, this.size - i - 1, dark);
+      } else if (i < 9) {
+        this.setFunction(8, 15 - i, dark);
+      } else {
+        this.setFunction(8, 14 - i, dark);
+      }
+    }
+
+    // Always-dark module next to the bottom-left finder
+    this.setFunction(this.size - 8, 8, true);
+  }
+
+  // Sum of the four penalty rules; lower scores read more reliably
+  getPenalty(): number {
+    let penalty = 0;
+
+    for (let a = 0; a < this.size; a++) {
+      let rowRun = 0;
+      let colRun = 0;
+      let rowPattern = 0;
+      let colPattern = 0;
+      let lastRow = -1;
+      let lastCol = -1;
+
+      for (let b = 0; b < this.size; b++) {
+        const rowModule = this.get(a, b);
+        const colModule = this.get(b, a);
+
+        // Runs of five or more same-colored modules
+        if (rowModule === lastRow) {
+          rowRun++;
+        } else {
+          penalty += rowRun >= 5 ? PENALTY_RUN + rowRun - 5 : 0;
+          lastRow = rowModule;
+          rowRun = 1;
+        }
+        if (colModule === lastCol) {
+          colRun++;
+        } else {
+          penalty += colRun >= 5 ? PENALTY_RUN + colRun - 5 : 0;
+          lastCol = colModule;
+          colRun = 1;
+        }
+
+        // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+        rowPattern = ((rowPattern << 1) & 0x7ff) | rowModule;
+        colPattern = ((colPattern << 1) & 0x7ff) | colModule;
+        if (b >= 10) {
+          penalty += rowPattern === 0x5d0 || rowPattern === 0x05d ? PENALTY_FINDER_LIKE : 0;
+          penalty += colPattern === 0x5d0 || colPattern === 0x05d ? PENALTY_FINDER_LIKE : 0;
+        }
+      }
+
+      penalty += rowRun >= 5 ? PENALTY_RUN + rowRun - 5 : 0;
+      penalty += colRun >= 5 ? PENALTY_RUN + colRun - 5 : 0;
+    }
+
+    // 2x2 blocks of one color
+    for (let row = 0; row < this.size - 1; row++) {
+      for (let col = 0; col < this.size - 1; col++) {
+        const sum = this.get(row, col) + this.get(row, col + 1) + this.get(row + 1, col) + this.get(row + 1, col + 1);
+        penalty += sum === 0 || sum === 4 ? PENALTY_BLOCK : 0;
+      }
+    }
+
+    // Deviation of the dark proportion from 50%, in steps of 5%
+    const dark = this.modules.reduce((count, module) => count + module, 0);
+    penalty += Math.abs(Math.ceil((dark * 100) / this.modules.length / 5) - 10) * PENALTY_BALANCE;
+
+    return penalty;
+  }
+
+  private drawFinderPattern(top: number, left: number): void {
+    // Includes the one-module light separator around the 7x7 pattern
+    for (let dy = -1; dy <= 7; dy++) {
+      for (let dx = -1; dx <= 7; dx++) {
+        const row = top + dy;
+        const col = left + dx;
+        if (row < 0 || col < 0 || row >= this.size || col >= this.size) {
+          continue;
+        }
+        const ring = Math.max(Math.abs(dy - 3), Math.abs(dx - 3));
+        this.setFunction(row, col, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+
+  private drawAlignmentPattern(row: number, col: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(row + dy, col + dx, Math.max(Math.abs(dy), Math.abs(dx)) !== 1);
+      }
+    }
+  }
+
+  private drawVersionBits(): void {
+    const bits = getVersionBits(this.version);
+
+    // Two 6x3 blocks, next to the top-right and bottom-left finders
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = Math.floor(i / 3);
+      const b = (i % 3) + this.size - 11;
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  private get(row: number, col: number): number {
+    return this.modules[row * this.size + col];
+  }
+
+  private isReserved(row: number, col: number): boolean {
+    return this.reserved[row * this.size + col] === 1;
+  }
+
+  private setFunction(row: number, col: number, dark: boolean): void {
+    this.modules[row * this.size + col] = dark ? 1 : 0;
+    this.reserved[row * this.size + col] = 1;
+  }
+}
@@ -0,0 +1,184 @@
+export enum SegmentMode {
+  NUMERIC = 'numeric',
+  ALPHANUMERIC = 'alphanumeric',
+  BYTE = 'byte',
+  KANJI = 'kanji',
+  ECI = 'eci'
+}
+
+// Mode indicator and character count bits for versions 1-9, 10-26 and 27-40
+const MODE_BITS: Record<SegmentMode, { indicator: number; countBits: [number, number, number] }> = {
+  [SegmentMode.NUMERIC]: { indicator: 0x1, countBits: [10, 12, 14] },
+  [SegmentMode.ALPHANUMERIC]: { indicator: 0x2, countBits: [9, 11, 13] },
+  [SegmentMode.BYTE]: { indicator: 0x4, countBits: [8, 16, 16] },
+  [SegmentMode.KANJI]: { indicator: 0x8, countBits: [8, 10, 12] },
+  [SegmentMode.ECI]: { indicator: 0x7, countBits: [0, 0, 0] }
+};
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+/**
+ * Appends values most significant bit first, as the QR bit stream requires.
+ */
+export class BitBuffer {
+  private readonly bits: number[] = [];
+
+  append(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+
+  appendBits(other: BitBuffer): void {
+    this.bits.push(...other.bits);
+  }
+
+  getLength(): number {
+    return this.bits.length;
+  }
+
+  toBytes(): Uint8Array {
+    const bytes = new Uint8Array(Math.ceil(this.bits.length / 8));
+    this.bits.forEach((bit, index) => {
+      bytes[index >>> 3] |= bit << (7 - (index & 7));
+    });
+    return bytes;
+  }
+}
+
+/**
+ * One segment of a QR bit stream: a mode, the number of characters it
+ * holds and the encoded data bits.
+ */
+export class QRSegment {
+  private constructor(
+    private readonly mode: SegmentMode,
+    private readonly characterCount: number,
+    private readonly data: BitBuffer
+  ) {}
+
+  static numeric(digits: string): QRSegment {
+    if (!QRSegment.isNumeric(digits)) {
+      throw new Error('Numeric segments can only contain digits');
+    }
+
+    const data = new BitBuffer();
+    for (let i = 0; i < digits.length; i += 3) {
+      const chunk = digits.substring(i, i + 3);
+      data.append(parseInt(chunk, 10), chunk.length * 3 + 1);
+    }
+
+    return new QRSegment(SegmentMode.NUMERIC, digits.length, data);
+  }
+
+  static alphanumeric(text: string): QRSegment {
+    if (!QRSegment.isAlphanumeric(text)) {
+      throw new Error(`Alphanumeric segments can only contain: ${ALPHANUMERIC_CHARSET}`);
+    }
+
+    const data = new BitBuffer();
+    for (let i = 0; i + 1 < text.length; i += 2) {
+      data.append(ALPHANUMERIC_CHARSET.indexOf(text[i]) * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+    }
+    if (text.length % 2 === 1) {
+      data.append(ALPHANUMERIC_CHARSET.indexOf(text[text.length - 1]), 6);
+    }
+
+    return new QRSegment(SegmentMode.ALPHANUMERIC, text.length, data);
+  }
+
+  static bytes(bytes: Uint8Array): QRSegment {
+    const data = new BitBuffer();
+    for (const byte of bytes) {
+      data.append(byte, 8);
+    }
+
+    return new QRSegment(SegmentMode.BYTE, bytes.length, data);
+  }
+
+  // Double-byte Shift_JIS characters from the two Kanji ranges, 13 bits each
+  static kanji(shiftJis: Uint8Array): QRSegment {
+    if (!QRSegment.isKanji(shiftJis)) {
+      throw new Error('Kanji segments can only contain double-byte Shift_JIS characters in 0x8140-0x9FFC or 0xE040-0xEBBF');
+    }
+
+    const data = new BitBuffer();
+    for (let i = 0; i < shiftJis.length; i += 2) {
+      const code = ((shiftJis[i] << 8) | shiftJis[i + 1]) - (shiftJis[i] <= 0x9f ? 0x8140 : 0xc140);
+      data.append((code >>> 8) * 0xc0 + (code & 0xff), 13);
+    }
+
+    return new QRSegment(SegmentMode.KANJI, shiftJis.length / 2, data);
+  }
+
+  // Extended Channel Interpretation: tells readers which charset the following bytes use
+  static eci(designator: number): QRSegment {
+    const data = new BitBuffer();
+    if (designator < 0 || designator > 999999 || !Number.isInteger(designator)) {
+      throw new Error(`ECI designator must be an integer between 0 and 999999, got ${designator}`);
+    } else if (designator < 1 << 7) {
+      data.append(designator, 8);
+    } else if (designator < 1 << 14) {
+      data.append(0b10, 2);
+      data.append(designator, 14);
+    } else {
+      data.append(0b110, 3);
+      data.append(designator, 21);
+    }
+
+    return new QRSegment(SegmentMode.ECI, 0, data);
+  }
+
+  static isNumeric(text: string): boolean {
+    return /^[0-9]*$/.test(text);
+  }
+
+  static isAlphanumeric(text: string): boolean {
+    return [...text].every(char => ALPHANUMERIC_CHARSET.includes(char));
+  }
+
+  static isKanji(shiftJis: Uint8Array): boolean {
+    if (shiftJis.length % 2 !== 0) {
+      return false;
+    }
+    for (let i = 0; i < shiftJis.length; i += 2) {
+      const code = (shiftJis[i] << 8) | shiftJis[i + 1];
+      if (!((code >= 0x8140 && code <= 0x9ffc) || (code >= 0xe040 && code <= 0xebbf))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  static getCountBits(mode: SegmentMode, version: number): number {
+    const countBits = MODE_BITS[mode].countBits;
+    return countBits[version <= 9 ? 0 : version <= 26 ? 1 : 2];
+  }
+
+  // Bits needed for the segments at a version, or Infinity if a count overflows
+  static getTotalBits(segments: QRSegment[], version: number): number {
+    let total = 0;
+    for (const segment of segments) {
+      const countBits = QRSegment.getCountBits(segment.mode, version);
+      if (segment.characterCount >= 2 ** countBits && segment.mode !== SegmentMode.ECI) {
+        return Infinity;
+      }
+      total += 4 + countBits + segment.data.getLength();
+    }
+    return total;
+  }
+
+  getMode(): SegmentMode {
+    return this.mode;
+  }
+
+  getCharacterCount(): number {
+    return this.characterCount;
+  }
+
+  writeTo(buffer: BitBuffer, version: number): void {
+    buffer.append(MODE_BITS[this.mode].indicator, 4);
+    buffer.append(this.characterCount, QRSegment.getCountBits(this.mode, version));
+    buffer.appendBits(this.data);
+  }
+}
@@ -0,0 +1,107 @@
+import { ErrorCorrectionLevel } from '../../../../domain/valueObjects/ErrorCorrectionLevel';
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+// ISO/IEC 18004 Table 9, indexed by version (index 0 unused)
+const ERROR_CORRECTION_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  [ErrorCorrectionLevel.LOW]: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [ErrorCorrectionLevel.MEDIUM]: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [ErrorCorrectionLevel.QUARTILE]: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [ErrorCorrectionLevel.HIGH]: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  [ErrorCorrectionLevel.LOW]: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [ErrorCorrectionLevel.MEDIUM]: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [ErrorCorrectionLevel.QUARTILE]: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [ErrorCorrectionLevel.HIGH]: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+// Two-bit level indicator stored in the format information
+export const FORMAT_LEVEL_BITS: Record<ErrorCorrectionLevel, number> = {
+  [ErrorCorrectionLevel.LOW]: 1,
+  [ErrorCorrectionLevel.MEDIUM]: 0,
+  [ErrorCorrectionLevel.QUARTILE]: 3,
+  [ErrorCorrectionLevel.HIGH]: 2
+};
+
+// 15-bit format information: level and mask with BCH(15,5) check bits, XOR-masked
+export function getFormatBits(levelBits: number, mask: number): number {
+  const data = (levelBits << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+// 18-bit version information with BCH(18,6) check bits, for versions 7 and up
+export function getVersionBits(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  return (version << 12) | remainder;
+}
+
+// Whether a mask pattern inverts the data module at a position
+export function isMasked(mask: number, row: number, col: number): boolean {
+  switch (mask) {
+    case 0: return (row + col) % 2 === 0;
+    case 1: return row % 2 === 0;
+    case 2: return col % 3 === 0;
+    case 3: return (row + col) % 3 === 0;
+    case 4: return (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0;
+    case 5: return ((row * col) % 2) + ((row * col) % 3) === 0;
+    case 6: return (((row * col) % 2) + ((row * col) % 3)) % 2 === 0;
+    case 7: return (((row + col) % 2) + ((row * col) % 3)) % 2 === 0;
+    default: throw new Error(`Invalid mask pattern: ${mask}`);
+  }
+}
+
+export function getSymbolSize(version: number): number {
+  return version * 4 + 17;
+}
+
+// Row/column centers of the alignment patterns
+export function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = getSymbolSize(version) - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+
+  return positions;
+}
+
+// Modules left for codewords once every function pattern is drawn
+export function getRawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+
+  return modules;
+}
+
+export function getErrorCorrectionBlocks(version: number, level: ErrorCorrectionLevel): { blocks: number; codewordsPerBlock: number } {
+  return {
+    blocks: ERROR_CORRECTION_BLOCKS[level][version],
+    codewordsPerBlock: ERROR_CORRECTION_CODEWORDS_PER_BLOCK[level][version]
+  };
+}
+
+export function getDataCodewords(version: number, level: ErrorCorrectionLevel): number {
+  const { blocks, codewordsPerBlock } = getErrorCorrectionBlocks(version, level);
+  return Math.floor(getRawDataModules(version) / 8) - blocks * codewordsPerBlock;
+}
@@ -0,0 +1,165 @@
+// GF(256) arithmetic over the QR code polynomial x^8 + x^4 + x^3 + x^2 + 1
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+
+let value = 1;
+for (let i = 0; i < 255; i++) {
+  EXP[i] = value;
+  LOG[value] = i;
+  value <<= 1;
+  if (value & 0x100) {
+    value ^= 0x11d;
+  }
+}
+for (let i = 255; i < 512; i++) {
+  EXP[i] = EXP[i - 255];
+}
+
+function multiply(x: number, y: number): number {
+  return x === 0 || y === 0 ? 0 : EXP[LOG[x] + LOG[y]];
+}
+
+const generators = new Map<number, Uint8Array>();
+
+// Coefficients of (x - a^0)(x - a^1)...(x - a^(degree-1)), highest power first, leading 1 dropped
+function getGenerator(degree: number): Uint8Array {
+  const cached = generators.get(degree);
+  if (cached) {
+    return cached;
+  }
+
+  const generator = new Uint8Array(degree);
+  generator[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      generator[j] = multiply(generator[j], root) ^ (j + 1 < degree ? generator[j + 1] : 0);
+    }
+    root = multiply(root, 0x02);
+  }
+
+  generators.set(degree, generator);
+  return generator;
+}
+
+// Error correction codewords for one block of data codewords
+export function computeErrorCorrection(data: Uint8Array, degree: number): Uint8Array {
+  const generator = getGenerator(degree);
+  const remainder = new Uint8Array(degree);
+
+  for (const codeword of data) {
+    const factor = codeword ^ remainder[0];
+    remainder.copyWithin(0, 1);
+    remainder[degree - 1] = 0;
+    for (let i = 0; i < degree; i++) {
+      remainder[i] ^= multiply(generator[i], factor);
+    }
+  }
+
+  return remainder;
+}
+
+function divide(x: number, y: number): number {
+  return x === 0 ? 0 : EXP[LOG[x] + 255 - LOG[y]];
+}
+
+// a raised to a power, which may be negative
+function power(exponent: number): number {
+  return EXP[((exponent % 255) + 255) % 255];
+}
+
+// Value of a polynomial given lowest power first
+function evaluate(polynomial: number[], x: number): number {
+  let result = 0;
+  for (let i = polynomial.length - 1; i >= 0; i--) {
+    result = multiply(result, x) ^ polynomial[i];
+  }
+  return result;
+}
+
+/**
+ * Corrects one block of data and error correction codewords in place and
+ * returns how many codewords were wrong. Berlekamp-Massey finds the error
+ * locator, a Chien search its roots and Forney's formula the error values.
+ * Throws when the block has more errors than its degree can correct.
+ */
+export function correctErrors(block: Uint8Array, degree: number): number {
+  const syndromes = new Array<number>(degree).fill(0);
+  for (let j = 0; j < degree; j++) {
+    const root = EXP[j];
+    for (const codeword of block) {
+      syndromes[j] = multiply(syndromes[j], root) ^ codeword;
+    }
+  }
+  if (syndromes.every(syndrome => syndrome === 0)) {
+    return 0;
+  }
+
+  // Error locator, lowest power first
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let k = 0; k < degree; k++) {
+    let discrepancy = syndromes[k];
+    for (let i = 1; i <= errors && i < locator.length; i++) {
+      discrepancy ^= multiply(locator[i], syndromes[k - i]);
+    }
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+
+    const factor = divide(discrepancy, lastDiscrepancy);
+    const next = [...locator];
+    for (let i = 0; i < previous.length; i++) {
+      next[i + shift] = (next[i + shift] ?? 0) ^ multiply(factor, previous[i]);
+    }
+    if (2 * errors <= k) {
+      previous = locator;
+      errors = k + 1 - errors;
+      lastDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (2 * errors > degree) {
+    throw new Error('Too many errors to correct');
+  }
+
+  // Codeword i holds the coefficient of x^(n-1-i), so its locator root is a^-(n-1-i)
+  const positions: number[] = [];
+  for (let i = 0; i < block.length; i++) {
+    if (evaluate(locator, power(-(block.length - 1 - i))) === 0) {
+      positions.push(i);
+    }
+  }
+  if (positions.length !== errors) {
+    throw new Error('Too many errors to correct');
+  }
+
+  // Error evaluator: syndromes times locator, modulo x^degree
+  const evaluator = new Array<number>(degree).fill(0);
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j <= i && j < locator.length; j++) {
+      evaluator[i] ^= multiply(syndromes[i - j], locator[j]);
+    }
+  }
+  // Formal derivative: in characteristic 2 only the odd powers remain
+  const derivative = locator.slice(1).map((coefficient, i) => (i % 2 === 0 ? coefficient : 0));
+
+  for (const position of positions) {
+    const exponent = block.length - 1 - position;
+    const inverse = power(-exponent);
+    const denominator = evaluate(derivative, inverse);
+    if (denominator === 0) {
+      throw new Error('Too many errors to correct');
+    }
+    block[position] ^= multiply(power(exponent), divide(evaluate(evaluator, inverse), denominator));
+  }
+
+  return positions.length;
+}
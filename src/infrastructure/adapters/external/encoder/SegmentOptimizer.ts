@@ -0,0 +1,89 @@
+import { Charset, CharsetValue } from '../../../../domain/valueObjects/Charset';
+import { QRSegment, SegmentMode } from './QRSegment';
+import { CharsetCodec } from './CharsetCodec';
+
+export interface SegmentRun {
+  mode: SegmentMode;
+  text: string;
+}
+
+const MODES = [SegmentMode.BYTE, SegmentMode.ALPHANUMERIC, SegmentMode.NUMERIC, SegmentMode.KANJI];
+
+// Costs are in sixths of a bit so the 10/3-bit digits and 5.5-bit alphanumerics stay integers
+const NUMERIC_COST = 20;
+const ALPHANUMERIC_COST = 33;
+const BYTE_COST = 48;
+const KANJI_COST = 78;
+
+const SHIFT_JIS = CharsetValue.create(Charset.SHIFT_JIS);
+
+/**
+ * Splits text into the runs of numeric, alphanumeric, byte and Kanji mode
+ * that need the fewest bits. Mode headers cost more at higher versions, so
+ * the best split depends on the version.
+ */
+export class SegmentOptimizer {
+  constructor(private readonly charsetCodec: CharsetCodec = new CharsetCodec()) {}
+
+  split(text: string, charset: CharsetValue, version: number): SegmentRun[] {
+    const chars = [...text];
+    const headCosts = MODES.map(mode => (4 + QRSegment.getCountBits(mode, version)) * 6);
+
+    // For each character and each mode the run is in after it: the mode that character was written in
+    const charModes: Array<Array<SegmentMode | undefined>> = [];
+    let costs = [...headCosts];
+
+    chars.forEach(char => {
+      const charCosts = this.getCharCosts(char, charset);
+      const nextCosts = costs.map((cost, m) => cost + charCosts[m]);
+      const modes = MODES.map((mode, m) => (charCosts[m] < Infinity ? mode : undefined));
+
+      // Starting a new run after this character costs the current run in whole bits plus the new header
+      MODES.forEach((_, to) => {
+        MODES.forEach((from, m) => {
+          const switched = Math.ceil(nextCosts[m] / 6) * 6 + headCosts[to];
+          if (modes[m] !== undefined && switched < nextCosts[to]) {
+            nextCosts[to] = switched;
+            modes[to] = from;
+          }
+        });
+      });
+
+      charModes.push(modes);
+      costs = nextCosts;
+    });
+
+    // Walk back from the cheapest final state
+    let mode = MODES[costs.indexOf(Math.min(...costs))];
+    const chosen: SegmentMode[] = [];
+    for (let i = chars.length - 1; i >= 0; i--) {
+      mode = charModes[i][MODES.indexOf(mode)] as SegmentMode;
+      chosen[i] = mode;
+    }
+
+    const runs: SegmentRun[] = [];
+    chars.forEach((char, i) => {
+      const last = runs[runs.length - 1];
+      if (last && last.mode === chosen[i]) {
+        last.text += char;
+      } else {
+        runs.push({ mode: chosen[i], text: char });
+      }
+    });
+
+    return runs;
+  }
+
+  // Cost of one character in each mode, in the order of MODES; Infinity where the mode cannot hold it
+  private getCharCosts(char: string, charset: CharsetValue): number[] {
+    const bytes = this.charsetCodec.tryEncode(char, charset);
+    const shiftJis = char.charCodeAt(0) >= 0x80 ? this.charsetCodec.tryEncode(char, SHIFT_JIS) : undefined;
+
+    return [
+      bytes ? bytes.length * BYTE_COST : Infinity,
+      QRSegment.isAlphanumeric(char) ? ALPHANUMERIC_COST : Infinity,
+      QRSegment.isNumeric(char) ? NUMERIC_COST : Infinity,
+      shiftJis && QRSegment.isKanji(shiftJis) ? KANJI_COST : Infinity
+    ];
+  }
+}
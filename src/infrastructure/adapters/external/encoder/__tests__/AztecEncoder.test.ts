@@ -0,0 +1,83 @@
+import { AztecEncoder } from '../AztecEncoder';
+import { GaloisField } from '../GaloisField';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+
+describe('AztecEncoder', () => {
+  const encoder = new AztecEncoder();
+  const utf8 = CharsetValue.default();
+
+  const bitsOf = (text: string) => encoder.encodeData(text, utf8).join('');
+
+  it('should write text with the character tables', () => {
+    expect(bitsOf('AB')).toBe('00010' + '00011');
+    // Latch to lower, then shift a single capital
+    expect(bitsOf('aBc')).toBe('11100' + '00010' + '11100' + '00011' + '00100');
+    // Latch to digits, where a comma has its own code
+    expect(bitsOf('1,2')).toBe('11110' + '0011' + '1100' + '0100');
+    // Shift to punctuation
+    expect(bitsOf('A!')).toBe('00010' + '00000' + '00110');
+  });
+
+  it('should write bytes without a table entry with binary shift', () => {
+    expect(bitsOf('\u0000')).toBe('11111' + '00001' + '00000000');
+  });
+
+  it('should declare non-ASCII charsets with FLG(n)', () => {
+    // P/S, FLG, two digits: 2 and 6
+    expect(bitsOf('é').startsWith('00000' + '00000' + '010' + '0100' + '1000')).toBe(true);
+  });
+
+  it('should pick compact symbols for short data and full-range ones for long data', () => {
+    expect(encoder.findLayout(encoder.encodeData('A', utf8), 23)).toMatchObject({ compact: true, layers: 1, wordSize: 6 });
+    expect(encoder.encodeText('This is an example Aztec symbol for Wikipedia.', utf8, 23).getSize()).toBe(23);
+    expect(encoder.findLayout(encoder.encodeData('x'.repeat(500), utf8), 23)).toMatchObject({ compact: false, wordSize: 10 });
+  });
+
+  it('should draw the bullseye at the center', () => {
+    const matrix = encoder.encodeText('A', utf8, 23);
+    const center = Math.floor(matrix.getSize() / 2);
+    const ring = (distance: number) => matrix.isDark(center - distance, center) && matrix.isDark(center, center + distance);
+
+    expect(matrix.getSize()).toBe(15);
+    expect([0, 1, 2, 3, 4].map(ring)).toEqual([true, false, true, false, true]);
+    expect(matrix.hasFunctionPatterns()).toBe(false);
+  });
+
+  it('should protect the mode message with Reed-Solomon check words', () => {
+    const matrix = encoder.encodeText('A', utf8, 23);
+    const center = Math.floor(matrix.getSize() / 2);
+
+    // Compact mode message: 7 modules on each side of the ring around the bullseye, clockwise
+    const bits: number[] = [];
+    const dark = (x: number, y: number) => (matrix.isDark(y, x) ? 1 : 0);
+    for (let i = 0; i < 7; i++) bits[i] = dark(center - 3 + i, center - 5);
+    for (let i = 0; i < 7; i++) bits[i + 7] = dark(center + 5, center - 3 + i);
+    for (let i = 0; i < 7; i++) bits[20 - i] = dark(center - 3 + i, center + 5);
+    for (let i = 0; i < 7; i++) bits[27 - i] = dark(center - 5, center - 3 + i);
+
+    const words = Array.from({ length: 7 }, (_, i) => parseInt(bits.slice(i * 4, i * 4 + 4).join(''), 2));
+    const field = GaloisField.AZTEC_PARAM;
+    const syndromes = [1, 2, 3, 4, 5].map(power =>
+      words.reduce((sum, word) => field.multiply(sum, field.power(power)) ^ word, 0)
+    );
+
+    expect(syndromes).toEqual([0, 0, 0, 0, 0]);
+    // One layer and one data codeword, both stored minus one
+    expect(words[0] >> 2).toBe(0);
+    expect(((words[0] & 0x3) << 4) | words[1]).toBe(0);
+  });
+
+  it('should report how many characters fit the largest symbol', () => {
+    const capacity = encoder.measure('x'.repeat(5000), utf8, 23);
+
+    expect(capacity.fits).toBe(false);
+    expect(encoder.findLayout(encoder.encodeData('x'.repeat(capacity.maxCharacters), utf8), 23)).toMatchObject({ layers: 32 });
+    expect(encoder.findLayout(encoder.encodeData('x'.repeat(capacity.maxCharacters + 1), utf8), 23)).toBeUndefined();
+  });
+
+  it('should report the module count of the symbol the data fits in', () => {
+    for (const text of ['hello', 'x'.repeat(200), 'x'.repeat(1500)]) {
+      expect(encoder.measure(text, utf8, 23).moduleCount).toBe(encoder.encodeText(text, utf8, 23).getSize());
+    }
+  });
+});
@@ -0,0 +1,28 @@
+import { CharsetCodec } from '../CharsetCodec';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+import { ValidationError } from '../../../../../shared/errors';
+
+describe('CharsetCodec', () => {
+  const codec = new CharsetCodec();
+
+  it('should round-trip text through multi-byte charsets', () => {
+    const shiftJis = CharsetValue.create('Shift_JIS');
+    const bytes = codec.encode('日本語', shiftJis);
+
+    expect(bytes).toEqual(Buffer.from([0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea]));
+    expect(codec.decode(bytes, shiftJis)).toBe('日本語');
+  });
+
+  it('should compose Windows-1258 tone marks into precomposed letters', () => {
+    const text = codec.decode(Buffer.from('Vi\xea\xf2t', 'latin1'), CharsetValue.create('Windows-1258'));
+
+    expect(text).toBe('Việt');
+    expect(text).toHaveLength(4);
+  });
+
+  it('should name the first character the charset cannot represent', () => {
+    expect(() => codec.encode('café ☕', CharsetValue.create('ISO-8859-1'))).toThrow(ValidationError);
+    expect(() => codec.encode('café ☕', CharsetValue.create('ISO-8859-1')))
+      .toThrow('Data contains characters that cannot be encoded in ISO-8859-1: "☕"');
+  });
+});
@@ -0,0 +1,65 @@
+import { Code128Encoder, CODE_128_PATTERNS } from '../Code128Encoder';
+
+describe('Code128Encoder', () => {
+  const encoder = new Code128Encoder();
+
+  it('should define 11-module patterns with an even number of bar modules', () => {
+    expect(new Set(CODE_128_PATTERNS).size).toBe(107);
+    for (const pattern of CODE_128_PATTERNS.slice(0, 106)) {
+      const widths = pattern.split('').map(Number);
+      expect(widths.reduce((sum, width) => sum + width, 0)).toBe(11);
+      expect((widths[0] + widths[2] + widths[4]) % 2).toBe(0);
+    }
+    expect(CODE_128_PATTERNS[106]).toBe('2331112');
+  });
+
+  it('should compute the check character', () => {
+    const symbol = encoder.encode('Wikipedia');
+
+    expect(symbol.values).toEqual([104, 55, 73, 75, 73, 80, 69, 68, 73, 65, 88]);
+    expect(symbol.codeSets).toEqual(['B']);
+  });
+
+  it('should encode digit pairs in code set C', () => {
+    const symbol = encoder.encode('1234567890');
+
+    expect(symbol.values).toEqual([105, 12, 34, 56, 78, 90, 85]);
+    expect(symbol.codeSets).toEqual(['C']);
+  });
+
+  it('should switch to code set C for long digit runs and back', () => {
+    const symbol = encoder.encode('AB12345678cd');
+
+    expect(symbol.values.slice(0, -1)).toEqual([104, 33, 34, 99, 12, 34, 56, 78, 100, 67, 68]);
+    expect(symbol.codeSets).toEqual(['B', 'C', 'B']);
+  });
+
+  it('should shift single control characters instead of latching', () => {
+    const symbol = encoder.encode('ABC\x01def');
+
+    expect(symbol.values.slice(0, -1)).toEqual([104, 33, 34, 35, 98, 65, 68, 69, 70]);
+    expect(symbol.codeSets).toEqual(['B']);
+  });
+
+  it('should start in code set A for control characters', () => {
+    const symbol = encoder.encode('\x02\x03AB');
+
+    expect(symbol.values.slice(0, -1)).toEqual([103, 66, 67, 33, 34]);
+    expect(symbol.codeSets).toEqual(['A']);
+  });
+
+  it('should lay out the modules with the stop pattern and quiet zones', () => {
+    const symbol = encoder.encode('Hi');
+
+    // Start, two data characters and the check character, then the 13-module stop
+    expect(symbol.modules).toHaveLength(4 * 11 + 13);
+    expect(symbol.modules.slice(0, 11).map(module => (module ? 1 : 0)).join('')).toBe('11010010000');
+    expect(symbol.modules.slice(-13).map(module => (module ? 1 : 0)).join('')).toBe('1100011101011');
+    expect(symbol.quietZone).toEqual({ left: 10, right: 10 });
+    expect(symbol.text).toEqual([{ text: 'Hi', start: 0, end: 57 }]);
+  });
+
+  it('should reject characters outside ASCII', () => {
+    expect(() => encoder.encode('Größe')).toThrow('Code 128 encodes ASCII characters only; "ö" is not ASCII');
+  });
+});
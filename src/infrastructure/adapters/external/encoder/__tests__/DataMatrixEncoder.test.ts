@@ -0,0 +1,68 @@
+import { DataMatrixEncoder, DATA_MATRIX_SIZES } from '../DataMatrixEncoder';
+import { GaloisField } from '../GaloisField';
+import { QRMatrix } from '../../renderers/QRMatrix';
+import { Charset, CharsetValue } from '../../../../../domain/valueObjects/Charset';
+
+describe('DataMatrixEncoder', () => {
+  const encoder = new DataMatrixEncoder();
+  const utf8 = CharsetValue.default();
+
+  const row = (matrix: QRMatrix, index: number) =>
+    Array.from({ length: matrix.getSize() }, (_, col) => (matrix.isDark(index, col) ? 1 : 0)).join('');
+  const column = (matrix: QRMatrix, index: number) =>
+    Array.from({ length: matrix.getSize() }, (_, r) => (matrix.isDark(r, index) ? 1 : 0)).join('');
+
+  it.each(DATA_MATRIX_SIZES.map(size => [size.size, size] as const))('should fill the %ix%i symbol with its codewords', (_, size) => {
+    const mappingSize = (size.size / (size.regionSize + 2)) * size.regionSize;
+    expect(size.dataCodewords + size.errorCodewords).toBe(Math.floor(mappingSize * mappingSize / 8));
+    expect(size.errorCodewords % size.blocks).toBe(0);
+  });
+
+  it('should match the ISO/IEC 16022 example codewords', () => {
+    const data = encoder.encodeData('123456', utf8);
+
+    expect(data).toEqual([142, 164, 186]);
+    expect(GaloisField.DATA_MATRIX.computeErrorCorrection(data, 5)).toEqual([114, 25, 5, 88, 102]);
+  });
+
+  it('should draw the finder and timing patterns', () => {
+    const matrix = encoder.encodeText('123456', utf8);
+
+    expect(matrix.getSize()).toBe(10);
+    expect(column(matrix, 0)).toBe('1111111111');
+    expect(row(matrix, 9)).toBe('1111111111');
+    expect(row(matrix, 0)).toBe('1010101010');
+    expect(column(matrix, 9)).toBe('0101010101');
+    expect(matrix.hasFunctionPatterns()).toBe(false);
+  });
+
+  it('should split larger symbols into data regions', () => {
+    const matrix = encoder.encodeText('x'.repeat(50), utf8);
+
+    // Two 14x14 regions per side, each with its own border
+    expect(matrix.getSize()).toBe(32);
+    expect(column(matrix, 16)).toBe('1'.repeat(32));
+    expect(row(matrix, 15)).toBe('1'.repeat(32));
+    expect(column(matrix, 15)).toBe('01'.repeat(16));
+  });
+
+  it('should declare non-ASCII charsets with an ECI designator', () => {
+    expect(encoder.encodeData('a', utf8)).toEqual([98]);
+    expect(encoder.encodeData('é', utf8).slice(0, 2)).toEqual([241, 27]);
+    expect(encoder.encodeData('ж', CharsetValue.create(Charset.ISO_8859_5)).slice(0, 2)).toEqual([241, 8]);
+  });
+
+  it('should switch to Base 256 when it is shorter than ASCII', () => {
+    const data = encoder.encodeData('éééé', utf8);
+
+    // ECI, latch, length and 8 bytes instead of 16 upper-shifted codewords
+    expect(data).toHaveLength(12);
+    expect(data[2]).toBe(231);
+  });
+
+  it('should report how many characters fit the largest symbol', () => {
+    expect(encoder.measure('1'.repeat(3116), utf8)).toEqual({ fits: true, maxCharacters: 3116, moduleCount: 144 });
+    expect(encoder.measure('1'.repeat(3200), utf8)).toEqual({ fits: false, maxCharacters: 3116 });
+    expect(() => encoder.encodeText('1'.repeat(3200), utf8)).toThrow('the largest symbol holds 1558');
+  });
+});
@@ -0,0 +1,30 @@
+import { EANEncoder } from '../EANEncoder';
+
+describe('EANEncoder', () => {
+  const encoder = new EANEncoder();
+  const bits = (modules: boolean[]) => modules.map(module => (module ? 1 : 0)).join('');
+
+  it('should encode EAN-13 with the parity set by the leading digit', () => {
+    const symbol = encoder.encodeEAN13('4006381333931');
+
+    // 4 selects A B A A B B for the left-hand digits 0 0 6 3 8 1
+    expect(bits(symbol.modules)).toBe(
+      '101' + '0001101' + '0100111' + '0101111' + '0111101' + '0001001' + '0110011' +
+      '01010' + '1000010' + '1000010' + '1000010' + '1110100' + '1000010' + '1100110' + '101'
+    );
+    expect(symbol.quietZone).toEqual({ left: 11, right: 7 });
+    expect(symbol.text.map(group => group.text)).toEqual(['4', '006381', '333931']);
+  });
+
+  it('should encode UPC-A as EAN-13 with a leading zero', () => {
+    const upc = encoder.encodeUPCA('036000291452');
+
+    expect(upc.modules).toEqual(encoder.encodeEAN13('0036000291452').modules);
+    expect(upc.text.map(group => group.text)).toEqual(['0', '36000', '29145', '2']);
+    expect(upc.guards[0]).toEqual({ start: 0, end: 10 });
+  });
+
+  it('should require the full digit string', () => {
+    expect(() => encoder.encodeEAN13('400638133393')).toThrow('Expected 13 digits including the check digit');
+  });
+});
@@ -0,0 +1,154 @@
+import * as QRCodeLib from 'qrcode';
+import * as iconv from 'iconv-lite';
+import { QREncoder } from '../QREncoder';
+import { BitBuffer, QRSegment } from '../QRSegment';
+import { QRMatrix } from '../../renderers/QRMatrix';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+import { ErrorCorrectionLevel } from '../../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { EncodingMode } from '../../../../../domain/valueObjects/EncodingMode';
+import { ValidationError } from '../../../../../shared/errors';
+
+describe('QREncoder', () => {
+  const encoder = new QREncoder();
+
+  const modulesOf = (matrix: QRMatrix) => {
+    const modules: number[] = [];
+    for (let row = 0; row < matrix.getSize(); row++) {
+      for (let col = 0; col < matrix.getSize(); col++) {
+        modules.push(matrix.isDark(row, col) ? 1 : 0);
+      }
+    }
+    return modules;
+  };
+
+  it.each([
+    [ErrorCorrectionLevel.LOW, 'low', 17],
+    [ErrorCorrectionLevel.MEDIUM, 'medium', 150],
+    [ErrorCorrectionLevel.QUARTILE, 'quartile', 400],
+    [ErrorCorrectionLevel.HIGH, 'high', 1200]
+  ] as const)('should match the qrcode package at level %s', (level, name, length) => {
+    const bytes = Buffer.from('qr'.repeat(length / 2).substring(0, length));
+    const reference = QRCodeLib.create([{ data: bytes, mode: 'byte' }], { errorCorrectionLevel: name });
+    const matrix = encoder.encode([QRSegment.bytes(bytes)], level);
+
+    expect(matrix.getVersion()).toBe(reference.version);
+    expect(modulesOf(matrix)).toEqual(Array.from(reference.modules.data));
+  });
+
+  it('should pick numeric and alphanumeric modes for ASCII text', () => {
+    const numeric = encoder.encodeText('0123456789', CharsetValue.default(), ErrorCorrectionLevel.MEDIUM);
+    const alphanumeric = encoder.encodeText('HELLO WORLD', CharsetValue.default(), ErrorCorrectionLevel.MEDIUM);
+
+    expect(modulesOf(numeric)).toEqual(Array.from(QRCodeLib.create([{ data: '0123456789', mode: 'numeric' }], { errorCorrectionLevel: 'medium' }).modules.data));
+    expect(modulesOf(alphanumeric)).toEqual(Array.from(QRCodeLib.create([{ data: 'HELLO WORLD', mode: 'alphanumeric' }], { errorCorrectionLevel: 'medium' }).modules.data));
+  });
+
+  it('should declare the charset of non-ASCII text with an ECI segment', () => {
+    const latin1 = encoder.encodeText('café', CharsetValue.create('ISO-8859-1'), ErrorCorrectionLevel.LOW);
+    const expected = encoder.encode([QRSegment.eci(3), QRSegment.bytes(Buffer.from([0x63, 0x61, 0x66, 0xe9]))], ErrorCorrectionLevel.LOW);
+
+    expect(modulesOf(latin1)).toEqual(modulesOf(expected));
+    expect(modulesOf(encoder.encodeText('café', CharsetValue.default(), ErrorCorrectionLevel.LOW))).not.toEqual(modulesOf(latin1));
+  });
+
+  it('should write ECI designators in one, two or three bytes', () => {
+    const bitsOf = (designator: number) => {
+      const buffer = new BitBuffer();
+      QRSegment.eci(designator).writeTo(buffer, 1);
+      return Buffer.from(buffer.toBytes()).toString('hex');
+    };
+
+    // Mode indicator 0111 followed by the designator
+    expect(bitsOf(26)).toBe('71a0');
+    expect(bitsOf(900)).toBe('783840');
+    expect(bitsOf(20000)).toBe('7c04e200');
+  });
+
+  it('should reject text the charset cannot represent', () => {
+    expect(() => encoder.encodeText('日本', CharsetValue.create('ISO-8859-2'), ErrorCorrectionLevel.LOW))
+      .toThrow(ValidationError);
+  });
+
+  it('should use a requested version and mask pattern', () => {
+    const reference = QRCodeLib.create('LABEL-001', { errorCorrectionLevel: 'M', version: 5, maskPattern: 6 });
+    const matrix = encoder.encodeText('LABEL-001', CharsetValue.default(), ErrorCorrectionLevel.MEDIUM, { version: 5, mask: 6 });
+
+    expect(matrix.getVersion()).toBe(5);
+    expect(matrix.getMaskPattern()).toBe(6);
+    expect(modulesOf(matrix)).toEqual(Array.from(reference.modules.data));
+  });
+
+  it('should report the smallest version when data does not fit the requested one', () => {
+    const encode = () => encoder.encodeText('x'.repeat(100), CharsetValue.default(), ErrorCorrectionLevel.HIGH, { version: 2 });
+
+    expect(encode).toThrow(ValidationError);
+    expect(encode).toThrow('Data does not fit in version 2 at error correction level H: it needs 812 bits but the symbol holds 128. The smallest version that fits is 10');
+  });
+
+  it('should reject out-of-range versions and masks', () => {
+    expect(() => encoder.encodeText('A', CharsetValue.default(), ErrorCorrectionLevel.LOW, { version: 41 })).toThrow('Version must be');
+    expect(() => encoder.encodeText('A', CharsetValue.default(), ErrorCorrectionLevel.LOW, { mask: 8 })).toThrow('Mask pattern must be');
+  });
+
+  it('should split mixed content into the cheapest segments', () => {
+    const serial = 'SN-00123456789012345678';
+    const segments = encoder.segmentText(serial, CharsetValue.default(), ErrorCorrectionLevel.LOW);
+
+    expect(segments.map(segment => [segment.getMode(), segment.getCharacterCount()])).toEqual([
+      ['alphanumeric', 3],
+      ['numeric', 20]
+    ]);
+
+    const optimized = encoder.encodeText(serial.repeat(20), CharsetValue.default(), ErrorCorrectionLevel.LOW);
+    const byteMode = encoder.encodeText(serial.repeat(20), CharsetValue.default(), ErrorCorrectionLevel.LOW, { mode: EncodingMode.BYTE });
+    expect(optimized.getVersion()).toBe(11);
+    expect(byteMode.getVersion()).toBe(15);
+  });
+
+  it('should encode Kanji like the qrcode package', () => {
+    const toSJIS = (char: string) => iconv.encode(char, 'Shift_JIS').readUInt16BE(0);
+    const reference = QRCodeLib.create([{ data: '漢字テスト', mode: 'kanji' }], { errorCorrectionLevel: 'M', toSJISFunc: toSJIS });
+    const matrix = encoder.encodeText('漢字テスト', CharsetValue.default(), ErrorCorrectionLevel.MEDIUM);
+
+    expect(encoder.segmentText('漢字テスト', CharsetValue.default(), ErrorCorrectionLevel.MEDIUM).map(segment => segment.getMode()))
+      .toEqual(['kanji']);
+    expect(modulesOf(matrix)).toEqual(Array.from(reference.modules.data));
+  });
+
+  it('should honor a forced mode and reject data that mode cannot hold', () => {
+    const segments = encoder.segmentText('12345', CharsetValue.default(), ErrorCorrectionLevel.LOW, { mode: EncodingMode.BYTE });
+    expect(segments.map(segment => segment.getMode())).toEqual(['byte']);
+
+    expect(() => encoder.segmentText('abc', CharsetValue.default(), ErrorCorrectionLevel.LOW, { mode: EncodingMode.ALPHANUMERIC }))
+      .toThrow('Data cannot be encoded in alphanumeric mode');
+    expect(() => encoder.segmentText('abc', CharsetValue.default(), ErrorCorrectionLevel.LOW, { mode: EncodingMode.KANJI }))
+      .toThrow(ValidationError);
+  });
+
+  it('should measure how much of the data fits', () => {
+    const charset = CharsetValue.default();
+
+    expect(encoder.measure('x'.repeat(100), charset, ErrorCorrectionLevel.HIGH))
+      .toEqual({ fits: true, version: 10, minimumVersion: 10, maxCharacters: 100, moduleCount: 57 });
+    expect(encoder.measure('x'.repeat(100), charset, ErrorCorrectionLevel.HIGH, { version: 2 }))
+      .toEqual({ fits: false, minimumVersion: 10, maxCharacters: 14 });
+    expect(encoder.measure('x'.repeat(3000), charset, ErrorCorrectionLevel.LOW))
+      .toEqual({ fits: false, minimumVersion: undefined, maxCharacters: 2953 });
+    expect(encoder.measure('1'.repeat(8000), charset, ErrorCorrectionLevel.LOW).maxCharacters).toBe(7089);
+  });
+
+  it.each([
+    [ErrorCorrectionLevel.LOW, [7089, 4296, 2953, 1817]],
+    [ErrorCorrectionLevel.MEDIUM, [5596, 3391, 2331, 1435]],
+    [ErrorCorrectionLevel.QUARTILE, [3993, 2420, 1663, 1024]],
+    [ErrorCorrectionLevel.HIGH, [3057, 1852, 1273, 784]]
+  ] as const)('should compute the version 40 capacity at level %s', (level, expected) => {
+    const modes = [EncodingMode.NUMERIC, EncodingMode.ALPHANUMERIC, EncodingMode.BYTE, EncodingMode.KANJI] as const;
+    expect(modes.map(mode => encoder.getMaxCharacters(mode, level))).toEqual(expected);
+  });
+
+  it('should reject data beyond the capacity of version 40', () => {
+    expect(() => encoder.encode([QRSegment.bytes(Buffer.alloc(3000))], ErrorCorrectionLevel.LOW))
+      .toThrow('The amount of data is too big to be stored in a QR Code');
+  });
+});
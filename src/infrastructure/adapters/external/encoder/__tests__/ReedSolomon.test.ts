@@ -0,0 +1,33 @@
+import { computeErrorCorrection, correctErrors } from '../ReedSolomon';
+
+describe('ReedSolomon', () => {
+  const data = Uint8Array.from([0x40, 0xd2, 0x75, 0x47, 0x76, 0x17, 0x32, 0x06, 0x27, 0x26, 0x96, 0xc6, 0xc6, 0x96, 0x70, 0xec]);
+  const degree = 10;
+  const encode = () => Uint8Array.from([...data, ...computeErrorCorrection(data, degree)]);
+
+  it('should leave a clean block untouched', () => {
+    const block = encode();
+
+    expect(correctErrors(block, degree)).toBe(0);
+    expect(block).toEqual(encode());
+  });
+
+  it('should correct up to half the error correction codewords', () => {
+    const block = encode();
+    [0, 3, 7, 15, 25].forEach(position => {
+      block[position] ^= 0x5a;
+    });
+
+    expect(correctErrors(block, degree)).toBe(5);
+    expect(block).toEqual(encode());
+  });
+
+  it('should throw when there are more errors than it can correct', () => {
+    const block = encode();
+    [0, 2, 4, 6, 8, 10].forEach(position => {
+      block[position] ^= 0xff;
+    });
+
+    expect(() => correctErrors(block, degree)).toThrow('Too many errors to correct');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Placement of a symbol on a canvas of exactly the requested size. The quiet
+ * zone (in modules) surrounds the symbol, the margin (in canvas units)
+ * surrounds the quiet zone, and together they fit the shorter side; on the
+ * longer side the code is centered on padding.
+ */
+export class CanvasLayout {
+  private constructor(
+    private readonly width: number,
+    private readonly height: number,
+    private readonly quietZone: number,
+    private readonly moduleSize: number,
+    private readonly codeSize: number
+  ) {}
+
+  static create(symbolSize: number, width: number, height: number, quietZone: number, margin: number): CanvasLayout {
+    const codeSize = Math.min(width, height) - margin * 2;
+    if (codeSize <= 0) {
+      throw new Error(`Margin of ${margin} leaves no room for the code on a ${width}x${height} canvas`);
+    }
+
+    return new CanvasLayout(width, height, quietZone, codeSize / (symbolSize + quietZone * 2), codeSize);
+  }
+
+  getWidth(): number {
+    return this.width;
+  }
+
+  getHeight(): number {
+    return this.height;
+  }
+
+  getQuietZone(): number {
+    return this.quietZone;
+  }
+
+  getModuleSize(): number {
+    return this.moduleSize;
+  }
+
+  // Edge length of the symbol plus its quiet zone
+  getCodeSize(): number {
+    return this.codeSize;
+  }
+
+  // Top-left corner of the quiet zone
+  getCodeLeft(): number {
+    return (this.width - this.codeSize) / 2;
+  }
+
+  getCodeTop(): number {
+    return (this.height - this.codeSize) / 2;
+  }
+
+  // Top-left corner of the symbol itself
+  getSymbolLeft(): number {
+    return this.getCodeLeft() + this.quietZone * this.moduleSize;
+  }
+
+  getSymbolTop(): number {
+    return this.getCodeTop() + this.quietZone * this.moduleSize;
+  }
+}
@@ -0,0 +1,61 @@
+import { QRCodeConfiguration } from '../../../../domain/entities/QRCodeConfiguration';
+import { ColorValue } from '../../../../domain/valueObjects/ColorValue';
+import { QRMatrix } from './QRMatrix';
+import { CanvasLayout } from './CanvasLayout';
+
+/**
+ * Renders a QR module matrix as Encapsulated PostScript.
+ * One pixel of the requested size maps to one PostScript point.
+ */
+export class EPSRenderer {
+  render(matrix: QRMatrix, configuration: QRCodeConfiguration): Buffer {
+    const size = configuration.getSize();
+    const width = size.getWidth();
+    const height = size.getHeight();
+
+    // The symbol plus its quiet zone and margin is scaled to fit the shorter side and centered
+    const layout = CanvasLayout.create(matrix.getSize(), width, height, configuration.getQuietZone(), configuration.getMargin());
+    const moduleSize = layout.getModuleSize();
+    const originX = layout.getSymbolLeft();
+    const originY = layout.getSymbolTop();
+
+    const lines: string[] = [
+      '%!PS-Adobe-3.0 EPSF-3.0',
+      '%%Creator: api-gen-qr-code',
+      '%%Title: QR Code',
+      `%%BoundingBox: 0 0 ${width} ${height}`,
+      `%%HiResBoundingBox: 0 0 ${this.formatNumber(width)} ${this.formatNumber(height)}`,
+      '%%LanguageLevel: 2',
+      '%%EndComments',
+      '%%BeginProlog',
+      '/R { rectfill } bind def',
+      '%%EndProlog',
+      'gsave',
+      this.setColor(configuration.getBackgroundColor()),
+      `0 0 ${width} ${height} rectfill`,
+      this.setColor(configuration.getForegroundColor())
+    ];
+
+    // PostScript's origin is bottom-left, so rows are flipped
+    for (const run of matrix.getDarkRuns()) {
+      const x = originX + run.col * moduleSize;
+      const y = height - originY - (run.row + 1) * moduleSize;
+      lines.push(
+        `${this.formatNumber(x)} ${this.formatNumber(y)} ${this.formatNumber(run.length * moduleSize)} ${this.formatNumber(moduleSize)} R`
+      );
+    }
+
+    lines.push('grestore', 'showpage', '%%EOF');
+
+    return Buffer.from(lines.join('\n') + '\n', 'ascii');
+  }
+
+  private setColor(color: ColorValue): string {
+    const { r, g, b } = color.getRGB();
+    return `${this.formatNumber(r / 255)} ${this.formatNumber(g / 255)} ${this.formatNumber(b / 255)} setrgbcolor`;
+  }
+
+  private formatNumber(value: number): string {
+    return parseFloat(value.toFixed(3)).toString();
+  }
+}
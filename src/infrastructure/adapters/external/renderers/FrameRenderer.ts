@@ -0,0 +1,123 @@
+import { ColorValue } from '../../../../domain/valueObjects/ColorValue';
+import { Frame, FrameLayout, FrameStyle } from '../../../../domain/valueObjects/Frame';
+
+// Rough advance width of a bold sans-serif glyph, as a fraction of the font size
+const GLYPH_WIDTH = 0.62;
+const FONT_FAMILY = 'DejaVu Sans, Arial, Helvetica, sans-serif';
+
+/**
+ * Draws call-to-action frames. Raster output rasterizes the frame document
+ * and composites the code image into `layout.code`; SVG output nests the
+ * code document at the same position, so both share one geometry.
+ */
+export class FrameRenderer {
+  // Frame document with the code area left empty for compositing
+  render(frame: Frame, layout: FrameLayout, background: ColorValue, content = ''): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}">` +
+      `<rect width="${layout.width}" height="${layout.height}" ${this.paint(background)}/>` +
+      this.buildFrame(frame, layout) +
+      this.buildLabel(frame, layout) +
+      content +
+      '</svg>';
+  }
+
+  // Wraps an SVG code document in its frame
+  wrap(svg: string, frame: Frame, layout: FrameLayout, background: ColorValue): string {
+    return this.render(frame, layout, background, this.nestDocument(svg, layout));
+  }
+
+  private buildFrame(frame: Frame, layout: FrameLayout): string {
+    const { width, height, border, label } = layout;
+    const color = this.paint(frame.getColor());
+
+    switch (frame.getStyle()) {
+      case FrameStyle.BANNER:
+        return `<path ${color} fill-rule="evenodd" d="${this.rect(0, 0, width, height, 0)}${this.rect(border, border, width - border * 2, label.y - border, 0)}"/>`;
+      case FrameStyle.BANNER_TOP: {
+        const bandBottom = label.y + label.height;
+        return `<path ${color} fill-rule="evenodd" d="${this.rect(0, 0, width, height, 0)}${this.rect(border, bandBottom, width - border * 2, height - bandBottom - border, 0)}"/>`;
+      }
+      case FrameStyle.BUBBLE: {
+        // Rounded frame around the code, a pill-shaped label and a pointer joining them
+        const frameHeight = layout.code.height + border * 2;
+        const centerX = width / 2;
+        const pointer = label.y - frameHeight;
+        return `<path ${color} fill-rule="evenodd" d="` +
+          this.rect(0, 0, width, frameHeight, border * 3) +
+          this.rect(border, border, width - border * 2, frameHeight - border * 2, border * 2) + '"/>' +
+          `<path ${color} d="${this.rect(label.x, label.y, label.width, label.height, label.height / 2)}` +
+          `M${this.formatNumber(centerX - pointer)} ${this.formatNumber(label.y + 1)}` +
+          `L${this.formatNumber(centerX)} ${this.formatNumber(frameHeight - 1)}` +
+          `L${this.formatNumber(centerX + pointer)} ${this.formatNumber(label.y + 1)}z"/>`;
+      }
+      default:
+        return `<path ${color} fill-rule="evenodd" d="${this.rect(0, 0, width, height, 0)}${this.rect(border, border, width - border * 2, height - border * 2, 0)}"/>`;
+    }
+  }
+
+  private buildLabel(frame: Frame, layout: FrameLayout): string {
+    const { label, fontSize } = layout;
+    const text = frame.getText();
+
+    // Long labels are squeezed into the band rather than overflowing it
+    const available = label.width - fontSize;
+    const estimated = text.length * fontSize * GLYPH_WIDTH;
+    const fit = estimated > available
+      ? ` textLength="${this.formatNumber(available)}" lengthAdjust="spacingAndGlyphs"`
+      : '';
+
+    // The baseline sits about a third of the font size below the band's center
+    const x = label.x + label.width / 2;
+    const y = label.y + label.height / 2 + fontSize * 0.35;
+
+    return `<text x="${this.formatNumber(x)}" y="${this.formatNumber(y)}" font-family="${FONT_FAMILY}" font-weight="bold" ` +
+      `font-size="${fontSize}" text-anchor="middle" ${this.paint(frame.getTextColor())}${fit}>${this.escape(text)}</text>`;
+  }
+
+  // Re-roots the code document at the code position inside the frame
+  private nestDocument(svg: string, layout: FrameLayout): string {
+    const document = svg.replace(/<\?xml[^>]*\?>/gi, '').replace(/<!DOCTYPE[^>]*>/gi, '').trim();
+    const match = document.match(/<svg\b([^>]*)>/i);
+    if (!match || match.index === undefined) {
+      throw new Error('Invalid SVG document: missing <svg> root element');
+    }
+
+    const attributes = match[1].replace(/\s(x|y|width|height)\s*=\s*("[^"]*"|'[^']*')/gi, '');
+    const { x, y, width, height } = layout.code;
+
+    return document.substring(0, match.index) +
+      `<svg x="${x}" y="${y}" width="${width}" height="${height}"${attributes}>` +
+      document.substring(match.index + match[0].length);
+  }
+
+  private rect(x: number, y: number, width: number, height: number, radius: number): string {
+    const r = Math.min(radius, width / 2, height / 2);
+    const arc = (dx: number, dy: number) => r > 0 ? `a${this.formatNumber(r)} ${this.formatNumber(r)} 0 0 1 ${this.formatNumber(dx)} ${this.formatNumber(dy)}` : '';
+
+    return `M${this.formatNumber(x + r)} ${this.formatNumber(y)}` +
+      `h${this.formatNumber(width - r * 2)}` + arc(r, r) +
+      `v${this.formatNumber(height - r * 2)}` + arc(-r, r) +
+      `h${this.formatNumber(-(width - r * 2))}` + arc(-r, -r) +
+      `v${this.formatNumber(-(height - r * 2))}` + arc(r, -r) +
+      'z';
+  }
+
+  private paint(color: ColorValue): string {
+    return color.isOpaque()
+      ? `fill="${color.toHex()}"`
+      : `fill="${color.toHex()}" fill-opacity="${this.formatNumber(color.getAlpha())}"`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private formatNumber(value: number): string {
+    return parseFloat(value.toFixed(3)).toString();
+  }
+}
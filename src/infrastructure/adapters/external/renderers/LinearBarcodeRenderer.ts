@@ -0,0 +1,147 @@
+import { BarcodeConfiguration } from '../../../../domain/entities/BarcodeConfiguration';
+import { ColorValue } from '../../../../domain/valueObjects/ColorValue';
+import { ValidationError } from '../../../../shared/errors';
+import { LinearSymbol } from '../encoder/LinearSymbol';
+
+// Rough advance width of a sans-serif digit, as a fraction of the font size
+const GLYPH_WIDTH = 0.6;
+const FONT_FAMILY = 'DejaVu Sans, Arial, Helvetica, sans-serif';
+
+interface LinearLayout {
+  moduleWidth: number;
+  // Left edge of the first bar
+  x: number;
+  barTop: number;
+  barBottom: number;
+  // Bottom of the guard bars, which reach into the text band
+  guardBottom: number;
+  fontSize: number;
+  baseline: number;
+}
+
+/**
+ * Draws linear symbols as SVG and rasterizes that document for PNG output.
+ * Modules are a whole number of pixels wide so every bar keeps its width
+ * ratio; the symbol and its quiet zones are centered in the image.
+ */
+export class LinearBarcodeRenderer {
+  async render(symbol: LinearSymbol, configuration: BarcodeConfiguration): Promise<Buffer> {
+    const svg = this.renderSVG(symbol, configuration);
+
+    if (configuration.getFormat().isVectorFormat()) {
+      return Buffer.from(svg, 'utf-8');
+    }
+
+    const sharp = await import('sharp');
+    return sharp.default(Buffer.from(svg, 'utf-8')).png().toBuffer();
+  }
+
+  renderSVG(symbol: LinearSymbol, configuration: BarcodeConfiguration): string {
+    const width = configuration.getSize().getWidth();
+    const height = configuration.getSize().getHeight();
+    const layout = this.createLayout(symbol, configuration);
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">` +
+      `<rect width="${width}" height="${height}" ${this.paint(configuration.getBackgroundColor())}/>` +
+      `<path ${this.paint(configuration.getForegroundColor())} d="${this.buildBars(symbol, layout)}"/>` +
+      (configuration.getShowText() ? this.buildText(symbol, layout, configuration) : '') +
+      '</svg>';
+  }
+
+  private createLayout(symbol: LinearSymbol, configuration: BarcodeConfiguration): LinearLayout {
+    const width = configuration.getSize().getWidth();
+    const height = configuration.getSize().getHeight();
+    const margin = configuration.getMargin();
+    const totalModules = symbol.quietZone.left + symbol.modules.length + symbol.quietZone.right;
+
+    const moduleWidth = Math.floor((width - margin * 2) / totalModules);
+    if (moduleWidth < 1) {
+      throw new ValidationError(
+        `A ${configuration.getType().getDisplayName()} symbol for this data is ${totalModules} modules wide with its quiet zones; ` +
+        `the image must be at least ${totalModules + margin * 2}px wide`,
+        { field: 'size', value: configuration.getSize().toString() }
+      );
+    }
+
+    const x = Math.floor((width - totalModules * moduleWidth) / 2) + symbol.quietZone.left * moduleWidth;
+    const innerHeight = height - margin * 2;
+
+    // Text scales with the bars but never takes more than a quarter of the height
+    const fontSize = configuration.getShowText()
+      ? Math.min(Math.max(10, moduleWidth * 8), Math.floor(innerHeight / 4))
+      : 0;
+    const textBand = Math.round(fontSize * 1.2);
+    const barBottom = height - margin - textBand;
+
+    return {
+      moduleWidth,
+      x,
+      barTop: margin,
+      barBottom,
+      guardBottom: barBottom + Math.round(fontSize / 2),
+      fontSize,
+      baseline: height - margin - Math.round(fontSize * 0.25)
+    };
+  }
+
+  // One rectangle per run of dark modules
+  private buildBars(symbol: LinearSymbol, layout: LinearLayout): string {
+    const { modules, guards } = symbol;
+    let path = '';
+
+    for (let start = 0; start < modules.length; start++) {
+      if (!modules[start]) continue;
+
+      let end = start;
+      while (end < modules.length && modules[end]) end++;
+
+      const isGuard = guards.some(guard => start >= guard.start && end <= guard.end);
+      const bottom = isGuard && layout.fontSize > 0 ? layout.guardBottom : layout.barBottom;
+      path += `M${layout.x + start * layout.moduleWidth} ${layout.barTop}` +
+        `h${(end - start) * layout.moduleWidth}v${bottom - layout.barTop}h${-(end - start) * layout.moduleWidth}z`;
+
+      start = end;
+    }
+
+    return path;
+  }
+
+  private buildText(symbol: LinearSymbol, layout: LinearLayout, configuration: BarcodeConfiguration): string {
+    const color = this.paint(configuration.getForegroundColor());
+
+    return symbol.text.map(group => {
+      const x = layout.x + (group.start + group.end) / 2 * layout.moduleWidth;
+      const available = (group.end - group.start) * layout.moduleWidth;
+
+      // Retail digit groups are spread across their bars; other text is only squeezed when too long
+      const estimated = group.text.length * layout.fontSize * GLYPH_WIDTH;
+      const fit = symbol.guards.length > 0 && group.text.length > 1
+        ? ` textLength="${this.formatNumber(available * 0.9)}" lengthAdjust="spacing"`
+        : estimated > available
+          ? ` textLength="${this.formatNumber(available)}" lengthAdjust="spacingAndGlyphs"`
+          : '';
+
+      return `<text x="${this.formatNumber(x)}" y="${layout.baseline}" font-family="${FONT_FAMILY}" ` +
+        `font-size="${layout.fontSize}" text-anchor="middle" ${color}${fit}>${this.escape(group.text)}</text>`;
+    }).join('');
+  }
+
+  private paint(color: ColorValue): string {
+    return color.isOpaque()
+      ? `fill="${color.toHex()}"`
+      : `fill="${color.toHex()}" fill-opacity="${this.formatNumber(color.getAlpha())}"`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private formatNumber(value: number): string {
+    return parseFloat(value.toFixed(3)).toString();
+  }
+}
@@ -0,0 +1,33 @@
+import { QRCodeConfiguration } from '../../../../domain/entities/QRCodeConfiguration';
+import { QRMatrix } from './QRMatrix';
+
+/**
+ * Serializes a QR module matrix as JSON for clients that draw the code
+ * themselves. Grids are row-major, true for dark modules; the masks mark
+ * the function patterns so clients can style them apart from the data.
+ */
+export class MatrixRenderer {
+  render(matrix: QRMatrix, configuration: QRCodeConfiguration): Buffer {
+    const grid = (test: (row: number, col: number) => boolean): boolean[][] =>
+      Array.from({ length: matrix.getSize() }, (_, row) =>
+        Array.from({ length: matrix.getSize() }, (_, col) => test(row, col))
+      );
+
+    const document = {
+      version: matrix.getVersion(),
+      errorCorrectionLevel: configuration.getErrorCorrectionLevel().toString(),
+      maskPattern: matrix.getMaskPattern(),
+      size: matrix.getSize(),
+      // Modules of light border the reader needs around the grid
+      quietZone: configuration.getQuietZone(),
+      modules: grid((row, col) => matrix.isDark(row, col)),
+      functionPatterns: {
+        finder: grid((row, col) => matrix.isFinderPattern(row, col)),
+        timing: grid((row, col) => matrix.isTimingPattern(row, col)),
+        alignment: grid((row, col) => matrix.isAlignmentPattern(row, col))
+      }
+    };
+
+    return Buffer.from(JSON.stringify(document), 'utf-8');
+  }
+}
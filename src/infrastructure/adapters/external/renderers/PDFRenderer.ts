@@ -0,0 +1,84 @@
+import { QRCodeConfiguration } from '../../../../domain/entities/QRCodeConfiguration';
+import { ColorValue } from '../../../../domain/valueObjects/ColorValue';
+import { PageSize } from '../../../../domain/valueObjects/PageSize';
+import { QRMatrix } from './QRMatrix';
+import { CanvasLayout } from './CanvasLayout';
+
+/**
+ * Renders a QR module matrix as a single-page vector PDF.
+ * Modules are emitted as filled rectangles so colors stay vector fills.
+ */
+export class PDFRenderer {
+  render(matrix: QRMatrix, configuration: QRCodeConfiguration): Buffer {
+    const pageSize = configuration.getPageSize();
+    const codeSize = PageSize.mmToPoints(configuration.getCodeSizeMm());
+
+    const pageWidth = pageSize.isFitToCode() ? codeSize : PageSize.mmToPoints(pageSize.getWidthMm());
+    const pageHeight = pageSize.isFitToCode() ? codeSize : PageSize.mmToPoints(pageSize.getHeightMm());
+
+    // The code (quiet zone and margin included) is centered on the page;
+    // the margin is taken in points, like the pixel size
+    const layout = CanvasLayout.create(matrix.getSize(), codeSize, codeSize, configuration.getQuietZone(), configuration.getMargin());
+    const moduleSize = layout.getModuleSize();
+    const codeLeft = (pageWidth - codeSize) / 2;
+    const codeTop = (pageHeight - codeSize) / 2;
+    const originX = codeLeft + layout.getSymbolLeft();
+    const originY = codeTop + layout.getSymbolTop();
+
+    const content: string[] = [
+      this.fillColor(configuration.getBackgroundColor()),
+      `${this.formatNumber(codeLeft)} ${this.formatNumber(pageHeight - codeTop - codeSize)} ${this.formatNumber(codeSize)} ${this.formatNumber(codeSize)} re f`,
+      this.fillColor(configuration.getForegroundColor())
+    ];
+
+    // PDF's origin is bottom-left, so rows are flipped
+    for (const run of matrix.getDarkRuns()) {
+      const x = originX + run.col * moduleSize;
+      const y = pageHeight - originY - (run.row + 1) * moduleSize;
+      content.push(
+        `${this.formatNumber(x)} ${this.formatNumber(y)} ${this.formatNumber(run.length * moduleSize)} ${this.formatNumber(moduleSize)} re`
+      );
+    }
+    content.push('f');
+
+    const stream = content.join('\n');
+
+    return this.buildDocument([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.formatNumber(pageWidth)} ${this.formatNumber(pageHeight)}] /Resources << >> /Contents 4 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, 'ascii')} >>\nstream\n${stream}\nendstream`,
+      '<< /Producer (api-gen-qr-code) /Title (QR Code) >>'
+    ]);
+  }
+
+  // Serializes objects (numbered from 1) with a cross-reference table
+  private buildDocument(objects: string[]): Buffer {
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(body, 'ascii'));
+      body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(body, 'ascii');
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      body += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+    body += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'ascii');
+  }
+
+  private fillColor(color: ColorValue): string {
+    const { r, g, b } = color.getRGB();
+    return `${this.formatNumber(r / 255)} ${this.formatNumber(g / 255)} ${this.formatNumber(b / 255)} rg`;
+  }
+
+  private formatNumber(value: number): string {
+    return parseFloat(value.toFixed(3)).toString();
+  }
+}
@@ -0,0 +1,117 @@
+import { getAlignmentPositions } from '../encoder/QRTables';
+
+/**
+ * Module grid of an encoded QR symbol, without quiet zone.
+ * Vector renderers draw directly from this instead of rasterizing.
+ * Data Matrix and Aztec symbols use the same grid without the QR
+ * version, mask and function patterns.
+ */
+export class QRMatrix {
+  private constructor(
+    private readonly size: number,
+    private readonly version: number,
+    private readonly maskPattern: number,
+    private readonly modules: Uint8Array,
+    private readonly functionPatterns: boolean = true
+  ) {}
+
+  // Modules are row-major, 1 for dark
+  static create(version: number, modules: Uint8Array, maskPattern: number): QRMatrix {
+    const size = version * 4 + 17;
+    if (modules.length !== size * size) {
+      throw new Error(`A version ${version} symbol has ${size * size} modules, got ${modules.length}`);
+    }
+    return new QRMatrix(size, version, maskPattern, Uint8Array.from(modules));
+  }
+
+  // Square grid of another symbology; version and mask pattern read as 0
+  static fromGrid(size: number, modules: Uint8Array): QRMatrix {
+    if (modules.length !== size * size) {
+      throw new Error(`A ${size}x${size} symbol has ${size * size} modules, got ${modules.length}`);
+    }
+    return new QRMatrix(size, 0, 0, Uint8Array.from(modules), false);
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  getMaskPattern(): number {
+    return this.maskPattern;
+  }
+
+  // False for grids of other symbologies, which have no finder, timing or alignment patterns
+  hasFunctionPatterns(): boolean {
+    return this.functionPatterns;
+  }
+
+  isDark(row: number, col: number): boolean {
+    if (row < 0 || col < 0 || row >= this.size || col >= this.size) {
+      return false;
+    }
+    return this.modules[row * this.size + col] === 1;
+  }
+
+  // True for modules inside one of the three 7x7 finder patterns
+  isFinderPattern(row: number, col: number): boolean {
+    if (!this.functionPatterns) {
+      return false;
+    }
+    const nearStart = (value: number) => value >= 0 && value < 7;
+    const nearEnd = (value: number) => value >= this.size - 7 && value < this.size;
+
+    return (nearStart(row) && nearStart(col)) ||
+      (nearStart(row) && nearEnd(col)) ||
+      (nearEnd(row) && nearStart(col));
+  }
+
+  // True for modules of the alternating row and column between the finder patterns
+  isTimingPattern(row: number, col: number): boolean {
+    if (!this.functionPatterns) {
+      return false;
+    }
+    const between = (value: number) => value >= 8 && value < this.size - 8;
+    return (row === 6 && between(col)) || (col === 6 && between(row));
+  }
+
+  // True for modules inside a 5x5 alignment pattern; none overlap the finder patterns
+  isAlignmentPattern(row: number, col: number): boolean {
+    if (!this.functionPatterns) {
+      return false;
+    }
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+
+    return positions.some((centerRow, i) => positions.some((centerCol, j) => {
+      const onFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+      return !onFinder && Math.abs(row - centerRow) <= 2 && Math.abs(col - centerCol) <= 2;
+    }));
+  }
+
+  // Horizontal runs of dark modules, used to emit fewer and larger rectangles
+  getDarkRuns(): Array<{ row: number; col: number; length: number }> {
+    const runs: Array<{ row: number; col: number; length: number }> = [];
+
+    for (let row = 0; row < this.size; row++) {
+      let col = 0;
+      while (col < this.size) {
+        if (!this.isDark(row, col)) {
+          col++;
+          continue;
+        }
+
+        const start = col;
+        while (col < this.size && this.isDark(row, col)) {
+          col++;
+        }
+        runs.push({ row, col: start, length: col - start });
+      }
+    }
+
+    return runs;
+  }
+}
@@ -0,0 +1,51 @@
+import { QRCodeConfiguration } from '../../../../domain/entities/QRCodeConfiguration';
+import { ColorValue } from '../../../../domain/valueObjects/ColorValue';
+import { QRMatrix } from './QRMatrix';
+import { CanvasLayout } from './CanvasLayout';
+
+const CHANNELS = 4;
+
+/**
+ * Renders plain square modules straight to RGBA pixels at the exact canvas
+ * size. Each pixel takes the color of the module under it, so edges stay
+ * sharp at any scale.
+ */
+export class RasterRenderer {
+  render(matrix: QRMatrix, configuration: QRCodeConfiguration): { pixels: Buffer; width: number; height: number } {
+    const size = configuration.getSize();
+    const width = size.getWidth();
+    const height = size.getHeight();
+    const quietZone = configuration.getQuietZone();
+    const layout = CanvasLayout.create(matrix.getSize(), width, height, quietZone, configuration.getMargin());
+
+    const pixels = Buffer.alloc(width * height * CHANNELS);
+    const background = this.toRGBA(configuration.getBackgroundColor());
+    const foreground = this.toRGBA(configuration.getForegroundColor());
+    for (let offset = 0; offset < pixels.length; offset += CHANNELS) {
+      background.copy(pixels, offset);
+    }
+
+    // Whole pixels for the code area; any odd pixel of padding goes right and bottom
+    const codeSize = Math.round(layout.getCodeSize());
+    const left = Math.floor(layout.getCodeLeft());
+    const top = Math.floor(layout.getCodeTop());
+    const totalModules = matrix.getSize() + quietZone * 2;
+    const moduleAt = (pixel: number) => Math.floor((pixel * totalModules) / codeSize) - quietZone;
+
+    for (let y = 0; y < codeSize; y++) {
+      const row = moduleAt(y);
+      for (let x = 0; x < codeSize; x++) {
+        if (matrix.isDark(row, moduleAt(x))) {
+          foreground.copy(pixels, ((top + y) * width + left + x) * CHANNELS);
+        }
+      }
+    }
+
+    return { pixels, width, height };
+  }
+
+  private toRGBA(color: ColorValue): Buffer {
+    const { r, g, b } = color.getRGB();
+    return Buffer.from([r, g, b, Math.round(color.getAlpha() * 255)]);
+  }
+}
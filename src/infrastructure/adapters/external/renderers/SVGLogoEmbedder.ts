@@ -0,0 +1,83 @@
+import { Logo } from '../../../../domain/valueObjects/Logo';
+
+export interface LogoImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Places a logo in the center of an SVG document, mirroring the raster
+ * overlay: the logo sits on a white circle of diameter size + 2 * margin,
+ * with size and margin expressed in output pixels.
+ */
+export class SVGLogoEmbedder {
+  embed(svg: string, logoImage: LogoImage, logo: Logo): string {
+    const root = this.parseRootElement(svg);
+    const viewBox = this.getViewBox(root.attributes);
+    const pixelWidth = parseFloat(root.attributes.width || String(viewBox.width));
+    const pixelHeight = parseFloat(root.attributes.height || String(viewBox.height));
+
+    // Convert the pixel-based logo box into the document's user units
+    const scale = Math.min(viewBox.width / pixelWidth, viewBox.height / pixelHeight);
+    const maskSize = logo.getSize() + logo.getMargin() * 2;
+    const boxSize = maskSize * scale;
+    const x = viewBox.x + (viewBox.width - boxSize) / 2;
+    const y = viewBox.y + (viewBox.height - boxSize) / 2;
+
+    const overlay =
+      `<svg x="${this.formatNumber(x)}" y="${this.formatNumber(y)}" width="${this.formatNumber(boxSize)}" height="${this.formatNumber(boxSize)}" viewBox="0 0 ${maskSize} ${maskSize}" shape-rendering="auto">` +
+      `<circle cx="${maskSize / 2}" cy="${maskSize / 2}" r="${maskSize / 2}" fill="white" stroke="#e0e0e0" stroke-width="1"/>` +
+      this.buildLogoElement(logoImage, logo) +
+      '</svg>';
+
+    const closingIndex = svg.lastIndexOf('</svg>');
+    return svg.substring(0, closingIndex) + overlay + svg.substring(closingIndex);
+  }
+
+  // SVG logos may come from third parties. Referenced through <image>, they are
+  // rendered as isolated images in which scripts, links and animations never run.
+  private buildLogoElement(logoImage: LogoImage, logo: Logo): string {
+    const size = logo.getSize();
+    const margin = logo.getMargin();
+
+    const dataUri = `data:${logoImage.mimeType};base64,${logoImage.data.toString('base64')}`;
+    return `<image x="${margin}" y="${margin}" width="${size}" height="${size}" preserveAspectRatio="xMidYMid meet" href="${dataUri}"/>`;
+  }
+
+  private parseRootElement(svg: string): { attributes: Record<string, string>; end: number } {
+    const match = svg.match(/<svg\b([^>]*)>/i);
+    if (!match || match.index === undefined) {
+      throw new Error('Invalid SVG document: missing <svg> root element');
+    }
+
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(match[1])) !== null) {
+      attributes[attribute[1]] = attribute[3] ?? attribute[4];
+    }
+
+    return { attributes, end: match.index + match[0].length };
+  }
+
+  private getViewBox(attributes: Record<string, string>): { x: number; y: number; width: number; height: number } {
+    if (attributes.viewBox) {
+      const [x, y, width, height] = attributes.viewBox.trim().split(/[\s,]+/).map(parseFloat);
+      if ([x, y, width, height].every(Number.isFinite) && width > 0 && height > 0) {
+        return { x, y, width, height };
+      }
+    }
+
+    const width = parseFloat(attributes.width);
+    const height = parseFloat(attributes.height);
+    if (Number.isFinite(width) && Number.isFinite(height) && width > 0 && height > 0) {
+      return { x: 0, y: 0, width, height };
+    }
+
+    throw new Error('Invalid SVG document: cannot determine its dimensions');
+  }
+
+  private formatNumber(value: number): string {
+    return parseFloat(value.toFixed(4)).toString();
+  }
+}
@@ -0,0 +1,239 @@
+import { QRCodeConfiguration } from '../../../../domain/entities/QRCodeConfiguration';
+import { ModuleStyle } from '../../../../domain/valueObjects/ModuleStyle';
+import { EyeStyle, EyeFrameShape, EyeBallShape, EyePosition } from '../../../../domain/valueObjects/EyeStyle';
+import { Gradient, GradientType } from '../../../../domain/valueObjects/Gradient';
+import { ColorValue } from '../../../../domain/valueObjects/ColorValue';
+import { QRMatrix } from './QRMatrix';
+import { CanvasLayout } from './CanvasLayout';
+
+// Corner radius (in modules) applied to exposed corners of data modules
+const CORNER_RADIUS: Record<ModuleStyle, number> = {
+  [ModuleStyle.SQUARE]: 0,
+  [ModuleStyle.DOTS]: 0.5,
+  [ModuleStyle.ROUNDED]: 0.25,
+  [ModuleStyle.EXTRA_ROUNDED]: 0.5,
+  [ModuleStyle.CLASSY]: 0.5
+};
+
+// Size of a finder pattern ("eye") in modules
+const EYE_SIZE = 7;
+
+const GRADIENT_ID = 'qr-foreground';
+
+/**
+ * Renders a QR module matrix as SVG with styled data modules and eyes.
+ * Raster output for styled codes is rasterized from this document, so all
+ * formats share one geometry. Eyes are drawn separately from the data
+ * modules: they follow the eye style, never the module style, to keep the
+ * code easy to locate for scanners.
+ */
+export class SVGRenderer {
+  render(matrix: QRMatrix, configuration: QRCodeConfiguration): string {
+    const size = configuration.getSize();
+    const width = size.getWidth();
+    const height = size.getHeight();
+    const quietZone = configuration.getQuietZone();
+
+    // One user unit per module with the quiet zone's corner at the origin;
+    // the viewBox extends past it by the margin and the centering padding
+    const layout = CanvasLayout.create(matrix.getSize(), width, height, quietZone, configuration.getMargin());
+    const moduleSize = layout.getModuleSize();
+    const viewWidth = width / moduleSize;
+    const viewHeight = height / moduleSize;
+    const offsetX = layout.getCodeLeft() / moduleSize;
+    const offsetY = layout.getCodeTop() / moduleSize;
+
+    const style = configuration.getModuleStyle();
+    const eyeStyle = configuration.getEyeStyle();
+    // Only all-square geometry can be snapped to the pixel grid without distortion
+    const shapeRendering = style.isSquare() && eyeStyle.hasSquareShapes() ? ' shape-rendering="crispEdges"' : '';
+    const gradient = configuration.getGradient();
+    const foreground = gradient ? `fill="url(#${GRADIENT_ID})"` : this.paint(configuration.getForegroundColor(), 'fill');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+      `viewBox="${this.formatNumber(-offsetX)} ${this.formatNumber(-offsetY)} ${this.formatNumber(viewWidth)} ${this.formatNumber(viewHeight)}"${shapeRendering}>` +
+      (gradient ? `<defs>${this.buildGradient(gradient, quietZone, matrix.getSize())}</defs>` : '') +
+      `<path ${this.paint(configuration.getBackgroundColor(), 'fill')} d="M${this.formatNumber(-offsetX)} ${this.formatNumber(-offsetY)}h${this.formatNumber(viewWidth)}v${this.formatNumber(viewHeight)}h${this.formatNumber(-viewWidth)}z"/>` +
+      `<path ${foreground} d="${this.buildModulePath(matrix, style.getValue(), quietZone)}"/>` +
+      this.buildEyes(matrix, eyeStyle, quietZone, foreground) +
+      '</svg>';
+  }
+
+  // Gradient in user space spanning the symbol, so every module samples the
+  // color at its own position rather than restarting the gradient per shape
+  private buildGradient(gradient: Gradient, quietZone: number, symbolSize: number): string {
+    const center = quietZone + symbolSize / 2;
+    const stops = gradient.getStops()
+      .map(stop => `<stop offset="${this.formatNumber(stop.offset)}" ${this.paint(stop.color, 'stop')}/>`)
+      .join('');
+
+    if (gradient.getType() === GradientType.RADIAL) {
+      const radius = (symbolSize / 2) * Math.SQRT2;
+      return `<radialGradient id="${GRADIENT_ID}" gradientUnits="userSpaceOnUse" cx="${this.formatNumber(center)}" cy="${this.formatNumber(center)}" r="${this.formatNumber(radius)}">${stops}</radialGradient>`;
+    }
+
+    // The gradient line is long enough for its end stops to reach the corners
+    const radians = (gradient.getAngle() * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    const halfLength = (symbolSize * (Math.abs(dx) + Math.abs(dy))) / 2;
+
+    return `<linearGradient id="${GRADIENT_ID}" gradientUnits="userSpaceOnUse" ` +
+      `x1="${this.formatNumber(center - dx * halfLength)}" y1="${this.formatNumber(center - dy * halfLength)}" ` +
+      `x2="${this.formatNumber(center + dx * halfLength)}" y2="${this.formatNumber(center + dy * halfLength)}">${stops}</linearGradient>`;
+  }
+
+  private buildModulePath(matrix: QRMatrix, style: ModuleStyle, quietZone: number): string {
+    const segments: string[] = [];
+
+    if (style === ModuleStyle.SQUARE) {
+      for (const run of matrix.getDarkRuns()) {
+        for (const square of this.excludeFinderModules(matrix, run)) {
+          segments.push(`M${square.col + quietZone} ${square.row + quietZone}h${square.length}v1h${-square.length}z`);
+        }
+      }
+      return segments.join('');
+    }
+
+    const size = matrix.getSize();
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (!matrix.isDark(row, col) || matrix.isFinderPattern(row, col)) {
+          continue;
+        }
+        segments.push(this.buildModule(matrix, style, row, col, quietZone));
+      }
+    }
+
+    return segments.join('');
+  }
+
+  // Keeps only the parts of a run outside the finder patterns
+  private excludeFinderModules(
+    matrix: QRMatrix,
+    run: { row: number; col: number; length: number }
+  ): Array<{ row: number; col: number; length: number }> {
+    const result: Array<{ row: number; col: number; length: number }> = [];
+    let start = -1;
+
+    for (let col = run.col; col <= run.col + run.length; col++) {
+      const isData = col < run.col + run.length && !matrix.isFinderPattern(run.row, col);
+      if (isData && start === -1) {
+        start = col;
+      } else if (!isData && start !== -1) {
+        result.push({ row: run.row, col: start, length: col - start });
+        start = -1;
+      }
+    }
+
+    return result;
+  }
+
+  private buildModule(matrix: QRMatrix, style: ModuleStyle, row: number, col: number, quietZone: number): string {
+    const x = col + quietZone;
+    const y = row + quietZone;
+    const radius = CORNER_RADIUS[style];
+
+    if (style === ModuleStyle.DOTS) {
+      return `M${x + 0.5} ${y}a${radius} ${radius} 0 1 1 0 1a${radius} ${radius} 0 1 1 0 -1z`;
+    }
+
+    // A corner is rounded only where both adjacent sides are exposed, so
+    // neighbouring modules still join into continuous shapes
+    const top = !matrix.isDark(row - 1, col);
+    const right = !matrix.isDark(row, col + 1);
+    const bottom = !matrix.isDark(row + 1, col);
+    const left = !matrix.isDark(row, col - 1);
+    const classy = style === ModuleStyle.CLASSY;
+
+    const topLeft = top && left ? radius : 0;
+    const topRight = top && right && !classy ? radius : 0;
+    const bottomRight = bottom && right ? radius : 0;
+    const bottomLeft = bottom && left && !classy ? radius : 0;
+
+    return `M${x + topLeft} ${y}` +
+      `H${x + 1 - topRight}` + this.arc(topRight, topRight, topRight) +
+      `V${y + 1 - bottomRight}` + this.arc(bottomRight, -bottomRight, bottomRight) +
+      `H${x + bottomLeft}` + this.arc(bottomLeft, -bottomLeft, -bottomLeft) +
+      `V${y + topLeft}` + this.arc(topLeft, topLeft, -topLeft) +
+      'z';
+  }
+
+  // Color attributes for a fill or gradient stop; alpha goes in a separate
+  // opacity attribute, which renderers support more widely than #RRGGBBAA
+  private paint(color: ColorValue, target: 'fill' | 'stop'): string {
+    const property = target === 'fill' ? 'fill' : 'stop-color';
+    const opacity = target === 'fill' ? 'fill-opacity' : 'stop-opacity';
+    return color.isOpaque()
+      ? `${property}="${color.toHex()}"`
+      : `${property}="${color.toHex()}" ${opacity}="${this.formatNumber(color.getAlpha())}"`;
+  }
+
+  private buildEyes(matrix: QRMatrix, eyeStyle: EyeStyle, quietZone: number, foreground: string): string {
+    if (!matrix.hasFunctionPatterns()) {
+      return '';
+    }
+
+    const far = matrix.getSize() - EYE_SIZE + quietZone;
+    const origins: Array<{ position: EyePosition; x: number; y: number }> = [
+      { position: EyePosition.TOP_LEFT, x: quietZone, y: quietZone },
+      { position: EyePosition.TOP_RIGHT, x: far, y: quietZone },
+      { position: EyePosition.BOTTOM_LEFT, x: quietZone, y: far }
+    ];
+
+    return origins.map(({ position, x, y }) => {
+      const color = eyeStyle.getColor(position);
+      const fill = color ? this.paint(color, 'fill') : foreground;
+      const d = this.buildEyeFrame(eyeStyle.getFrameShape(), x, y) + this.buildEyeBall(eyeStyle.getBallShape(), x + 2, y + 2);
+      return `<path ${fill} fill-rule="evenodd" d="${d}"/>`;
+    }).join('');
+  }
+
+  // 7x7 ring, one module thick; the inner cut-out uses the even-odd rule
+  private buildEyeFrame(shape: EyeFrameShape, x: number, y: number): string {
+    switch (shape) {
+      case EyeFrameShape.CIRCLE:
+        return this.circle(x + 3.5, y + 3.5, 3.5) + this.circle(x + 3.5, y + 3.5, 2.5);
+      case EyeFrameShape.ROUNDED:
+        return this.roundedRect(x, y, 7, 2) + this.roundedRect(x + 1, y + 1, 5, 1);
+      default:
+        return this.roundedRect(x, y, 7, 0) + this.roundedRect(x + 1, y + 1, 5, 0);
+    }
+  }
+
+  // 3x3 center of the eye
+  private buildEyeBall(shape: EyeBallShape, x: number, y: number): string {
+    switch (shape) {
+      case EyeBallShape.CIRCLE:
+        return this.circle(x + 1.5, y + 1.5, 1.5);
+      case EyeBallShape.ROUNDED:
+        return this.roundedRect(x, y, 3, 1);
+      case EyeBallShape.DIAMOND:
+        return `M${x + 1.5} ${y}L${x + 3} ${y + 1.5}L${x + 1.5} ${y + 3}L${x} ${y + 1.5}z`;
+      default:
+        return this.roundedRect(x, y, 3, 0);
+    }
+  }
+
+  private roundedRect(x: number, y: number, size: number, radius: number): string {
+    return `M${x + radius} ${y}` +
+      `h${size - radius * 2}` + this.arc(radius, radius, radius) +
+      `v${size - radius * 2}` + this.arc(radius, -radius, radius) +
+      `h${-(size - radius * 2)}` + this.arc(radius, -radius, -radius) +
+      `v${-(size - radius * 2)}` + this.arc(radius, radius, -radius) +
+      'z';
+  }
+
+  private circle(cx: number, cy: number, radius: number): string {
+    return `M${cx} ${cy - radius}a${radius} ${radius} 0 1 1 0 ${radius * 2}a${radius} ${radius} 0 1 1 0 ${-radius * 2}z`;
+  }
+
+  // Quarter circle arc to a relative point; omitted for square corners
+  private arc(radius: number, dx: number, dy: number): string {
+    return radius > 0 ? `a${radius} ${radius} 0 0 1 ${dx} ${dy}` : '';
+  }
+
+  private formatNumber(value: number): string {
+    return parseFloat(value.toFixed(3)).toString();
+  }
+}
@@ -0,0 +1,352 @@
+import { QRCodeConfiguration } from '../../../../domain/entities/QRCodeConfiguration';
+import { OutputFormat } from '../../../../domain/valueObjects/OutputFormat';
+import { Logo } from '../../../../domain/valueObjects/Logo';
+import { ILogoFetcher } from '../../../../application/ports';
+import { GenerationError, LogoFetchError, ValidationError } from '../../../../shared/errors';
+import { QRMatrix } from './QRMatrix';
+import { RasterRenderer } from './RasterRenderer';
+import { EPSRenderer } from './EPSRenderer';
+import { PDFRenderer } from './PDFRenderer';
+import { MatrixRenderer } from './MatrixRenderer';
+import { TextRenderer } from './TextRenderer';
+import { SVGRenderer } from './SVGRenderer';
+import { SVGLogoEmbedder, LogoImage } from './SVGLogoEmbedder';
+import { FrameRenderer } from './FrameRenderer';
+
+// Palette sizes for GIF output: a plain QR code only ever contains the
+// foreground and background colors, a logo or gradient needs room for more.
+const GIF_DEFAULT_COLOURS = 2;
+const GIF_RICH_COLOURS = 64;
+
+/**
+ * Turns an encoded module matrix into the requested output format: vector
+ * documents, text, or a raster image with the logo and frame composited on
+ * and converted from PNG last. Every symbology shares this pipeline.
+ */
+export class SymbolImageRenderer {
+  private readonly rasterRenderer = new RasterRenderer();
+  private readonly epsRenderer = new EPSRenderer();
+  private readonly pdfRenderer = new PDFRenderer();
+  private readonly matrixRenderer = new MatrixRenderer();
+  private readonly textRenderer = new TextRenderer();
+  private readonly svgRenderer = new SVGRenderer();
+  private readonly svgLogoEmbedder = new SVGLogoEmbedder();
+  private readonly frameRenderer = new FrameRenderer();
+
+  constructor(private readonly logoFetcher: ILogoFetcher) {}
+
+  async render(matrix: QRMatrix, configuration: QRCodeConfiguration): Promise<Buffer> {
+    const format = configuration.getFormat().getValue();
+    let imageBuffer: Buffer;
+
+    if (configuration.getFormat().isMatrixFormat()) {
+      imageBuffer = this.matrixRenderer.render(matrix, configuration);
+    } else if (configuration.getFormat().isTextFormat()) {
+      imageBuffer = this.textRenderer.render(matrix, configuration);
+    } else if (configuration.getFormat().isVectorFormat()) {
+      imageBuffer = await this.generateVector(matrix, configuration);
+    } else {
+      // Generate as buffer for raster formats; styled modules and eyes are
+      // rasterized from the SVG renderer so every format matches
+      imageBuffer = !configuration.hasCustomStyling()
+        ? await this.rasterize(matrix, configuration)
+        : await this.rasterizeSVG(this.svgRenderer.render(matrix, configuration));
+
+      // Add logo overlay if configured (on the PNG, before any conversion)
+      if (configuration.hasLogo()) {
+        imageBuffer = await this.addLogoOverlay(imageBuffer, configuration);
+      }
+
+      // Draw the call-to-action frame around the finished code
+      if (configuration.hasFrame()) {
+        imageBuffer = await this.addFrame(imageBuffer, configuration);
+      }
+
+      // Convert PNG to JPEG if requested
+      if (format === OutputFormat.JPEG || format === OutputFormat.JPG) {
+        imageBuffer = await this.convertPNGToJPEG(imageBuffer, configuration);
+      }
+
+      // Convert PNG to GIF if requested
+      if (format === OutputFormat.GIF) {
+        imageBuffer = await this.convertPNGToGIF(imageBuffer, configuration);
+      }
+
+      // Convert PNG to WebP if requested
+      if (format === OutputFormat.WEBP) {
+        imageBuffer = await this.convertPNGToWebP(imageBuffer, configuration);
+      }
+
+      // Convert PNG to AVIF if requested
+      if (format === OutputFormat.AVIF) {
+        imageBuffer = await this.convertPNGToAVIF(imageBuffer, configuration);
+      }
+    }
+
+    return imageBuffer;
+  }
+
+  private async generateVector(matrix: QRMatrix, configuration: QRCodeConfiguration): Promise<Buffer> {
+    const format = configuration.getFormat().getValue();
+
+    if (format === OutputFormat.EPS) {
+      return this.epsRenderer.render(matrix, configuration);
+    }
+
+    if (format === OutputFormat.PDF) {
+      return this.pdfRenderer.render(matrix, configuration);
+    }
+
+    // The SVG renderer lays out the exact canvas, including non-square sizes
+    let svgString = this.svgRenderer.render(matrix, configuration);
+
+    const logo = configuration.getLogo();
+    if (logo) {
+      svgString = this.svgLogoEmbedder.embed(svgString, await this.getLogoImage(logo), logo);
+    }
+
+    const frame = configuration.getFrame();
+    if (frame) {
+      const size = configuration.getSize();
+      const layout = frame.getLayout(size.getWidth(), size.getHeight());
+      svgString = this.frameRenderer.wrap(svgString, frame, layout, configuration.getBackgroundColor());
+    }
+
+    return Buffer.from(svgString, 'utf-8');
+  }
+
+  private async rasterize(matrix: QRMatrix, configuration: QRCodeConfiguration): Promise<Buffer> {
+    const sharp = await import('sharp');
+    const { pixels, width, height } = this.rasterRenderer.render(matrix, configuration);
+    return sharp.default(pixels, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  }
+
+  private async rasterizeSVG(svg: string): Promise<Buffer> {
+    const sharp = await import('sharp');
+    return sharp.default(Buffer.from(svg, 'utf-8')).png().toBuffer();
+  }
+
+  private async convertPNGToJPEG(pngBuffer: Buffer, configuration: QRCodeConfiguration): Promise<Buffer> {
+    try {
+      // For now, we'll use a simple approach. In a full implementation,
+      // you might want to use Sharp or similar for better quality conversion
+      const sharp = await import('sharp');
+      
+      // JPEG has no alpha channel, so transparent pixels are blended onto the matte
+      return await sharp.default(pngBuffer)
+        .flatten({ background: configuration.getMatteColor().toHex() })
+        .jpeg({ 
+          quality: configuration.getQuality() ?? 90
+        })
+        .toBuffer();
+    } catch (error) {
+      // Throw an error if JPEG conversion fails to avoid silent fallback to PNG
+      console.error('JPEG conversion failed:', error);
+      throw new GenerationError('Failed to convert PNG to JPEG: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async convertPNGToGIF(pngBuffer: Buffer, configuration: QRCodeConfiguration): Promise<Buffer> {
+    try {
+      const sharp = await import('sharp');
+
+      // Two colors are enough for the modules; dithering would smear module edges
+      return await sharp.default(pngBuffer)
+        .gif({
+          colours: configuration.hasLogo() || configuration.hasGradient() ? GIF_RICH_COLOURS : GIF_DEFAULT_COLOURS,
+          dither: 0,
+          effort: 10
+        })
+        .toBuffer();
+    } catch (error) {
+      console.error('GIF conversion failed:', error);
+      throw new GenerationError('Failed to convert PNG to GIF: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async convertPNGToWebP(pngBuffer: Buffer, configuration: QRCodeConfiguration): Promise<Buffer> {
+    try {
+      const sharp = await import('sharp');
+      const quality = configuration.getQuality();
+
+      // Lossless unless a quality is requested, so module edges stay crisp
+      return await sharp.default(pngBuffer)
+        .webp(quality === undefined ? { lossless: true } : { quality })
+        .toBuffer();
+    } catch (error) {
+      console.error('WebP conversion failed:', error);
+      throw new GenerationError('Failed to convert PNG to WebP: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async convertPNGToAVIF(pngBuffer: Buffer, configuration: QRCodeConfiguration): Promise<Buffer> {
+    try {
+      const sharp = await import('sharp');
+      const quality = configuration.getQuality();
+
+      // Lossless unless a quality is requested; full chroma avoids colored fringes
+      return await sharp.default(pngBuffer)
+        .avif(quality === undefined ? { lossless: true } : { quality, chromaSubsampling: '4:4:4' })
+        .toBuffer();
+    } catch (error) {
+      console.error('AVIF conversion failed:', error);
+      throw new GenerationError('Failed to convert PNG to AVIF: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async addLogoOverlay(qrBuffer: Buffer, configuration: QRCodeConfiguration): Promise<Buffer> {
+    const logo = configuration.getLogo();
+    if (!logo) {
+      return qrBuffer;
+    }
+
+    try {
+      const sharp = await import('sharp');
+      
+      // Get QR code dimensions
+      const qrImage = sharp.default(qrBuffer);
+      const qrMetadata = await qrImage.metadata();
+      const qrWidth = qrMetadata.width || 300;
+      const qrHeight = qrMetadata.height || 300;
+
+      // Download or get logo image
+      const logoImage = await this.getLogoImage(logo);
+      
+      // Process logo image
+      const logoSize = logo.getSize();
+      const logoMargin = logo.getMargin();
+      
+      // Create a circular mask for the logo background
+      const maskSize = logoSize + (logoMargin * 2);
+      const logoWithBackground = await sharp.default(logoImage.data)
+        .resize(logoSize, logoSize, { fit: 'inside' })
+        .png()
+        .toBuffer();
+
+      // Create white circular background
+      const circleBackground = Buffer.from(
+        `<svg width="${maskSize}" height="${maskSize}">
+          <circle cx="${maskSize/2}" cy="${maskSize/2}" r="${maskSize/2}" fill="white" stroke="#e0e0e0" stroke-width="1"/>
+        </svg>`
+      );
+
+      const backgroundImage = await sharp.default(circleBackground)
+        .png()
+        .toBuffer();
+
+      // Composite logo onto background
+      const logoWithBg = await sharp.default(backgroundImage)
+        .composite([{
+          input: logoWithBackground,
+          left: logoMargin,
+          top: logoMargin
+        }])
+        .png()
+        .toBuffer();
+
+      // Calculate position (center of QR code)
+      const logoLeft = Math.round((qrWidth - maskSize) / 2);
+      const logoTop = Math.round((qrHeight - maskSize) / 2);
+
+      // Composite logo onto QR code
+      const result = await qrImage
+        .composite([{
+          input: logoWithBg,
+          left: logoLeft,
+          top: logoTop
+        }])
+        .png()
+        .toBuffer();
+
+      return result;
+
+    } catch (error) {
+      // Logos that cannot be downloaded or decoded are reported to the caller
+      if (error instanceof LogoFetchError || error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Logo overlay failed:', error);
+      // Return original QR code if logo overlay fails
+      return qrBuffer;
+    }
+  }
+
+  private async addFrame(qrBuffer: Buffer, configuration: QRCodeConfiguration): Promise<Buffer> {
+    const frame = configuration.getFrame();
+    if (!frame) {
+      return qrBuffer;
+    }
+
+    const sharp = await import('sharp');
+    const size = configuration.getSize();
+    const layout = frame.getLayout(size.getWidth(), size.getHeight());
+    const background = configuration.getBackgroundColor();
+    const frameSvg = this.frameRenderer.render(frame, layout, background);
+
+    // The code image must fit the slot the frame leaves for it
+    const code = await sharp.default(qrBuffer)
+      .resize(layout.code.width, layout.code.height, { fit: 'contain', background: background.toHexWithAlpha() })
+      .png()
+      .toBuffer();
+
+    return sharp.default(Buffer.from(frameSvg, 'utf-8'))
+      .composite([{ input: code, left: layout.code.x, top: layout.code.y }])
+      .png()
+      .toBuffer();
+  }
+
+  private async getLogoImage(logo: Logo): Promise<LogoImage> {
+    // Uploaded and data URI logos already carry their image
+    const binary = logo.getBinary();
+    if (binary) {
+      return this.checkDecodable(binary);
+    }
+
+    // For predefined logos, we could have local assets
+    // For now, we'll create simple colored circles as placeholders
+    // URL-based logos are downloaded; a failed download surfaces as LogoFetchError
+    return logo.isPredefined()
+      ? this.createPredefinedLogo(logo.getSource())
+      : this.checkDecodable(await this.logoFetcher.fetch(logo.getEffectiveUrl()));
+  }
+
+  // Only the signature of a logo is sniffed, so a corrupt image is caught by decoding it
+  private async checkDecodable(logoImage: LogoImage): Promise<LogoImage> {
+    const sharp = await import('sharp');
+    try {
+      await sharp.default(logoImage.data).raw().toBuffer();
+    } catch (error) {
+      throw new ValidationError(
+        `Logo image could not be decoded: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { field: 'logo', value: logoImage.mimeType }
+      );
+    }
+    return logoImage;
+  }
+
+  private createPredefinedLogo(logoType: string): LogoImage {
+    // Color mapping for predefined logos
+    const logoColors: Record<string, string> = {
+      google: '#4285f4',
+      facebook: '#1877f2',
+      twitter: '#1da1f2',
+      linkedin: '#0077b5',
+      github: '#333333',
+      apple: '#000000'
+    };
+
+    const size = 64;
+    const color = logoColors[logoType.toLowerCase()] || '#666666';
+    
+    // Create a simple colored circle with the first letter
+    const letter = logoType.charAt(0).toUpperCase();
+    const svg = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">
+        <circle cx="${size/2}" cy="${size/2}" r="${size/2 - 2}" fill="${color}" />
+        <text x="${size/2}" y="${size/2 + 8}" text-anchor="middle" font-family="Arial, sans-serif" font-size="24" font-weight="bold" fill="white">${letter}</text>
+      </svg>
+    `;
+
+    return { data: Buffer.from(svg.trim()), mimeType: 'image/svg+xml' };
+  }
+}
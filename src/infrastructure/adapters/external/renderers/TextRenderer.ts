@@ -0,0 +1,95 @@
+import { QRCodeConfiguration } from '../../../../domain/entities/QRCodeConfiguration';
+import { OutputFormat } from '../../../../domain/valueObjects/OutputFormat';
+import { ColorValue } from '../../../../domain/valueObjects/ColorValue';
+import { QRMatrix } from './QRMatrix';
+
+// Upper and lower module of a half-block cell: neither, upper only, lower only, both
+const HALF_BLOCKS = [' ', '▀', '▄', '█'];
+
+const ANSI_RESET = '\x1b[0m';
+
+/**
+ * Renders a QR module matrix as text, one line per row (two rows per line
+ * for half blocks), with the quiet zone around it. Characters are ink in
+ * the terminal's text color: they mark the dark modules unless the
+ * foreground is lighter than the background, as on a dark terminal, where
+ * they mark the light ones so the printed code reads the same way round.
+ * ANSI output paints the real colors instead.
+ */
+export class TextRenderer {
+  render(matrix: QRMatrix, configuration: QRCodeConfiguration): Buffer {
+    const quietZone = configuration.getQuietZone();
+    const size = matrix.getSize() + quietZone * 2;
+    const isDark = (row: number, col: number) => matrix.isDark(row - quietZone, col - quietZone);
+
+    let lines: string[];
+    switch (configuration.getFormat().getValue()) {
+      case OutputFormat.UTF8:
+        lines = this.renderHalfBlocks(size, this.inkOf(isDark, size, configuration));
+        break;
+      case OutputFormat.ANSI:
+        lines = this.renderAnsi(size, isDark, configuration);
+        break;
+      default:
+        lines = this.renderAscii(size, this.inkOf(isDark, size, configuration));
+    }
+
+    return Buffer.from(lines.join('\n') + '\n', 'utf-8');
+  }
+
+  // Modules to print as ink; nothing outside the code is inked
+  private inkOf(
+    isDark: (row: number, col: number) => boolean,
+    size: number,
+    configuration: QRCodeConfiguration
+  ): (row: number, col: number) => boolean {
+    const inverted = configuration.getForegroundColor().getLuminance() > configuration.getBackgroundColor().getLuminance();
+    return (row, col) => row < size && col < size && isDark(row, col) !== inverted;
+  }
+
+  // Two characters per module keep modules roughly square in a monospace font
+  private renderAscii(size: number, isInk: (row: number, col: number) => boolean): string[] {
+    return Array.from({ length: size }, (_, row) =>
+      Array.from({ length: size }, (_, col) => (isInk(row, col) ? '##' : '  ')).join('')
+    );
+  }
+
+  private renderHalfBlocks(size: number, isInk: (row: number, col: number) => boolean): string[] {
+    const lines: string[] = [];
+    for (let row = 0; row < size; row += 2) {
+      lines.push(Array.from({ length: size }, (_, col) =>
+        HALF_BLOCKS[(isInk(row, col) ? 1 : 0) + (isInk(row + 1, col) ? 2 : 0)]
+      ).join(''));
+    }
+    return lines;
+  }
+
+  // Each module is two spaces on a 24-bit background color; a color change starts a new escape
+  private renderAnsi(size: number, isDark: (row: number, col: number) => boolean, configuration: QRCodeConfiguration): string[] {
+    const dark = this.toAnsiBackground(configuration.getForegroundColor());
+    const light = this.toAnsiBackground(configuration.getBackgroundColor());
+
+    return Array.from({ length: size }, (_, row) => {
+      let line = '';
+      let current: string | undefined;
+      for (let col = 0; col < size; col++) {
+        const color = isDark(row, col) ? dark : light;
+        if (color !== current) {
+          line += color;
+          current = color;
+        }
+        line += '  ';
+      }
+      return line + ANSI_RESET;
+    });
+  }
+
+  // Transparent colors show the terminal's own background
+  private toAnsiBackground(color: ColorValue): string {
+    if (color.isTransparent()) {
+      return '\x1b[49m';
+    }
+    const { r, g, b } = color.getRGB();
+    return `\x1b[48;2;${r};${g};${b}m`;
+  }
+}
@@ -0,0 +1,64 @@
+import { EPSRenderer } from '../EPSRenderer';
+import { QREncoder } from '../../encoder/QREncoder';
+import { QRCodeConfiguration } from '../../../../../domain/entities/QRCodeConfiguration';
+import { DataPayload } from '../../../../../domain/valueObjects/DataPayload';
+import { Size } from '../../../../../domain/valueObjects/Size';
+import { ColorValue } from '../../../../../domain/valueObjects/ColorValue';
+import { OutputFormatValue } from '../../../../../domain/valueObjects/OutputFormat';
+import { ErrorCorrectionLevel } from '../../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+
+describe('EPSRenderer', () => {
+  const encoder = new QREncoder();
+  const renderer = new EPSRenderer();
+
+  const render = (size: string, quietZone: number, margin = 0) => {
+    const matrix = encoder.encodeText('EPS test', CharsetValue.default(), ErrorCorrectionLevel.LOW);
+    const configuration = new QRCodeConfiguration({
+      data: DataPayload.create('EPS test'),
+      size: Size.fromString(size),
+      format: OutputFormatValue.create('eps'),
+      foregroundColor: ColorValue.create('#ff0000'),
+      margin,
+      quietZone
+    });
+
+    return { matrix, eps: renderer.render(matrix, configuration).toString('ascii') };
+  };
+
+  it('should emit a valid EPS header with the requested bounding box', () => {
+    const { eps } = render('300x200', 4);
+
+    expect(eps.startsWith('%!PS-Adobe-3.0 EPSF-3.0\n')).toBe(true);
+    expect(eps).toContain('%%BoundingBox: 0 0 300 200');
+    expect(eps.trim().endsWith('%%EOF')).toBe(true);
+  });
+
+  it('should draw one rectangle per horizontal run of dark modules', () => {
+    const { matrix, eps } = render('200x200', 1);
+    const rectangles = eps.split('\n').filter(line => line.endsWith(' R'));
+
+    expect(rectangles).toHaveLength(matrix.getDarkRuns().length);
+  });
+
+  it('should keep the quiet zone clear and use the foreground color', () => {
+    const { matrix, eps } = render('200x200', 4);
+    const moduleSize = 200 / (matrix.getSize() + 8);
+    const xs = eps.split('\n')
+      .filter(line => line.endsWith(' R'))
+      .map(line => parseFloat(line.split(' ')[0]));
+
+    expect(Math.min(...xs)).toBeCloseTo(4 * moduleSize, 2);
+    expect(eps).toContain('1 0 0 setrgbcolor');
+  });
+
+  it('should add the pixel margin around the quiet zone', () => {
+    const { matrix, eps } = render('200x200', 4, 20);
+    const moduleSize = 160 / (matrix.getSize() + 8);
+    const xs = eps.split('\n')
+      .filter(line => line.endsWith(' R'))
+      .map(line => parseFloat(line.split(' ')[0]));
+
+    expect(Math.min(...xs)).toBeCloseTo(20 + 4 * moduleSize, 2);
+  });
+});
@@ -0,0 +1,42 @@
+import { FrameRenderer } from '../FrameRenderer';
+import { Frame } from '../../../../../domain/valueObjects/Frame';
+import { ColorValue } from '../../../../../domain/valueObjects/ColorValue';
+
+describe('FrameRenderer', () => {
+  const renderer = new FrameRenderer();
+  const white = ColorValue.white();
+
+  it('should size the document to the framed layout and draw the label', () => {
+    const frame = Frame.create({ style: 'banner', color: ColorValue.create('#1565c0'), textSize: 20 });
+    const layout = frame.getLayout(200, 200);
+    const svg = renderer.render(frame, layout, white);
+
+    expect(svg).toContain('width="212" height="248" viewBox="0 0 212 248"');
+    expect(svg).toContain('<path fill="#1565c0" fill-rule="evenodd" d="M0 0h212v248h-212v-248zM6 6h200v200h-200v-200z"/>');
+    expect(svg).toContain('font-size="20" text-anchor="middle" fill="#ffffff">SCAN ME</text>');
+  });
+
+  it('should escape label text', () => {
+    const frame = Frame.create({ style: 'box', text: 'Tap & <go>' });
+    const svg = renderer.render(frame, frame.getLayout(200, 200), white);
+
+    expect(svg).toContain('>Tap &amp; &lt;go&gt;</text>');
+  });
+
+  it('should squeeze labels that are wider than the band', () => {
+    const frame = Frame.create({ style: 'box', text: 'SCAN TO SEE TODAY\'S LUNCH MENU', textSize: 24 });
+    const svg = renderer.render(frame, frame.getLayout(200, 200), white);
+
+    expect(svg).toContain('textLength="176" lengthAdjust="spacingAndGlyphs"');
+  });
+
+  it('should nest the code document at the code position', () => {
+    const frame = Frame.create({ style: 'banner-top', textSize: 20 });
+    const layout = frame.getLayout(200, 200);
+    const code = '<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 21 21"><path d="M0 0h1v1H0z"/></svg>';
+    const svg = renderer.wrap(code, frame, layout, white);
+
+    expect(svg).not.toContain('<?xml');
+    expect(svg).toContain('<svg x="6" y="42" width="200" height="200" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 21 21"><path d="M0 0h1v1H0z"/></svg></svg>');
+  });
+});
@@ -0,0 +1,51 @@
+import { LinearBarcodeRenderer } from '../LinearBarcodeRenderer';
+import { LinearSymbol } from '../../encoder/LinearSymbol';
+import { BarcodeConfiguration } from '../../../../../domain/entities/BarcodeConfiguration';
+import { BarcodePayload } from '../../../../../domain/valueObjects/BarcodePayload';
+import { BarcodeTypeValue } from '../../../../../domain/valueObjects/BarcodeType';
+import { Size } from '../../../../../domain/valueObjects/Size';
+
+describe('LinearBarcodeRenderer', () => {
+  const renderer = new LinearBarcodeRenderer();
+  const code128 = BarcodeTypeValue.default();
+  const configure = (size: string, showText = true) => new BarcodeConfiguration({
+    data: BarcodePayload.create('A&B', code128),
+    size: Size.fromString(size),
+    showText
+  });
+
+  // Two bars of one and two modules in a symbol with two-module quiet zones
+  const symbol: LinearSymbol = {
+    modules: [true, false, true, true],
+    quietZone: { left: 2, right: 2 },
+    guards: [],
+    text: [{ text: 'A&B', start: 0, end: 4 }]
+  };
+
+  it('should draw whole-pixel modules centered with their quiet zones', () => {
+    const svg = renderer.renderSVG(symbol, configure('83x40', false));
+
+    // 8 modules fit 10px each into 83px, leaving 3px split around the symbol
+    expect(svg).toContain('<path fill="#000000" d="M21 0h10v40h-10zM41 0h20v40h-20z"/>');
+    expect(svg).not.toContain('<text');
+  });
+
+  it('should print escaped text under shortened bars', () => {
+    const svg = renderer.renderSVG(symbol, configure('80x100'));
+
+    // Text is capped at a quarter of the height and takes 1.2 times that from the bars
+    expect(svg).toContain('d="M20 0h10v70h-10zM40 0h20v70h-20z"');
+    expect(svg).toContain('font-size="25" text-anchor="middle" fill="#000000" textLength="40" lengthAdjust="spacingAndGlyphs">A&amp;B</text>');
+  });
+
+  it('should extend guard bars into the text band', () => {
+    const svg = renderer.renderSVG({ ...symbol, guards: [{ start: 0, end: 1 }] }, configure('80x100'));
+
+    expect(svg).toContain('d="M20 0h10v83h-10zM40 0h20v70h-20z"');
+  });
+
+  it('should reject images narrower than the symbol', () => {
+    expect(() => renderer.renderSVG({ ...symbol, modules: new Array(120).fill(true) }, configure('100x40')))
+      .toThrow('A Code 128 symbol for this data is 124 modules wide with its quiet zones; the image must be at least 124px wide');
+  });
+});
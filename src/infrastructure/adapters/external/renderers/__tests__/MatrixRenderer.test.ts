@@ -0,0 +1,50 @@
+import { MatrixRenderer } from '../MatrixRenderer';
+import { QREncoder } from '../../encoder/QREncoder';
+import { QRCodeConfiguration } from '../../../../../domain/entities/QRCodeConfiguration';
+import { DataPayload } from '../../../../../domain/valueObjects/DataPayload';
+import { OutputFormatValue } from '../../../../../domain/valueObjects/OutputFormat';
+import { ErrorCorrectionLevel, ErrorCorrectionLevelValue } from '../../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+
+describe('MatrixRenderer', () => {
+  const encoder = new QREncoder();
+  const renderer = new MatrixRenderer();
+  const matrix = encoder.encodeText('Matrix test', CharsetValue.default(), ErrorCorrectionLevel.QUARTILE, { version: 7 });
+  const configuration = new QRCodeConfiguration({
+    data: DataPayload.create('Matrix test'),
+    format: OutputFormatValue.create('matrix'),
+    errorCorrectionLevel: ErrorCorrectionLevelValue.create('Q'),
+    quietZone: 4
+  });
+  const document = JSON.parse(renderer.render(matrix, configuration).toString('utf-8'));
+
+  const count = (grid: boolean[][]) => grid.flat().filter(Boolean).length;
+
+  it('should describe the symbol', () => {
+    expect(document).toMatchObject({ version: 7, errorCorrectionLevel: 'Q', maskPattern: matrix.getMaskPattern(), size: 45, quietZone: 4 });
+  });
+
+  it('should list every module row by row', () => {
+    expect(document.modules).toHaveLength(45);
+    document.modules.forEach((row: boolean[], y: number) => {
+      expect(row).toEqual(row.map((_, x) => matrix.isDark(y, x)));
+    });
+  });
+
+  it('should mark the function patterns', () => {
+    const { finder, timing, alignment } = document.functionPatterns;
+
+    expect(count(finder)).toBe(3 * 49);
+    expect(count(timing)).toBe(2 * 29);
+    // Version 7 has alignment centers at 6, 22 and 38; three of the nine sit on finder patterns
+    expect(count(alignment)).toBe(6 * 25);
+    expect(alignment[22][22] && alignment[6][22] && !alignment[6][6]).toBe(true);
+
+    // Timing modules alternate, starting dark next to the finder patterns
+    timing[6].forEach((isTiming: boolean, x: number) => {
+      if (isTiming) {
+        expect(document.modules[6][x]).toBe(x % 2 === 0);
+      }
+    });
+  });
+});
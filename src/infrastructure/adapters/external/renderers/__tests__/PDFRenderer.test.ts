@@ -0,0 +1,59 @@
+import { PDFRenderer } from '../PDFRenderer';
+import { QREncoder } from '../../encoder/QREncoder';
+import { QRCodeConfiguration } from '../../../../../domain/entities/QRCodeConfiguration';
+import { DataPayload } from '../../../../../domain/valueObjects/DataPayload';
+import { ColorValue } from '../../../../../domain/valueObjects/ColorValue';
+import { OutputFormatValue } from '../../../../../domain/valueObjects/OutputFormat';
+import { PageSize } from '../../../../../domain/valueObjects/PageSize';
+import { ErrorCorrectionLevel } from '../../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+
+describe('PDFRenderer', () => {
+  const encoder = new QREncoder();
+  const renderer = new PDFRenderer();
+  const matrix = encoder.encodeText('PDF test', CharsetValue.default(), ErrorCorrectionLevel.LOW);
+
+  const render = (pageSize?: string, codeSizeMm?: number) => {
+    const configuration = new QRCodeConfiguration({
+      data: DataPayload.create('PDF test'),
+      format: OutputFormatValue.create('pdf'),
+      foregroundColor: ColorValue.create('#0000ff'),
+      pageSize: pageSize ? PageSize.create(pageSize) : undefined,
+      codeSizeMm
+    });
+
+    return renderer.render(matrix, configuration).toString('ascii');
+  };
+
+  it('should produce a PDF whose cross-reference offsets point at each object', () => {
+    const pdf = render('a4', 50);
+    const xref = pdf.substring(pdf.indexOf('xref\n'));
+    const offsets = xref.split('\n').slice(3, 8).map(line => parseInt(line.substring(0, 10), 10));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    offsets.forEach((offset, index) => {
+      expect(pdf.substring(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+
+    const startxref = parseInt(pdf.substring(pdf.indexOf('startxref\n') + 10), 10);
+    expect(pdf.substring(startxref).startsWith('xref')).toBe(true);
+  });
+
+  it('should size the page from the selected preset', () => {
+    expect(render('a4', 50)).toContain('/MediaBox [0 0 595.276 841.89]');
+    expect(render('letter', 50)).toContain('/MediaBox [0 0 612 792]');
+    expect(render('100x150mm', 50)).toContain('/MediaBox [0 0 283.465 425.197]');
+  });
+
+  it('should fit the page to the code size by default', () => {
+    // 40mm = 113.386pt
+    expect(render(undefined, 40)).toContain('/MediaBox [0 0 113.386 113.386]');
+  });
+
+  it('should keep colors as vector fills', () => {
+    const pdf = render('a4', 50);
+
+    expect(pdf).toContain('0 0 1 rg');
+    expect(pdf).toMatch(/ re\nf\n/);
+  });
+});
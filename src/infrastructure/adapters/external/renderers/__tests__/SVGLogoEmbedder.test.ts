@@ -0,0 +1,37 @@
+import { SVGLogoEmbedder } from '../SVGLogoEmbedder';
+import { Logo } from '../../../../../domain/valueObjects/Logo';
+
+describe('SVGLogoEmbedder', () => {
+  const embedder = new SVGLogoEmbedder();
+  const qrSvg = '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 25 25"><path d="M0 0h25v25H0z"/></svg>';
+  const logo = Logo.create('google', 40, 5);
+
+  it('should inline raster logos as a data URI image', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const result = embedder.embed(qrSvg, { data: png, mimeType: 'image/png' }, logo);
+
+    expect(result).toContain(`href="data:image/png;base64,${png.toString('base64')}"`);
+    expect(result).toContain('width="40" height="40"');
+    expect(result.endsWith('</svg>')).toBe(true);
+  });
+
+  it('should center the circular background using pixel-based size and margin', () => {
+    const result = embedder.embed(qrSvg, { data: Buffer.from('x'), mimeType: 'image/png' }, logo);
+
+    // 50px box in a 200px image with 25 user units: 6.25 units, centered at 9.375
+    expect(result).toContain('<svg x="9.375" y="9.375" width="6.25" height="6.25" viewBox="0 0 50 50"');
+    expect(result).toContain('<circle cx="25" cy="25" r="25" fill="white"');
+  });
+
+  it('should reference SVG logos as isolated images so their markup never becomes part of the document', () => {
+    const svgLogo = '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 10 20">' +
+      '<script xlink:href="https://evil.example/x.js"/><a href="&#106;avascript:alert(1)"><rect width="10" height="20"/></a>' +
+      '<set attributeName="href" to="javascript:alert(1)"/></svg>';
+    const result = embedder.embed(qrSvg, { data: Buffer.from(svgLogo), mimeType: 'image/svg+xml' }, logo);
+
+    expect(result).toContain(`href="data:image/svg+xml;base64,${Buffer.from(svgLogo).toString('base64')}"`);
+    expect(result).not.toContain('<script');
+    expect(result).not.toContain('<set');
+    expect(result).not.toContain('avascript');
+  });
+});
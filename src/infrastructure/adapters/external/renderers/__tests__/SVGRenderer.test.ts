@@ -0,0 +1,197 @@
+import { SVGRenderer } from '../SVGRenderer';
+import { QREncoder } from '../../encoder/QREncoder';
+import { QRCodeConfiguration } from '../../../../../domain/entities/QRCodeConfiguration';
+import { DataPayload } from '../../../../../domain/valueObjects/DataPayload';
+import { Size } from '../../../../../domain/valueObjects/Size';
+import { ColorValue } from '../../../../../domain/valueObjects/ColorValue';
+import { OutputFormatValue } from '../../../../../domain/valueObjects/OutputFormat';
+import { ModuleStyleValue } from '../../../../../domain/valueObjects/ModuleStyle';
+import { EyeStyle, EyePosition } from '../../../../../domain/valueObjects/EyeStyle';
+import { Gradient } from '../../../../../domain/valueObjects/Gradient';
+import { ErrorCorrectionLevel } from '../../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+
+describe('SVGRenderer', () => {
+  const encoder = new QREncoder();
+  const renderer = new SVGRenderer();
+  const matrix = encoder.encodeText('SVG test', CharsetValue.default(), ErrorCorrectionLevel.LOW);
+
+  const render = (style: string, size = '200x200', quietZone = 2, eyeStyle?: EyeStyle) => renderer.render(matrix, new QRCodeConfiguration({
+    data: DataPayload.create('SVG test'),
+    size: Size.fromString(size),
+    format: OutputFormatValue.create('svg'),
+    foregroundColor: ColorValue.create('#112233'),
+    margin: 0,
+    quietZone,
+    moduleStyle: ModuleStyleValue.create(style),
+    eyeStyle
+  }));
+
+  it('should size the document in pixels with one user unit per module', () => {
+    const svg = render('square');
+    const total = matrix.getSize() + 4;
+
+    expect(svg).toContain(`width="200" height="200" viewBox="0 0 ${total} ${total}"`);
+    expect(svg).toContain('shape-rendering="crispEdges"');
+    expect(svg).toContain('fill="#112233"');
+  });
+
+  it('should center the code on the longer side of non-square sizes', () => {
+    const svg = render('square', '300x200', 0);
+    const size = matrix.getSize();
+    const viewWidth = size * 1.5;
+
+    expect(svg).toContain(`viewBox="${-(viewWidth - size) / 2} 0 ${viewWidth} ${size}"`);
+  });
+
+  it('should keep the pixel margin outside the quiet zone', () => {
+    const svg = renderer.render(matrix, new QRCodeConfiguration({
+      data: DataPayload.create('SVG test'),
+      size: Size.fromString('200x100'),
+      format: OutputFormatValue.create('svg'),
+      margin: 10,
+      quietZone: 4
+    }));
+    const total = matrix.getSize() + 8;
+    // 80px of code holds `total` modules; the margin and centering padding extend the viewBox
+    const moduleSize = 80 / total;
+    const offsetX = parseFloat((60 / moduleSize).toFixed(3));
+    const offsetY = parseFloat((10 / moduleSize).toFixed(3));
+
+    expect(svg).toContain(`width="200" height="100" viewBox="${-offsetX} ${-offsetY} `);
+    expect(svg).toContain('M4 4h7v7h-7v-7z');
+  });
+
+  it('should draw dots as circles for data modules only', () => {
+    const svg = render('dots');
+    const circles = svg.match(/a0\.5 0\.5 0 1 1 0 1/g) || [];
+
+    let dataModules = 0;
+    for (let row = 0; row < matrix.getSize(); row++) {
+      for (let col = 0; col < matrix.getSize(); col++) {
+        if (matrix.isDark(row, col) && !matrix.isFinderPattern(row, col)) {
+          dataModules++;
+        }
+      }
+    }
+
+    expect(circles).toHaveLength(dataModules);
+    // Eyes keep their square frame
+    expect(svg).toContain('M2 2h7v7h-7v-7z');
+  });
+
+  it('should round only exposed corners', () => {
+    expect(render('rounded')).toContain('a0.25 0.25 0 0 1');
+    expect(render('extra-rounded')).toContain('a0.5 0.5 0 0 1');
+  });
+
+  it('should round only the top-left and bottom-right corners in classy style', () => {
+    const svg = render('classy');
+
+    // Top-right (+,+) and bottom-left (-,-) arcs never appear
+    expect(svg).not.toContain('0 0 1 0.5 0.5');
+    expect(svg).not.toContain('0 0 1 -0.5 -0.5');
+    expect(svg).toContain('0 0 1 0.5 -0.5');
+  });
+
+  describe('eyes', () => {
+    const far = matrix.getSize() - 7 + 2;
+
+    it('should draw each eye with its own color, falling back to the foreground', () => {
+      const svg = render('square', '200x200', 2, EyeStyle.create({
+        color: ColorValue.create('#0000aa'),
+        colors: { [EyePosition.TOP_RIGHT]: ColorValue.create('#aa0000') }
+      }));
+
+      expect(svg).toContain('<path fill="#0000aa" fill-rule="evenodd" d="M2 2h7v7h-7v-7z');
+      expect(svg).toContain(`<path fill="#aa0000" fill-rule="evenodd" d="M${far} 2h7v7h-7v-7z`);
+      expect(svg).toContain(`<path fill="#0000aa" fill-rule="evenodd" d="M2 ${far}h7v7h-7v-7z`);
+      expect(render('square')).toContain('<path fill="#112233" fill-rule="evenodd"');
+    });
+
+    it('should draw circular frames and balls', () => {
+      const svg = render('square', '200x200', 2, EyeStyle.create({ frame: 'circle', ball: 'circle' }));
+
+      // Outer ring r=3.5, inner cut-out r=2.5 and a 1.5 ball, centered at 5.5
+      expect(svg).toContain('M5.5 2a3.5 3.5 0 1 1 0 7a3.5 3.5 0 1 1 0 -7z');
+      expect(svg).toContain('M5.5 3a2.5 2.5 0 1 1 0 5');
+      expect(svg).toContain('M5.5 4a1.5 1.5 0 1 1 0 3');
+      expect(svg).not.toContain('crispEdges');
+    });
+
+    it('should draw rounded frames and diamond balls', () => {
+      const svg = render('square', '200x200', 2, EyeStyle.create({ frame: 'rounded', ball: 'diamond' }));
+
+      expect(svg).toContain('M4 2h3a2 2 0 0 1 2 2');
+      expect(svg).toContain('M5.5 4L7 5.5L5.5 7L4 5.5z');
+    });
+  });
+
+  describe('gradients', () => {
+    const renderGradient = (gradient: Gradient, eyeStyle?: EyeStyle) => renderer.render(matrix, new QRCodeConfiguration({
+      data: DataPayload.create('SVG test'),
+      size: Size.fromString('200x200'),
+      format: OutputFormatValue.create('svg'),
+      margin: 0,
+      gradient,
+      eyeStyle
+    }));
+
+    it('should span a linear gradient across the symbol at the given angle', () => {
+      const size = matrix.getSize();
+      const svg = renderGradient(Gradient.create('linear', '#ff0000, #0000ff', 0));
+
+      expect(svg).toContain(`<linearGradient id="qr-foreground" gradientUnits="userSpaceOnUse" x1="0" y1="${size / 2}" x2="${size}" y2="${size / 2}">`);
+      expect(svg).toContain('<stop offset="0" stop-color="#ff0000"/><stop offset="1" stop-color="#0000ff"/>');
+      expect(svg).toContain('<path fill="url(#qr-foreground)" d="');
+      // Square geometry stays pixel-snapped
+      expect(svg).toContain('shape-rendering="crispEdges"');
+    });
+
+    it('should center radial gradients on the symbol', () => {
+      const center = matrix.getSize() / 2;
+      const svg = renderGradient(Gradient.create('radial', '#000000, #1565c0'));
+
+      expect(svg).toContain(`<radialGradient id="qr-foreground" gradientUnits="userSpaceOnUse" cx="${center}" cy="${center}"`);
+    });
+
+    it('should fill eyes with the gradient unless they have their own color', () => {
+      const svg = renderGradient(
+        Gradient.create('linear', '#ff0000, #0000ff'),
+        EyeStyle.create({ colors: { [EyePosition.TOP_LEFT]: ColorValue.create('#00aa00') } })
+      );
+
+      expect(svg.match(/<path fill="url\(#qr-foreground\)" fill-rule="evenodd"/g)).toHaveLength(2);
+      expect(svg).toContain('<path fill="#00aa00" fill-rule="evenodd"');
+    });
+  });
+
+  describe('transparency', () => {
+    it('should carry alpha in opacity attributes', () => {
+      const svg = renderer.render(matrix, new QRCodeConfiguration({
+        data: DataPayload.create('SVG test'),
+        size: Size.fromString('200x200'),
+        format: OutputFormatValue.create('svg'),
+        foregroundColor: ColorValue.create('0-0-128-0.75'),
+        backgroundColor: ColorValue.transparent(),
+        eyeStyle: EyeStyle.create({ frame: 'circle' })
+      }));
+
+      expect(svg).toContain('<path fill="#000000" fill-opacity="0" d="');
+      expect(svg).toContain('<path fill="#000080" fill-opacity="0.75" d="');
+      expect(svg).toContain('<path fill="#000080" fill-opacity="0.75" fill-rule="evenodd"');
+    });
+
+    it('should carry alpha on gradient stops', () => {
+      const svg = renderer.render(matrix, new QRCodeConfiguration({
+        data: DataPayload.create('SVG test'),
+        size: Size.fromString('200x200'),
+        format: OutputFormatValue.create('svg'),
+        gradient: Gradient.create('linear', '#000000, #0000ff80')
+      }));
+
+      expect(svg).toContain('<stop offset="1" stop-color="#0000ff" stop-opacity="0.502"/>');
+    });
+  });
+});
+
@@ -0,0 +1,68 @@
+import { TextRenderer } from '../TextRenderer';
+import { QREncoder } from '../../encoder/QREncoder';
+import { QRCodeConfiguration } from '../../../../../domain/entities/QRCodeConfiguration';
+import { DataPayload } from '../../../../../domain/valueObjects/DataPayload';
+import { ColorValue } from '../../../../../domain/valueObjects/ColorValue';
+import { OutputFormatValue } from '../../../../../domain/valueObjects/OutputFormat';
+import { ErrorCorrectionLevel } from '../../../../../domain/valueObjects/ErrorCorrectionLevel';
+import { CharsetValue } from '../../../../../domain/valueObjects/Charset';
+
+describe('TextRenderer', () => {
+  const encoder = new QREncoder();
+  const renderer = new TextRenderer();
+  const matrix = encoder.encodeText('Text test', CharsetValue.default(), ErrorCorrectionLevel.LOW);
+
+  const render = (format: string, options: { quietZone?: number; color?: string; bgcolor?: string } = {}) => {
+    const configuration = new QRCodeConfiguration({
+      data: DataPayload.create('Text test'),
+      format: OutputFormatValue.create(format),
+      quietZone: options.quietZone,
+      foregroundColor: options.color ? ColorValue.create(options.color) : undefined,
+      backgroundColor: options.bgcolor ? ColorValue.create(options.bgcolor) : undefined
+    });
+    return renderer.render(matrix, configuration).toString('utf-8').split('\n').slice(0, -1);
+  };
+
+  it('should draw each module as two ASCII characters inside the quiet zone', () => {
+    const lines = render('txt', { quietZone: 2 });
+
+    expect(lines).toHaveLength(25);
+    expect(lines.every(line => line.length === 50)).toBe(true);
+    expect(lines[0].trim()).toBe('');
+    expect(lines[2]).toBe('    ' + '##############' + lines[2].substring(18));
+    lines.slice(2, 23).forEach((line, row) => {
+      for (let col = 0; col < 21; col++) {
+        expect(line.substring(4 + col * 2, 6 + col * 2)).toBe(matrix.isDark(row, col) ? '##' : '  ');
+      }
+    });
+  });
+
+  it('should ink the light modules when the foreground is lighter than the background', () => {
+    const normal = render('txt');
+    const inverted = render('txt', { color: '#ffffff', bgcolor: '#000000' });
+
+    expect(inverted[0].startsWith('              ##')).toBe(true);
+    inverted.forEach((line, row) => {
+      expect(line).toBe([...normal[row]].map(char => (char === '#' ? ' ' : '#')).join(''));
+    });
+  });
+
+  it('should pack two rows into each line of half blocks', () => {
+    const lines = render('utf8', { quietZone: 1 });
+
+    // 23 rows including the quiet zone; the last line only has an upper half
+    expect(lines).toHaveLength(12);
+    expect(lines[0]).toBe(' ' + '▄▄▄▄▄▄▄' + lines[0].substring(8));
+    expect(lines[0]).toHaveLength(23);
+    expect(lines[11]).toBe(' '.repeat(23));
+    expect(lines.join('')).toMatch(/^[ ▀▄█]+$/);
+  });
+
+  it('should paint modules in the requested colors for ANSI terminals', () => {
+    const lines = render('ansi', { color: '#102030', bgcolor: 'transparent', quietZone: 1 });
+
+    expect(lines).toHaveLength(23);
+    expect(lines[0]).toBe('\x1b[49m' + ' '.repeat(46) + '\x1b[0m');
+    expect(lines[1].startsWith('\x1b[49m  \x1b[48;2;16;32;48m' + ' '.repeat(14) + '\x1b[49m')).toBe(true);
+  });
+});
@@ -1,14 +1,14 @@
-import { ICacheRepository } from '../../../application/ports';
+import { Cacheable, ICacheRepository } from '../../../application/ports';
 import { QRCode } from '../../../domain/entities/QRCode';
 
-interface CacheEntry {
-  qrCode: QRCode;
+interface CacheEntry<T> {
+  item: T;
   expiresAt: number;
   createdAt: number;
 }
 
-export class InMemoryCacheRepository implements ICacheRepository {
-  private cache = new Map<string, CacheEntry>();
+export class InMemoryCacheRepository<T extends Cacheable = QRCode> implements ICacheRepository<T> {
+  private cache = new Map<string, CacheEntry<T>>();
   private stats = {
     hits: 0,
     misses: 0,
@@ -24,7 +24,7 @@ export class InMemoryCacheRepository implements ICacheRepository {
     setInterval(() => this.cleanup(), 60000); // Cleanup every minute
   }
 
-  async get(key: string): Promise<QRCode | null> {
+  async get(key: string): Promise<T | null> {
     const entry = this.cache.get(key);
 
     if (!entry) {
@@ -40,10 +40,10 @@ export class InMemoryCacheRepository implements ICacheRepository {
     }
 
     this.stats.hits++;
-    return entry.qrCode;
+    return entry.item;
   }
 
-  async set(key: string, qrCode: QRCode, ttlSeconds?: number): Promise<void> {
+  async set(key: string, item: T, ttlSeconds?: number): Promise<void> {
     const ttl = (ttlSeconds || this.defaultTTL) * 1000; // Convert to milliseconds
     const now = Date.now();
 
@@ -52,8 +52,8 @@ export class InMemoryCacheRepository implements ICacheRepository {
       this.evictOldest();
     }
 
-    const entry: CacheEntry = {
-      qrCode,
+    const entry: CacheEntry<T> = {
+      item,
       expiresAt: now + ttl,
       createdAt: now,
     };
@@ -139,8 +139,8 @@ export class InMemoryCacheRepository implements ICacheRepository {
 
     for (const entry of this.cache.values()) {
       // Approximate memory usage calculation
-      totalSize += entry.qrCode.getDataSize();
-      totalSize += JSON.stringify(entry.qrCode.toJSON()).length * 2; // Rough estimate for metadata
+      totalSize += entry.item.getDataSize();
+      totalSize += JSON.stringify(entry.item.toJSON()).length * 2; // Rough estimate for metadata
     }
 
     return totalSize;
@@ -175,7 +175,7 @@ export class InMemoryCacheRepository implements ICacheRepository {
   }
 
   // Get cache entry info without affecting stats
-  inspectEntry(key: string): CacheEntry | null {
+  inspectEntry(key: string): CacheEntry<T> | null {
     return this.cache.get(key) || null;
   }
 }
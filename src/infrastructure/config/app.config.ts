@@ -32,6 +32,13 @@ export interface AppConfig {
     defaultSize: string;
     allowedFormats: string[];
   };
+  logoFetch: {
+    maxBytes: number;
+    timeoutMs: number;
+    maxRedirects: number;
+    cacheMaxEntries: number;
+    cacheTtlMs: number;
+  };
   security: {
     helmet: boolean;
     rateLimitEnabled: boolean;
@@ -67,10 +74,17 @@ export const defaultConfig: AppConfig = {
     threshold: 1024 // Compress responses > 1KB
   },
   qrGeneration: {
-    maxDataLength: 900,
+    maxDataLength: parseInt(process.env.QR_MAX_DATA_LENGTH || '7089', 10), // Numeric capacity of version 40 at level L
     defaultFormat: 'png',
     defaultSize: '200x200',
-    allowedFormats: ['png', 'jpg', 'jpeg', 'svg']
+    allowedFormats: ['png', 'gif', 'jpg', 'jpeg', 'webp', 'avif', 'svg', 'eps', 'pdf', 'matrix', 'txt', 'utf8', 'ansi']
+  },
+  logoFetch: {
+    maxBytes: parseInt(process.env.LOGO_FETCH_MAX_BYTES || '1048576', 10), // 1MB
+    timeoutMs: parseInt(process.env.LOGO_FETCH_TIMEOUT_MS || '5000', 10),
+    maxRedirects: parseInt(process.env.LOGO_FETCH_MAX_REDIRECTS || '3', 10),
+    cacheMaxEntries: parseInt(process.env.LOGO_CACHE_MAX_ENTRIES || '100', 10),
+    cacheTtlMs: parseInt(process.env.LOGO_CACHE_TTL_MS || '300000', 10) // 5 minutes
   },
   security: {
     helmet: true,
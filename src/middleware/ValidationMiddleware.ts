@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { SimpleLogger } from '../infrastructure/adapters/external/SimpleLogger';
+import { Logo } from '../domain/valueObjects/Logo';
+import { ScanImage } from '../domain/valueObjects/ScanImage';
 
 export interface ValidationMiddlewareOptions {
   logger?: SimpleLogger;
@@ -67,21 +70,21 @@ export class ValidationMiddleware {
         // Validate content type for POST requests
         if (req.method === 'POST') {
           const contentType = req.headers['content-type'];
-          if (!contentType || !contentType.includes('application/json')) {
+          if (!contentType || !(contentType.includes('application/json') || this.isMultipart(req))) {
             this.logger.warn('Invalid content type', {
               requestId,
               contentType,
-              expected: 'application/json',
+              expected: 'application/json or multipart/form-data',
             });
 
             return res.status(400).json({
               success: false,
               error: {
                 code: 'INVALID_CONTENT_TYPE',
-                message: 'Content-Type must be application/json for POST requests',
+                message: 'Content-Type must be application/json or multipart/form-data for POST requests',
                 details: {
                   received: contentType,
-                  expected: 'application/json',
+                  expected: 'application/json or multipart/form-data',
                 },
               },
               meta: {
@@ -147,6 +150,59 @@ export class ValidationMiddleware {
     };
   }
 
+  /**
+   * Parses multipart/form-data requests, keeping an uploaded "logo" file in memory.
+   * Other content types pass through untouched.
+   */
+  parseLogoUpload() {
+    return this.parseUpload('logo', Logo.MAX_BINARY_BYTES, 'INVALID_LOGO_UPLOAD');
+  }
+
+  /**
+   * Same as parseLogoUpload for the "image" file of QR code reading requests.
+   */
+  parseImageUpload() {
+    return this.parseUpload('image', ScanImage.MAX_BYTES, 'INVALID_IMAGE_UPLOAD');
+  }
+
+  private parseUpload(field: string, maxBytes: number, invalidCode: string) {
+    const upload = multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: maxBytes, files: 1 },
+    }).single(field);
+    const label = field.charAt(0).toUpperCase() + field.slice(1);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+      upload(req, res, (error?: unknown) => {
+        if (!error) {
+          return next();
+        }
+
+        const requestId = req.headers['x-request-id'] as string || 'unknown';
+        const tooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE';
+
+        this.logger.warn(`${label} upload rejected`, {
+          requestId,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+
+        return res.status(tooLarge ? 413 : 400).json({
+          success: false,
+          error: {
+            code: tooLarge ? 'REQUEST_TOO_LARGE' : invalidCode,
+            message: tooLarge
+              ? `${label} file exceeds maximum allowed size (${maxBytes} bytes)`
+              : `Invalid ${field} upload: ${error instanceof Error ? error.message : String(error)}`,
+          },
+          meta: {
+            timestamp: new Date().toISOString(),
+            requestId,
+          },
+        });
+      });
+    };
+  }
+
   /**
    * Rate limiting middleware (basic implementation)
    */
@@ -245,7 +301,10 @@ export class ValidationMiddleware {
 
   private sanitizeObject(obj: any): void {
     for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === 'string') {
+      if (key === 'logo' && typeof value === 'string' && /^\s*data:image\//i.test(value)) {
+        // Base64 payloads can contain sequences like "onA=" that the patterns below would corrupt
+        obj[key] = value.trim();
+      } else if (typeof value === 'string') {
         // Basic sanitization - remove potential XSS patterns
         obj[key] = value
           .trim()
@@ -288,17 +347,27 @@ export class ValidationMiddleware {
       errors.push('Parameter "bgcolor" must be a string');
     }
     
-    if (params.margin !== undefined && typeof params.margin !== 'number') {
+    // Query parameters and form fields always arrive as strings, so GET and
+    // multipart requests may send numeric strings
+    const acceptsStrings = req.method !== 'POST' || this.isMultipart(req);
+    const isNumber = (value: unknown) =>
+      typeof value === 'number' || (acceptsStrings && typeof value === 'string' && /^-?\d+$/.test(value));
+
+    if (params.margin !== undefined && !isNumber(params.margin)) {
       errors.push('Parameter "margin" must be a number');
     }
     
-    if (params.qzone !== undefined && typeof params.qzone !== 'number') {
+    if (params.qzone !== undefined && !isNumber(params.qzone)) {
       errors.push('Parameter "qzone" must be a number');
     }
 
     return errors;
   }
 
+  private isMultipart(req: Request): boolean {
+    return (req.headers['content-type'] || '').includes('multipart/form-data');
+  }
+
   private getClientId(req: Request): string {
     // Use IP address as basic client identifier
     // In production, you might want to use more sophisticated identification
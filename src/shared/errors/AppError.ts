@@ -63,3 +63,28 @@ export class ConfigurationError extends AppError {
 
   public field?: string;
 }
+
+export class LogoFetchError extends AppError {
+  constructor(message: string, url?: string) {
+    super(message, 'LOGO_FETCH_ERROR', 422);
+    this.url = url;
+  }
+
+  public url?: string;
+}
+
+export class ScanVerificationError extends AppError {
+  constructor(message: string, attempts: ScanAttempt[]) {
+    super(message, 'SCAN_VERIFICATION_FAILED', 422);
+    this.attempts = attempts;
+  }
+
+  public attempts: ScanAttempt[];
+}
+
+// One render-and-scan round of a verified generation
+export interface ScanAttempt {
+  errorCorrectionLevel: string;
+  result: 'unreadable' | 'mismatch';
+  decodedText?: string;
+}